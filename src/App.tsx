@@ -1,30 +1,230 @@
-import { useState } from 'react';
+import { ChangeEvent, useEffect, useRef, useState } from 'react';
 import { ReactFlowProvider } from '@xyflow/react';
 import DropZone from './components/DropZone';
 import GraphView from './components/GraphView';
 import FileTree from './components/FileTree';
-import { HelmChart } from './types';
-import { parseHelmChart } from './parser/helm-parser';
+import RenderPreview from './components/RenderPreview';
+import CodeViewer from './components/CodeViewer';
+import ValuesLayersPanel from './components/ValuesLayersPanel';
+import DiffView from './components/DiffView';
+import { ChartBuild, GraphViewState, HelmChart, LoadProgress, SavedSession, SourceLocation, ValuesOverrides } from './types';
+import { ChartWorkerClient, createChartWorkerClient } from './worker/chart-worker-client';
+import { FolderWatcher, WatchedFolder, getSnapshotFiles, watchChartFolder } from './parser/chart-folder';
+import { createSavedSession, getSessionFileName, getSessionFiles, parseSessionFile, serializeSession } from './session/session-file';
+import { loadLastSession, saveLastSession } from './session/session-store';
+import { readPermalink, writePermalink } from './session/permalink';
+import { downloadBlob } from './components/download';
+
+const NO_OVERRIDES: ValuesOverrides = { files: [], set: [] };
+
+// The session is stored once changes have settled for this long
+const SAVE_DELAY_MS = 1000;
 
 function App() {
-  const [helmChart, setHelmChart] = useState<HelmChart | null>(null);
+  const [chartBuild, setChartBuild] = useState<ChartBuild | null>(null);
+  const [chartFiles, setChartFiles] = useState<Map<string, string> | null>(null);
+  const [valuesOverrides, setValuesOverrides] = useState<ValuesOverrides>(NO_OVERRIDES);
   const [selectedFile, setSelectedFile] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null);
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [isSourceOpen, setIsSourceOpen] = useState(false);
+  const [sourceLocation, setSourceLocation] = useState<SourceLocation | null>(null);
+  const [compareChart, setCompareChart] = useState<HelmChart | null>(null);
+  const [isCompareDropOpen, setIsCompareDropOpen] = useState(false);
+  const [watchedFolder, setWatchedFolder] = useState<string | null>(null);
+  const [restoredView, setRestoredView] = useState<Partial<GraphViewState> | null>(null);
+  const [viewState, setViewState] = useState<GraphViewState | null>(null);
+  const [lastSession, setLastSession] = useState<SavedSession | null>(null);
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const workerRef = useRef<ChartWorkerClient | null>(null);
+  const watcherRef = useRef<FolderWatcher | null>(null);
+  const sessionInputRef = useRef<HTMLInputElement>(null);
+  const helmChart = chartBuild?.chart ?? null;
+
+  useEffect(() => () => watcherRef.current?.stop(), []);
+
+  // Offer the last session, and reopen it straight away when the URL points at its chart
+  useEffect(() => {
+    let cancelled = false;
+    loadLastSession()
+      .then((session) => {
+        if (cancelled) return;
+        setLastSession(session);
+        if (session && readPermalink()?.chart === session.chart.name) {
+          loadChart(getSessionFiles(session), session);
+        }
+      })
+      .catch((error) => console.error('Error reading the saved session:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Keep the session in IndexedDB so Reset or a reload can bring it back
+  useEffect(() => {
+    if (!helmChart || !chartFiles) return;
+    const timer = setTimeout(() => {
+      const session = createSavedSession(helmChart, chartFiles, valuesOverrides, selectedFile, viewState);
+      saveLastSession(session)
+        .then(() => setLastSession(session))
+        .catch((error) => console.error('Error saving the session:', error));
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [helmChart, chartFiles, valuesOverrides, selectedFile, viewState]);
+
+  // Mirror the selection and filter in the URL hash, for links to this view
+  useEffect(() => {
+    if (!helmChart) return;
+    writePermalink({
+      chart: helmChart.name,
+      selectedFile,
+      filter: viewState?.filter ?? null,
+      focusedNodeId: viewState?.focusedNodeId ?? null,
+      layout: viewState?.layout ?? 'columns',
+    });
+  }, [helmChart, selectedFile, viewState]);
+
+  const stopWatching = () => {
+    watcherRef.current?.stop();
+    watcherRef.current = null;
+    setWatchedFolder(null);
+  };
 
-  const handleFilesDropped = async (files: Map<string, string>) => {
+  // Parsing, layout and lint run in a worker that keeps the chart for updates
+  const getWorker = () => {
+    workerRef.current ??= createChartWorkerClient();
+    return workerRef.current;
+  };
+
+  // Load a chart and restore the session's view, or the view the URL links to for this chart
+  const loadChart = async (files: Map<string, string>, session?: SavedSession): Promise<boolean> => {
+    stopWatching();
     setIsLoading(true);
+    setLoadProgress(null);
+    setSessionError(null);
+    let loaded = false;
     try {
-      const chart = parseHelmChart(files);
-      setHelmChart(chart);
+      const overrides = session?.overrides ?? NO_OVERRIDES;
+      const build = await getWorker().load(files, overrides, setLoadProgress);
+      const link = readPermalink();
+      if (session) {
+        setRestoredView(session.view);
+        setSelectedFile(session.selectedFile);
+      } else if (link?.chart === build.chart.name) {
+        setRestoredView({ filter: link.filter, focusedNodeId: link.focusedNodeId, layout: link.layout });
+        setSelectedFile(link.selectedFile);
+      } else {
+        setRestoredView(null);
+      }
+      setChartBuild(build);
+      setChartFiles(files);
+      setValuesOverrides(overrides);
+      loaded = true;
     } catch (error) {
       console.error('Error parsing Helm chart:', error);
     }
     setIsLoading(false);
+    return loaded;
+  };
+
+  const handleFilesDropped = (files: Map<string, string>) => loadChart(files);
+
+  const handleSessionPicked = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const session = parseSessionFile(await file.text());
+      await loadChart(getSessionFiles(session), session);
+    } catch (error) {
+      setSessionError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleSaveSession = () => {
+    if (!helmChart || !chartFiles) return;
+    const session = createSavedSession(helmChart, chartFiles, valuesOverrides, selectedFile, viewState);
+    downloadBlob(new Blob([serializeSession(session)], { type: 'application/json' }), getSessionFileName(session));
+  };
+
+  // Load a folder opened from disk and re-parse the files that change in it
+  const handleFolderOpened = async (folder: WatchedFolder) => {
+    if (!(await handleFilesDropped(getSnapshotFiles(folder.snapshot)))) return;
+    watcherRef.current = watchChartFolder(folder, handleFolderChanges, (error) => {
+      console.error(`Stopped watching ${folder.handle.name}:`, error);
+      stopWatching();
+    });
+    setWatchedFolder(folder.handle.name);
+  };
+
+  // Patch the graph in place; the selection survives unless its file is gone
+  const handleFolderChanges = async (changes: Map<string, string | null>) => {
+    try {
+      setChartBuild(await getWorker().update(changes));
+      setChartFiles((files) => {
+        const updated = new Map(files);
+        changes.forEach((content, path) => (content === null ? updated.delete(path) : updated.set(path, content)));
+        return updated;
+      });
+      const deleted = Array.from(changes).filter(([, content]) => content === null).map(([path]) => path);
+      setSelectedFile((file) => (file && deleted.some((path) => path.endsWith(`/${file}`)) ? null : file));
+    } catch (error) {
+      console.error('Error updating Helm chart:', error);
+    }
+  };
+
+  // Load a second version of the chart to diff the current one against
+  const handleCompareFilesDropped = async (files: Map<string, string>) => {
+    setIsLoading(true);
+    setLoadProgress(null);
+    const worker = createChartWorkerClient();
+    try {
+      setCompareChart((await worker.load(files, undefined, setLoadProgress)).chart);
+      setIsCompareDropOpen(false);
+    } catch (error) {
+      console.error('Error parsing Helm chart to compare:', error);
+    }
+    worker.terminate();
+    setIsLoading(false);
+  };
+
+  const handleOverridesChange = async (overrides: ValuesOverrides) => {
+    if (!chartBuild) return;
+    try {
+      setChartBuild(await getWorker().setOverrides(overrides));
+      setValuesOverrides(overrides);
+    } catch (error) {
+      console.error('Error applying values overrides:', error);
+    }
+  };
+
+  const handleSelectFile = (file: string | null) => {
+    setSelectedFile(file);
+    setSourceLocation(null);
+  };
+
+  // Show a line in the source pane, e.g. where a reference is written or where it points
+  const handleNavigate = (location: SourceLocation) => {
+    setSelectedFile(location.file);
+    setSourceLocation(location);
+    setIsSourceOpen(true);
   };
 
   const handleReset = () => {
-    setHelmChart(null);
+    stopWatching();
+    writePermalink(null);
+    setChartBuild(null);
+    setChartFiles(null);
+    setRestoredView(null);
+    setViewState(null);
+    setValuesOverrides(NO_OVERRIDES);
     setSelectedFile(null);
+    setIsPreviewOpen(false);
+    setIsSourceOpen(false);
+    setSourceLocation(null);
+    setCompareChart(null);
+    setIsCompareDropOpen(false);
   };
 
   return (
@@ -37,46 +237,204 @@ function App() {
             Helm Chart Visualizer
           </h1>
         </div>
-        {helmChart && (
-          <button
-            onClick={handleReset}
-            className="px-4 py-1.5 text-sm bg-helm-border hover:bg-helm-red/20 hover:border-helm-red text-helm-text rounded-md border border-helm-border transition-colors"
-          >
-            Reset
-          </button>
+        {helmChart && compareChart && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-helm-text/60">
+              Comparing {helmChart.version} → {compareChart.version}
+            </span>
+            <button
+              onClick={() => setCompareChart(null)}
+              className="px-4 py-1.5 text-sm bg-helm-border hover:bg-helm-accent/20 hover:border-helm-accent text-helm-text rounded-md border border-helm-border transition-colors"
+            >
+              Exit compare
+            </button>
+          </div>
+        )}
+        {helmChart && !compareChart && (
+          <div className="flex items-center gap-2">
+            {watchedFolder && (
+              <button
+                onClick={stopWatching}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm text-helm-text/60 hover:text-helm-text transition-colors"
+                title="Changes on disk update the graph. Click to stop watching."
+              >
+                <span className="w-2 h-2 rounded-full bg-helm-green animate-pulse" />
+                Watching {watchedFolder}
+              </button>
+            )}
+            <button
+              onClick={() => setIsCompareDropOpen(true)}
+              className="px-4 py-1.5 text-sm bg-helm-border hover:bg-helm-accent/20 hover:border-helm-accent text-helm-text rounded-md border border-helm-border transition-colors"
+              title="Load another version of this chart and diff it against the current one"
+            >
+              Compare
+            </button>
+            <button
+              onClick={() => setIsSourceOpen((open) => !open)}
+              className={`px-4 py-1.5 text-sm text-helm-text rounded-md border transition-colors ${
+                isSourceOpen
+                  ? 'bg-helm-accent/20 border-helm-accent'
+                  : 'bg-helm-border border-helm-border hover:bg-helm-accent/20 hover:border-helm-accent'
+              }`}
+            >
+              Source
+            </button>
+            <button
+              onClick={() => setIsPreviewOpen((open) => !open)}
+              className={`px-4 py-1.5 text-sm text-helm-text rounded-md border transition-colors ${
+                isPreviewOpen
+                  ? 'bg-helm-accent/20 border-helm-accent'
+                  : 'bg-helm-border border-helm-border hover:bg-helm-accent/20 hover:border-helm-accent'
+              }`}
+            >
+              Preview
+            </button>
+            <button
+              onClick={handleSaveSession}
+              className="px-4 py-1.5 text-sm bg-helm-border hover:bg-helm-accent/20 hover:border-helm-accent text-helm-text rounded-md border border-helm-border transition-colors"
+              title="Download the chart with the selection, filter, layout and node positions as a session file"
+            >
+              Save session
+            </button>
+            <button
+              onClick={handleReset}
+              className="px-4 py-1.5 text-sm bg-helm-border hover:bg-helm-red/20 hover:border-helm-red text-helm-text rounded-md border border-helm-border transition-colors"
+            >
+              Reset
+            </button>
+          </div>
         )}
       </header>
 
       {/* Main Content */}
       <main className="flex-1 flex overflow-hidden">
-        {!helmChart ? (
-          <div className="flex-1 flex items-center justify-center p-8">
-            <DropZone onFilesDropped={handleFilesDropped} isLoading={isLoading} />
+        {!chartBuild ? (
+          <div className="flex-1 flex flex-col items-center justify-center gap-4 p-8">
+            <DropZone
+              onFilesDropped={handleFilesDropped}
+              onFolderOpened={handleFolderOpened}
+              isLoading={isLoading}
+              progress={loadProgress}
+            />
+            {!isLoading && (
+              <div className="flex items-center gap-2">
+                {lastSession && (
+                  <button
+                    onClick={() => loadChart(getSessionFiles(lastSession), lastSession)}
+                    className="px-4 py-1.5 text-sm bg-helm-border hover:bg-helm-accent/20 hover:border-helm-accent text-helm-text rounded-md border border-helm-border transition-colors"
+                    title={`Saved ${new Date(lastSession.savedAt).toLocaleString()}`}
+                  >
+                    Restore {lastSession.chart.name} {lastSession.chart.version}
+                  </button>
+                )}
+                <button
+                  onClick={() => sessionInputRef.current?.click()}
+                  className="px-4 py-1.5 text-sm bg-helm-border hover:bg-helm-accent/20 hover:border-helm-accent text-helm-text rounded-md border border-helm-border transition-colors"
+                >
+                  Open session file
+                </button>
+                <input
+                  ref={sessionInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={handleSessionPicked}
+                />
+              </div>
+            )}
+            {sessionError && (
+              <div className="bg-helm-red/20 border border-helm-red/50 rounded-lg px-4 py-2">
+                <p className="text-helm-red text-sm">{sessionError}</p>
+              </div>
+            )}
+          </div>
+        ) : compareChart ? (
+          <div className="flex-1 relative">
+            <ReactFlowProvider>
+              <DiffView base={chartBuild.chart} head={compareChart} />
+            </ReactFlowProvider>
           </div>
         ) : (
           <>
             {/* Sidebar */}
-            <aside className="w-64 flex-shrink-0 border-r border-helm-border bg-helm-surface overflow-y-auto">
-              <FileTree
-                chart={helmChart}
-                selectedFile={selectedFile}
-                onSelectFile={setSelectedFile}
-              />
+            <aside className="w-64 flex-shrink-0 border-r border-helm-border bg-helm-surface flex flex-col">
+              <div className="flex-1 min-h-0 overflow-y-auto">
+                <FileTree
+                  chart={chartBuild.chart}
+                  selectedFile={selectedFile}
+                  onSelectFile={handleSelectFile}
+                />
+              </div>
+              <div className="flex-shrink-0 max-h-[40%] overflow-y-auto border-t border-helm-border">
+                <ValuesLayersPanel
+                  chart={chartBuild.chart}
+                  overrides={valuesOverrides}
+                  onChange={handleOverridesChange}
+                />
+              </div>
             </aside>
 
             {/* Graph View */}
             <div className="flex-1 relative">
               <ReactFlowProvider>
                 <GraphView
-                  chart={helmChart}
+                  chart={chartBuild.chart}
+                  graph={chartBuild.graph}
+                  graphPatch={chartBuild.patch}
+                  diagnostics={chartBuild.diagnostics}
+                  worker={getWorker()}
+                  initialView={restoredView}
+                  onViewChange={setViewState}
                   selectedFile={selectedFile}
-                  onSelectFile={setSelectedFile}
+                  onSelectFile={handleSelectFile}
+                  onNavigate={handleNavigate}
                 />
               </ReactFlowProvider>
             </div>
+
+            {/* Source of the selected file */}
+            {isSourceOpen && (
+              <aside className="w-[36rem] max-w-[40vw] flex-shrink-0 border-l border-helm-border">
+                <CodeViewer
+                  chart={chartBuild.chart}
+                  filePath={selectedFile}
+                  location={sourceLocation}
+                  onNavigate={handleNavigate}
+                  onClose={() => setIsSourceOpen(false)}
+                />
+              </aside>
+            )}
+
+            {/* Rendered output of the selected template */}
+            {isPreviewOpen && (
+              <aside className="w-[40rem] max-w-[50vw] flex-shrink-0 border-l border-helm-border">
+                <RenderPreview
+                  chart={chartBuild.chart}
+                  filePath={selectedFile}
+                  onSelectFile={handleSelectFile}
+                  onClose={() => setIsPreviewOpen(false)}
+                />
+              </aside>
+            )}
           </>
         )}
       </main>
+
+      {/* Second version to compare against */}
+      {isCompareDropOpen && (
+        <div className="fixed inset-0 z-50 bg-helm-bg/80 backdrop-blur-sm flex flex-col items-center justify-center gap-4 p-8">
+          <p className="text-helm-text/80">
+            Drop the version to compare {helmChart?.name} {helmChart?.version} with
+          </p>
+          <DropZone onFilesDropped={handleCompareFilesDropped} isLoading={isLoading} progress={loadProgress} />
+          <button
+            onClick={() => setIsCompareDropOpen(false)}
+            className="px-4 py-1.5 text-sm bg-helm-border hover:bg-helm-red/20 hover:border-helm-red text-helm-text rounded-md border border-helm-border transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
     </div>
   );
 }
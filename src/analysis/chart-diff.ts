@@ -0,0 +1,311 @@
+import {
+  ChangelogEntry,
+  ChangelogSection,
+  ChartDiff,
+  HelmChart,
+  KubernetesResource,
+  MetadataChange,
+  NamedChange,
+  ReferenceMove,
+  ValueChange,
+  ValueKey,
+} from '../types';
+import { getParentPath } from './value-paths';
+
+// Chart.yaml fields compared between versions
+const METADATA_FIELDS = ['version', 'appVersion', 'apiVersion', 'type', 'description'] as const;
+
+// Reference types whose moves between templates are reported
+const MOVABLE_REFERENCE_TYPES = new Set(['values', 'include', 'template']);
+
+/**
+ * Structural differences between two versions of a chart: Chart.yaml fields
+ * and dependencies, values keys (added, removed, renamed, new defaults),
+ * helpers, files, resources, and references that moved between templates
+ */
+export function diffCharts(base: HelmChart, head: HelmChart): ChartDiff {
+  return {
+    base: { name: base.name, version: base.version },
+    head: { name: head.name, version: head.version },
+    metadata: diffMetadata(base, head),
+    values: diffValues(base.values.flatKeys, head.values.flatKeys),
+    helpers: diffNamed(
+      new Map(base.helpers.map(helper => [helper.name, helper])),
+      new Map(head.helpers.map(helper => [helper.name, helper])),
+      (before, after) => {
+        if (before.file !== after.file) return `moved from ${before.file} to ${after.file}`;
+        return before.content.trim() !== after.content.trim() ? 'definition changed' : null;
+      }
+    ),
+    files: diffNamed(
+      new Map(base.files.map(file => [file.path, file])),
+      new Map(head.files.map(file => [file.path, file])),
+      (before, after) => (before.content !== after.content ? 'content changed' : null)
+    ),
+    resources: diffNamed(
+      new Map(base.resources.map(resource => [getResourceKey(resource), resource])),
+      new Map(head.resources.map(resource => [getResourceKey(resource), resource])),
+      (before, after) => {
+        if (before.file !== after.file) return `moved from ${before.file} to ${after.file}`;
+        return before.apiVersion !== after.apiVersion ? `apiVersion ${before.apiVersion} → ${after.apiVersion}` : null;
+      }
+    ),
+    movedReferences: findMovedReferences(base, head),
+  };
+}
+
+/**
+ * Identity of a resource across versions: its kind and name as written
+ */
+export function getResourceKey(resource: KubernetesResource): string {
+  return `${resource.kind}/${resource.name ?? '(unnamed)'}`;
+}
+
+/**
+ * The diff as changelog sections, skipping empty ones
+ */
+export function getChangelogSections(diff: ChartDiff): ChangelogSection[] {
+  const sections: ChangelogSection[] = [
+    {
+      title: 'Chart',
+      entries: diff.metadata.map((change): ChangelogEntry => {
+        const subject = { type: 'file' as const, name: 'Chart.yaml' };
+        if (change.before === undefined) return { text: `Added ${change.field} ${change.after}`, status: 'added', subject };
+        if (change.after === undefined) return { text: `Removed ${change.field} ${change.before}`, status: 'removed', subject };
+        return { text: `${change.field}: ${change.before} → ${change.after}`, status: 'changed', subject };
+      }),
+    },
+    {
+      title: 'Values',
+      entries: diff.values.map((change): ChangelogEntry => {
+        const subject = { type: 'value' as const, name: change.path };
+        switch (change.status) {
+          case 'added':
+            return { text: `Added \`${change.path}\` (default ${formatValue(change.after)})`, status: 'added', subject };
+          case 'removed':
+            return { text: `Removed \`${change.path}\``, status: 'removed', subject };
+          case 'renamed':
+            return { text: `Renamed \`${change.previousPath}\` to \`${change.path}\``, status: 'renamed', subject };
+          default:
+            return {
+              text: `Changed default of \`${change.path}\`: ${formatValue(change.before)} → ${formatValue(change.after)}`,
+              status: 'changed',
+              subject,
+            };
+        }
+      }),
+    },
+    {
+      title: 'Helpers',
+      entries: diff.helpers.map(change => describeNamedChange(change, `\`${change.name}\``, 'helper')),
+    },
+    {
+      title: 'Resources',
+      entries: diff.resources.map(change => describeNamedChange(change, change.name, 'resource')),
+    },
+    {
+      title: 'Moved references',
+      entries: diff.movedReferences.map((move): ChangelogEntry => ({
+        text: `\`${move.type === 'values' ? `.Values.${move.target}` : `"${move.target}"`}\` moved from ${move.from.join(', ')} to ${move.to.join(', ')}`,
+        status: 'changed',
+        subject: { type: move.type === 'values' ? 'value' : 'helper', name: move.target },
+      })),
+    },
+    {
+      title: 'Files',
+      entries: diff.files.map(change => describeNamedChange(change, change.name, 'file')),
+    },
+  ];
+
+  return sections.filter(section => section.entries.length > 0);
+}
+
+/**
+ * The diff as a Markdown changelog
+ */
+export function formatChangelog(diff: ChartDiff): string {
+  const lines = [`# ${diff.head.name} ${diff.base.version} → ${diff.head.version}`, ''];
+  const sections = getChangelogSections(diff);
+
+  sections.forEach(section => {
+    lines.push(`## ${section.title}`, '', ...section.entries.map(entry => `- ${entry.text}`), '');
+  });
+  if (sections.length === 0) lines.push('No structural changes.', '');
+
+  return lines.join('\n');
+}
+
+/**
+ * Chart.yaml fields and dependencies
+ */
+function diffMetadata(base: HelmChart, head: HelmChart): MetadataChange[] {
+  const changes: MetadataChange[] = [];
+
+  METADATA_FIELDS.forEach(field => {
+    const before = base.chartYaml[field];
+    const after = head.chartYaml[field];
+    if (before !== after) changes.push({ field, before, after });
+  });
+
+  const baseDependencies = new Map((base.chartYaml.dependencies ?? []).map(dep => [dep.alias ?? dep.name, dep]));
+  const headDependencies = new Map((head.chartYaml.dependencies ?? []).map(dep => [dep.alias ?? dep.name, dep]));
+  new Set([...baseDependencies.keys(), ...headDependencies.keys()]).forEach(name => {
+    const before = baseDependencies.get(name)?.version;
+    const after = headDependencies.get(name)?.version;
+    if (before !== after) changes.push({ field: `dependency ${name}`, before, after });
+  });
+
+  return changes;
+}
+
+/**
+ * Compare values keys. List items are compared as part of their list, and
+ * whole added or removed objects are reported once at their top key. A
+ * removed key and an added key with the same default are taken as a rename
+ * when they share a key name or a parent (`replicaCount: 3` -> `replicas: 3`),
+ * or the default is distinctive enough to be unambiguous, and no other
+ * removed or added key matches either of them.
+ */
+function diffValues(baseKeys: ValueKey[], headKeys: ValueKey[]): ValueChange[] {
+  const toMap = (keys: ValueKey[]) => new Map(keys.filter(key => !key.path.includes('[')).map(key => [key.path, key]));
+  const before = toMap(baseKeys);
+  const after = toMap(headKeys);
+
+  const topmost = (paths: string[]) => {
+    const set = new Set(paths);
+    return paths.filter(path => {
+      const parent = getParentPath(path);
+      return !parent || !set.has(parent);
+    });
+  };
+  let removed = topmost(Array.from(before.keys()).filter(path => !after.has(path)));
+  let added = topmost(Array.from(after.keys()).filter(path => !before.has(path)));
+
+  const changes: ValueChange[] = [];
+
+  // Renames: pairs that only match each other
+  const isCandidate = (oldPath: string, newPath: string) => {
+    const oldValue = before.get(oldPath)!.value;
+    if (JSON.stringify(oldValue) !== JSON.stringify(after.get(newPath)!.value)) return false;
+    return getKeyName(oldPath) === getKeyName(newPath) ||
+      getParentPath(oldPath) === getParentPath(newPath) ||
+      isDistinctive(oldValue);
+  };
+  const renamed = new Map<string, string>();
+  removed.forEach(oldPath => {
+    const candidates = added.filter(newPath => isCandidate(oldPath, newPath));
+    if (candidates.length !== 1) return;
+    const reverse = removed.filter(other => isCandidate(other, candidates[0]));
+    if (reverse.length === 1) renamed.set(oldPath, candidates[0]);
+  });
+  renamed.forEach((newPath, oldPath) => {
+    changes.push({ path: newPath, status: 'renamed', previousPath: oldPath, before: before.get(oldPath)!.value, after: after.get(newPath)!.value });
+  });
+  removed = removed.filter(path => !renamed.has(path));
+  added = added.filter(path => !Array.from(renamed.values()).includes(path));
+
+  added.forEach(path => changes.push({ path, status: 'added', after: after.get(path)!.value }));
+  removed.forEach(path => changes.push({ path, status: 'removed', before: before.get(path)!.value }));
+
+  // New defaults; objects only change through their keys
+  before.forEach((oldKey, path) => {
+    const newKey = after.get(path);
+    if (!newKey || (oldKey.type === 'object' && newKey.type === 'object')) return;
+    if (JSON.stringify(oldKey.value) !== JSON.stringify(newKey.value)) {
+      changes.push({ path, status: 'changed', before: oldKey.value, after: newKey.value });
+    }
+  });
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Added, removed and changed entries between two keyed collections
+ */
+function diffNamed<T>(
+  before: Map<string, T>,
+  after: Map<string, T>,
+  describeChange: (before: T, after: T) => string | null
+): NamedChange[] {
+  const changes: NamedChange[] = [];
+
+  after.forEach((item, name) => {
+    const previous = before.get(name);
+    if (previous === undefined) {
+      changes.push({ name, status: 'added' });
+      return;
+    }
+    const detail = describeChange(previous, item);
+    if (detail) changes.push({ name, status: 'changed', detail });
+  });
+  before.forEach((_item, name) => {
+    if (!after.has(name)) changes.push({ name, status: 'removed' });
+  });
+
+  return changes.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Values and helpers read by different templates than before, where both
+ * versions still read them somewhere
+ */
+function findMovedReferences(base: HelmChart, head: HelmChart): ReferenceMove[] {
+  const collect = (chart: HelmChart) => {
+    const files = new Map<string, Set<string>>();
+    chart.references
+      .filter(ref => MOVABLE_REFERENCE_TYPES.has(ref.type))
+      .forEach(ref => {
+        const key = `${ref.type}\0${ref.target.path}`;
+        files.set(key, (files.get(key) || new Set()).add(ref.source.file));
+      });
+    return files;
+  };
+  const before = collect(base);
+  const after = collect(head);
+  const moves: ReferenceMove[] = [];
+
+  before.forEach((oldFiles, key) => {
+    const newFiles = after.get(key);
+    if (!newFiles) return;
+    const from = Array.from(oldFiles).filter(file => !newFiles.has(file)).sort();
+    const to = Array.from(newFiles).filter(file => !oldFiles.has(file)).sort();
+    if (from.length === 0 || to.length === 0) return;
+
+    const [type, target] = key.split('\0');
+    moves.push({ type: type as ReferenceMove['type'], target, from, to });
+  });
+
+  return moves.sort((a, b) => a.target.localeCompare(b.target));
+}
+
+function getKeyName(path: string): string {
+  const parent = getParentPath(path);
+  return parent ? path.slice(parent.length + 1) : path;
+}
+
+/**
+ * Values unlikely to be shared by unrelated keys
+ */
+function isDistinctive(value: unknown): boolean {
+  if (typeof value === 'string') return value.length >= 4;
+  if (typeof value === 'number') return !Number.isInteger(value) || Math.abs(value) > 10;
+  return typeof value === 'object' && value !== null && JSON.stringify(value).length > 8;
+}
+
+function describeNamedChange(
+  change: NamedChange,
+  name: string,
+  type: 'helper' | 'file' | 'resource'
+): ChangelogEntry {
+  const verb = change.status === 'added' ? 'Added' : change.status === 'removed' ? 'Removed' : 'Changed';
+  return {
+    text: `${verb} ${name}${change.detail ? ` (${change.detail})` : ''}`,
+    status: change.status,
+    subject: { type, name: change.name },
+  };
+}
+
+function formatValue(value: unknown): string {
+  const text = JSON.stringify(value) ?? 'undefined';
+  return `\`${text.length > 60 ? `${text.slice(0, 57)}...` : text}\``;
+}
@@ -0,0 +1,44 @@
+import { ChartFileAccess, HelmChart } from '../types';
+import { globToRegExp, isAccessibleChartFile } from '../render/chart-files';
+
+// `.Files` methods that read the single file they are given
+const SINGLE_FILE_METHODS = new Set(['Get', 'GetBytes', 'Lines']);
+
+// Methods of `.Files` itself that read every accessible file
+const ALL_FILES_METHODS = new Set(['AsConfig', 'AsSecrets']);
+
+/**
+ * Resolve each `.Files` reference against the loaded chart files. Literal
+ * paths and globs that match nothing are returned with no matches; paths
+ * computed at render time (e.g. `.Files.Get $path`) are left unresolved.
+ */
+export function resolveFilesAccess(chart: HelmChart): ChartFileAccess[] {
+  const accessible = chart.files.filter(isAccessibleChartFile).map(file => file.path);
+
+  return chart.references
+    .filter(ref => ref.type === 'files')
+    .map(ref => {
+      const method = ref.expression.match(/\.Files\.(\w+)/)?.[1] ?? ref.target.path;
+      // The parser only keeps a string argument when one is written
+      const pattern = ref.expression.includes('"') ? ref.target.path : undefined;
+
+      let matches: string[] = [];
+      if (pattern !== undefined && SINGLE_FILE_METHODS.has(method)) {
+        matches = accessible.filter(path => path === pattern);
+      } else if (pattern !== undefined && method === 'Glob') {
+        const regex = globToRegExp(pattern);
+        matches = accessible.filter(path => regex.test(path));
+      } else if (pattern === undefined && ALL_FILES_METHODS.has(method)) {
+        matches = accessible;
+      }
+
+      return { reference: ref, method, pattern, matches };
+    });
+}
+
+/**
+ * Accesses with a literal path or glob that no chart file satisfies
+ */
+export function getMissingFilesAccess(chart: HelmChart): ChartFileAccess[] {
+  return resolveFilesAccess(chart).filter(access => access.pattern !== undefined && access.matches.length === 0);
+}
@@ -0,0 +1,124 @@
+import yaml from 'js-yaml';
+import { HelmChart, KubernetesResource, ManifestCache, RenderedManifest } from '../types';
+import { definesNamedTemplates } from '../parser/template-ast';
+import { TemplateRenderer, createTemplateRenderer } from '../render/template-renderer';
+
+// Path of the pod template in each workload kind ('' for a bare Pod)
+const POD_TEMPLATE_PATHS: Record<string, string> = {
+  Deployment: 'spec.template',
+  StatefulSet: 'spec.template',
+  DaemonSet: 'spec.template',
+  ReplicaSet: 'spec.template',
+  Job: 'spec.template',
+  CronJob: 'spec.jobTemplate.spec.template',
+  Pod: '',
+};
+
+/**
+ * Render each template with the chart's values and pair the resulting
+ * documents with the resources found in its source, in order within each kind.
+ * With a cache, templates are only rendered again when their content or
+ * something every template can read (values, Chart.yaml, files, named
+ * templates, including those of subcharts) changed since they were cached.
+ */
+export function renderManifests(chart: HelmChart, cache?: ManifestCache): RenderedManifest[] {
+  // Parsing every template is most of the cost, so only when something is rendered
+  let renderer: TemplateRenderer | null = null;
+  const inputs = cache ? JSON.stringify(getRenderInputs(chart)) : '';
+  const contents = new Map(chart.files.map(file => [file.path, file.content]));
+  const manifests: RenderedManifest[] = [];
+  const resourcesByFile = new Map<string, KubernetesResource[]>();
+  chart.resources.forEach(resource => {
+    resourcesByFile.set(resource.file, [...(resourcesByFile.get(resource.file) || []), resource]);
+  });
+
+  resourcesByFile.forEach((resources, filePath) => {
+    const key = `${chart.subchart?.path ?? ''}:${chart.name}/${filePath}`;
+    const content = contents.get(filePath) ?? '';
+    let cached = cache?.get(key);
+    if (!cached || cached.content !== content || cached.inputs !== inputs) {
+      renderer ??= createTemplateRenderer(chart);
+      cached = { content, inputs, documents: renderDocuments(renderer, filePath) };
+      cache?.set(key, cached);
+    }
+
+    const renderedByKind = new Map<string, Record<string, unknown>[]>();
+    cached.documents.forEach(doc => {
+      const kind = doc.kind as string;
+      renderedByKind.set(kind, [...(renderedByKind.get(kind) || []), doc]);
+    });
+
+    resources.forEach(resource => {
+      manifests.push({ resource, manifest: renderedByKind.get(resource.kind)?.shift() ?? null });
+    });
+  });
+
+  return manifests;
+}
+
+/**
+ * The documents a template renders to that have a kind; none when it fails
+ * to render or its output is not valid YAML
+ */
+function renderDocuments(renderer: TemplateRenderer, filePath: string): Record<string, unknown>[] {
+  const result = renderer.render(filePath);
+  if (result.error) return [];
+
+  const documents: Record<string, unknown>[] = [];
+  try {
+    yaml.loadAll(result.output, (doc) => {
+      if (isObject(doc) && typeof doc.kind === 'string') documents.push(doc);
+    });
+  } catch {
+    return [];
+  }
+  return documents;
+}
+
+/**
+ * Everything besides its own content that a template's output depends on.
+ * The renderer registers the named templates of subcharts as well, so
+ * theirs count too.
+ */
+function getRenderInputs(chart: HelmChart): unknown[] {
+  return [
+    chart.values.raw,
+    chart.chartYaml,
+    chart.files
+      .filter(file => file.type !== 'template' || definesNamedTemplates(file.content))
+      .map(file => [file.path, file.content]),
+    chart.subcharts.map(getRenderInputs),
+  ];
+}
+
+/**
+ * Where a workload kind keeps its pod template; undefined for other kinds
+ */
+export function getPodTemplatePath(kind: string): string | undefined {
+  return POD_TEMPLATE_PATHS[kind];
+}
+
+/**
+ * The pod spec of a rendered workload manifest
+ */
+export function getPodSpec(manifest: Record<string, unknown>): Record<string, unknown> | null {
+  const podTemplate = getPodTemplatePath(String(manifest.kind));
+  if (podTemplate === undefined) return null;
+  const spec = getField(manifest, podTemplate ? `${podTemplate}.spec` : 'spec');
+  return isObject(spec) ? spec : null;
+}
+
+/**
+ * Read a dotted field path from a manifest
+ */
+export function getField(manifest: Record<string, unknown>, path: string): unknown {
+  let current: unknown = manifest;
+  for (const key of path.split('.')) {
+    current = isObject(current) ? current[key] : undefined;
+  }
+  return current;
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,329 @@
+import { HelmChart, KubernetesResource, RenderedManifest, ResourceRelation, ResourceRelationKind } from '../types';
+import { getYamlKeyLines, getYamlScalarText } from '../parser/yaml-parser';
+import { getField, getPodTemplatePath, isObject, renderManifests } from './manifests';
+
+interface NameRule {
+  pattern: RegExp;
+  targetKind: string | null;   // null: read from the sibling `kind` field
+  relation: ResourceRelationKind;
+}
+
+interface LabelSet {
+  labels: Record<string, string>;
+  includes: string[];          // Source only: helpers included into the block
+}
+
+interface ManifestView {
+  resource: KubernetesResource;
+  rendered: boolean;
+  name?: string;
+  fields: Map<string, string>; // Scalar fields by path ("spec.rules[0].host"), rendered when possible
+  labels: (path: string) => LabelSet | null;
+  sourceField: (path: string) => string | undefined;  // The same, as written in the template
+  sourceLabels: (path: string) => LabelSet | null;
+}
+
+// Name references inside a pod spec
+const POD_SPEC_RULES: NameRule[] = [
+  { pattern: /^volumes\[\d+\]\.configMap\.name$/, targetKind: 'ConfigMap', relation: 'mounts' },
+  { pattern: /^volumes\[\d+\]\.secret\.secretName$/, targetKind: 'Secret', relation: 'mounts' },
+  { pattern: /^volumes\[\d+\]\.persistentVolumeClaim\.claimName$/, targetKind: 'PersistentVolumeClaim', relation: 'mounts' },
+  { pattern: /^volumes\[\d+\]\.projected\.sources\[\d+\]\.configMap\.name$/, targetKind: 'ConfigMap', relation: 'mounts' },
+  { pattern: /^volumes\[\d+\]\.projected\.sources\[\d+\]\.secret\.name$/, targetKind: 'Secret', relation: 'mounts' },
+  { pattern: /^(?:initContainers|containers)\[\d+\]\.envFrom\[\d+\]\.configMapRef\.name$/, targetKind: 'ConfigMap', relation: 'env-from' },
+  { pattern: /^(?:initContainers|containers)\[\d+\]\.envFrom\[\d+\]\.secretRef\.name$/, targetKind: 'Secret', relation: 'env-from' },
+  { pattern: /^(?:initContainers|containers)\[\d+\]\.env\[\d+\]\.valueFrom\.configMapKeyRef\.name$/, targetKind: 'ConfigMap', relation: 'env-from' },
+  { pattern: /^(?:initContainers|containers)\[\d+\]\.env\[\d+\]\.valueFrom\.secretKeyRef\.name$/, targetKind: 'Secret', relation: 'env-from' },
+  { pattern: /^serviceAccountName$/, targetKind: 'ServiceAccount', relation: 'uses' },
+  { pattern: /^imagePullSecrets\[\d+\]\.name$/, targetKind: 'Secret', relation: 'uses' },
+];
+
+// Name references in the rest of a manifest, by kind
+const RESOURCE_RULES: Record<string, NameRule[]> = {
+  Ingress: [
+    { pattern: /^spec\.rules\[\d+\]\.http\.paths\[\d+\]\.backend\.service\.name$/, targetKind: 'Service', relation: 'routes-to' },
+    { pattern: /^spec\.rules\[\d+\]\.http\.paths\[\d+\]\.backend\.serviceName$/, targetKind: 'Service', relation: 'routes-to' },
+    { pattern: /^spec\.defaultBackend\.service\.name$/, targetKind: 'Service', relation: 'routes-to' },
+    { pattern: /^spec\.tls\[\d+\]\.secretName$/, targetKind: 'Secret', relation: 'uses' },
+  ],
+  StatefulSet: [
+    { pattern: /^spec\.serviceName$/, targetKind: 'Service', relation: 'uses' },
+  ],
+  HorizontalPodAutoscaler: [
+    { pattern: /^spec\.scaleTargetRef\.name$/, targetKind: null, relation: 'scales' },
+  ],
+  RoleBinding: [
+    { pattern: /^subjects\[\d+\]\.name$/, targetKind: null, relation: 'binds' },
+    { pattern: /^roleRef\.name$/, targetKind: null, relation: 'binds' },
+  ],
+  ClusterRoleBinding: [
+    { pattern: /^subjects\[\d+\]\.name$/, targetKind: null, relation: 'binds' },
+    { pattern: /^roleRef\.name$/, targetKind: null, relation: 'binds' },
+  ],
+};
+
+// Label selectors, by kind
+const SELECTOR_PATHS: Record<string, string[]> = {
+  Service: ['spec.selector'],
+  PodDisruptionBudget: ['spec.selector.matchLabels'],
+  NetworkPolicy: ['spec.podSelector.matchLabels'],
+};
+
+// Targets that exist in every namespace or cluster without the chart creating them
+const BUILT_IN_NAMES = new Set([
+  'ServiceAccount/default',
+  'ClusterRole/cluster-admin',
+  'ClusterRole/admin',
+  'ClusterRole/edit',
+  'ClusterRole/view',
+]);
+
+// Default ClusterRoles the control plane creates, e.g. system:auth-delegator
+const BUILT_IN_PREFIXES = ['ClusterRole/system:'];
+
+// Subjects that are not Kubernetes objects
+const NON_RESOURCE_KINDS = new Set(['User', 'Group']);
+
+/**
+ * Infer the relationships between the chart's Kubernetes resources: selectors
+ * to workloads, Ingress backends to Services, volumes and env sources to
+ * ConfigMaps and Secrets, HPAs to their targets and bindings to
+ * ServiceAccounts. Names come from the manifests rendered with the default
+ * values; when a template fails to render, the template text is compared
+ * instead, so names built by the same `include` still match. References with
+ * no matching resource are returned without a target.
+ */
+export function findResourceRelations(chart: HelmChart, manifests: RenderedManifest[] = renderManifests(chart)): ResourceRelation[] {
+  if (chart.resources.length === 0) return [];
+
+  const views = createManifestViews(chart, manifests);
+  const byName = new Map<string, ManifestView[]>();
+  const index = (key: string, view: ManifestView) => byName.set(key, [...(byName.get(key) || []), view]);
+  views.forEach(view => {
+    if (view.name) index(`${view.resource.kind}/${view.name}`, view);
+    if (view.resource.name && view.resource.name !== view.name) index(`${view.resource.kind}/${view.resource.name}`, view);
+  });
+
+  const relations: ResourceRelation[] = [];
+  views.forEach(view => {
+    relations.push(...findNameRelations(view, byName));
+    relations.push(...findSelectorRelations(view, views));
+  });
+  return relations;
+}
+
+/**
+ * View each resource through its rendered manifest, or its template text when
+ * it could not be rendered
+ */
+function createManifestViews(chart: HelmChart, manifests: RenderedManifest[]): ManifestView[] {
+  const contents = new Map(chart.files.map(file => [file.path, file.content]));
+  const linesByFile = new Map<string, string[]>();
+  const getLines = (resource: KubernetesResource) => {
+    let lines = linesByFile.get(resource.file);
+    if (!lines) {
+      lines = (contents.get(resource.file) ?? '').split('\n');
+      linesByFile.set(resource.file, lines);
+    }
+    return lines.slice(resource.startLine - 1, resource.endLine);
+  };
+
+  return manifests.map(({ resource, manifest }) => {
+    // Rendered manifests only read their template text for names and
+    // selectors, so it is only split into fields then
+    let sourceView: ManifestView | null = null;
+    const getSourceView = () => (sourceView ??= createSourceView(resource, getLines(resource)));
+    return manifest ? createRenderedView(resource, manifest, getSourceView) : getSourceView();
+  });
+}
+
+function createRenderedView(
+  resource: KubernetesResource,
+  manifest: Record<string, unknown>,
+  getSourceView: () => ManifestView
+): ManifestView {
+  const fields = new Map<string, string>();
+  flattenScalars(manifest, '', fields);
+
+  return {
+    resource,
+    sourceField: path => getSourceView().sourceField(path),
+    sourceLabels: path => getSourceView().sourceLabels(path),
+    rendered: true,
+    name: fields.get('metadata.name'),
+    fields,
+    labels: path => {
+      const current = getField(manifest, path);
+      if (!isObject(current)) return null;
+      const labels = Object.fromEntries(Object.entries(current).map(([key, value]) => [key, String(value)]));
+      return { labels, includes: [] };
+    },
+  };
+}
+
+/**
+ * View of a manifest that could not be rendered, read from the template text
+ */
+function createSourceView(resource: KubernetesResource, lines: string[]): ManifestView {
+  const keyLines = getYamlKeyLines(lines.join('\n'));
+  const fields = new Map<string, string>();
+  keyLines.forEach((line, path) => {
+    const text = getYamlScalarText(lines[line - 1]);
+    if (text !== undefined) fields.set(path, text);
+  });
+
+  const labels = (path: string) => {
+    const line = keyLines.get(path);
+    return line === undefined ? null : readSourceLabels(lines, line - 1);
+  };
+
+  return {
+    resource,
+    rendered: false,
+    name: resource.name,
+    fields,
+    labels,
+    sourceField: path => fields.get(path),
+    sourceLabels: labels,
+  };
+}
+
+/**
+ * Literal labels and included helpers in the block under a mapping key
+ */
+function readSourceLabels(lines: string[], keyIndex: number): LabelSet {
+  const indentOf = (line: string) => line.length - line.trimStart().length;
+  const keyIndent = indentOf(lines[keyIndex]);
+  const result: LabelSet = { labels: {}, includes: [] };
+
+  for (let i = keyIndex + 1; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) continue;
+    if (indentOf(line) <= keyIndent && !trimmed.startsWith('{{')) break;
+
+    for (const match of line.matchAll(/\b(?:include|template)\s+"([^"]+)"/g)) {
+      result.includes.push(match[1]);
+    }
+    const label = /^([\w./-]+):\s*(.+)$/.exec(trimmed);
+    if (label) result.labels[label[1]] = getYamlScalarText(trimmed) ?? '';
+  }
+
+  return result;
+}
+
+function findNameRelations(view: ManifestView, byName: Map<string, ManifestView[]>): ResourceRelation[] {
+  const relations: ResourceRelation[] = [];
+  const { kind } = view.resource;
+  const podTemplate = getPodTemplatePath(kind);
+  const podSpec = podTemplate === undefined ? null : podTemplate ? `${podTemplate}.spec.` : 'spec.';
+
+  view.fields.forEach((value, path) => {
+    let rule: NameRule | undefined;
+    if (podSpec && path.startsWith(podSpec)) {
+      const relative = path.slice(podSpec.length);
+      rule = POD_SPEC_RULES.find(r => r.pattern.test(relative));
+    } else {
+      rule = RESOURCE_RULES[kind]?.find(r => r.pattern.test(path));
+    }
+    if (!rule) return;
+
+    const targetKind = rule.targetKind ?? view.fields.get(path.replace(/\.[^.]+$/, '.kind'));
+    if (!targetKind || NON_RESOURCE_KINDS.has(targetKind) || isBuiltIn(targetKind, value)) return;
+
+    // Rendered names match rendered names, and names as written match names
+    // built the same way in a template that could not be rendered
+    const written = view.sourceField(path);
+    const candidates = [
+      ...(byName.get(`${targetKind}/${value}`) || []),
+      ...(written && written !== value ? byName.get(`${targetKind}/${written}`) || [] : []),
+    ];
+    const targets = Array.from(new Set(candidates)).filter(target => target !== view);
+    // A name that is still a template expression may well come from outside the chart
+    if (targets.length === 0 && !view.rendered && value.includes('{{')) return;
+
+    const base = { kind: rule.relation, source: view.resource.id, targetKind, targetName: value, field: path, inferredFrom: sourceOf(view) };
+    if (targets.length === 0) {
+      relations.push(base);
+    } else {
+      targets.forEach(target => relations.push({ ...base, target: target.resource.id }));
+    }
+  });
+
+  return relations;
+}
+
+function isBuiltIn(kind: string, name: string): boolean {
+  const key = `${kind}/${name}`;
+  return BUILT_IN_NAMES.has(key) || BUILT_IN_PREFIXES.some(prefix => key.startsWith(prefix));
+}
+
+function findSelectorRelations(view: ManifestView, views: ManifestView[]): ResourceRelation[] {
+  const relations: ResourceRelation[] = [];
+
+  (SELECTOR_PATHS[view.resource.kind] || []).forEach(path => {
+    const selector = view.labels(path);
+    if (!selector || (Object.keys(selector.labels).length === 0 && selector.includes.length === 0)) return;
+    const sourceSelector = view.sourceLabels(path);
+
+    const base = {
+      kind: 'selects' as const,
+      source: view.resource.id,
+      targetKind: 'workload',
+      targetName: describeSelector(selector),
+      field: path,
+      inferredFrom: sourceOf(view),
+    };
+
+    const workloads = views.filter(other => {
+      const podTemplate = getPodTemplatePath(other.resource.kind);
+      if (podTemplate === undefined) return false;
+      const labelsPath = podTemplate ? `${podTemplate}.metadata.labels` : 'metadata.labels';
+      // Compare rendered labels when both sides rendered, otherwise the template text
+      if (view.rendered && other.rendered) {
+        const podLabels = other.labels(labelsPath);
+        return podLabels !== null && selectorMatches(selector, podLabels);
+      }
+      const podLabels = other.sourceLabels(labelsPath);
+      return sourceSelector !== null && podLabels !== null && selectorMatches(sourceSelector, podLabels);
+    });
+
+    if (workloads.length === 0) {
+      relations.push(base);
+    } else {
+      workloads.forEach(workload => relations.push({ ...base, target: workload.resource.id }));
+    }
+  });
+
+  return relations;
+}
+
+/**
+ * Every selector label is on the pods, and every helper the selector
+ * includes is included into the pod labels too
+ */
+function selectorMatches(selector: LabelSet, podLabels: LabelSet): boolean {
+  return Object.entries(selector.labels).every(([key, value]) => podLabels.labels[key] === value) &&
+    selector.includes.every(name => podLabels.includes.includes(name));
+}
+
+function describeSelector(selector: LabelSet): string {
+  return [
+    ...Object.entries(selector.labels).map(([key, value]) => `${key}=${value}`),
+    ...selector.includes.map(name => `include "${name}"`),
+  ].join(', ');
+}
+
+function sourceOf(view: ManifestView): ResourceRelation['inferredFrom'] {
+  return view.rendered ? 'rendered' : 'source';
+}
+
+function flattenScalars(value: unknown, path: string, fields: Map<string, string>): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => flattenScalars(item, `${path}[${i}]`, fields));
+  } else if (isObject(value)) {
+    Object.entries(value).forEach(([key, child]) => flattenScalars(child, path ? `${path}.${key}` : key, fields));
+  } else if (value !== null && value !== undefined) {
+    fields.set(path, String(value));
+  }
+}
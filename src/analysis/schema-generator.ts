@@ -0,0 +1,118 @@
+import { HelmChart, JsonSchema } from '../types';
+import { resolveValueSchema } from '../parser/schema-parser';
+import { splitValuePath } from '../parser/yaml-parser';
+import { getUsageType } from './schema-validation';
+
+const SCHEMA_DRAFT = 'http://json-schema.org/draft-07/schema#';
+
+/**
+ * Generate a values.schema.json from the values defaults and how templates
+ * read them. Keys only templates know about are added with the type their
+ * pipeline implies, keys passed to `required` are marked required, and
+ * types, descriptions and enums of an existing schema are kept.
+ */
+export function generateValuesSchema(chart: HelmChart): JsonSchema {
+  const root = inferSchema(chart.values.raw);
+
+  chart.references
+    .filter(ref => ref.type === 'values')
+    .forEach(ref => {
+      const usage = getUsageType(ref.functions);
+      addUsage(root, splitValuePath(ref.target.path), {
+        type: usage?.type,
+        required: ref.functions?.includes('required') ?? false,
+      });
+    });
+
+  if (chart.schema) {
+    carryOverAnnotations(root, chart.schema, '');
+  }
+
+  return { $schema: SCHEMA_DRAFT, ...root };
+}
+
+/**
+ * Schema for a values default; arrays take their item schema from the first element
+ */
+function inferSchema(value: unknown): JsonSchema {
+  if (value === null || value === undefined) return {};
+  if (Array.isArray(value)) {
+    return { type: 'array', items: value.length > 0 ? inferSchema(value[0]) : {} };
+  }
+  if (typeof value === 'object') {
+    const properties = Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, child]) => [key, inferSchema(child)])
+    );
+    return { type: 'object', properties };
+  }
+  if (typeof value === 'number') return { type: Number.isInteger(value) ? 'integer' : 'number' };
+  if (typeof value === 'string' || typeof value === 'boolean') return { type: typeof value as 'string' | 'boolean' };
+  return {};
+}
+
+/**
+ * Make sure a referenced path exists in the generated schema, creating
+ * objects and lists along the way
+ */
+function addUsage(root: JsonSchema, segments: string[], usage: { type?: 'string' | 'number'; required: boolean }) {
+  let node = root;
+
+  for (const [index, segment] of segments.entries()) {
+    let child: JsonSchema;
+
+    if (segment.startsWith('[')) {
+      if (node.type === 'object') {
+        // `range` over a map
+        if (typeof node.additionalProperties !== 'object') node.additionalProperties = {};
+        child = node.additionalProperties;
+      } else {
+        if (node.type === undefined) node.type = 'array';
+        if (node.type !== 'array') return;
+        if (!node.items || Array.isArray(node.items)) node.items = {};
+        child = node.items;
+      }
+    } else {
+      if (node.type === undefined) node.type = 'object';
+      if (node.type !== 'object') return;
+      node.properties = node.properties ?? {};
+      node.properties[segment] = node.properties[segment] ?? {};
+      child = node.properties[segment];
+
+      const isLeaf = index === segments.length - 1;
+      if (isLeaf && usage.required && !node.required?.includes(segment)) {
+        node.required = [...(node.required ?? []), segment];
+      }
+    }
+
+    node = child;
+  }
+
+  if (node.type === undefined && usage.type) {
+    node.type = usage.type;
+  }
+}
+
+/**
+ * Copy types, titles, descriptions and enums from the chart's existing
+ * schema; a declared type wins over the one inferred from the default
+ */
+function carryOverAnnotations(node: JsonSchema, existing: JsonSchema, path: string) {
+  const resolved = resolveValueSchema(existing, path);
+  if (resolved) {
+    const { type, title, description, enum: allowed } = resolved.schema;
+    if (type !== undefined) node.type = type;
+    if (title !== undefined) node.title = title;
+    if (description !== undefined) node.description = description;
+    if (allowed !== undefined) node.enum = allowed;
+  }
+
+  Object.entries(node.properties ?? {}).forEach(([key, child]) => {
+    carryOverAnnotations(child, existing, path ? `${path}.${key}` : key);
+  });
+  if (node.items && !Array.isArray(node.items)) {
+    carryOverAnnotations(node.items, existing, `${path}[*]`);
+  }
+  if (typeof node.additionalProperties === 'object') {
+    carryOverAnnotations(node.additionalProperties, existing, `${path}[*]`);
+  }
+}
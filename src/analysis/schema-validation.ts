@@ -0,0 +1,184 @@
+import { HelmChart, JsonSchema, JsonSchemaType, Reference, SchemaIssue, SchemaIssueKind, ValueKey } from '../types';
+import { getSchemaTypes, isPathForbidden, resolveValueSchema } from '../parser/schema-parser';
+import { createPathMatcher, getParentPath } from './value-paths';
+
+// Functions that turn their input into, or treat it as, a string
+const STRING_FUNCTIONS = new Set([
+  'quote', 'squote', 'upper', 'lower', 'title', 'untitle', 'trim', 'trimAll', 'trimPrefix', 'trimSuffix',
+  'trunc', 'abbrev', 'replace', 'substr', 'nospace', 'snakecase', 'kebabcase', 'camelcase', 'b64enc',
+  'contains', 'hasPrefix', 'hasSuffix', 'regexMatch', 'regexFind', 'regexReplaceAll', 'splitList', 'sha256sum',
+]);
+
+// Functions that need a number
+const NUMBER_FUNCTIONS = new Set([
+  'add', 'add1', 'sub', 'mul', 'div', 'mod', 'max', 'min', 'until', 'floor', 'ceil', 'round',
+]);
+
+// Functions that hand their input on unchanged, so the next one decides
+const PASS_THROUGH_FUNCTIONS = new Set(['default', 'required', 'coalesce']);
+
+/**
+ * Cross-check values.schema.json against the values defaults and against how
+ * templates use each value
+ */
+export function validateValuesSchema(chart: HelmChart): SchemaIssue[] {
+  if (!chart.schema) return [];
+
+  const valueRefs = chart.references.filter(ref => ref.type === 'values');
+
+  return [
+    ...checkDefaults(chart.values.flatKeys),
+    ...checkRequired(chart.schema, chart.values.flatKeys, valueRefs),
+    ...checkUsage(chart.schema, valueRefs),
+  ].sort((a, b) => a.path.localeCompare(b.path) || a.kind.localeCompare(b.kind));
+}
+
+/**
+ * Values whose effective value breaks the schema's type or enum
+ */
+function checkDefaults(flatKeys: ValueKey[]): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+
+  flatKeys.forEach(key => {
+    if (!key.schema) return;
+    const source = key.source ?? 'values.yaml';
+    const types = key.schema.type;
+
+    if (types && !matchesType(key.value, types)) {
+      issues.push(createIssue(
+        'type-mismatch',
+        key.path,
+        `${key.path} is ${getJsonType(key.value)} in ${source} but the schema expects ${types.join(' or ')}`
+      ));
+    }
+
+    const allowed = key.schema.enum;
+    if (allowed && !allowed.some(option => JSON.stringify(option) === JSON.stringify(key.value))) {
+      issues.push(createIssue(
+        'enum-mismatch',
+        key.path,
+        `${key.path} is ${JSON.stringify(key.value)} in ${source} but must be one of ${allowed.map(option => JSON.stringify(option)).join(', ')}`
+      ));
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Required keys that have no value, or that no template ever reads. Only
+ * objects present in the values are checked, as a JSON schema validator would.
+ */
+function checkRequired(schema: JsonSchema, flatKeys: ValueKey[], valueRefs: Reference[]): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const definedPaths = new Set(flatKeys.map(key => key.path));
+  const objectPaths = ['', ...flatKeys.filter(key => key.type === 'object').map(key => key.path)];
+
+  objectPaths.forEach(objectPath => {
+    const resolved = resolveValueSchema(schema, objectPath);
+    resolved?.schema.required?.forEach(name => {
+      const path = objectPath ? `${objectPath}.${name}` : name;
+      const readers = valueRefs.filter(ref => createPathMatcher(ref.target.path).overlaps(path));
+
+      if (!definedPaths.has(path)) {
+        issues.push(createIssue('missing-required', path, `${path} is required by the schema but has no value`, readers));
+      }
+      if (readers.length === 0) {
+        issues.push(createIssue('required-unused', path, `${path} is required by the schema but no template reads it`));
+      }
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Template usage that contradicts the schema: string functions on numbers,
+ * arithmetic on strings, and keys the schema does not allow
+ */
+function checkUsage(schema: JsonSchema, valueRefs: Reference[]): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const refsByPath = new Map<string, Reference[]>();
+  valueRefs.forEach(ref => {
+    refsByPath.set(ref.target.path, [...(refsByPath.get(ref.target.path) || []), ref]);
+  });
+
+  // Keys the schema forbids, reported at the highest forbidden level
+  const forbidden = new Map<string, Reference[]>();
+
+  refsByPath.forEach((references, path) => {
+    const resolved = resolveValueSchema(schema, path);
+    if (!resolved) {
+      if (isPathForbidden(schema, path)) {
+        let topmost = path;
+        for (let parent = getParentPath(path); parent && isPathForbidden(schema, parent); parent = getParentPath(parent)) {
+          topmost = parent;
+        }
+        forbidden.set(topmost, [...(forbidden.get(topmost) || []), ...references]);
+      }
+      return;
+    }
+
+    const types = getSchemaTypes(resolved.schema);
+    if (!types) return;
+
+    const misusedBy = new Map<string, Reference[]>();
+    references.forEach(ref => {
+      const usage = getUsageType(ref.functions);
+      if (!usage) return;
+
+      const misused =
+        (usage.type === 'string' && !types.includes('string')) ||
+        (usage.type === 'number' && !types.includes('integer') && !types.includes('number'));
+      if (misused) {
+        misusedBy.set(usage.fn, [...(misusedBy.get(usage.fn) || []), ref]);
+      }
+    });
+
+    misusedBy.forEach((refs, fn) => {
+      issues.push(createIssue(
+        'usage-mismatch',
+        path,
+        `${fn} is applied to ${path}, which the schema types as ${types.join(' or ')}`,
+        refs
+      ));
+    });
+  });
+
+  forbidden.forEach((references, path) => {
+    issues.push(createIssue('not-in-schema', path, `${path} is read by templates but the schema does not allow it`, references));
+  });
+
+  return issues;
+}
+
+/**
+ * The type a reference's pipeline expects its value to have, judged by the
+ * first function that does not just pass the value on
+ */
+export function getUsageType(functions: string[] = []): { fn: string; type: 'string' | 'number' } | null {
+  const fn = functions.find(name => !PASS_THROUGH_FUNCTIONS.has(name));
+  if (fn && STRING_FUNCTIONS.has(fn)) return { fn, type: 'string' };
+  if (fn && NUMBER_FUNCTIONS.has(fn)) return { fn, type: 'number' };
+  return null;
+}
+
+function createIssue(kind: SchemaIssueKind, path: string, message: string, references: Reference[] = []): SchemaIssue {
+  return { kind, path, message, references };
+}
+
+/**
+ * JSON schema type of a value; integers also satisfy "number"
+ */
+function getJsonType(value: unknown): JsonSchemaType {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  if (typeof value === 'string' || typeof value === 'boolean') return typeof value as JsonSchemaType;
+  return 'object';
+}
+
+function matchesType(value: unknown, types: JsonSchemaType[]): boolean {
+  const actual = getJsonType(value);
+  return types.includes(actual) || (actual === 'integer' && types.includes('number'));
+}
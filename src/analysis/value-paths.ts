@@ -0,0 +1,35 @@
+import { splitValuePath } from '../parser/yaml-parser';
+
+export interface PathMatcher {
+  matches: (keyPath: string) => boolean;     // Same key
+  overlaps: (keyPath: string) => boolean;    // Same key, an ancestor or a descendant
+}
+
+/**
+ * Build a matcher for a referenced path where `[*]` stands for any list index or map key
+ */
+export function createPathMatcher(refPath: string): PathMatcher {
+  const refSegments = splitValuePath(refPath);
+  const prefixMatches = (keySegments: string[], length: number) =>
+    refSegments.slice(0, length).every((segment, i) => segment === '[*]' || segment === keySegments[i]);
+
+  return {
+    matches: keyPath => {
+      const keySegments = splitValuePath(keyPath);
+      return keySegments.length === refSegments.length && prefixMatches(keySegments, refSegments.length);
+    },
+    overlaps: keyPath => {
+      const keySegments = splitValuePath(keyPath);
+      return prefixMatches(keySegments, Math.min(keySegments.length, refSegments.length));
+    },
+  };
+}
+
+export function isDescendantPath(parent: string, child: string): boolean {
+  return child.startsWith(`${parent}.`) || child.startsWith(`${parent}[`);
+}
+
+export function getParentPath(path: string): string | null {
+  const index = Math.max(path.lastIndexOf('.'), path.lastIndexOf('['));
+  return index > 0 ? path.slice(0, index) : null;
+}
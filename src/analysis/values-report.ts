@@ -0,0 +1,202 @@
+import { HelmChart, Reference, ValueKey, ValuesReport, UndefinedValueUsage, PartialValueUsage } from '../types';
+import { createPathMatcher, getParentPath, isDescendantPath } from './value-paths';
+import { validateValuesSchema } from './schema-validation';
+
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Compare the keys defined in values.yaml with the keys templates read.
+ * Range element paths (`list[*].name`) match any index or map key.
+ */
+export function buildValuesReport(chart: HelmChart): ValuesReport {
+  const valueRefs = chart.references.filter(ref => ref.type === 'values');
+  const definedKeys = getDefinedKeys(chart);
+  const refsByPath = groupByPath(valueRefs);
+  const referencedPaths = Array.from(refsByPath.keys());
+
+  return {
+    unused: findUnusedKeys(chart.values.flatKeys, [...referencedPaths, ...getSubchartValuePaths(chart)]),
+    undefined: findUndefinedPaths(refsByPath, definedKeys),
+    partial: findPartialUsage(refsByPath, definedKeys),
+    schema: validateValuesSchema(chart),
+  };
+}
+
+/**
+ * All keys the chart defines, including those supplied to subcharts
+ * through their own values.yaml (as "<subchart>.<key>")
+ */
+function getDefinedKeys(chart: HelmChart): ValueKey[] {
+  const keys = [...chart.values.flatKeys];
+  const known = new Set(keys.map(key => key.path));
+
+  chart.subcharts.forEach(subchart => {
+    const name = subchart.subchart?.name || subchart.name;
+    subchart.values.flatKeys.forEach(key => {
+      const path = key.path.startsWith('global.') ? key.path : `${name}.${key.path}`;
+      if (!known.has(path)) {
+        known.add(path);
+        keys.push({ ...key, path, fullPath: `.Values.${path}` });
+      }
+    });
+  });
+
+  return keys;
+}
+
+/**
+ * Paths of the chart's values that its subcharts read or that decide whether
+ * they are enabled: `<alias>.<path>` for what a subchart reads under its own
+ * key, `global.*` as is, and the dependency conditions and tags
+ */
+function getSubchartValuePaths(chart: HelmChart): string[] {
+  const paths: string[] = [];
+
+  chart.dependencies.forEach(dependency => {
+    dependency.condition?.split(',').map(path => path.trim()).filter(Boolean).forEach(path => paths.push(path));
+    dependency.tags?.forEach(tag => paths.push(`tags.${tag}`));
+  });
+
+  chart.subcharts.forEach(subchart => {
+    const name = subchart.subchart?.name || subchart.name;
+    const readPaths = [
+      ...subchart.references.filter(ref => ref.type === 'values').map(ref => ref.target.path),
+      ...getSubchartValuePaths(subchart),
+    ];
+    readPaths.forEach(path => paths.push(path === 'global' || path.startsWith('global.') ? path : `${name}.${path}`));
+  });
+
+  return paths;
+}
+
+function groupByPath(references: Reference[]): Map<string, Reference[]> {
+  const grouped = new Map<string, Reference[]>();
+  references.forEach(ref => {
+    const existing = grouped.get(ref.target.path) || [];
+    existing.push(ref);
+    grouped.set(ref.target.path, existing);
+  });
+  return grouped;
+}
+
+/**
+ * Keys no template touches, reported at the highest unused level:
+ * if all of `autoscaling` is unused, only `autoscaling` is listed
+ */
+function findUnusedKeys(flatKeys: ValueKey[], referencedPaths: string[]): ValueKey[] {
+  const matchers = referencedPaths.map(path => createPathMatcher(path));
+  const isUsed = (keyPath: string) => matchers.some(matcher => matcher.overlaps(keyPath));
+
+  const unusedPaths = new Set<string>();
+  const unused: ValueKey[] = [];
+
+  flatKeys.forEach(key => {
+    if (isUsed(key.path)) return;
+    unusedPaths.add(key.path);
+
+    const parent = getParentPath(key.path);
+    if (parent === null || !unusedPaths.has(parent)) {
+      unused.push(key);
+    }
+  });
+
+  return unused;
+}
+
+/**
+ * Referenced paths with no matching key, plus the nearest keys as suggestions
+ */
+function findUndefinedPaths(
+  refsByPath: Map<string, Reference[]>,
+  definedKeys: ValueKey[]
+): UndefinedValueUsage[] {
+  const definedPaths = definedKeys.map(key => key.path);
+  const keysByPath = new Map(definedKeys.map(key => [key.path, key]));
+  const undefinedUsages: UndefinedValueUsage[] = [];
+
+  refsByPath.forEach((references, path) => {
+    if (keysByPath.has(path)) return;
+
+    const matcher = createPathMatcher(path);
+    if (definedPaths.some(defined => matcher.matches(defined))) return;
+
+    // Ranging over an empty list or map defined in values.yaml cannot be checked
+    const collectionPath = path.split('[*]')[0];
+    if (collectionPath !== path && isEmptyCollection(keysByPath.get(collectionPath))) return;
+
+    undefinedUsages.push({
+      path,
+      references,
+      suggestions: suggestKeys(path, definedPaths),
+    });
+  });
+
+  return undefinedUsages.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Object or list values read as a whole, with the leaf keys that are never read individually
+ */
+function findPartialUsage(
+  refsByPath: Map<string, Reference[]>,
+  definedKeys: ValueKey[]
+): PartialValueUsage[] {
+  const referencedPaths = Array.from(refsByPath.keys());
+  const partial: PartialValueUsage[] = [];
+
+  refsByPath.forEach((references, path) => {
+    const key = definedKeys.find(k => k.path === path);
+    if (!key || (key.type !== 'object' && key.type !== 'array')) return;
+
+    const leafKeys = definedKeys.filter(k =>
+      isDescendantPath(path, k.path) && k.type !== 'object' && k.type !== 'array'
+    );
+    const coveredKeys = leafKeys
+      .filter(leaf => !referencedPaths.some(ref => ref !== path && createPathMatcher(ref).matches(leaf.path)))
+      .map(leaf => leaf.path);
+
+    if (coveredKeys.length > 0) {
+      partial.push({ path, references, coveredKeys });
+    }
+  });
+
+  return partial.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+function isEmptyCollection(key: ValueKey | undefined): boolean {
+  if (!key) return false;
+  if (Array.isArray(key.value)) return key.value.length === 0;
+  return key.type === 'object' && Object.keys(key.value as Record<string, unknown>).length === 0;
+}
+
+/**
+ * Suggest defined keys close to a misspelled path
+ */
+function suggestKeys(path: string, definedPaths: string[]): string[] {
+  const maxDistance = Math.max(2, Math.floor(path.length / 3));
+
+  return definedPaths
+    .map(candidate => ({ candidate, distance: levenshtein(path, candidate) }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Edit distance between two strings
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
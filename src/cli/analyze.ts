@@ -0,0 +1,67 @@
+import { AnalysisReport, Diagnostic, DiagnosticSeverity, HelmChart, LintConfig } from '../types';
+import { buildValuesReport } from '../analysis/values-report';
+import { buildGraphData } from '../graph/graph-builder';
+import { lintChart } from '../lint/linter';
+
+export interface AnalyzeOptions {
+  lintConfig?: LintConfig;
+  includeGraph?: boolean;
+}
+
+// Most severe first
+const SEVERITIES: DiagnosticSeverity[] = ['error', 'warning', 'info'];
+
+/**
+ * Everything the browser shows about a chart, as one JSON-serializable report
+ */
+export function analyzeChart(chart: HelmChart, options: AnalyzeOptions = {}): AnalysisReport {
+  const valuesReport = buildValuesReport(chart);
+  const diagnostics = lintChart(chart, options.lintConfig);
+
+  const report: AnalysisReport = {
+    chart: { name: chart.name, version: chart.version, description: chart.description },
+    summary: {
+      files: chart.files.length,
+      references: chart.references.length,
+      helpers: chart.helpers.length,
+      values: chart.values.flatKeys.length,
+      resources: chart.resources.length,
+      subcharts: chart.subcharts.length,
+      unusedValues: valuesReport.unused.length,
+      undefinedValues: valuesReport.undefined.length,
+      diagnostics: countBySeverity(diagnostics),
+    },
+    files: chart.files.map(file => ({ path: file.path, type: file.type })),
+    references: chart.references,
+    helpers: chart.helpers.map(({ content: _content, ...helper }) => helper),
+    values: chart.values.flatKeys,
+    resources: chart.resources,
+    subcharts: chart.subcharts.flatMap(subchart => subchart.subchart ? [subchart.subchart] : []),
+    valuesReport,
+    diagnostics,
+  };
+
+  if (options.includeGraph) {
+    report.graph = buildGraphData(chart);
+  }
+
+  return report;
+}
+
+/**
+ * Whether any diagnostic is at least as severe as the threshold
+ */
+export function hasFailures(diagnostics: Diagnostic[], failOn: DiagnosticSeverity): boolean {
+  const threshold = SEVERITIES.indexOf(failOn);
+  return diagnostics.some(diagnostic => SEVERITIES.indexOf(diagnostic.severity) <= threshold);
+}
+
+export function isSeverity(text: string): text is DiagnosticSeverity {
+  return (SEVERITIES as string[]).includes(text);
+}
+
+function countBySeverity(diagnostics: Diagnostic[]): Record<DiagnosticSeverity, number> {
+  const counts: Record<DiagnosticSeverity, number> = { error: 0, warning: 0, info: 0 };
+  diagnostics.forEach(diagnostic => counts[diagnostic.severity]++);
+  return counts;
+}
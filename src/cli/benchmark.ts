@@ -0,0 +1,119 @@
+#!/usr/bin/env bun
+import { parseHelmChart } from '../parser/helm-parser';
+import { buildGraphData } from '../graph/graph-builder';
+import { lintChart } from '../lint/linter';
+import { createChartSession } from '../worker/chart-session';
+
+const USAGE = `Usage: bun src/cli/benchmark.ts [templates] [runs]
+
+Time loading a synthetic chart with <templates> Deployment templates
+(default 1000) from scratch and after editing one template, as the chart
+worker does. Each timing is the median of <runs> runs (default 5).
+`;
+
+// Templates share this many components, each with its values and helper
+const COMPONENTS = 50;
+
+/**
+ * A chart of `count` Deployment templates spread over the components, every
+ * one reading its component's values and including its labels helper
+ */
+function createSyntheticChart(count: number): Map<string, string> {
+  const files = new Map<string, string>();
+  files.set('synthetic/Chart.yaml', 'apiVersion: v2\nname: synthetic\nversion: 1.0.0\n');
+
+  let values = '';
+  let helpers = '';
+  for (let c = 0; c < COMPONENTS; c++) {
+    values += `component${c}:\n  enabled: true\n  replicas: 1\n  image:\n    repository: example/c${c}\n    tag: "1.0"\n  resources: {}\n`;
+    helpers += `{{- define "synthetic.c${c}.labels" -}}\napp: {{ .Release.Name }}-c${c}\nchart: {{ .Chart.Name }}\n{{- end }}\n`;
+  }
+  files.set('synthetic/values.yaml', values);
+  files.set('synthetic/templates/_helpers.tpl', helpers);
+
+  for (let i = 0; i < count; i++) {
+    files.set(`synthetic/templates/deployment-${i}.yaml`, createTemplate(i, i % COMPONENTS));
+  }
+  return files;
+}
+
+function createTemplate(index: number, component: number, replicasKey = 'replicas'): string {
+  return `{{- if .Values.component${component}.enabled }}
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: {{ .Release.Name }}-deployment-${index}
+  labels:
+    {{- include "synthetic.c${component}.labels" . | nindent 4 }}
+spec:
+  replicas: {{ .Values.component${component}.${replicasKey} }}
+  template:
+    spec:
+      containers:
+        - name: main
+          image: "{{ .Values.component${component}.image.repository }}:{{ .Values.component${component}.image.tag }}"
+          resources:
+            {{- toYaml .Values.component${component}.resources | nindent 12 }}
+{{- end }}
+`;
+}
+
+function median(runs: number, run: () => void): number {
+  const times: number[] = [];
+  for (let i = 0; i < runs; i++) {
+    const start = performance.now();
+    run();
+    times.push(performance.now() - start);
+  }
+  return times.sort((a, b) => a - b)[Math.floor(times.length / 2)];
+}
+
+function main(args: string[]): number {
+  if (args.includes('-h') || args.includes('--help')) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  const count = Number(args[0] ?? 1000);
+  const runs = Number(args[1] ?? 5);
+  if (!Number.isInteger(count) || count < 1 || !Number.isInteger(runs) || runs < 1) {
+    process.stderr.write(USAGE);
+    return 2;
+  }
+
+  const files = createSyntheticChart(count);
+  const editedPath = 'synthetic/templates/deployment-0.yaml';
+
+  const uncached = median(runs, () => {
+    const chart = parseHelmChart(files);
+    buildGraphData(chart);
+    lintChart(chart);
+  });
+
+  const session = createChartSession();
+  const load = median(runs, () => session.load(files));
+
+  // Alternate between two versions of one template so every run changes it
+  let edits = 0;
+  let patchSize = 0;
+  const update = median(runs, () => {
+    const replicasKey = edits++ % 2 === 0 ? 'image.tag' : 'replicas';
+    const result = session.update(new Map([[editedPath, createTemplate(0, 0, replicasKey)]]));
+    const patch = result.patch!;
+    patchSize = [patch.nodes, patch.edges]
+      .reduce((sum, changes) => sum + changes.added.length + changes.updated.length + changes.removed.length, 0);
+  });
+
+  const { graph } = session.load(files);
+  const rows: [string, string][] = [
+    ['Templates', String(count)],
+    ['Graph', `${graph!.nodes.length} nodes, ${graph!.edges.length} edges`],
+    ['Full build, no caches', `${uncached.toFixed(0)} ms`],
+    ['Session load', `${load.toFixed(0)} ms`],
+    ['Update of one template', `${update.toFixed(0)} ms (${patchSize} patched nodes and edges)`],
+  ];
+  const width = Math.max(...rows.map(([label]) => label.length));
+  rows.forEach(([label, value]) => console.log(`${label.padEnd(width)}  ${value}`));
+  return 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,221 @@
+#!/usr/bin/env node
+import { readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { basename, join, relative, resolve, sep } from 'node:path';
+import { AnalysisReport, DiagnosticSeverity, LintConfig, ValuesOverrides } from '../types';
+import { parseHelmChart } from '../parser/helm-parser';
+import { extractChartArchive, isChartArchive } from '../parser/chart-archive';
+import { BUILT_IN_RULES } from '../lint/rules';
+import { analyzeChart, hasFailures, isSeverity } from './analyze';
+
+// Exit codes: 0 clean, 1 diagnostics at or above --fail-on, 2 bad usage or unreadable chart
+const EXIT_FAILURES = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: helm-visualizer analyze <chart-dir | chart.tgz> [options]
+
+Parse a Helm chart and print its references, helpers, values, values report
+and lint diagnostics as JSON.
+
+Options:
+  -f, --values <file>       Layer a values file over the defaults (repeatable)
+      --set <key=value>     Set values like helm --set (repeatable)
+      --set-string <k=v>    Set string values like helm --set-string (repeatable)
+      --rule <id>=<level>   Set a lint rule to error, warning, info or off (repeatable)
+      --disable-rule <id>   Same as --rule <id>=off (repeatable)
+      --fail-on <level>     Exit 1 on diagnostics at or above error, warning or info,
+                            or never with none (default: error)
+      --graph               Include the graph nodes and edges
+  -o, --output <file>       Write the JSON to a file instead of stdout
+      --compact             Print JSON on one line
+  -h, --help                Show this help
+`;
+
+interface CliOptions {
+  chartPath: string;
+  overrides: ValuesOverrides;
+  lintConfig: LintConfig;
+  failOn: DiagnosticSeverity | 'none';
+  includeGraph: boolean;
+  output?: string;
+  compact: boolean;
+}
+
+/**
+ * Error in the command line itself, reported together with the usage text
+ */
+class UsageError extends Error {}
+
+/**
+ * Parse `analyze` arguments; flags may come before or after the chart path
+ */
+function parseArguments(args: string[]): CliOptions {
+  const [command, ...rest] = args;
+  if (command !== 'analyze') {
+    throw new UsageError(command ? `unknown command "${command}"` : 'missing command');
+  }
+
+  const options: CliOptions = {
+    chartPath: '',
+    overrides: { files: [], set: [] },
+    lintConfig: {},
+    failOn: 'error',
+    includeGraph: false,
+    compact: false,
+  };
+  const ruleIds = new Set(BUILT_IN_RULES.map(rule => rule.id));
+
+  const setRule = (id: string, level: string) => {
+    if (!ruleIds.has(id)) throw new UsageError(`unknown lint rule "${id}"`);
+    if (level !== 'off' && !isSeverity(level)) throw new UsageError(`invalid level "${level}" for rule ${id}`);
+    options.lintConfig[id] = level;
+  };
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    const [flag, inlineValue] = arg.startsWith('--') && arg.includes('=')
+      ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+      : [arg, undefined];
+    const next = () => {
+      if (inlineValue !== undefined) return inlineValue;
+      const value = rest[++i];
+      if (value === undefined) throw new UsageError(`${flag} needs a value`);
+      return value;
+    };
+
+    switch (flag) {
+      case '-f':
+      case '--values': {
+        const file = next();
+        options.overrides.files.push({ name: basename(file), content: readFileSync(file, 'utf8') });
+        break;
+      }
+      case '--set':
+      case '--set-string':
+        options.overrides.set.push(`${flag} ${next()}`);
+        break;
+      case '--rule': {
+        const [id, level] = next().split('=');
+        setRule(id, level ?? '');
+        break;
+      }
+      case '--disable-rule':
+        setRule(next(), 'off');
+        break;
+      case '--fail-on': {
+        const level = next();
+        if (level !== 'none' && !isSeverity(level)) throw new UsageError(`invalid --fail-on level "${level}"`);
+        options.failOn = level;
+        break;
+      }
+      case '--graph':
+        options.includeGraph = true;
+        break;
+      case '-o':
+      case '--output':
+        options.output = next();
+        break;
+      case '--compact':
+        options.compact = true;
+        break;
+      default:
+        if (flag.startsWith('-')) throw new UsageError(`unknown option ${flag}`);
+        if (options.chartPath) throw new UsageError(`unexpected argument "${arg}"`);
+        options.chartPath = arg;
+    }
+  }
+
+  if (!options.chartPath) throw new UsageError('missing chart path');
+  return options;
+}
+
+/**
+ * Read a chart directory or packaged archive into the path → content map
+ * parseHelmChart takes, with paths under the chart's directory name as a
+ * dropped folder has them
+ */
+async function loadChartFiles(chartPath: string): Promise<Map<string, string>> {
+  if (isChartArchive(chartPath)) {
+    return extractChartArchive(readFileSync(chartPath));
+  }
+
+  const root = basename(resolve(chartPath));
+  const files = new Map<string, string>();
+  const archives: string[] = [];
+  const walk = (directory: string) => {
+    readdirSync(directory, { withFileTypes: true }).forEach(entry => {
+      const fullPath = join(directory, entry.name);
+      const path = [root, ...relative(chartPath, fullPath).split(sep)].join('/');
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('.')) walk(fullPath);
+      } else if (isChartArchive(entry.name) && /\/charts\/[^/]+$/.test(path)) {
+        archives.push(path);
+      } else if (entry.isFile()) {
+        files.set(path, readFileSync(fullPath, 'utf8'));
+      }
+    });
+  };
+  walk(chartPath);
+
+  // Packaged dependencies under charts/ are unpacked in place, as in the browser
+  for (const path of archives) {
+    const directory = path.split('/').slice(0, -1).join('/');
+    const nested = await extractChartArchive(readFileSync(join(chartPath, ...path.split('/').slice(1))));
+    nested.forEach((content, nestedPath) => files.set(`${directory}/${nestedPath}`, content));
+  }
+
+  return files;
+}
+
+/**
+ * Run the CLI and resolve to its exit code
+ */
+async function main(args: string[]): Promise<number> {
+  if (args.length === 0 || args.includes('-h') || args.includes('--help')) {
+    process.stdout.write(USAGE);
+    return args.length === 0 ? EXIT_USAGE : 0;
+  }
+
+  let options: CliOptions;
+  let files: Map<string, string>;
+  try {
+    options = parseArguments(args);
+    if (!isChartArchive(options.chartPath) && !statSync(options.chartPath).isDirectory()) {
+      throw new UsageError(`${options.chartPath} is not a chart directory or .tgz archive`);
+    }
+    files = await loadChartFiles(options.chartPath);
+  } catch (error) {
+    process.stderr.write(`helm-visualizer: ${error instanceof Error ? error.message : error}\n`);
+    if (error instanceof UsageError) process.stderr.write(`\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  if (!Array.from(files.keys()).some(path => /(^|\/)Chart\.yaml$/.test(path))) {
+    process.stderr.write(`helm-visualizer: no Chart.yaml found in ${options.chartPath}\n`);
+    return EXIT_USAGE;
+  }
+
+  let report: AnalysisReport;
+  try {
+    const chart = parseHelmChart(files, options.overrides);
+    report = analyzeChart(chart, { lintConfig: options.lintConfig, includeGraph: options.includeGraph });
+  } catch (error) {
+    process.stderr.write(`helm-visualizer: ${error instanceof Error ? error.message : error}\n`);
+    return EXIT_USAGE;
+  }
+
+  const json = `${JSON.stringify(report, null, options.compact ? undefined : 2)}\n`;
+  if (options.output) {
+    writeFileSync(options.output, json);
+  } else {
+    process.stdout.write(json);
+  }
+
+  const { error, warning, info } = report.summary.diagnostics;
+  process.stderr.write(`${report.chart.name}: ${error} errors, ${warning} warnings, ${info} info\n`);
+
+  return options.failOn !== 'none' && hasFailures(report.diagnostics, options.failOn) ? EXIT_FAILURES : 0;
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { ChangelogEntry, ChangelogSection, ChartDiff, DiffStatus } from '../types';
+
+interface ChangelogPanelProps {
+  diff: ChartDiff;
+  sections: ChangelogSection[];
+  getNodeId: (entry: ChangelogEntry) => string | undefined;  // Graph node an entry is about, if drawn
+  onSelectNode: (nodeId: string) => void;
+  onCopy: () => void;
+  onDownload: () => void;
+}
+
+export const diffStatusColors: Record<DiffStatus, string> = {
+  added: 'text-helm-green',
+  removed: 'text-helm-red',
+  changed: 'text-helm-orange',
+  renamed: 'text-helm-cyan',
+  unchanged: 'text-helm-text/40',
+};
+
+const statusIcons: Record<DiffStatus, string> = {
+  added: '+',
+  removed: '−',
+  changed: '~',
+  renamed: '→',
+  unchanged: '·',
+};
+
+export default function ChangelogPanel({ diff, sections, getNodeId, onSelectNode, onCopy, onDownload }: ChangelogPanelProps) {
+  const [collapsedSections, setCollapsedSections] = useState<Set<string>>(new Set());
+
+  const toggleSection = (title: string) => {
+    setCollapsedSections((current) => {
+      const next = new Set(current);
+      if (next.has(title)) {
+        next.delete(title);
+      } else {
+        next.add(title);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="w-96 max-h-[80vh] flex flex-col bg-helm-surface/95 backdrop-blur-sm border border-helm-border rounded-lg shadow-lg overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-helm-border/50">
+        <div className="min-w-0">
+          <h3 className="text-xs font-semibold text-helm-text/60 uppercase tracking-wider">
+            Changelog
+          </h3>
+          <p className="text-xs text-helm-text/40 truncate">
+            {diff.base.name} {diff.base.version} → {diff.head.name} {diff.head.version}
+          </p>
+        </div>
+        <div className="flex items-center gap-3 text-xs">
+          <button onClick={onCopy} className="text-helm-text/60 hover:text-helm-accent transition-colors">
+            Copy
+          </button>
+          <button onClick={onDownload} className="text-helm-text/60 hover:text-helm-accent transition-colors">
+            Download
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-3 py-1 text-xs divide-y divide-helm-border/50">
+        {sections.map((section) => (
+          <div key={section.title}>
+            <button
+              onClick={() => toggleSection(section.title)}
+              className="w-full flex items-center justify-between py-1.5 hover:bg-helm-border/30 transition-colors"
+            >
+              <span className="font-semibold text-helm-text/80">{section.title}</span>
+              <span className="text-helm-text/40">{section.entries.length}</span>
+            </button>
+            {!collapsedSections.has(section.title) && (
+              <ul className="pb-2 space-y-0.5">
+                {section.entries.map((entry, i) => {
+                  const nodeId = getNodeId(entry);
+                  return (
+                    <li key={i}>
+                      <button
+                        onClick={() => nodeId && onSelectNode(nodeId)}
+                        disabled={!nodeId}
+                        className={`w-full text-left flex gap-2 ${
+                          nodeId ? 'hover:bg-helm-border/30' : 'cursor-default'
+                        } transition-colors`}
+                      >
+                        <span className={`w-3 flex-shrink-0 font-mono ${diffStatusColors[entry.status]}`}>
+                          {statusIcons[entry.status]}
+                        </span>
+                        <span className="flex-1 min-w-0 text-helm-text break-words">
+                          {/* Backticked names as code */}
+                          {entry.text.split('`').map((part, j) =>
+                            j % 2 === 1 ? <code key={j} className="font-mono text-helm-purple">{part}</code> : part
+                          )}
+                        </span>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        ))}
+        {sections.length === 0 && <p className="py-2 text-helm-text/40">No structural changes</p>}
+      </div>
+    </div>
+  );
+}
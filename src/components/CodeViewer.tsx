@@ -0,0 +1,187 @@
+import { useEffect, useMemo, useRef } from 'react';
+import yaml from 'js-yaml';
+import { HelmChart, Reference, SourceLocation } from '../types';
+import { isDefaultValuesFile } from '../parser/helm-parser';
+import { getValueByPath, getYamlKeyLines, splitValuePath } from '../parser/yaml-parser';
+import { highlightSource, HighlightKind } from '../parser/source-highlighter';
+import { globToRegExp, isAccessibleChartFile } from '../render/chart-files';
+
+interface CodeViewerProps {
+  chart: HelmChart;
+  filePath: string | null;
+  location: SourceLocation | null;
+  onNavigate: (location: SourceLocation) => void;
+  onClose: () => void;
+}
+
+const HIGHLIGHT_CLASSES: Record<HighlightKind, string> = {
+  plain: 'text-helm-text',
+  delimiter: 'text-helm-text/40',
+  keyword: 'text-helm-red',
+  function: 'text-helm-accent',
+  field: 'text-helm-purple',
+  variable: 'text-helm-orange',
+  string: 'text-helm-green',
+  literal: 'text-helm-orange',
+  comment: 'text-helm-text/40 italic',
+  key: 'text-helm-cyan',
+};
+
+// Longest default shown in a hover before it is cut off
+const MAX_PREVIEW_LINES = 12;
+
+export default function CodeViewer({ chart, filePath, location, onNavigate, onClose }: CodeViewerProps) {
+  const focusLineRef = useRef<HTMLDivElement>(null);
+
+  const file = chart.files.find((f) => f.path === filePath);
+  const valuesFile = chart.files.find((f) => isDefaultValuesFile(f.path));
+  const chartFile = chart.files.find((f) => f.type === 'chart');
+
+  const lines = useMemo(() => {
+    if (!file) return [];
+    const references = chart.references.filter((ref) => ref.source.file === file.path);
+    return highlightSource(file.content, file.type, references);
+  }, [chart, file]);
+
+  const valueKeyLines = useMemo(() => getYamlKeyLines(valuesFile?.content ?? ''), [valuesFile]);
+  const chartKeyLines = useMemo(() => getYamlKeyLines(chartFile?.content ?? ''), [chartFile]);
+
+  const focusLine = location && location.file === filePath ? location.line : undefined;
+
+  useEffect(() => {
+    focusLineRef.current?.scrollIntoView({ block: 'center' });
+  }, [location, filePath]);
+
+  /**
+   * Where clicking a reference jumps to: the values.yaml key (or its closest
+   * defined parent), the helper's define, the Chart.yaml field or the file read
+   */
+  const getReferenceTarget = (ref: Reference): SourceLocation | null => {
+    switch (ref.type) {
+      case 'values': {
+        if (!valuesFile) return null;
+        const segments = splitValuePath(ref.target.path.replace(/\[\*\]/g, '[0]'));
+        for (let length = segments.length; length > 0; length--) {
+          const path = segments.slice(0, length).join('.').replace(/\.\[/g, '[');
+          const line = valueKeyLines.get(path);
+          if (line !== undefined) return { file: valuesFile.path, line };
+        }
+        return null;
+      }
+      case 'include':
+      case 'template': {
+        const helper = chart.helpers.find((h) => h.name === ref.target.path);
+        return helper ? { file: helper.file, line: helper.line ?? 1 } : null;
+      }
+      case 'chart': {
+        const line = chartKeyLines.get(lowerFirst(ref.target.path));
+        return chartFile && line !== undefined ? { file: chartFile.path, line } : null;
+      }
+      case 'files': {
+        // A glob opens the first file it matches
+        const regex = globToRegExp(ref.target.path);
+        const target = chart.files.filter(isAccessibleChartFile).find((f) => regex.test(f.path));
+        return target ? { file: target.path, line: 1 } : null;
+      }
+      default:
+        return null;
+    }
+  };
+
+  const describeReference = (ref: Reference): string => {
+    switch (ref.type) {
+      case 'values': {
+        const value = getValueByPath(chart.values.raw, ref.target.path);
+        if (value === undefined) return `.Values.${ref.target.path} has no default`;
+        const key = chart.values.flatKeys.find((k) => k.path === ref.target.path);
+        const source = key?.source && key.source !== 'values.yaml' ? `\nfrom ${key.source}` : '';
+        return `.Values.${ref.target.path} = ${formatDefault(value)}${source}`;
+      }
+      case 'include':
+      case 'template': {
+        const helper = chart.helpers.find((h) => h.name === ref.target.path);
+        return helper
+          ? `define "${helper.name}" in ${helper.file}${helper.line ? `:${helper.line}` : ''}`
+          : `"${ref.target.path}" is not defined`;
+      }
+      case 'chart':
+        return `Chart.yaml ${lowerFirst(ref.target.path)}`;
+      default:
+        return ref.expression;
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-helm-surface">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-helm-border">
+        <div className="min-w-0">
+          <h2 className="text-sm font-semibold text-helm-text/80 uppercase tracking-wider">
+            Source
+          </h2>
+          <p className="text-xs font-mono text-helm-text/40 truncate">
+            {filePath ?? 'No file selected'}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-helm-text/60 hover:text-helm-text transition-colors"
+          aria-label="Close source"
+        >
+          ✕
+        </button>
+      </div>
+
+      {!file ? (
+        <div className="flex-1 flex items-center justify-center p-6 text-sm text-helm-text/40 text-center">
+          Select a file in the file tree, or click an edge, to view its source
+        </div>
+      ) : (
+        <div className="flex-1 overflow-auto py-2 font-mono text-xs">
+          {lines.map((spans, i) => (
+            <div
+              key={i}
+              ref={i + 1 === focusLine ? focusLineRef : undefined}
+              className={`flex ${i + 1 === focusLine ? 'bg-helm-accent/20' : ''}`}
+            >
+              <span className="w-10 flex-shrink-0 pr-3 text-right text-helm-text/30 select-none">{i + 1}</span>
+              <span className="whitespace-pre">
+                {spans.map((span, j) => {
+                  const ref = span.reference;
+                  const target = ref && getReferenceTarget(ref);
+                  if (!ref) {
+                    return <span key={j} className={HIGHLIGHT_CLASSES[span.kind]}>{span.text}</span>;
+                  }
+                  return (
+                    <span
+                      key={j}
+                      title={describeReference(ref)}
+                      onClick={target ? () => onNavigate(target) : undefined}
+                      className={`${HIGHLIGHT_CLASSES[span.kind]} underline decoration-dotted decoration-helm-text/40 ${
+                        target ? 'cursor-pointer hover:bg-helm-accent/20' : ''
+                      }`}
+                    >
+                      {span.text}
+                    </span>
+                  );
+                })}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function lowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.slice(1);
+}
+
+function formatDefault(value: unknown): string {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  const lines = yaml.dump(value).trimEnd().split('\n');
+  const shown = lines.slice(0, MAX_PREVIEW_LINES);
+  if (lines.length > MAX_PREVIEW_LINES) shown.push('…');
+  return `\n${shown.join('\n')}`;
+}
@@ -0,0 +1,166 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { SearchItem, SearchItemKind, SearchResult } from '../types';
+import { fuzzyMatch, getMatchingNodeIds, parseSearchQuery, searchIndex } from '../graph/graph-search';
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  items: SearchItem[];
+  commands: PaletteCommand[];
+  onSelect: (item: SearchItem) => void;
+  onFilter: (query: string) => void;
+  onClose: () => void;
+}
+
+type PaletteRow =
+  | { type: 'filter'; nodeCount: number }
+  | { type: 'command'; command: PaletteCommand; matches: number[] }
+  | { type: 'result'; result: SearchResult };
+
+const MAX_RESULTS = 50;
+
+const kindColors: Record<SearchItemKind, string> = {
+  value: 'text-helm-purple',
+  helper: 'text-helm-cyan',
+  file: 'text-helm-orange',
+  resource: 'text-helm-green',
+  expression: 'text-helm-accent',
+};
+
+export default function CommandPalette({ items, commands, onSelect, onFilter, onClose }: CommandPaletteProps) {
+  const [input, setInput] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // Filter queries offer to filter the graph first, then commands, then matches
+  const rows = useMemo((): PaletteRow[] => {
+    const query = parseSearchQuery(input);
+    const rows: PaletteRow[] = [];
+    if (query.filters.length > 0) {
+      rows.push({ type: 'filter', nodeCount: getMatchingNodeIds(items, query).size });
+    } else {
+      commands.forEach((command) => {
+        const match = fuzzyMatch(query.text, command.label);
+        if (match) rows.push({ type: 'command', command, matches: match.matches });
+      });
+    }
+    if (query.text || query.filters.length > 0) {
+      searchIndex(items, query, MAX_RESULTS).forEach((result) => rows.push({ type: 'result', result }));
+    }
+    return rows;
+  }, [input, items, commands]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [rows]);
+
+  useEffect(() => {
+    listRef.current?.children[activeIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const choose = (row: PaletteRow) => {
+    if (row.type === 'filter') {
+      onFilter(input.trim());
+    } else if (row.type === 'command') {
+      row.command.run();
+    } else {
+      onSelect(row.result.item);
+    }
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((index) => Math.min(index + 1, rows.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((index) => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter' && rows[activeIndex]) {
+      e.preventDefault();
+      choose(rows[activeIndex]);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-center pt-[15vh] bg-helm-bg/60" onClick={onClose}>
+      <div
+        className="w-[36rem] max-h-[60vh] flex flex-col self-start bg-helm-surface/95 backdrop-blur-sm border border-helm-border rounded-lg shadow-lg overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <input
+          autoFocus
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search values, helpers, files, expressions… (type:values path:image.* file:deployment.yaml)"
+          className="px-4 py-3 bg-transparent border-b border-helm-border/50 text-sm text-helm-text placeholder:text-helm-text/40 outline-none"
+        />
+
+        <ul ref={listRef} className="flex-1 overflow-y-auto py-1 text-sm">
+          {rows.map((row, i) => (
+            <li
+              key={row.type === 'result' ? `${row.result.item.kind}:${row.result.item.text}:${i}` : row.type === 'command' ? row.command.id : 'filter'}
+              onMouseMove={() => setActiveIndex(i)}
+              onClick={() => choose(row)}
+              className={`flex items-center gap-3 px-4 py-1.5 cursor-pointer ${
+                i === activeIndex ? 'bg-helm-accent/20' : ''
+              }`}
+            >
+              {row.type === 'filter' && (
+                <>
+                  <span className="w-20 flex-shrink-0 text-xs text-helm-accent">filter</span>
+                  <span className="flex-1 text-helm-text">Show only matching nodes</span>
+                  <span className="text-xs text-helm-text/40">{row.nodeCount} nodes</span>
+                </>
+              )}
+              {row.type === 'command' && (
+                <>
+                  <span className="w-20 flex-shrink-0 text-xs text-helm-text/60">command</span>
+                  <span className="flex-1 text-helm-text">
+                    <HighlightedText text={row.command.label} matches={row.matches} />
+                  </span>
+                </>
+              )}
+              {row.type === 'result' && (
+                <>
+                  <span className={`w-20 flex-shrink-0 text-xs ${kindColors[row.result.item.kind]}`}>
+                    {row.result.item.kind}
+                  </span>
+                  <span className="flex-1 min-w-0 truncate font-mono text-xs text-helm-text">
+                    <HighlightedText text={row.result.item.text} matches={row.result.matches} />
+                  </span>
+                  {row.result.item.detail && (
+                    <span className="max-w-[40%] truncate text-xs text-helm-text/40">{row.result.item.detail}</span>
+                  )}
+                </>
+              )}
+            </li>
+          ))}
+          {rows.length === 0 && <li className="px-4 py-2 text-helm-text/40">No matches</li>}
+        </ul>
+
+        <div className="px-4 py-1.5 border-t border-helm-border/50 text-xs text-helm-text/40">
+          ↑↓ to move · Enter to focus · Esc to close
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function HighlightedText({ text, matches }: { text: string; matches: number[] }) {
+  const matched = new Set(matches);
+  return (
+    <>
+      {text.split('').map((char, i) =>
+        matched.has(i) ? <span key={i} className="text-helm-accent font-semibold">{char}</span> : char
+      )}
+    </>
+  );
+}
@@ -0,0 +1,205 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ReactFlow,
+  Background,
+  Controls,
+  MiniMap,
+  useNodesState,
+  useEdgesState,
+  useReactFlow,
+  Node,
+  Edge,
+  ConnectionMode,
+  BackgroundVariant,
+  Panel,
+} from '@xyflow/react';
+import '@xyflow/react/dist/style.css';
+
+import { ChangelogEntry, DiffStatus, HelmChart } from '../types';
+import { diffCharts, formatChangelog, getChangelogSections, getResourceKey } from '../analysis/chart-diff';
+import { buildDiffGraph } from '../graph/diff-graph';
+import { nodeTypes } from './nodes';
+import ChangelogPanel, { diffStatusColors } from './ChangelogPanel';
+import { downloadBlob } from './download';
+
+interface DiffViewProps {
+  base: HelmChart;
+  head: HelmChart;
+}
+
+// Outline of nodes by diff status
+const nodeClasses: Record<DiffStatus, string> = {
+  added: 'rounded-lg ring-4 ring-helm-green/70',
+  removed: 'rounded-lg ring-4 ring-helm-red/70 opacity-60',
+  changed: 'rounded-lg ring-4 ring-helm-orange/70',
+  renamed: 'rounded-lg ring-4 ring-helm-cyan/70',
+  unchanged: 'opacity-40',
+};
+
+const edgeStyles: Record<DiffStatus, React.CSSProperties> = {
+  added: { stroke: '#3fb950', strokeWidth: 2.5 },
+  removed: { stroke: '#f85149', strokeWidth: 2.5, strokeDasharray: '6 4' },
+  changed: { stroke: '#d29922', strokeWidth: 2.5 },
+  renamed: { stroke: '#39c5cf', strokeWidth: 2.5 },
+  unchanged: { stroke: '#30363d', strokeWidth: 1, opacity: 0.5 },
+};
+
+const minimapColors: Record<DiffStatus, string> = {
+  added: '#3fb950',
+  removed: '#f85149',
+  changed: '#d29922',
+  renamed: '#39c5cf',
+  unchanged: '#30363d',
+};
+
+export default function DiffView({ base, head }: DiffViewProps) {
+  const { fitView } = useReactFlow();
+  const [hideUnchanged, setHideUnchanged] = useState(false);
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+
+  const diff = useMemo(() => diffCharts(base, head), [base, head]);
+  const sections = useMemo(() => getChangelogSections(diff), [diff]);
+  const graphData = useMemo(() => buildDiffGraph(base, head, diff), [base, head, diff]);
+
+  const [nodes, setNodes, onNodesChange] = useNodesState<Node>([]);
+  const [edges, setEdges, onEdgesChange] = useEdgesState<Edge>([]);
+
+  // Style the merged graph by diff status, optionally hiding what did not change
+  useEffect(() => {
+    const hiddenNodeIds = new Set(
+      graphData.nodes
+        .filter((node) => hideUnchanged && node.data.diffStatus === 'unchanged' && node.type !== 'subchart')
+        .map((node) => node.id)
+    );
+    setNodes(graphData.nodes.map((node) => ({
+      ...node,
+      hidden: node.hidden || hiddenNodeIds.has(node.id),
+      className: nodeClasses[node.data.diffStatus as DiffStatus],
+    })) as Node[]);
+    setEdges(graphData.edges.map((edge) => ({
+      ...edge,
+      hidden: edge.hidden || hiddenNodeIds.has(edge.source) || hiddenNodeIds.has(edge.target),
+      style: edgeStyles[(edge.data?.diffStatus as DiffStatus) ?? 'unchanged'],
+    })) as Edge[]);
+  }, [graphData, hideUnchanged, setNodes, setEdges]);
+
+  useEffect(() => {
+    setTimeout(() => fitView({ padding: 0.3 }), 100);
+  }, [graphData, fitView]);
+
+  // Graph node a changelog entry is about; resources are matched by kind and name
+  const getNodeId = useCallback((entry: ChangelogEntry): string | undefined => {
+    if (!entry.subject) return undefined;
+    const { type, name } = entry.subject;
+    let nodeId: string | undefined = `${type}:${name}`;
+    if (type === 'resource') {
+      const resource = [...head.resources, ...base.resources].find((r) => getResourceKey(r) === name);
+      nodeId = resource && `resource:${resource.id}`;
+    }
+    return nodeId && graphData.nodes.some((node) => node.id === nodeId) ? nodeId : undefined;
+  }, [base, head, graphData]);
+
+  const handleSelectNode = useCallback((nodeId: string) => {
+    setSelectedNodeId(nodeId);
+    fitView({ nodes: [{ id: nodeId }], padding: 1.5, duration: 500, maxZoom: 1.2 });
+  }, [fitView]);
+
+  const handleCopy = useCallback(() => {
+    navigator.clipboard?.writeText(formatChangelog(diff));
+  }, [diff]);
+
+  const handleDownload = useCallback(() => {
+    const blob = new Blob([formatChangelog(diff)], { type: 'text/markdown' });
+    downloadBlob(blob, `${head.name}-${diff.base.version}-to-${diff.head.version}-changelog.md`);
+  }, [diff, head]);
+
+  const selectedNode = graphData.nodes.find((node) => node.id === selectedNodeId);
+  const selectedStatus = selectedNode?.data.diffStatus as DiffStatus | undefined;
+
+  return (
+    <div className="w-full h-full">
+      <ReactFlow
+        nodes={nodes}
+        edges={edges}
+        onNodesChange={onNodesChange}
+        onEdgesChange={onEdgesChange}
+        onNodeClick={(_event, node) => setSelectedNodeId(node.id)}
+        onPaneClick={() => setSelectedNodeId(null)}
+        nodeTypes={nodeTypes}
+        connectionMode={ConnectionMode.Loose}
+        fitView
+        fitViewOptions={{ padding: 0.3 }}
+        minZoom={0.1}
+        maxZoom={2}
+        defaultEdgeOptions={{
+          type: 'smoothstep',
+          animated: false,
+        }}
+      >
+        <Background
+          variant={BackgroundVariant.Dots}
+          gap={20}
+          size={1}
+          color="#30363d"
+        />
+        <Controls
+          className="!bg-helm-surface !border-helm-border !rounded-lg"
+          showInteractive={false}
+          position="bottom-right"
+        />
+        <MiniMap
+          className="!bg-helm-surface !border-helm-border !rounded-lg"
+          nodeColor={(node) => minimapColors[(node.data.diffStatus as DiffStatus) ?? 'unchanged']}
+          maskColor="rgba(13, 17, 23, 0.8)"
+          position="top-left"
+        />
+
+        {/* Changelog */}
+        <Panel position="top-right" className="pointer-events-auto">
+          <ChangelogPanel
+            diff={diff}
+            sections={sections}
+            getNodeId={getNodeId}
+            onSelectNode={handleSelectNode}
+            onCopy={handleCopy}
+            onDownload={handleDownload}
+          />
+        </Panel>
+
+        {/* What changed on the clicked node */}
+        {selectedNode && selectedStatus && (
+          <Panel position="bottom-center" className="pointer-events-auto">
+            <div className="px-3 py-2 bg-helm-surface/95 backdrop-blur-sm border border-helm-border rounded-lg shadow-lg text-xs">
+              <span className="font-mono text-helm-text">{selectedNode.id}</span>
+              <span className={`ml-2 ${diffStatusColors[selectedStatus]}`}>{selectedStatus}</span>
+              {typeof selectedNode.data.diffDetail === 'string' && (
+                <span className="ml-2 text-helm-text/60">{selectedNode.data.diffDetail}</span>
+              )}
+            </div>
+          </Panel>
+        )}
+
+        {/* Legend and filter */}
+        <Panel position="bottom-left" className="pointer-events-auto">
+          <div className="px-3 py-2 bg-helm-surface/95 backdrop-blur-sm border border-helm-border rounded-lg shadow-lg text-xs flex flex-col gap-1.5">
+            {(['added', 'removed', 'changed', 'renamed'] as DiffStatus[]).map((status) => (
+              <div key={status} className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded" style={{ backgroundColor: minimapColors[status] }} />
+                <span className="text-helm-text capitalize">{status}</span>
+              </div>
+            ))}
+            <label className="flex items-center gap-2 mt-1 pt-1.5 border-t border-helm-border/50 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={hideUnchanged}
+                onChange={(e) => setHideUnchanged(e.target.checked)}
+                className="accent-helm-accent"
+              />
+              <span className="text-helm-text">Hide unchanged</span>
+            </label>
+          </div>
+        </Panel>
+      </ReactFlow>
+    </div>
+  );
+}
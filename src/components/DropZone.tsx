@@ -1,13 +1,25 @@
-import { useState, useCallback, DragEvent } from 'react';
+import { useState, useCallback, useRef, DragEvent, ChangeEvent } from 'react';
+import { extractChartArchive, isChartArchive } from '../parser/chart-archive';
+import { WatchedFolder, getSnapshotFiles, pickChartFolder, readChartFolder, supportsFolderAccess } from '../parser/chart-folder';
+import { LoadProgress, LoadStage } from '../types';
+
+const STAGE_LABELS: Record<LoadStage, string> = {
+  parsing: 'Parsing templates',
+  graph: 'Building graph',
+  lint: 'Linting chart',
+};
 
 interface DropZoneProps {
   onFilesDropped: (files: Map<string, string>) => void;
   isLoading: boolean;
+  progress?: LoadProgress | null;  // Reported by the chart worker while loading
+  onFolderOpened?: (folder: WatchedFolder) => void;  // Offers "Open folder" where the browser supports it
 }
 
-export default function DropZone({ onFilesDropped, isLoading }: DropZoneProps) {
+export default function DropZone({ onFilesDropped, isLoading, progress, onFolderOpened }: DropZoneProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleDragOver = useCallback((e: DragEvent) => {
     e.preventDefault();
@@ -37,6 +49,18 @@ export default function DropZone({ onFilesDropped, isLoading }: DropZoneProps) {
     });
   };
 
+  // Packaged charts are unpacked next to where the archive sits, so a
+  // charts/postgresql-12.0.0.tgz ends up as charts/postgresql/...
+  const readArchiveEntry = async (entry: FileSystemFileEntry): Promise<Map<string, string>> => {
+    const file = await new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+    const archiveFiles = await extractChartArchive(await file.arrayBuffer());
+    const directory = entry.fullPath.split('/').slice(0, -1).join('/');
+
+    const files = new Map<string, string>();
+    archiveFiles.forEach((content, path) => files.set(`${directory}/${path}`, content));
+    return files;
+  };
+
   const readDirectoryEntry = async (entry: FileSystemDirectoryEntry): Promise<Map<string, string>> => {
     const files = new Map<string, string>();
     const reader = entry.createReader();
@@ -51,7 +75,10 @@ export default function DropZone({ onFilesDropped, isLoading }: DropZoneProps) {
       let entries = await readEntries();
       while (entries.length > 0) {
         for (const entry of entries) {
-          if (entry.isFile) {
+          if (entry.isFile && isChartArchive(entry.name)) {
+            const archiveFiles = await readArchiveEntry(entry as FileSystemFileEntry);
+            archiveFiles.forEach((content, path) => files.set(path, content));
+          } else if (entry.isFile) {
             const fileEntry = entry as FileSystemFileEntry;
             const result = await readFileEntry(fileEntry);
             if (result) {
@@ -85,35 +112,88 @@ export default function DropZone({ onFilesDropped, isLoading }: DropZoneProps) {
 
     const files = new Map<string, string>();
 
+    // Entries must be collected synchronously, before the first await
+    const entries: FileSystemEntry[] = [];
     for (let i = 0; i < items.length; i++) {
-      const item = items[i];
-      const entry = item.webkitGetAsEntry();
-      
-      if (!entry) continue;
-
-      if (entry.isDirectory) {
-        const dirFiles = await readDirectoryEntry(entry as FileSystemDirectoryEntry);
-        dirFiles.forEach((content, path) => files.set(path, content));
-      } else if (entry.isFile) {
-        const result = await readFileEntry(entry as FileSystemFileEntry);
-        if (result) {
-          files.set(result.path, result.content);
+      const entry = items[i].webkitGetAsEntry();
+      if (entry) entries.push(entry);
+    }
+
+    try {
+      for (const entry of entries) {
+        if (entry.isDirectory) {
+          const dirFiles = await readDirectoryEntry(entry as FileSystemDirectoryEntry);
+          dirFiles.forEach((content, path) => files.set(path, content));
+        } else if (entry.isFile && isChartArchive(entry.name)) {
+          const archiveFiles = await readArchiveEntry(entry as FileSystemFileEntry);
+          archiveFiles.forEach((content, path) => files.set(path, content));
+        } else if (entry.isFile) {
+          const result = await readFileEntry(entry as FileSystemFileEntry);
+          if (result) {
+            files.set(result.path, result.content);
+          }
         }
       }
+    } catch (err) {
+      setError(`Could not read chart archive: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+
+    submitFiles(files);
+  }, [onFilesDropped]);
+
+  // Pick a packaged chart with the file dialog
+  const handleArchivePicked = useCallback(async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+
+    try {
+      submitFiles(await extractChartArchive(await file.arrayBuffer()));
+    } catch (err) {
+      setError(`Could not read chart archive: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [onFilesDropped]);
+
+  // Open a folder through a directory handle, so it can be watched for changes
+  const handleOpenFolder = async () => {
+    if (!onFolderOpened) return;
+    let handle: FileSystemDirectoryHandle;
+    try {
+      handle = await pickChartFolder();
+    } catch {
+      return;  // Dialog cancelled
+    }
+    setError(null);
+
+    try {
+      const snapshot = await readChartFolder(handle);
+      if (isChart(getSnapshotFiles(snapshot))) {
+        onFolderOpened({ handle, snapshot });
+      }
+    } catch (err) {
+      setError(`Could not read folder: ${err instanceof Error ? err.message : String(err)}`);
     }
+  };
+
+  const submitFiles = (files: Map<string, string>) => {
+    if (isChart(files)) {
+      onFilesDropped(files);
+    }
+  };
 
+  const isChart = (files: Map<string, string>): boolean => {
     // Validate it's a Helm chart
     const hasChartYaml = Array.from(files.keys()).some(path => 
       path.toLowerCase().endsWith('chart.yaml') || path.toLowerCase().endsWith('chart.yml')
     );
 
     if (!hasChartYaml) {
-      setError('No Chart.yaml found. Please drop a valid Helm chart folder.');
-      return;
+      setError('No Chart.yaml found. Please drop a valid Helm chart folder or .tgz archive.');
     }
-
-    onFilesDropped(files);
-  }, [onFilesDropped]);
+    return hasChartYaml;
+  };
 
   return (
     <div
@@ -134,7 +214,22 @@ export default function DropZone({ onFilesDropped, isLoading }: DropZoneProps) {
       {isLoading ? (
         <>
           <div className="w-16 h-16 border-4 border-helm-accent border-t-transparent rounded-full animate-spin" />
-          <p className="text-helm-text text-lg">Parsing Helm chart...</p>
+          <p className="text-helm-text text-lg">
+            {progress ? `${STAGE_LABELS[progress.stage]}...` : 'Parsing Helm chart...'}
+          </p>
+          {progress?.stage === 'parsing' && (
+            <div className="w-64 space-y-1">
+              <div className="h-1.5 rounded-full bg-helm-border overflow-hidden">
+                <div
+                  className="h-full bg-helm-accent transition-[width] duration-150"
+                  style={{ width: `${(progress.done / Math.max(1, progress.total)) * 100}%` }}
+                />
+              </div>
+              <p className="text-xs text-helm-text/50 text-center">
+                {progress.done} / {progress.total} files
+              </p>
+            </div>
+          )}
         </>
       ) : (
         <>
@@ -172,10 +267,35 @@ export default function DropZone({ onFilesDropped, isLoading }: DropZoneProps) {
               {isDragging ? 'Drop your Helm chart here' : 'Drag & Drop Helm Chart'}
             </p>
             <p className="text-helm-text/60 text-sm">
-              Drop a folder containing Chart.yaml, values.yaml, and templates/
+              Drop a folder containing Chart.yaml, values.yaml, and templates/, or a packaged .tgz chart
             </p>
           </div>
 
+          <div className="flex gap-2">
+            {onFolderOpened && supportsFolderAccess() && (
+              <button
+                onClick={handleOpenFolder}
+                className="px-4 py-1.5 text-sm bg-helm-border hover:bg-helm-accent/20 hover:border-helm-accent text-helm-text rounded-md border border-helm-border transition-colors"
+                title="Open a chart folder and follow edits made to it on disk"
+              >
+                Open folder
+              </button>
+            )}
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-4 py-1.5 text-sm bg-helm-border hover:bg-helm-accent/20 hover:border-helm-accent text-helm-text rounded-md border border-helm-border transition-colors"
+            >
+              Choose .tgz archive
+            </button>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".tgz,.tar.gz,application/gzip"
+            className="hidden"
+            onChange={handleArchivePicked}
+          />
+
           {error && (
             <div className="bg-helm-red/20 border border-helm-red/50 rounded-lg px-4 py-2">
               <p className="text-helm-red text-sm">{error}</p>
@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { GraphExportFormat, GraphExportScope } from '../types';
+
+interface ExportMenuProps {
+  onExport: (format: GraphExportFormat, scope: GraphExportScope) => void;
+  onClose: () => void;
+}
+
+const formats: { format: GraphExportFormat; label: string; description: string }[] = [
+  { format: 'svg', label: 'SVG', description: 'Vector image' },
+  { format: 'png', label: 'PNG', description: 'Raster image' },
+  { format: 'dot', label: 'DOT', description: 'Graphviz' },
+  { format: 'mermaid', label: 'Mermaid', description: 'Flowchart for Markdown docs' },
+  { format: 'graphml', label: 'GraphML', description: 'yEd, Gephi' },
+  { format: 'json', label: 'JSON', description: 'Nodes and edges' },
+];
+
+export default function ExportMenu({ onExport, onClose }: ExportMenuProps) {
+  const [scope, setScope] = useState<GraphExportScope>('canvas');
+
+  return (
+    <div className="w-64 bg-helm-surface/95 backdrop-blur-sm border border-helm-border rounded-lg shadow-lg overflow-hidden text-xs">
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-helm-border/50">
+        <h3 className="font-semibold text-helm-text/60 uppercase tracking-wider">
+          Export Graph
+        </h3>
+        <button
+          onClick={onClose}
+          className="text-helm-text/60 hover:text-helm-text transition-colors"
+          aria-label="Close export menu"
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* Image area */}
+      <div className="flex gap-1 px-3 pt-2" title="Area of the canvas SVG and PNG exports cover">
+        {(['canvas', 'viewport'] as GraphExportScope[]).map((option) => (
+          <button
+            key={option}
+            onClick={() => setScope(option)}
+            className={`flex-1 py-1 rounded border transition-colors ${
+              scope === option
+                ? 'border-helm-accent bg-helm-accent/20 text-helm-text'
+                : 'border-helm-border text-helm-text/60 hover:text-helm-text'
+            }`}
+          >
+            {option === 'canvas' ? 'Whole canvas' : 'Viewport'}
+          </button>
+        ))}
+      </div>
+
+      <ul className="py-1">
+        {formats.map(({ format, label, description }) => (
+          <li key={format}>
+            <button
+              onClick={() => onExport(format, scope)}
+              className="w-full flex items-center justify-between px-3 py-1.5 hover:bg-helm-border/30 transition-colors"
+            >
+              <span className="font-medium text-helm-text">{label}</span>
+              <span className="text-helm-text/40">{description}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <p className="px-3 pb-2 text-helm-text/40">
+        Collapsed groups and the current highlighting are kept
+      </p>
+    </div>
+  );
+}
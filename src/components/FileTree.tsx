@@ -13,6 +13,7 @@ const fileTypeIcons: Record<FileType, string> = {
   template: '📄',
   helper: '🔧',
   notes: '📝',
+  schema: '📐',
   other: '📁',
 };
 
@@ -22,6 +23,7 @@ const fileTypeColors: Record<FileType, string> = {
   template: 'text-helm-orange',
   helper: 'text-helm-cyan',
   notes: 'text-helm-text',
+  schema: 'text-helm-purple',
   other: 'text-helm-text/60',
 };
 
@@ -1,4 +1,4 @@
-import { useCallback, useMemo, useEffect, useState } from 'react';
+import { useCallback, useMemo, useEffect, useRef, useState } from 'react';
 import {
   ReactFlow,
   Background,
@@ -15,97 +15,353 @@ import {
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
 
-import { HelmChart, GraphNode, GraphEdge } from '../types';
-import { buildGraphData, autoOrganizeLayout } from '../graph/graph-builder';
-import { FileNode, ValueNode, ChartNode, ReleaseNode, HelperNode } from './nodes';
+import { HelmChart, GraphNode, GraphEdge, EdgeData, SourceLocation, LintConfig, GraphData, GraphExportFormat, GraphExportScope, SearchItem, LayoutAlgorithm, GraphPatch, Diagnostic, GraphViewState } from '../types';
+import { ChartWorkerClient } from '../worker/chart-worker-client';
+import { getImpactElementIds, applyCollapsedGroups } from '../graph/graph-builder';
+import { applyGraphPatch, isEmptyPatch } from '../graph/graph-patch';
+import { applyViewState, captureViewState } from '../session/view-state';
+import { getEdgeStyle, getNodeColor } from '../graph/graph-styles';
+import { LAYOUTS } from '../graph/layouts';
+import {
+  exportToDot,
+  exportToMermaid,
+  exportToGraphML,
+  exportToJson,
+  exportToSvg,
+  getGraphBounds,
+  rasterizeSvg,
+  ExportRect,
+} from '../graph/graph-export';
+import { nodeTypes } from './nodes';
+import { edgeTypes } from './edges';
+import ImpactPanel from './ImpactPanel';
+import ValuesReportPanel from './ValuesReportPanel';
+import LintPanel from './LintPanel';
+import ExportMenu from './ExportMenu';
+import LayoutMenu from './LayoutMenu';
+import CommandPalette, { PaletteCommand } from './CommandPalette';
+import { downloadBlob } from './download';
+import { generateValuesSchema } from '../analysis/schema-generator';
+import { groupDiagnosticsByNode } from '../lint/linter';
+import { getMatchingNodeIds, parseSearchQuery } from '../graph/graph-search';
+import { BUILT_IN_RULES } from '../lint/rules';
 
 interface GraphViewProps {
   chart: HelmChart;
+  graph: GraphData;             // Built by the chart worker
+  graphPatch?: GraphPatch;      // Set when `graph` updates the previous one
+  diagnostics: Diagnostic[];    // Lint findings with the default config
+  worker: ChartWorkerClient;    // Lays out the graph and analyses the chart off the main thread
+  initialView?: Partial<GraphViewState> | null;  // Restored when a new graph is shown
+  onViewChange?: (view: GraphViewState) => void;
   selectedFile: string | null;
   onSelectFile: (file: string | null) => void;
+  onNavigate: (location: SourceLocation) => void;
 }
 
-const nodeTypes = {
-  file: FileNode,
-  value: ValueNode,
-  chart: ChartNode,
-  release: ReleaseNode,
-  helper: HelperNode,
-};
-
-// Custom edge styles based on reference type
-const getEdgeStyle = (referenceType: string) => {
-  switch (referenceType) {
-    case 'values':
-      return { stroke: '#a371f7', strokeWidth: 2 };
-    case 'include':
-    case 'template':
-      return { stroke: '#39c5cf', strokeWidth: 2 };
-    case 'chart':
-      return { stroke: '#3fb950', strokeWidth: 2 };
-    case 'release':
-      return { stroke: '#58a6ff', strokeWidth: 2 };
-    default:
-      return { stroke: '#30363d', strokeWidth: 1 };
-  }
-};
-
-export default function GraphView({ chart, selectedFile, onSelectFile }: GraphViewProps) {
-  const { fitView } = useReactFlow();
+// Largest PNG side, below browser canvas limits
+const MAX_PNG_SIZE = 8000;
+
+const NO_SEARCH_ITEMS: SearchItem[] = [];
+
+export default function GraphView({
+  chart,
+  graph,
+  graphPatch,
+  diagnostics: defaultDiagnostics,
+  worker,
+  initialView,
+  onViewChange,
+  selectedFile,
+  onSelectFile,
+  onNavigate,
+}: GraphViewProps) {
+  const { fitView, getViewport, setViewport, getNodes, getEdges } = useReactFlow();
+  const containerRef = useRef<HTMLDivElement>(null);
   const [isLegendCollapsed, setIsLegendCollapsed] = useState(false);
   const [isStatsCollapsed, setIsStatsCollapsed] = useState(false);
+  const [impactValuePath, setImpactValuePath] = useState<string | null>(null);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [isLintOpen, setIsLintOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [lintConfig, setLintConfig] = useState<LintConfig>({});
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [graphFilter, setGraphFilter] = useState<string | null>(null);
+  const [focusedNodeId, setFocusedNodeId] = useState<string | null>(null);
+  const [layoutAlgorithm, setLayoutAlgorithm] = useState<LayoutAlgorithm>('columns');
+  const [isLayoutMenuOpen, setIsLayoutMenuOpen] = useState(false);
+
+  // Read when a new chart is laid out, without rebuilding the graph on layout changes
+  const layoutAlgorithmRef = useRef(layoutAlgorithm);
+  layoutAlgorithmRef.current = layoutAlgorithm;
+  const initialViewRef = useRef(initialView);
+  initialViewRef.current = initialView;
+  const onViewChangeRef = useRef(onViewChange);
+  onViewChangeRef.current = onViewChange;
+
+  // Bumped by whatever moves nodes, collapses groups or pans, to report the view
+  const [viewVersion, setViewVersion] = useState(0);
+  const markViewChanged = useCallback(() => setViewVersion((version) => version + 1), []);
   
-  // Build initial graph data
-  const initialGraphData = useMemo(() => {
-    return buildGraphData(chart);
-  }, [chart]);
+  // Transitive impact of the clicked value node
+  const impact = useWorkerResult(
+    impactValuePath ? () => worker.getValueImpact(impactValuePath) : null,
+    [worker, chart, impactValuePath]
+  );
+  
+  // Unused / undefined values, computed only while the report is open
+  const valuesReport = useWorkerResult(
+    isReportOpen ? () => worker.getValuesReport() : null,
+    [worker, chart, isReportOpen]
+  );
+  
+  // Lint diagnostics, shown as node badges and in the lint panel; the worker
+  // already linted with the default config
+  const isDefaultLintConfig = Object.keys(lintConfig).length === 0;
+  const configuredDiagnostics = useWorkerResult(
+    isDefaultLintConfig ? null : () => worker.lint(lintConfig),
+    [worker, chart, lintConfig]
+  );
+  const diagnostics = isDefaultLintConfig ? defaultDiagnostics : configuredDiagnostics ?? defaultDiagnostics;
+
+  const [nodes, setNodes, onNodesChange] = useNodesState(graph.nodes as Node[]);
+  const [edges, setEdges, onEdgesChange] = useEdgesState(graph.edges as Edge[]);
+
+  // Values, helpers, files, resources and expressions for the command palette
+  const searchItems = useWorkerResult(() => worker.getSearchIndex(), [worker, chart]) ?? NO_SEARCH_ITEMS;
 
-  const [nodes, setNodes, onNodesChange] = useNodesState(initialGraphData.nodes as Node[]);
-  const [edges, setEdges, onEdgesChange] = useEdgesState(initialGraphData.edges as Edge[]);
+  // Layouts come back from the worker; one that a newer layout or graph replaced is dropped
+  const layoutRunRef = useRef(0);
+
+  // Nodes the graph filter keeps: the matches, their neighbours and the groups holding them
+  const visibleNodeIds = useMemo(() => {
+    if (!graphFilter) return null;
+    const matched = getMatchingNodeIds(searchItems, parseSearchQuery(graphFilter));
+    const visible = new Set(matched);
+    edges.forEach((edge) => {
+      if (matched.has(edge.source)) visible.add(edge.target);
+      if (matched.has(edge.target)) visible.add(edge.source);
+    });
+    const parents = new Map(graph.nodes.map((node) => [node.id, node.parentId]));
+    Array.from(visible).forEach((id) => {
+      for (let parentId = parents.get(id); parentId; parentId = parents.get(parentId)) {
+        visible.add(parentId);
+      }
+    });
+    return visible;
+  }, [graphFilter, searchItems, edges, graph]);
+
+  const displayedNodes = useMemo(() => {
+    if (!visibleNodeIds) return nodes;
+    return nodes.map((node) => (visibleNodeIds.has(node.id) ? node : { ...node, hidden: true }));
+  }, [nodes, visibleNodeIds]);
+
+  const displayedEdges = useMemo(() => {
+    if (!visibleNodeIds) return edges;
+    return edges.map((edge) =>
+      visibleNodeIds.has(edge.source) && visibleNodeIds.has(edge.target) ? edge : { ...edge, hidden: true }
+    );
+  }, [edges, visibleNodeIds]);
+
+  // Update nodes/edges when the graph changes
+  useEffect(() => {
+    // An update keeps the view: positions, collapsed groups, filter and focus
+    if (graphPatch) {
+      if (isEmptyPatch(graphPatch)) return;
+      // A layout still running was of the graph before the patch
+      layoutRunRef.current++;
+      const patched = applyGraphPatch(
+        { nodes: getNodes() as GraphNode[], edges: getEdges() as GraphEdge[] },
+        graphPatch
+      );
+      setNodes(patched.nodes as Node[]);
+      setEdges(patched.edges as Edge[]);
+      markViewChanged();
+      return;
+    }
+
+    // A restored session or permalink brings its layout, positions, filter and focus
+    const view = initialViewRef.current;
+    const layout = view?.layout ?? layoutAlgorithmRef.current;
+    const run = ++layoutRunRef.current;
+    const show = (laidOut: GraphData) => {
+      if (run !== layoutRunRef.current) return;
+      const data = view ? applyViewState(laidOut, view) : laidOut;
+      setNodes(data.nodes as Node[]);
+      setEdges(data.edges as Edge[]);
+      // Fit view after a short delay to allow React Flow to render
+      // Use larger padding to avoid overlap with UI panels
+      const viewport = view?.viewport;
+      setTimeout(() => (viewport ? setViewport(viewport) : fitView({ padding: 0.3 })), 100);
+      markViewChanged();
+    };
+    if (layout === 'columns') {
+      show(graph);
+    } else {
+      worker.layout(layout, graph)
+        .then(show)
+        .catch((error) => console.error('Error laying out the graph:', error));
+    }
+    setLayoutAlgorithm(layout);
+    setGraphFilter(view?.filter ?? null);
+    setFocusedNodeId(view?.focusedNodeId ?? null);
+  }, [graph, graphPatch, worker, setNodes, setEdges, getNodes, getEdges, fitView, setViewport, markViewChanged]);
+
+  // Report the view for saving and permalinks
+  useEffect(() => {
+    onViewChangeRef.current?.(captureViewState(getNodes() as GraphNode[], {
+      filter: graphFilter,
+      focusedNodeId,
+      layout: layoutAlgorithm,
+      viewport: getViewport(),
+    }));
+  }, [viewVersion, graphFilter, focusedNodeId, layoutAlgorithm, getNodes, getViewport]);
+
+  // Ctrl+K / Cmd+K toggles the command palette
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsSearchOpen((open) => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
-  // Update nodes/edges when chart changes
+  // Attach diagnostics to the file and helper nodes they belong to
   useEffect(() => {
-    const data = buildGraphData(chart);
-    setNodes(data.nodes as Node[]);
-    setEdges(data.edges as Edge[]);
-    // Fit view after a short delay to allow React Flow to render
-    // Use larger padding to avoid overlap with UI panels
-    setTimeout(() => fitView({ padding: 0.3 }), 100);
-  }, [chart, setNodes, setEdges, fitView]);
-
-  // Auto-organize handler
-  const handleAutoOrganize = useCallback(() => {
-    setNodes((currentNodes) => {
-      // Convert to GraphNode type for the layout function
-      const graphNodes = currentNodes.map(n => ({
+    const byNode = groupDiagnosticsByNode(diagnostics);
+    setNodes((nds) =>
+      nds.map((node) => ({
+        ...node,
+        data: { ...node.data, diagnostics: byNode.get(node.id) },
+      }))
+    );
+  }, [diagnostics, setNodes]);
+
+  // Download a values.schema.json generated from defaults and usage
+  const handleExportSchema = useCallback(() => {
+    const schema = generateValuesSchema(chart);
+    const blob = new Blob([`${JSON.stringify(schema, null, 2)}\n`], { type: 'application/json' });
+    downloadBlob(blob, 'values.schema.json');
+  }, [chart]);
+
+  // Download the graph as currently shown: collapsed groups, highlighting and positions
+  const handleExport = useCallback(async (format: GraphExportFormat, scope: GraphExportScope) => {
+    const graph: GraphData = {
+      nodes: displayedNodes.map((n) => ({
         id: n.id,
         type: n.type || 'file',
         position: n.position,
         data: n.data,
-      })) as GraphNode[];
-      
-      const graphEdges = edges.map(e => ({
-        id: e.id,
-        source: e.source,
-        target: e.target,
-        label: e.label,
-        type: e.type,
-        animated: e.animated,
-        data: e.data,
-      })) as GraphEdge[];
-      
-      const organized = autoOrganizeLayout(graphNodes, graphEdges);
-      
-      // Fit view after organizing with larger padding
-      setTimeout(() => fitView({ padding: 0.3, duration: 500 }), 50);
-      
-      return organized as Node[];
-    });
-  }, [edges, setNodes, fitView]);
+        parentId: n.parentId,
+        width: n.measured?.width ?? n.width,
+        height: n.measured?.height ?? n.height,
+        hidden: n.hidden,
+      })) as GraphNode[],
+      edges: displayedEdges as unknown as GraphEdge[],
+    };
+    const baseName = `${chart.name}-graph`;
 
-  // Highlight connected nodes when a file is selected
+    switch (format) {
+      case 'dot':
+        downloadBlob(new Blob([exportToDot(graph, chart.name)], { type: 'text/vnd.graphviz' }), `${baseName}.dot`);
+        break;
+      case 'mermaid':
+        downloadBlob(new Blob([exportToMermaid(graph)], { type: 'text/plain' }), `${baseName}.mmd`);
+        break;
+      case 'graphml':
+        downloadBlob(new Blob([exportToGraphML(graph)], { type: 'application/xml' }), `${baseName}.graphml`);
+        break;
+      case 'json':
+        downloadBlob(new Blob([exportToJson(graph)], { type: 'application/json' }), `${baseName}.json`);
+        break;
+      case 'svg':
+      case 'png': {
+        // The viewport in canvas coordinates, or the whole graph
+        let bounds: ExportRect = getGraphBounds(graph);
+        let scale = 2;
+        if (scope === 'viewport' && containerRef.current) {
+          const { x, y, zoom } = getViewport();
+          const { clientWidth, clientHeight } = containerRef.current;
+          bounds = { x: -x / zoom, y: -y / zoom, width: clientWidth / zoom, height: clientHeight / zoom };
+          scale = zoom * window.devicePixelRatio;
+        }
+        const svg = exportToSvg(graph, bounds);
+        if (format === 'svg') {
+          downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `${baseName}.svg`);
+        } else {
+          scale = Math.min(scale, MAX_PNG_SIZE / Math.max(bounds.width, bounds.height));
+          downloadBlob(await rasterizeSvg(svg, bounds.width, bounds.height, scale), `${baseName}.png`);
+        }
+        break;
+      }
+    }
+    setIsExportOpen(false);
+  }, [chart, displayedNodes, displayedEdges, getViewport]);
+
+  // Node the radial layout centres on: the searched node, the impact value or the selected file
+  const layoutFocusId = focusedNodeId
+    ?? (impactValuePath ? `value:${impactValuePath}` : selectedFile ? `file:${selectedFile}` : null);
+
+  // Lay the graph out again with the given algorithm, keeping highlighting and collapsed groups
+  const runLayout = useCallback(async (algorithm: LayoutAlgorithm) => {
+    const graphNodes = nodes.map((n) => ({
+      id: n.id,
+      type: n.type || 'file',
+      position: n.position,
+      data: n.data,
+      parentId: n.parentId,
+      width: n.measured?.width ?? n.width,
+      height: n.measured?.height ?? n.height,
+      hidden: n.hidden,
+    })) as GraphNode[];
+
+    setLayoutAlgorithm(algorithm);
+    setIsLayoutMenuOpen(false);
+    const run = ++layoutRunRef.current;
+    let laidOut: GraphData;
+    try {
+      laidOut = await worker.layout(
+        algorithm,
+        { nodes: graphNodes, edges: edges as unknown as GraphEdge[] },
+        { focusNodeId: layoutFocusId }
+      );
+    } catch (error) {
+      console.error('Error laying out the graph:', error);
+      return;
+    }
+    if (run !== layoutRunRef.current) return;
+    const positions = new Map(laidOut.nodes.map((node) => [node.id, node.position]));
+
+    setNodes((nds) => nds.map((node) => ({ ...node, position: positions.get(node.id) ?? node.position })));
+    setEdges(laidOut.edges as unknown as Edge[]);
+    markViewChanged();
+
+    // Fit view after organizing with larger padding
+    setTimeout(() => fitView({ padding: 0.3, duration: 500 }), 50);
+  }, [nodes, edges, layoutFocusId, worker, setNodes, setEdges, fitView, markViewChanged]);
+
+  // Auto Organize re-runs the current layout
+  const handleAutoOrganize = useCallback(() => runLayout(layoutAlgorithm), [runLayout, layoutAlgorithm]);
+
+  // The radial layout follows the selection; only a new focus re-runs it, not highlighting
+  useEffect(() => {
+    if (layoutAlgorithm === 'radial' && layoutFocusId) runLayout('radial');
+  }, [layoutFocusId]);
+
+  // Selecting a file leaves impact mode and search focus
+  useEffect(() => {
+    if (selectedFile) {
+      setImpactValuePath(null);
+      setFocusedNodeId(null);
+    }
+  }, [selectedFile]);
+
+  // Highlight connected nodes when a file or searched node is selected, or the impact chain of a value
   useEffect(() => {
-    if (!selectedFile) {
+    if (!selectedFile && !impact && !focusedNodeId) {
       // Reset all nodes to non-highlighted
       setNodes((nds) =>
         nds.map((node) => ({
@@ -126,19 +382,28 @@ export default function GraphView({ chart, selectedFile, onSelectFile }: GraphVi
       return;
     }
 
-    const selectedNodeId = `file:${selectedFile}`;
+    let connectedEdgeIds = new Set<string>();
+    let connectedNodeIds = new Set<string>();
 
-    // Find connected edges
-    const connectedEdgeIds = new Set<string>();
-    const connectedNodeIds = new Set<string>([selectedNodeId]);
+    if (impact) {
+      ({ nodeIds: connectedNodeIds, edgeIds: connectedEdgeIds } = getImpactElementIds(edges, impact));
+    } else {
+      // The searched node, or the file and the resources it emits
+      const selectedNodeIds = new Set([focusedNodeId ?? `file:${selectedFile}`]);
+      chart.resources
+        .filter((resource) => !focusedNodeId && resource.file === selectedFile)
+        .forEach((resource) => selectedNodeIds.add(`resource:${resource.id}`));
+      selectedNodeIds.forEach((id) => connectedNodeIds.add(id));
 
-    edges.forEach((edge) => {
-      if (edge.source === selectedNodeId || edge.target === selectedNodeId) {
-        connectedEdgeIds.add(edge.id);
-        connectedNodeIds.add(edge.source);
-        connectedNodeIds.add(edge.target);
-      }
-    });
+      // Find connected edges
+      edges.forEach((edge) => {
+        if (selectedNodeIds.has(edge.source) || selectedNodeIds.has(edge.target)) {
+          connectedEdgeIds.add(edge.id);
+          connectedNodeIds.add(edge.source);
+          connectedNodeIds.add(edge.target);
+        }
+      });
+    }
 
     // Update nodes
     setNodes((nds) =>
@@ -165,34 +430,134 @@ export default function GraphView({ chart, selectedFile, onSelectFile }: GraphVi
         };
       })
     );
-  }, [selectedFile, edges, setNodes, setEdges]);
+  }, [chart, selectedFile, impact, focusedNodeId, edges, setNodes, setEdges]);
+
+  // Collapse or expand a subchart group
+  const toggleGroup = useCallback((groupId: string) => {
+    const toggledNodes = nodes.map((node) =>
+      node.id === groupId
+        ? { ...node, data: { ...node.data, collapsed: !node.data.collapsed } }
+        : node
+    );
+    const result = applyCollapsedGroups(
+      toggledNodes as unknown as GraphNode[],
+      edges as unknown as GraphEdge[]
+    );
+    setNodes(result.nodes as unknown as Node[]);
+    setEdges(result.edges as unknown as Edge[]);
+    markViewChanged();
+  }, [nodes, edges, setNodes, setEdges, markViewChanged]);
+
+  // Collapse or expand every value group at once
+  const setValueGroupsCollapsed = useCallback((collapsed: boolean) => {
+    const toggledNodes = nodes.map((node) =>
+      node.type === 'valueGroup' ? { ...node, data: { ...node.data, collapsed } } : node
+    );
+    const result = applyCollapsedGroups(
+      toggledNodes as unknown as GraphNode[],
+      edges as unknown as GraphEdge[]
+    );
+    setNodes(result.nodes as unknown as Node[]);
+    setEdges(result.edges as unknown as Edge[]);
+    markViewChanged();
+  }, [nodes, edges, setNodes, setEdges, markViewChanged]);
+
+  // Focus a search result: files and values select as a click would, other nodes highlight their neighbours
+  const handleSearchSelect = useCallback((item: SearchItem) => {
+    if (visibleNodeIds && !visibleNodeIds.has(item.nodeId)) setGraphFilter(null);
+
+    if (item.kind === 'file' && item.nodeId === `file:${item.path}`) {
+      onSelectFile(item.path);
+    } else if (item.kind === 'value' && item.nodeId === `value:${item.path}`) {
+      onSelectFile(null);
+      setFocusedNodeId(null);
+      setImpactValuePath(item.path);
+    } else {
+      onSelectFile(null);
+      setImpactValuePath(null);
+      setFocusedNodeId(item.nodeId);
+    }
+
+    // Nodes inside a collapsed subchart are shown through their group
+    const parents = new Map(nodes.map((node) => [node.id, node]));
+    let target = parents.get(item.nodeId);
+    while (target?.hidden && target.parentId) target = parents.get(target.parentId);
+    if (target) {
+      const targetId = target.id;
+      setTimeout(() => fitView({ nodes: [{ id: targetId }], padding: 1.5, duration: 500, maxZoom: 1.2 }), 50);
+    }
+  }, [nodes, visibleNodeIds, onSelectFile, fitView]);
+
+  // Actions offered by the command palette next to search results
+  const paletteCommands = useMemo((): PaletteCommand[] => [
+    { id: 'auto-organize', label: 'Auto Organize', run: handleAutoOrganize },
+    ...LAYOUTS.map(({ id, label }) => ({ id: `layout-${id}`, label: `Layout: ${label}`, run: () => runLayout(id) })),
+    { id: 'fit-view', label: 'Fit View', run: () => fitView({ padding: 0.3, duration: 500 }) },
+    { id: 'values-report', label: 'Toggle Values Report', run: () => { setIsReportOpen((open) => !open); setIsLintOpen(false); } },
+    { id: 'lint', label: 'Toggle Lint', run: () => { setIsLintOpen((open) => !open); setIsReportOpen(false); } },
+    { id: 'collapse-values', label: 'Collapse Value Groups', run: () => setValueGroupsCollapsed(true) },
+    { id: 'expand-values', label: 'Expand Value Groups', run: () => setValueGroupsCollapsed(false) },
+    { id: 'export', label: 'Export Graph…', run: () => setIsExportOpen(true) },
+    ...(graphFilter ? [{ id: 'clear-filter', label: 'Clear Graph Filter', run: () => setGraphFilter(null) }] : []),
+  ], [handleAutoOrganize, runLayout, setValueGroupsCollapsed, fitView, graphFilter]);
 
   // Handle node click
   const onNodeClick = useCallback(
-    (_: React.MouseEvent, node: Node) => {
-      if (node.id.startsWith('file:')) {
+    (event: React.MouseEvent, node: Node) => {
+      setFocusedNodeId(null);
+      if (node.type === 'subchart' || node.type === 'valueGroup') {
+        if ((event.target as HTMLElement).closest('[data-collapse-toggle]')) {
+          toggleGroup(node.id);
+        }
+      } else if (node.id.startsWith('file:')) {
         const filePath = node.id.replace('file:', '');
         onSelectFile(filePath === selectedFile ? null : filePath);
+      } else if (node.id.startsWith('resource:')) {
+        // Clicking a resource opens its manifest
+        const resource = chart.resources.find((r) => `resource:${r.id}` === node.id);
+        if (resource) onNavigate({ file: resource.file, line: resource.startLine });
+      } else if (node.id.startsWith('value:')) {
+        // Clicking a value shows everything it affects
+        const valuePath = node.id.replace('value:', '');
+        onSelectFile(null);
+        setImpactValuePath(valuePath === impactValuePath ? null : valuePath);
       }
     },
-    [onSelectFile, selectedFile]
+    [chart, onSelectFile, onNavigate, selectedFile, impactValuePath, toggleGroup]
+  );
+
+  // Clicking an edge opens the line the reference is written on
+  const onEdgeClick = useCallback(
+    (_event: React.MouseEvent, edge: Edge) => {
+      const data = edge.data as EdgeData | undefined;
+      if (data?.file && data.line && chart.files.some((f) => f.path === data.file)) {
+        onNavigate({ file: data.file, line: data.line });
+      }
+    },
+    [chart, onNavigate]
   );
 
   // Handle background click to deselect
   const onPaneClick = useCallback(() => {
     onSelectFile(null);
+    setImpactValuePath(null);
+    setFocusedNodeId(null);
   }, [onSelectFile]);
 
   return (
-    <div className="w-full h-full">
+    <div ref={containerRef} className="w-full h-full">
       <ReactFlow
-        nodes={nodes}
-        edges={edges}
+        nodes={displayedNodes}
+        edges={displayedEdges}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
         onNodeClick={onNodeClick}
+        onEdgeClick={onEdgeClick}
         onPaneClick={onPaneClick}
+        onNodeDragStop={markViewChanged}
+        onMoveEnd={markViewChanged}
         nodeTypes={nodeTypes}
+        edgeTypes={edgeTypes}
         connectionMode={ConnectionMode.Loose}
         fitView
         fitViewOptions={{ padding: 0.3 }}
@@ -216,28 +581,27 @@ export default function GraphView({ chart, selectedFile, onSelectFile }: GraphVi
         />
         <MiniMap
           className="!bg-helm-surface !border-helm-border !rounded-lg"
-          nodeColor={(node) => {
-            switch (node.type) {
-              case 'file':
-                return '#d29922';
-              case 'value':
-                return '#a371f7';
-              case 'chart':
-                return '#3fb950';
-              case 'release':
-                return '#58a6ff';
-              case 'helper':
-                return '#39c5cf';
-              default:
-                return '#30363d';
-            }
-          }}
+          nodeColor={(node) => getNodeColor(node.type)}
           maskColor="rgba(13, 17, 23, 0.8)"
           position="top-right"
         />
         
         {/* Top toolbar panel */}
         <Panel position="top-center" className="flex gap-2">
+          <button
+            onClick={() => setIsSearchOpen(true)}
+            title="Search values, helpers, files and expressions (Ctrl+K)"
+            className="flex items-center gap-2 px-4 py-2 bg-helm-surface border border-helm-border rounded-lg
+                       text-helm-text text-sm font-medium hover:bg-helm-accent/20 hover:border-helm-accent
+                       transition-all duration-200 shadow-lg"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} 
+                    d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+            </svg>
+            Search
+            <kbd className="px-1.5 rounded bg-helm-border text-xs text-helm-text/60">Ctrl K</kbd>
+          </button>
           <button
             onClick={handleAutoOrganize}
             className="flex items-center gap-2 px-4 py-2 bg-helm-surface border border-helm-border rounded-lg
@@ -250,6 +614,31 @@ export default function GraphView({ chart, selectedFile, onSelectFile }: GraphVi
             </svg>
             Auto Organize
           </button>
+          <div className="relative">
+            <button
+              onClick={() => setIsLayoutMenuOpen(!isLayoutMenuOpen)}
+              title="Choose how the graph is laid out"
+              className={`flex items-center gap-2 px-4 py-2 bg-helm-surface border rounded-lg
+                         text-helm-text text-sm font-medium hover:bg-helm-accent/20 hover:border-helm-accent
+                         transition-all duration-200 shadow-lg
+                         ${isLayoutMenuOpen ? 'border-helm-accent' : 'border-helm-border'}`}
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} 
+                      d="M4 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1V5zm10 10a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1v-4zM7 10v4a2 2 0 002 2h5" />
+              </svg>
+              Layout: {LAYOUTS.find((layout) => layout.id === layoutAlgorithm)?.label}
+            </button>
+            {isLayoutMenuOpen && (
+              <div className="absolute left-0 top-full mt-2 z-10">
+                <LayoutMenu
+                  current={layoutAlgorithm}
+                  onSelect={runLayout}
+                  onClose={() => setIsLayoutMenuOpen(false)}
+                />
+              </div>
+            )}
+          </div>
           <button
             onClick={() => fitView({ padding: 0.3, duration: 500 })}
             className="flex items-center gap-2 px-4 py-2 bg-helm-surface border border-helm-border rounded-lg
@@ -262,8 +651,115 @@ export default function GraphView({ chart, selectedFile, onSelectFile }: GraphVi
             </svg>
             Fit View
           </button>
+          <button
+            onClick={() => {
+              setIsReportOpen(!isReportOpen);
+              setIsLintOpen(false);
+            }}
+            className={`flex items-center gap-2 px-4 py-2 bg-helm-surface border rounded-lg
+                       text-helm-text text-sm font-medium hover:bg-helm-accent/20 hover:border-helm-accent
+                       transition-all duration-200 shadow-lg
+                       ${isReportOpen ? 'border-helm-accent' : 'border-helm-border'}`}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} 
+                    d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+            </svg>
+            Values Report
+          </button>
+          <button
+            onClick={() => {
+              setIsLintOpen(!isLintOpen);
+              setIsReportOpen(false);
+            }}
+            className={`flex items-center gap-2 px-4 py-2 bg-helm-surface border rounded-lg
+                       text-helm-text text-sm font-medium hover:bg-helm-accent/20 hover:border-helm-accent
+                       transition-all duration-200 shadow-lg
+                       ${isLintOpen ? 'border-helm-accent' : 'border-helm-border'}`}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} 
+                    d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+            </svg>
+            Lint
+            {diagnostics.length > 0 && (
+              <span className="px-1.5 rounded-full bg-helm-border text-xs">{diagnostics.length}</span>
+            )}
+          </button>
+          <div className="relative">
+            <button
+              onClick={() => setIsExportOpen(!isExportOpen)}
+              className={`flex items-center gap-2 px-4 py-2 bg-helm-surface border rounded-lg
+                         text-helm-text text-sm font-medium hover:bg-helm-accent/20 hover:border-helm-accent
+                         transition-all duration-200 shadow-lg
+                         ${isExportOpen ? 'border-helm-accent' : 'border-helm-border'}`}
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} 
+                      d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+              </svg>
+              Export
+            </button>
+            {isExportOpen && (
+              <div className="absolute right-0 top-full mt-2 z-10">
+                <ExportMenu onExport={handleExport} onClose={() => setIsExportOpen(false)} />
+              </div>
+            )}
+          </div>
+          {graphFilter && (
+            <div className="flex items-center gap-2 px-3 py-2 bg-helm-surface border border-helm-accent rounded-lg
+                            text-helm-text text-sm shadow-lg">
+              <span className="text-helm-text/60">Filter</span>
+              <code className="font-mono text-xs text-helm-accent">{graphFilter}</code>
+              <button
+                onClick={() => setGraphFilter(null)}
+                className="text-helm-text/60 hover:text-helm-text transition-colors"
+                aria-label="Clear graph filter"
+              >
+                ✕
+              </button>
+            </div>
+          )}
         </Panel>
 
+        {/* Values Report Panel */}
+        {valuesReport && (
+          <Panel position="center-left" className="pointer-events-auto">
+            <ValuesReportPanel
+              report={valuesReport}
+              onSelectFile={onSelectFile}
+              onExportSchema={handleExportSchema}
+              onClose={() => setIsReportOpen(false)}
+            />
+          </Panel>
+        )}
+
+        {/* Lint Panel */}
+        {isLintOpen && (
+          <Panel position="center-left" className="pointer-events-auto">
+            <LintPanel
+              diagnostics={diagnostics}
+              rules={BUILT_IN_RULES}
+              config={lintConfig}
+              onConfigChange={setLintConfig}
+              onNavigate={onNavigate}
+              onClose={() => setIsLintOpen(false)}
+            />
+          </Panel>
+        )}
+
+        {/* Impact Panel - shown while a value is selected */}
+        {impact && (
+          <Panel position="center-right" className="pointer-events-auto">
+            <ImpactPanel
+              impact={impact}
+              resources={chart.resources}
+              onSelectFile={onSelectFile}
+              onClose={() => setImpactValuePath(null)}
+            />
+          </Panel>
+        )}
+
         {/* Legend Panel - Collapsible */}
         <Panel position="bottom-left" className="pointer-events-auto">
           <div className="bg-helm-surface/95 backdrop-blur-sm border border-helm-border rounded-lg shadow-lg overflow-hidden">
@@ -289,10 +785,24 @@ export default function GraphView({ chart, selectedFile, onSelectFile }: GraphVi
                   <div className="w-3 h-3 rounded bg-helm-orange" />
                   <span className="text-helm-text">Templates</span>
                 </div>
+                <div className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded border border-helm-orange/60 bg-helm-orange/10" />
+                  <span className="text-helm-text">Resources</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="w-3 h-0 border-t-2 border-dashed border-helm-green" />
+                  <span className="text-helm-text">Resource relations</span>
+                </div>
                 <div className="flex items-center gap-2">
                   <div className="w-3 h-3 rounded bg-helm-purple" />
                   <span className="text-helm-text">Values</span>
                 </div>
+                {nodes.some((node) => node.type === 'valueGroup') && (
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded border border-helm-purple/60 bg-helm-purple/10" />
+                    <span className="text-helm-text">Value groups (click ▶ to expand)</span>
+                  </div>
+                )}
                 <div className="flex items-center gap-2">
                   <div className="w-3 h-3 rounded bg-helm-green" />
                   <span className="text-helm-text">Chart</span>
@@ -305,6 +815,24 @@ export default function GraphView({ chart, selectedFile, onSelectFile }: GraphVi
                   <div className="w-3 h-3 rounded bg-helm-cyan" />
                   <span className="text-helm-text">Helpers</span>
                 </div>
+                {chart.references.some((ref) => ref.type === 'files') && (
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded border border-helm-border bg-helm-border/50" />
+                    <span className="text-helm-text">Chart files (.Files)</span>
+                  </div>
+                )}
+                {chart.references.some((ref) => ref.type === 'capabilities') && (
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded bg-helm-pink" />
+                    <span className="text-helm-text">Capabilities</span>
+                  </div>
+                )}
+                {chart.subcharts.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded border border-dashed border-helm-accent" />
+                    <span className="text-helm-text">Subcharts</span>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -336,12 +864,45 @@ export default function GraphView({ chart, selectedFile, onSelectFile }: GraphVi
                   <p>{chart.files.length} files</p>
                   <p>{chart.references.length} refs</p>
                   <p>{chart.helpers.length} helpers</p>
+                  {chart.subcharts.length > 0 && <p>{chart.subcharts.length} subcharts</p>}
                 </div>
               </div>
             )}
           </div>
         </Panel>
       </ReactFlow>
+
+      {isSearchOpen && (
+        <CommandPalette
+          items={searchItems}
+          commands={paletteCommands}
+          onSelect={handleSearchSelect}
+          onFilter={setGraphFilter}
+          onClose={() => setIsSearchOpen(false)}
+        />
+      )}
     </div>
   );
 }
+
+/**
+ * The result of a worker request, null while there is nothing to ask; a
+ * result that arrives after the request was superseded is dropped
+ */
+function useWorkerResult<T>(request: (() => Promise<T>) | null, deps: unknown[]): T | null {
+  const [result, setResult] = useState<T | null>(null);
+  useEffect(() => {
+    if (!request) {
+      setResult(null);
+      return;
+    }
+    let current = true;
+    request()
+      .then((value) => current && setResult(value))
+      .catch((error) => console.error('Error analysing the chart:', error));
+    return () => {
+      current = false;
+    };
+  }, deps);
+  return result;
+}
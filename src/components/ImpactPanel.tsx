@@ -0,0 +1,104 @@
+import { KubernetesResource, ValueImpact } from '../types';
+
+interface ImpactPanelProps {
+  impact: ValueImpact;
+  resources: KubernetesResource[];
+  onSelectFile: (file: string) => void;
+  onClose: () => void;
+}
+
+export default function ImpactPanel({ impact, resources, onSelectFile, onClose }: ImpactPanelProps) {
+  const affectedResources = resources.filter((resource) => impact.resources.includes(resource.id));
+
+  return (
+    <div className="w-72 max-h-[60vh] flex flex-col bg-helm-surface/95 backdrop-blur-sm border border-helm-border rounded-lg shadow-lg overflow-hidden">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-2 px-3 py-2 border-b border-helm-border/50">
+        <div className="min-w-0">
+          <h3 className="text-xs font-semibold text-helm-text/60 uppercase tracking-wider">
+            Impact
+          </h3>
+          <p className="text-sm font-mono text-helm-purple truncate" title={`.Values.${impact.valuePath}`}>
+            .Values.{impact.valuePath}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-helm-text/60 hover:text-helm-text transition-colors"
+          aria-label="Close impact analysis"
+        >
+          ✕
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-3 py-2 space-y-3 text-xs">
+        {/* Templates */}
+        <div>
+          <h4 className="font-semibold text-helm-text/60 mb-1">
+            Templates <span className="text-helm-orange">{impact.files.length}</span>
+          </h4>
+          {impact.files.length === 0 ? (
+            <p className="text-helm-text/40">No templates affected</p>
+          ) : (
+            <ul className="space-y-0.5">
+              {impact.files.map((file) => (
+                <li key={file}>
+                  <button
+                    onClick={() => onSelectFile(file)}
+                    className="w-full text-left font-mono text-helm-text hover:text-helm-accent truncate transition-colors"
+                  >
+                    📄 {file}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Resources */}
+        {affectedResources.length > 0 && (
+          <div>
+            <h4 className="font-semibold text-helm-text/60 mb-1">
+              Resources <span className="text-helm-orange">{affectedResources.length}</span>
+            </h4>
+            <ul className="space-y-0.5">
+              {affectedResources.map((resource) => (
+                <li key={resource.id}>
+                  <button
+                    onClick={() => onSelectFile(resource.file)}
+                    className="w-full text-left font-mono text-helm-text hover:text-helm-accent truncate transition-colors"
+                    title={resource.file}
+                  >
+                    ☸️ {resource.kind}{resource.name ? ` ${resource.name}` : ''}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Helpers */}
+        <div>
+          <h4 className="font-semibold text-helm-text/60 mb-1">
+            Helpers <span className="text-helm-cyan">{impact.helpers.length}</span>
+          </h4>
+          {impact.helpers.length === 0 ? (
+            <p className="text-helm-text/40">Not read by any helper</p>
+          ) : (
+            <ul className="space-y-0.5">
+              {impact.helpers.map((helper) => (
+                <li key={helper} className="font-mono text-helm-text truncate">
+                  🔧 {helper}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <p className="text-helm-text/40">
+          {impact.references.length} direct reference{impact.references.length === 1 ? '' : 's'}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { LayoutAlgorithm } from '../types';
+import { LAYOUTS } from '../graph/layouts';
+
+interface LayoutMenuProps {
+  current: LayoutAlgorithm;
+  onSelect: (algorithm: LayoutAlgorithm) => void;
+  onClose: () => void;
+}
+
+export default function LayoutMenu({ current, onSelect, onClose }: LayoutMenuProps) {
+  return (
+    <div className="w-72 bg-helm-surface/95 backdrop-blur-sm border border-helm-border rounded-lg shadow-lg overflow-hidden text-xs">
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-helm-border/50">
+        <h3 className="font-semibold text-helm-text/60 uppercase tracking-wider">
+          Layout
+        </h3>
+        <button
+          onClick={onClose}
+          className="text-helm-text/60 hover:text-helm-text transition-colors"
+          aria-label="Close layout menu"
+        >
+          ✕
+        </button>
+      </div>
+
+      <ul className="py-1">
+        {LAYOUTS.map(({ id, label, description }) => (
+          <li key={id}>
+            <button
+              onClick={() => onSelect(id)}
+              className={`w-full flex flex-col items-start px-3 py-1.5 hover:bg-helm-border/30 transition-colors ${
+                current === id ? 'bg-helm-accent/10' : ''
+              }`}
+            >
+              <span className={`font-medium ${current === id ? 'text-helm-accent' : 'text-helm-text'}`}>
+                {label}
+              </span>
+              <span className="text-helm-text/40">{description}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <p className="px-3 pb-2 text-helm-text/40">
+        Radial centres on the selected file, value or search result
+      </p>
+    </div>
+  );
+}
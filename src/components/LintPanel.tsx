@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { Diagnostic, DiagnosticSeverity, LintConfig, LintRule, SourceLocation } from '../types';
+
+interface LintPanelProps {
+  diagnostics: Diagnostic[];
+  rules: LintRule[];
+  config: LintConfig;
+  onConfigChange: (config: LintConfig) => void;
+  onNavigate: (location: SourceLocation) => void;
+  onClose: () => void;
+}
+
+const severityColors: Record<DiagnosticSeverity, string> = {
+  error: 'text-helm-red',
+  warning: 'text-helm-orange',
+  info: 'text-helm-accent',
+};
+
+const severityIcons: Record<DiagnosticSeverity, string> = {
+  error: '✖',
+  warning: '⚠',
+  info: 'ℹ',
+};
+
+export default function LintPanel({ diagnostics, rules, config, onConfigChange, onNavigate, onClose }: LintPanelProps) {
+  const [isRulesOpen, setIsRulesOpen] = useState(false);
+
+  const countBySeverity = (severity: DiagnosticSeverity) =>
+    diagnostics.filter((d) => d.severity === severity).length;
+
+  const toggleRule = (rule: LintRule) => {
+    const next = { ...config };
+    if (config[rule.id] === 'off') {
+      delete next[rule.id];
+    } else {
+      next[rule.id] = 'off';
+    }
+    onConfigChange(next);
+  };
+
+  return (
+    <div className="w-96 max-h-[70vh] flex flex-col bg-helm-surface/95 backdrop-blur-sm border border-helm-border rounded-lg shadow-lg overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-helm-border/50">
+        <h3 className="text-xs font-semibold text-helm-text/60 uppercase tracking-wider">
+          Lint
+        </h3>
+        <div className="flex items-center gap-3 text-xs">
+          {(['error', 'warning', 'info'] as DiagnosticSeverity[]).map((severity) => (
+            <span key={severity} className={severityColors[severity]}>
+              {severityIcons[severity]} {countBySeverity(severity)}
+            </span>
+          ))}
+          <button
+            onClick={onClose}
+            className="text-helm-text/60 hover:text-helm-text transition-colors"
+            aria-label="Close lint results"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-3 py-1 text-xs divide-y divide-helm-border/50">
+        {/* Rule configuration */}
+        <div>
+          <button
+            onClick={() => setIsRulesOpen(!isRulesOpen)}
+            className="w-full flex items-center justify-between py-1.5 hover:bg-helm-border/30 transition-colors"
+          >
+            <span className="font-semibold text-helm-text/80">Rules</span>
+            <span className="text-helm-text/40">
+              {rules.filter((rule) => config[rule.id] !== 'off').length}/{rules.length} enabled
+            </span>
+          </button>
+          {isRulesOpen && (
+            <ul className="pb-2 space-y-1">
+              {rules.map((rule) => (
+                <li key={rule.id}>
+                  <label className="flex items-start gap-2 cursor-pointer" title={rule.description}>
+                    <input
+                      type="checkbox"
+                      checked={config[rule.id] !== 'off'}
+                      onChange={() => toggleRule(rule)}
+                      className="mt-0.5 accent-helm-accent"
+                    />
+                    <span className="flex-1 font-mono text-helm-text">{rule.id}</span>
+                    <span className={severityColors[rule.severity]}>{rule.severity}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Diagnostics */}
+        <ul className="py-1 space-y-1">
+          {diagnostics.map((diagnostic, i) => (
+            <li key={`${diagnostic.ruleId}:${diagnostic.file}:${diagnostic.line}:${i}`}>
+              <button
+                onClick={() => diagnostic.file && onNavigate({ file: diagnostic.file, line: diagnostic.line ?? 1 })}
+                className="w-full text-left flex gap-2 py-1 hover:bg-helm-border/30 transition-colors"
+              >
+                <span className={severityColors[diagnostic.severity]}>{severityIcons[diagnostic.severity]}</span>
+                <span className="flex-1 min-w-0">
+                  <span className="text-helm-text">{diagnostic.message}</span>
+                  <span className="block text-helm-text/40">
+                    {diagnostic.file}{diagnostic.line ? `:${diagnostic.line}` : ''} · {diagnostic.ruleId}
+                  </span>
+                </span>
+              </button>
+            </li>
+          ))}
+          {diagnostics.length === 0 && <li className="py-1 text-helm-text/40">No problems found</li>}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { HelmChart, RenderOptions } from '../types';
+import { createTemplateRenderer, DEFAULT_CAPABILITIES, DEFAULT_RELEASE } from '../render/template-renderer';
+
+interface RenderPreviewProps {
+  chart: HelmChart;
+  filePath: string | null;
+  onSelectFile: (file: string) => void;
+  onClose: () => void;
+}
+
+export default function RenderPreview({ chart, filePath, onSelectFile, onClose }: RenderPreviewProps) {
+  const [options, setOptions] = useState<RenderOptions>({});
+  const [isContextOpen, setIsContextOpen] = useState(false);
+  const errorLineRef = useRef<HTMLDivElement>(null);
+
+  const renderer = useMemo(() => createTemplateRenderer(chart, options), [chart, options]);
+
+  const file = chart.files.find((f) => f.path === filePath);
+  const isRenderable = file && (file.type === 'template' || file.type === 'helper' || file.type === 'notes');
+
+  const result = useMemo(
+    () => (isRenderable && filePath ? renderer.render(filePath) : null),
+    [renderer, isRenderable, filePath]
+  );
+
+  // Line of the selected file to flag: the error itself, or the include that led to it
+  const error = result?.error;
+  const errorLine = error
+    ? (error.file === filePath ? error.range.start.line : error.callSite?.start.line)
+    : undefined;
+
+  useEffect(() => {
+    errorLineRef.current?.scrollIntoView({ block: 'center' });
+  }, [errorLine, filePath]);
+
+  const updateRelease = (key: 'name' | 'namespace', value: string) => {
+    setOptions((current) => ({ ...current, release: { ...current.release, [key]: value } }));
+  };
+
+  const updateKubeVersion = (value: string) => {
+    setOptions((current) => ({ ...current, capabilities: { ...current.capabilities, kubeVersion: value } }));
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-helm-surface">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-helm-border">
+        <div className="min-w-0">
+          <h2 className="text-sm font-semibold text-helm-text/80 uppercase tracking-wider">
+            Preview
+          </h2>
+          <p className="text-xs font-mono text-helm-text/40 truncate">
+            {filePath ?? 'No file selected'}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setIsContextOpen((open) => !open)}
+            className={`text-xs transition-colors ${isContextOpen ? 'text-helm-accent' : 'text-helm-text/60 hover:text-helm-text'}`}
+          >
+            Context
+          </button>
+          <button
+            onClick={onClose}
+            className="text-helm-text/60 hover:text-helm-text transition-colors"
+            aria-label="Close preview"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+
+      {/* Release / cluster context */}
+      {isContextOpen && (
+        <div className="grid grid-cols-3 gap-3 px-4 py-3 border-b border-helm-border text-xs">
+          <label className="flex flex-col gap-1 text-helm-text/60">
+            Release name
+            <input
+              value={options.release?.name ?? DEFAULT_RELEASE.name}
+              onChange={(e) => updateRelease('name', e.target.value)}
+              className="px-2 py-1 bg-helm-bg border border-helm-border rounded text-helm-text font-mono focus:outline-none focus:border-helm-accent"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-helm-text/60">
+            Namespace
+            <input
+              value={options.release?.namespace ?? DEFAULT_RELEASE.namespace}
+              onChange={(e) => updateRelease('namespace', e.target.value)}
+              className="px-2 py-1 bg-helm-bg border border-helm-border rounded text-helm-text font-mono focus:outline-none focus:border-helm-accent"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-helm-text/60">
+            Kubernetes version
+            <input
+              value={options.capabilities?.kubeVersion ?? DEFAULT_CAPABILITIES.kubeVersion}
+              onChange={(e) => updateKubeVersion(e.target.value)}
+              className="px-2 py-1 bg-helm-bg border border-helm-border rounded text-helm-text font-mono focus:outline-none focus:border-helm-accent"
+            />
+          </label>
+        </div>
+      )}
+
+      {!file || !isRenderable || !result ? (
+        <div className="flex-1 flex items-center justify-center p-6 text-sm text-helm-text/40 text-center">
+          Select a template in the file tree to preview its rendered output
+        </div>
+      ) : (
+        <>
+          {/* Render error */}
+          {error && (
+            <div className="px-4 py-2 border-b border-helm-red/50 bg-helm-red/10 text-xs">
+              <p className="text-helm-red font-mono break-words">{error.message}</p>
+              <button
+                onClick={() => onSelectFile(error.file)}
+                className="mt-1 font-mono text-helm-text/60 hover:text-helm-accent transition-colors"
+              >
+                {error.file}:{error.range.start.line}:{error.range.start.column}
+              </button>
+              {error.file !== filePath && errorLine !== undefined && (
+                <span className="text-helm-text/40"> via line {errorLine}</span>
+              )}
+            </div>
+          )}
+
+          {/* Source and rendered output side by side */}
+          <div className="flex-1 grid grid-cols-2 min-h-0 divide-x divide-helm-border">
+            <div className="flex flex-col min-h-0">
+              <h3 className="px-4 py-1.5 text-xs font-semibold text-helm-text/60 uppercase tracking-wider border-b border-helm-border/50">
+                Source
+              </h3>
+              <div className="flex-1 overflow-auto py-2 font-mono text-xs">
+                {file.content.split('\n').map((line, i) => (
+                  <div
+                    key={i}
+                    ref={i + 1 === errorLine ? errorLineRef : undefined}
+                    className={`flex ${i + 1 === errorLine ? 'bg-helm-red/20' : ''}`}
+                  >
+                    <span className="w-10 flex-shrink-0 pr-3 text-right text-helm-text/30 select-none">{i + 1}</span>
+                    <span className="whitespace-pre text-helm-text">{line}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="flex flex-col min-h-0">
+              <h3 className="px-4 py-1.5 text-xs font-semibold text-helm-text/60 uppercase tracking-wider border-b border-helm-border/50">
+                Rendered{error && <span className="text-helm-red normal-case font-normal"> (partial)</span>}
+              </h3>
+              <pre className="flex-1 overflow-auto px-4 py-2 font-mono text-xs text-helm-text whitespace-pre">
+                {result.output.trim() === '' ? <span className="text-helm-text/40">(empty)</span> : result.output}
+              </pre>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
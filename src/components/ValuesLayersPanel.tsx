@@ -0,0 +1,164 @@
+import { useRef, useState, ChangeEvent } from 'react';
+import { HelmChart, ValuesOverrides } from '../types';
+import { isDefaultValuesFile } from '../parser/helm-parser';
+import { parseSetArgument } from '../parser/set-values';
+
+interface ValuesLayersPanelProps {
+  chart: HelmChart;
+  overrides: ValuesOverrides;
+  onChange: (overrides: ValuesOverrides) => void;
+}
+
+export default function ValuesLayersPanel({ chart, overrides, onChange }: ValuesLayersPanelProps) {
+  const [setDraft, setSetDraft] = useState(overrides.set.join('\n'));
+  const [setError, setSetError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Overlay files shipped with the chart that are not applied yet
+  const availableOverlays = chart.files.filter((file) =>
+    file.type === 'values' &&
+    !isDefaultValuesFile(file.path) &&
+    !overrides.files.some((applied) => applied.name === file.path)
+  );
+
+  const addFile = (name: string, content: string) => {
+    onChange({ ...overrides, files: [...overrides.files, { name, content }] });
+  };
+
+  const removeFile = (index: number) => {
+    onChange({ ...overrides, files: overrides.files.filter((_, i) => i !== index) });
+  };
+
+  const moveFile = (index: number, offset: number) => {
+    const files = [...overrides.files];
+    const [file] = files.splice(index, 1);
+    files.splice(index + offset, 0, file);
+    onChange({ ...overrides, files });
+  };
+
+  const handleOverlayPicked = (path: string) => {
+    const file = chart.files.find((f) => f.path === path);
+    if (file) addFile(file.path, file.content);
+  };
+
+  const handleUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    const loaded = await Promise.all(picked.map(async (file) => ({ name: file.name, content: await file.text() })));
+    if (loaded.length > 0) {
+      onChange({ ...overrides, files: [...overrides.files, ...loaded] });
+    }
+  };
+
+  const applySet = () => {
+    const lines = setDraft.split('\n').map((line) => line.trim()).filter(Boolean);
+    for (const line of lines) {
+      try {
+        parseSetArgument(line);
+      } catch (error) {
+        setSetError(`${line}: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+      }
+    }
+    setSetError(null);
+    onChange({ ...overrides, set: lines });
+  };
+
+  return (
+    <div className="p-4 space-y-3 text-xs">
+      <h3 className="font-semibold text-helm-text/60 uppercase tracking-wider">
+        Values Layers
+      </h3>
+
+      {/* Layers in precedence order, lowest first */}
+      <ol className="space-y-1">
+        <li className="flex items-center gap-2 text-helm-text/60">
+          <span className="w-4 text-right text-helm-text/30">1</span>
+          <span className="font-mono text-helm-purple truncate">values.yaml</span>
+          <span className="text-helm-text/30">defaults</span>
+        </li>
+        {overrides.files.map((file, index) => (
+          <li key={`${file.name}-${index}`} className="flex items-center gap-2 text-helm-text">
+            <span className="w-4 text-right text-helm-text/30">{index + 2}</span>
+            <span className="flex-1 font-mono truncate" title={file.name}>{file.name}</span>
+            <button
+              onClick={() => moveFile(index, -1)}
+              disabled={index === 0}
+              className="text-helm-text/40 hover:text-helm-text disabled:opacity-20 transition-colors"
+              aria-label={`Apply ${file.name} earlier`}
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => moveFile(index, 1)}
+              disabled={index === overrides.files.length - 1}
+              className="text-helm-text/40 hover:text-helm-text disabled:opacity-20 transition-colors"
+              aria-label={`Apply ${file.name} later`}
+            >
+              ↓
+            </button>
+            <button
+              onClick={() => removeFile(index)}
+              className="text-helm-text/40 hover:text-helm-red transition-colors"
+              aria-label={`Remove ${file.name}`}
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      {/* Add -f files */}
+      <div className="flex gap-2">
+        {availableOverlays.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => handleOverlayPicked(e.target.value)}
+            className="flex-1 min-w-0 px-2 py-1 bg-helm-bg border border-helm-border rounded text-helm-text focus:outline-none focus:border-helm-accent"
+          >
+            <option value="" disabled>Add overlay…</option>
+            {availableOverlays.map((file) => (
+              <option key={file.path} value={file.path}>{file.path}</option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-2 py-1 bg-helm-border border border-helm-border rounded text-helm-text hover:bg-helm-accent/20 hover:border-helm-accent transition-colors"
+        >
+          Upload…
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".yaml,.yml"
+          multiple
+          onChange={handleUpload}
+          className="hidden"
+        />
+      </div>
+
+      {/* --set overrides, applied last */}
+      <div className="space-y-1">
+        <label htmlFor="set-overrides" className="block text-helm-text/60">
+          --set (one per line)
+        </label>
+        <textarea
+          id="set-overrides"
+          value={setDraft}
+          onChange={(e) => setSetDraft(e.target.value)}
+          rows={3}
+          placeholder="image.tag=v2,replicaCount=3"
+          className="w-full px-2 py-1 bg-helm-bg border border-helm-border rounded font-mono text-helm-text placeholder:text-helm-text/30 focus:outline-none focus:border-helm-accent resize-y"
+        />
+        {setError && <p className="text-helm-red break-words">{setError}</p>}
+        <button
+          onClick={applySet}
+          className="px-2 py-1 bg-helm-border border border-helm-border rounded text-helm-text hover:bg-helm-accent/20 hover:border-helm-accent transition-colors"
+        >
+          Apply
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { ValuesReport, Reference } from '../types';
+
+interface ValuesReportPanelProps {
+  report: ValuesReport;
+  onSelectFile: (file: string) => void;
+  onExportSchema: () => void;
+  onClose: () => void;
+}
+
+type ReportSection = 'unused' | 'undefined' | 'partial' | 'schema';
+
+export default function ValuesReportPanel({ report, onSelectFile, onExportSchema, onClose }: ValuesReportPanelProps) {
+  const [openSection, setOpenSection] = useState<ReportSection | null>('undefined');
+
+  const toggleSection = (section: ReportSection) => {
+    setOpenSection((current) => (current === section ? null : section));
+  };
+
+  const renderReferences = (references: Reference[]) => (
+    <div className="flex flex-wrap gap-x-2 mt-0.5">
+      {references.map((ref) => (
+        <button
+          key={ref.id}
+          onClick={() => onSelectFile(ref.source.file)}
+          className="text-helm-text/50 hover:text-helm-accent transition-colors"
+        >
+          {ref.source.file}:{ref.line}
+        </button>
+      ))}
+    </div>
+  );
+
+  const renderHeader = (section: ReportSection, title: string, count: number, colorClass: string) => (
+    <button
+      onClick={() => toggleSection(section)}
+      className="w-full flex items-center justify-between py-1.5 hover:bg-helm-border/30 transition-colors"
+    >
+      <span className="font-semibold text-helm-text/80">{title}</span>
+      <span className={colorClass}>{count}</span>
+    </button>
+  );
+
+  return (
+    <div className="w-80 max-h-[70vh] flex flex-col bg-helm-surface/95 backdrop-blur-sm border border-helm-border rounded-lg shadow-lg overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-helm-border/50">
+        <h3 className="text-xs font-semibold text-helm-text/60 uppercase tracking-wider">
+          Values Report
+        </h3>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onExportSchema}
+            className="text-xs text-helm-text/60 hover:text-helm-accent transition-colors"
+            title="Generate values.schema.json from values defaults and template usage"
+          >
+            Export schema
+          </button>
+          <button
+            onClick={onClose}
+            className="text-helm-text/60 hover:text-helm-text transition-colors"
+            aria-label="Close values report"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-3 py-1 text-xs divide-y divide-helm-border/50">
+        {/* Undefined values */}
+        <div>
+          {renderHeader('undefined', 'Undefined', report.undefined.length, 'text-helm-red')}
+          {openSection === 'undefined' && (
+            <ul className="pb-2 space-y-2">
+              {report.undefined.map((usage) => (
+                <li key={usage.path}>
+                  <span className="font-mono text-helm-red">.Values.{usage.path}</span>
+                  {usage.suggestions.length > 0 && (
+                    <p className="text-helm-text/60">
+                      Did you mean{' '}
+                      {usage.suggestions.map((s, i) => (
+                        <span key={s}>
+                          {i > 0 && ', '}
+                          <span className="font-mono text-helm-purple">{s}</span>
+                        </span>
+                      ))}
+                      ?
+                    </p>
+                  )}
+                  {renderReferences(usage.references)}
+                </li>
+              ))}
+              {report.undefined.length === 0 && <li className="text-helm-text/40">Every referenced value is defined</li>}
+            </ul>
+          )}
+        </div>
+
+        {/* Unused values */}
+        <div>
+          {renderHeader('unused', 'Unused', report.unused.length, 'text-helm-orange')}
+          {openSection === 'unused' && (
+            <ul className="pb-2 space-y-1">
+              {report.unused.map((key) => (
+                <li key={key.path} className="flex justify-between gap-2">
+                  <span className="font-mono text-helm-text truncate">{key.path}</span>
+                  <span className="text-helm-text/40">{key.type}</span>
+                </li>
+              ))}
+              {report.unused.length === 0 && <li className="text-helm-text/40">Every defined value is used</li>}
+            </ul>
+          )}
+        </div>
+
+        {/* Partial usage */}
+        <div>
+          {renderHeader('partial', 'Read as whole object', report.partial.length, 'text-helm-purple')}
+          {openSection === 'partial' && (
+            <ul className="pb-2 space-y-2">
+              {report.partial.map((usage) => (
+                <li key={usage.path}>
+                  <span className="font-mono text-helm-purple">.Values.{usage.path}</span>
+                  <p className="text-helm-text/60">
+                    {usage.coveredKeys.length} key{usage.coveredKeys.length === 1 ? '' : 's'} only read through this object
+                  </p>
+                  {renderReferences(usage.references)}
+                </li>
+              ))}
+              {report.partial.length === 0 && <li className="text-helm-text/40">No whole-object reads</li>}
+            </ul>
+          )}
+        </div>
+
+        {/* values.schema.json disagreements */}
+        <div>
+          {renderHeader('schema', 'Schema', report.schema.length, 'text-helm-red')}
+          {openSection === 'schema' && (
+            <ul className="pb-2 space-y-2">
+              {report.schema.map((issue) => (
+                <li key={`${issue.kind}:${issue.path}:${issue.message}`}>
+                  <span className="font-mono text-helm-red">.Values.{issue.path}</span>
+                  <p className="text-helm-text/60">{issue.message}</p>
+                  {issue.references.length > 0 && renderReferences(issue.references)}
+                </li>
+              ))}
+              {report.schema.length === 0 && <li className="text-helm-text/40">No schema issues</li>}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
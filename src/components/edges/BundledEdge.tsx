@@ -0,0 +1,58 @@
+import { memo } from 'react';
+import { BaseEdge, EdgeProps } from '@xyflow/react';
+import { EdgeData } from '../../types';
+
+/**
+ * Edge routed through the shared point of its bundle, so edges fanning in
+ * to the same node merge before they reach it
+ */
+function BundledEdge({
+  sourceX,
+  sourceY,
+  targetX,
+  targetY,
+  data,
+  label,
+  labelStyle,
+  labelShowBg,
+  labelBgStyle,
+  labelBgPadding,
+  labelBgBorderRadius,
+  style,
+  markerEnd,
+  interactionWidth,
+}: EdgeProps) {
+  const bundle = (data as EdgeData | undefined)?.bundle ?? {
+    x: (sourceX + targetX) / 2,
+    y: (sourceY + targetY) / 2,
+  };
+
+  // Horizontal tangents at both ends and through the bundle point
+  const toBundle = (sourceX + bundle.x) / 2;
+  const toTarget = (bundle.x + targetX) / 2;
+  const path = [
+    `M ${sourceX},${sourceY}`,
+    `C ${toBundle},${sourceY} ${toBundle},${bundle.y} ${bundle.x},${bundle.y}`,
+    `C ${toTarget},${bundle.y} ${toTarget},${targetY} ${targetX},${targetY}`,
+  ].join(' ');
+
+  // Labels go on the unshared part, where they don't stack
+  return (
+    <BaseEdge
+      path={path}
+      label={label}
+      labelX={(sourceX + bundle.x) / 2}
+      labelY={(sourceY + bundle.y) / 2}
+      labelStyle={labelStyle}
+      labelShowBg={labelShowBg}
+      labelBgStyle={labelBgStyle}
+      labelBgPadding={labelBgPadding}
+      labelBgBorderRadius={labelBgBorderRadius}
+      style={style}
+      markerEnd={markerEnd}
+      interactionWidth={interactionWidth}
+    />
+  );
+}
+
+export default memo(BundledEdge);
@@ -0,0 +1,8 @@
+export { default as BundledEdge } from './BundledEdge';
+
+import BundledEdge from './BundledEdge';
+
+// React Flow edge components by edge type
+export const edgeTypes = {
+  bundled: BundledEdge,
+};
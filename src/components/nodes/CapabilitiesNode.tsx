@@ -0,0 +1,65 @@
+import { memo } from 'react';
+import { Handle, Position, NodeProps } from '@xyflow/react';
+import { NodeData } from '../../types';
+
+interface CapabilitiesNodeData extends NodeData {
+  checks: { check: string; files: string[] }[];
+}
+
+// Checks listed on the node; the rest are in its tooltip
+const MAX_LISTED_CHECKS = 4;
+
+function CapabilitiesNode({ data, selected }: NodeProps) {
+  const nodeData = data as unknown as CapabilitiesNodeData;
+  const tooltip = nodeData.checks
+    .map(({ check, files }) => `${check}\n  ${files.join('\n  ')}`)
+    .join('\n');
+
+  return (
+    <div
+      className={`
+        px-4 py-3 rounded-lg border-2 min-w-[160px]
+        transition-all duration-200
+        bg-helm-pink/20 border-helm-pink
+        ${selected ? 'ring-2 ring-helm-accent ring-offset-2 ring-offset-helm-bg' : ''}
+        ${nodeData.isHighlighted ? 'shadow-lg shadow-helm-pink/30' : ''}
+      `}
+      title={tooltip}
+    >
+      <Handle
+        type="target"
+        position={Position.Left}
+        className="!bg-helm-pink !border-helm-bg !w-3 !h-3"
+      />
+      
+      <div className="flex items-center gap-2">
+        <span className="text-lg">🧭</span>
+        <div className="flex flex-col">
+          <span className="text-sm font-medium text-helm-text">
+            {nodeData.label}
+          </span>
+          <span className="text-xs text-helm-text/50">Cluster capabilities</span>
+        </div>
+      </div>
+      
+      <ul className="mt-2 space-y-0.5 text-xs font-mono text-helm-text/80">
+        {nodeData.checks.slice(0, MAX_LISTED_CHECKS).map(({ check, files }) => (
+          <li key={check} className="truncate max-w-[240px]">
+            {check} <span className="text-helm-text/40">×{files.length}</span>
+          </li>
+        ))}
+        {nodeData.checks.length > MAX_LISTED_CHECKS && (
+          <li className="text-helm-text/40">+{nodeData.checks.length - MAX_LISTED_CHECKS} more</li>
+        )}
+      </ul>
+      
+      <Handle
+        type="source"
+        position={Position.Right}
+        className="!bg-helm-pink !border-helm-bg !w-3 !h-3"
+      />
+    </div>
+  );
+}
+
+export default memo(CapabilitiesNode);
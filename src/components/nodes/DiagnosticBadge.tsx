@@ -0,0 +1,36 @@
+import { Diagnostic, DiagnosticSeverity } from '../../types';
+
+const severityClasses: Record<DiagnosticSeverity, string> = {
+  error: 'bg-helm-red text-white',
+  warning: 'bg-helm-orange text-helm-bg',
+  info: 'bg-helm-accent text-helm-bg',
+};
+
+const severityOrder: DiagnosticSeverity[] = ['error', 'warning', 'info'];
+
+interface DiagnosticBadgeProps {
+  diagnostics?: Diagnostic[];
+}
+
+/**
+ * Corner badge with the number of lint diagnostics on a node, colored by the
+ * most severe one; hovering lists them
+ */
+export default function DiagnosticBadge({ diagnostics }: DiagnosticBadgeProps) {
+  if (!diagnostics || diagnostics.length === 0) return null;
+
+  const severity = severityOrder.find((s) => diagnostics.some((d) => d.severity === s)) ?? 'info';
+  const title = diagnostics
+    .map((d) => `${d.severity}${d.line ? ` (line ${d.line})` : ''}: ${d.message}`)
+    .join('\n');
+
+  return (
+    <span
+      className={`absolute -top-2 -right-2 min-w-[20px] h-5 px-1.5 rounded-full text-xs font-semibold
+                  flex items-center justify-center shadow ${severityClasses[severity]}`}
+      title={title}
+    >
+      {diagnostics.length}
+    </span>
+  );
+}
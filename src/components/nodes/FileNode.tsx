@@ -1,6 +1,7 @@
 import { memo } from 'react';
 import { Handle, Position, NodeProps } from '@xyflow/react';
-import { NodeData, FileType } from '../../types';
+import { Diagnostic, NodeData, FileType } from '../../types';
+import DiagnosticBadge from './DiagnosticBadge';
 
 const fileTypeColors: Record<FileType, { bg: string; border: string; icon: string }> = {
   chart: { bg: 'bg-helm-green/20', border: 'border-helm-green', icon: '📊' },
@@ -8,28 +9,36 @@ const fileTypeColors: Record<FileType, { bg: string; border: string; icon: strin
   template: { bg: 'bg-helm-orange/20', border: 'border-helm-orange', icon: '📄' },
   helper: { bg: 'bg-helm-cyan/20', border: 'border-helm-cyan', icon: '🔧' },
   notes: { bg: 'bg-helm-text/20', border: 'border-helm-text', icon: '📝' },
+  schema: { bg: 'bg-helm-purple/20', border: 'border-helm-purple', icon: '📐' },
   other: { bg: 'bg-helm-border/50', border: 'border-helm-border', icon: '📁' },
 };
 
 interface FileNodeData extends NodeData {
   fileType: FileType;
   filePath: string;
+  diagnostics?: Diagnostic[];
+  missing?: string;       // Set on .Files paths no chart file matches
 }
 
 function FileNode({ data, selected }: NodeProps) {
   const nodeData = data as unknown as FileNodeData;
-  const colors = fileTypeColors[nodeData.fileType] || fileTypeColors.other;
+  const colors = nodeData.missing
+    ? { bg: 'bg-helm-red/10', border: 'border-helm-red border-dashed', icon: '⚠️' }
+    : fileTypeColors[nodeData.fileType] || fileTypeColors.other;
 
   return (
     <div
       className={`
-        px-4 py-3 rounded-lg border-2 min-w-[160px]
+        relative px-4 py-3 rounded-lg border-2 min-w-[160px]
         transition-all duration-200
         ${colors.bg} ${colors.border}
         ${selected ? 'ring-2 ring-helm-accent ring-offset-2 ring-offset-helm-bg' : ''}
         ${nodeData.isHighlighted ? 'shadow-lg shadow-helm-accent/30' : ''}
       `}
+      title={nodeData.missing}
     >
+      <DiagnosticBadge diagnostics={nodeData.diagnostics} />
+      
       <Handle
         type="target"
         position={Position.Left}
@@ -45,6 +54,9 @@ function FileNode({ data, selected }: NodeProps) {
           <span className="text-xs text-helm-text/50 truncate max-w-[140px]">
             {nodeData.filePath}
           </span>
+          {nodeData.missing && (
+            <span className="text-xs text-helm-red">⚠ not in chart</span>
+          )}
         </div>
       </div>
       
@@ -1,9 +1,11 @@
 import { memo } from 'react';
 import { Handle, Position, NodeProps } from '@xyflow/react';
-import { NodeData } from '../../types';
+import { Diagnostic, NodeData } from '../../types';
+import DiagnosticBadge from './DiagnosticBadge';
 
 interface HelperNodeData extends NodeData {
   helperName: string;
+  diagnostics?: Diagnostic[];
 }
 
 function HelperNode({ data, selected }: NodeProps) {
@@ -12,13 +14,15 @@ function HelperNode({ data, selected }: NodeProps) {
   return (
     <div
       className={`
-        px-4 py-3 rounded-lg border-2 min-w-[160px]
+        relative px-4 py-3 rounded-lg border-2 min-w-[160px]
         transition-all duration-200
         bg-helm-cyan/20 border-helm-cyan
         ${selected ? 'ring-2 ring-helm-accent ring-offset-2 ring-offset-helm-bg' : ''}
         ${nodeData.isHighlighted ? 'shadow-lg shadow-helm-cyan/30' : ''}
       `}
     >
+      <DiagnosticBadge diagnostics={nodeData.diagnostics} />
+      
       <Handle
         type="target"
         position={Position.Left}
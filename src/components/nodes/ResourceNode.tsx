@@ -0,0 +1,82 @@
+import { memo } from 'react';
+import { Handle, Position, NodeProps } from '@xyflow/react';
+import { NodeData } from '../../types';
+
+interface ResourceNodeData extends NodeData {
+  kind: string;
+  apiVersion?: string;
+  resourceName?: string;
+  namespace?: string;
+  danglingReferences?: string[];
+}
+
+const kindIcons: Record<string, string> = {
+  Deployment: '🚀',
+  StatefulSet: '🗄️',
+  DaemonSet: '👥',
+  Job: '⏱️',
+  CronJob: '⏰',
+  Pod: '📦',
+  Service: '🔌',
+  Ingress: '🌐',
+  ConfigMap: '🗒️',
+  Secret: '🔑',
+  ServiceAccount: '🪪',
+  PersistentVolumeClaim: '💾',
+  HorizontalPodAutoscaler: '📈',
+};
+
+function ResourceNode({ data, selected }: NodeProps) {
+  const nodeData = data as unknown as ResourceNodeData;
+  const details = [
+    nodeData.apiVersion && `apiVersion: ${nodeData.apiVersion}`,
+    nodeData.resourceName && `name: ${nodeData.resourceName}`,
+    nodeData.namespace && `namespace: ${nodeData.namespace}`,
+  ].filter(Boolean).join('\n');
+  const dangling = nodeData.danglingReferences ?? [];
+
+  return (
+    <div
+      className={`
+        px-4 py-3 rounded-lg border-2 min-w-[160px]
+        transition-all duration-200
+        bg-helm-orange/10 border-helm-orange/60
+        ${selected ? 'ring-2 ring-helm-accent ring-offset-2 ring-offset-helm-bg' : ''}
+        ${nodeData.isHighlighted ? 'shadow-lg shadow-helm-orange/30' : ''}
+      `}
+      title={details || undefined}
+    >
+      <Handle
+        type="target"
+        position={Position.Left}
+        className="!bg-helm-orange !border-helm-bg !w-3 !h-3"
+      />
+      
+      <div className="flex items-center gap-2">
+        <span className="text-lg">{kindIcons[nodeData.kind] || '☸️'}</span>
+        <div className="flex flex-col">
+          <span className="text-xs text-helm-orange font-semibold">{nodeData.kind}</span>
+          {nodeData.resourceName && (
+            <span className="text-sm font-mono text-helm-text truncate max-w-[160px]">
+              {nodeData.resourceName}
+            </span>
+          )}
+        </div>
+      </div>
+      
+      {dangling.length > 0 && (
+        <div className="mt-1 text-xs text-helm-red truncate max-w-[200px]" title={dangling.join('\n')}>
+          ⚠ {dangling.length} dangling reference{dangling.length === 1 ? '' : 's'}
+        </div>
+      )}
+      
+      <Handle
+        type="source"
+        position={Position.Right}
+        className="!bg-helm-orange !border-helm-bg !w-3 !h-3"
+      />
+    </div>
+  );
+}
+
+export default memo(ResourceNode);
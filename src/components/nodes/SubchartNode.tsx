@@ -0,0 +1,65 @@
+import { memo } from 'react';
+import { Handle, Position, NodeProps } from '@xyflow/react';
+import { NodeData } from '../../types';
+
+interface SubchartNodeData extends NodeData {
+  chartName: string;
+  chartVersion: string;
+  chartPath: string;
+  condition?: string;
+  enabled: boolean;
+}
+
+function SubchartNode({ data, selected }: NodeProps) {
+  const nodeData = data as unknown as SubchartNodeData;
+
+  return (
+    <div
+      className={`
+        w-full h-full rounded-xl border-2 border-dashed
+        transition-all duration-200
+        ${nodeData.enabled ? 'bg-helm-accent/5 border-helm-accent/60' : 'bg-helm-border/10 border-helm-border opacity-60'}
+        ${selected ? 'ring-2 ring-helm-accent ring-offset-2 ring-offset-helm-bg' : ''}
+        ${nodeData.isHighlighted ? 'shadow-lg shadow-helm-accent/30' : ''}
+      `}
+    >
+      <Handle
+        type="target"
+        position={Position.Left}
+        className="!bg-helm-accent !border-helm-bg !w-3 !h-3"
+      />
+
+      <div className="flex items-center gap-2 px-3 py-2">
+        <button
+          data-collapse-toggle
+          className="text-xs text-helm-text/60 hover:text-helm-text transition-colors"
+          aria-label={nodeData.collapsed ? 'Expand subchart' : 'Collapse subchart'}
+        >
+          <span className={`inline-block transition-transform ${nodeData.collapsed ? '' : 'rotate-90'}`}>▶</span>
+        </button>
+        <span className="text-lg">📦</span>
+        <div className="flex flex-col min-w-0">
+          <span className="text-sm font-medium text-helm-text truncate">
+            {nodeData.label}
+            {nodeData.label !== nodeData.chartName && (
+              <span className="text-helm-text/50"> ({nodeData.chartName})</span>
+            )}
+          </span>
+          <span className="text-xs text-helm-text/50 truncate">
+            v{nodeData.chartVersion}
+            {nodeData.condition && ` · if ${nodeData.condition}`}
+            {!nodeData.enabled && ' · disabled'}
+          </span>
+        </div>
+      </div>
+
+      <Handle
+        type="source"
+        position={Position.Right}
+        className="!bg-helm-accent !border-helm-bg !w-3 !h-3"
+      />
+    </div>
+  );
+}
+
+export default memo(SubchartNode);
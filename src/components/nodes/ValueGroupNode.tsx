@@ -0,0 +1,62 @@
+import { memo } from 'react';
+import { Handle, Position, NodeProps } from '@xyflow/react';
+import { NodeData } from '../../types';
+
+interface ValueGroupNodeData extends NodeData {
+  valuePath: string;
+  valueCount: number;
+  referenceCount: number;
+}
+
+function ValueGroupNode({ data, selected }: NodeProps) {
+  const nodeData = data as unknown as ValueGroupNodeData;
+
+  return (
+    <div
+      className={`
+        w-full h-full rounded-lg border-2
+        transition-all duration-200
+        bg-helm-purple/5 border-helm-purple/40
+        ${nodeData.collapsed ? 'bg-helm-purple/10 border-helm-purple/60' : ''}
+        ${selected ? 'ring-2 ring-helm-accent ring-offset-2 ring-offset-helm-bg' : ''}
+        ${nodeData.isHighlighted ? 'shadow-lg shadow-helm-purple/30' : ''}
+      `}
+      title={`.Values.${nodeData.valuePath}`}
+    >
+      <Handle
+        type="target"
+        position={Position.Left}
+        className="!bg-helm-purple !border-helm-bg !w-2.5 !h-2.5"
+      />
+
+      <div className="flex items-center gap-2 px-3 py-2">
+        <button
+          data-collapse-toggle
+          className="text-xs text-helm-text/60 hover:text-helm-text transition-colors"
+          aria-label={nodeData.collapsed ? 'Expand values' : 'Collapse values'}
+        >
+          <span className={`inline-block transition-transform ${nodeData.collapsed ? '' : 'rotate-90'}`}>▶</span>
+        </button>
+        <div className="flex flex-col min-w-0">
+          <span className="text-sm font-mono text-helm-text truncate">
+            <span className="text-helm-purple text-xs">.Values.</span>
+            {nodeData.label}
+          </span>
+          {nodeData.collapsed && (
+            <span className="text-xs text-helm-text/50">
+              {nodeData.valueCount} values · {nodeData.referenceCount} refs
+            </span>
+          )}
+        </div>
+      </div>
+
+      <Handle
+        type="source"
+        position={Position.Right}
+        className="!bg-helm-purple !border-helm-bg !w-2.5 !h-2.5"
+      />
+    </div>
+  );
+}
+
+export default memo(ValueGroupNode);
@@ -1,14 +1,30 @@
 import { memo } from 'react';
 import { Handle, Position, NodeProps } from '@xyflow/react';
-import { NodeData } from '../../types';
+import { NodeData, ValueOverride, ValueSchemaInfo } from '../../types';
 
 interface ValueNodeData extends NodeData {
   valuePath: string;
   valueType?: string;
+  valueSource?: string;
+  overridden?: ValueOverride[];
+  schema?: ValueSchemaInfo;
 }
 
 function ValueNode({ data, selected }: NodeProps) {
   const nodeData = data as unknown as ValueNodeData;
+  const overridden = nodeData.overridden ?? [];
+  const isOverridden = overridden.length > 0 || (nodeData.valueSource !== undefined && nodeData.valueSource !== 'values.yaml');
+  const provenance = [
+    `Effective value from ${nodeData.valueSource}`,
+    ...overridden.map((layer) => `overrides ${layer.source}: ${JSON.stringify(layer.value)}`),
+  ].join('\n');
+  const schema = nodeData.schema;
+  const schemaDetails = schema && [
+    schema.description,
+    schema.enum && `enum: ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`,
+    schema.default !== undefined && `default: ${JSON.stringify(schema.default)}`,
+    schema.required && 'required',
+  ].filter(Boolean).join('\n');
 
   return (
     <div
@@ -39,6 +55,19 @@ function ValueNode({ data, selected }: NodeProps) {
         </span>
       )}
       
+      {schema?.type && (
+        <div className="text-xs text-helm-purple/80 font-mono truncate max-w-[200px]" title={schemaDetails || undefined}>
+          📐 {schema.type.join(' | ')}
+          {schema.required && <span className="text-helm-red" aria-label="required"> *</span>}
+        </div>
+      )}
+      
+      {isOverridden && (
+        <div className="text-xs text-helm-orange font-mono truncate max-w-[200px]" title={provenance}>
+          ⤴ {nodeData.valueSource}
+        </div>
+      )}
+      
       <Handle
         type="source"
         position={Position.Right}
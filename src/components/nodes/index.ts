@@ -1,6 +1,33 @@
 export { default as FileNode } from './FileNode';
 export { default as ValueNode } from './ValueNode';
+export { default as ValueGroupNode } from './ValueGroupNode';
 export { default as ChartNode } from './ChartNode';
 export { default as ReleaseNode } from './ReleaseNode';
 export { default as HelperNode } from './HelperNode';
+export { default as ResourceNode } from './ResourceNode';
+export { default as CapabilitiesNode } from './CapabilitiesNode';
 
+export { default as SubchartNode } from './SubchartNode';
+
+import FileNode from './FileNode';
+import ValueNode from './ValueNode';
+import ValueGroupNode from './ValueGroupNode';
+import ChartNode from './ChartNode';
+import ReleaseNode from './ReleaseNode';
+import HelperNode from './HelperNode';
+import ResourceNode from './ResourceNode';
+import CapabilitiesNode from './CapabilitiesNode';
+import SubchartNode from './SubchartNode';
+
+// React Flow node components by node type
+export const nodeTypes = {
+  file: FileNode,
+  value: ValueNode,
+  valueGroup: ValueGroupNode,
+  chart: ChartNode,
+  release: ReleaseNode,
+  helper: HelperNode,
+  subchart: SubchartNode,
+  resource: ResourceNode,
+  capabilities: CapabilitiesNode,
+};
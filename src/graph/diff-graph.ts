@@ -0,0 +1,104 @@
+import { ChartDiff, DiffStatus, GraphData, GraphEdge, GraphNode, HelmChart } from '../types';
+import { buildGraphData, autoOrganizeLayout } from './graph-builder';
+import { getResourceKey } from '../analysis/chart-diff';
+
+/**
+ * One graph holding both versions of a chart. Every node and edge carries a
+ * `diffStatus`: elements only the old version has are 'removed', those only
+ * the new one has are 'added', and nodes whose value, helper, file or
+ * resource changed are 'changed' (or 'renamed' for renamed values).
+ */
+export function buildDiffGraph(base: HelmChart, head: HelmChart, diff: ChartDiff): GraphData {
+  // Flat value nodes: groups of the two versions would not line up
+  const baseGraph = buildGraphData(base, { groupValues: false });
+  const headGraph = buildGraphData(head, { groupValues: false });
+  const changes = getChangedNodeStatuses(base, head, diff);
+
+  const headNodeIds = new Set(headGraph.nodes.map(node => node.id));
+  const baseNodeIds = new Set(baseGraph.nodes.map(node => node.id));
+  const withStatus = (node: GraphNode, status: DiffStatus, detail?: string): GraphNode => ({
+    ...node,
+    data: { ...node.data, diffStatus: status, diffDetail: detail },
+  });
+
+  const nodes = [
+    ...headGraph.nodes.map(node => {
+      const change = changes.get(node.id);
+      if (change) return withStatus(node, change.status, change.detail);
+      return withStatus(node, baseNodeIds.has(node.id) ? 'unchanged' : 'added');
+    }),
+    ...baseGraph.nodes
+      .filter(node => !headNodeIds.has(node.id))
+      .map(node => withStatus(node, 'removed', changes.get(node.id)?.detail)),
+  ];
+
+  // Parallel references between the same two nodes are drawn once
+  const edgeKey = (edge: GraphEdge) => `${edge.source}->${edge.target}:${edge.data?.referenceType ?? ''}`;
+  const baseEdgeKeys = new Set(baseGraph.edges.map(edgeKey));
+  const headEdgeKeys = new Set(headGraph.edges.map(edgeKey));
+  const edges = new Map<string, GraphEdge>();
+  const addEdge = (edge: GraphEdge, status: DiffStatus) => {
+    const key = edgeKey(edge);
+    if (edges.has(key)) return;
+    edges.set(key, {
+      ...edge,
+      id: key,
+      data: edge.data && { ...edge.data, diffStatus: status },
+    });
+  };
+  headGraph.edges.forEach(edge => addEdge(edge, baseEdgeKeys.has(edgeKey(edge)) ? 'unchanged' : 'added'));
+  baseGraph.edges
+    .filter(edge => !headEdgeKeys.has(edgeKey(edge)))
+    .forEach(edge => addEdge(edge, 'removed'));
+
+  const edgeList = Array.from(edges.values());
+  return { nodes: autoOrganizeLayout(nodes, edgeList), edges: edgeList };
+}
+
+/**
+ * Graph node IDs of the changes in the diff, with what changed
+ */
+function getChangedNodeStatuses(
+  base: HelmChart,
+  head: HelmChart,
+  diff: ChartDiff
+): Map<string, { status: DiffStatus; detail?: string }> {
+  const statuses = new Map<string, { status: DiffStatus; detail?: string }>();
+
+  diff.values.forEach(change => {
+    if (change.status === 'renamed') {
+      statuses.set(`value:${change.path}`, { status: 'renamed', detail: `renamed from ${change.previousPath}` });
+      statuses.set(`value:${change.previousPath}`, { status: 'removed', detail: `renamed to ${change.path}` });
+    } else if (change.status === 'changed') {
+      statuses.set(`value:${change.path}`, {
+        status: 'changed',
+        detail: `${JSON.stringify(change.before)} → ${JSON.stringify(change.after)}`,
+      });
+    }
+  });
+
+  diff.helpers
+    .filter(change => change.status === 'changed')
+    .forEach(change => statuses.set(`helper:${change.name}`, { status: 'changed', detail: change.detail }));
+  diff.files
+    .filter(change => change.status === 'changed')
+    .forEach(change => statuses.set(`file:${change.name}`, { status: 'changed', detail: change.detail }));
+
+  // Resource nodes are keyed by position in their file, so match them by kind and name
+  const changedResources = new Map(
+    diff.resources.filter(change => change.status === 'changed').map(change => [change.name, change])
+  );
+  const baseResourceKeys = new Map(base.resources.map(resource => [`resource:${resource.id}`, getResourceKey(resource)]));
+  head.resources.forEach(resource => {
+    const nodeId = `resource:${resource.id}`;
+    const key = getResourceKey(resource);
+    const change = changedResources.get(key);
+    if (change) {
+      statuses.set(nodeId, { status: 'changed', detail: change.detail });
+    } else if (baseResourceKeys.has(nodeId) && baseResourceKeys.get(nodeId) !== key) {
+      statuses.set(nodeId, { status: 'changed', detail: `was ${baseResourceKeys.get(nodeId)}` });
+    }
+  });
+
+  return statuses;
+}
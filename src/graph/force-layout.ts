@@ -0,0 +1,105 @@
+import { GraphData, GraphEdge, GraphNode } from '../types';
+import {
+  LayoutPosition,
+  applyPositions,
+  getLayoutCandidates,
+  getLayoutLinks,
+  getNodeSize,
+  resetEdgeRouting,
+} from './layout-utils';
+
+// Preferred distance between connected nodes
+const IDEAL_DISTANCE = 260;
+
+// Pull towards the centre that keeps unconnected parts from drifting away
+const GRAVITY = 0.05;
+
+// Fewer iterations on large graphs keep the all-pairs repulsion affordable
+const MAX_ITERATIONS = 300;
+const PAIR_BUDGET = 3e7;
+
+/**
+ * Force-directed layout (Fruchterman-Reingold): nodes repel each other,
+ * edges pull their ends together and the movement cools down over the
+ * iterations. Starts from a spiral so the result is the same every time.
+ */
+export function forceLayout(nodes: GraphNode[], edges: GraphEdge[]): GraphData {
+  const candidates = getLayoutCandidates(nodes);
+  const count = candidates.length;
+  const index = new Map(candidates.map((node, i) => [node.id, i]));
+  const links = getLayoutLinks(nodes, new Set(index.keys()), edges).map(([source, target]) => [
+    index.get(source)!,
+    index.get(target)!,
+  ]);
+
+  const x = new Float64Array(count);
+  const y = new Float64Array(count);
+  candidates.forEach((_, i) => {
+    const radius = IDEAL_DISTANCE * 0.5 * Math.sqrt(i);
+    const angle = i * 2.399963;  // Golden angle
+    x[i] = radius * Math.cos(angle);
+    y[i] = radius * Math.sin(angle);
+  });
+
+  const iterations = Math.max(30, Math.min(MAX_ITERATIONS, Math.floor(PAIR_BUDGET / Math.max(1, count * count))));
+  const k = IDEAL_DISTANCE;
+  const dx = new Float64Array(count);
+  const dy = new Float64Array(count);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const temperature = k * 2 * (1 - iteration / iterations);
+    dx.fill(0);
+    dy.fill(0);
+
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        let ox = x[i] - x[j];
+        let oy = y[i] - y[j];
+        let distance = Math.hypot(ox, oy);
+        if (distance < 0.01) {
+          ox = 0.01 * (i - j);
+          oy = 0.01;
+          distance = Math.hypot(ox, oy);
+        }
+        const force = (k * k) / distance;
+        dx[i] += (ox / distance) * force;
+        dy[i] += (oy / distance) * force;
+        dx[j] -= (ox / distance) * force;
+        dy[j] -= (oy / distance) * force;
+      }
+    }
+
+    links.forEach(([source, target]) => {
+      const ox = x[source] - x[target];
+      const oy = y[source] - y[target];
+      const distance = Math.max(0.01, Math.hypot(ox, oy));
+      const force = (distance * distance) / k;
+      dx[source] -= (ox / distance) * force;
+      dy[source] -= (oy / distance) * force;
+      dx[target] += (ox / distance) * force;
+      dy[target] += (oy / distance) * force;
+    });
+
+    for (let i = 0; i < count; i++) {
+      dx[i] -= x[i] * GRAVITY * k / 10;
+      dy[i] -= y[i] * GRAVITY * k / 10;
+      const length = Math.hypot(dx[i], dy[i]);
+      if (length === 0) continue;
+      const step = Math.min(length, temperature);
+      x[i] += (dx[i] / length) * step;
+      y[i] += (dy[i] / length) * step;
+    }
+  }
+
+  // Centres to top-left positions
+  const positions = new Map<string, LayoutPosition>();
+  candidates.forEach((node, i) => {
+    const { width, height } = getNodeSize(node);
+    positions.set(node.id, { x: x[i] - width / 2, y: y[i] - height / 2 });
+  });
+
+  return {
+    nodes: applyPositions(nodes, positions),
+    edges: resetEdgeRouting(edges, 'straight'),
+  };
+}
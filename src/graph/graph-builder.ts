@@ -1,4 +1,10 @@
-import { HelmChart, GraphData, GraphNode, GraphEdge, Reference, FileType } from '../types';
+import { HelmChart, GraphData, GraphNode, GraphEdge, GraphBuildOptions, Reference, FileType, ValueImpact, ValueKey, ValueSchemaInfo, KubernetesResource, ResourceRelation, SubchartInfo } from '../types';
+import { isDefaultValuesFile } from '../parser/helm-parser';
+import { describeSchema, resolveValueSchema } from '../parser/schema-parser';
+import { findResourceRelations } from '../analysis/resource-relations';
+import { renderManifests } from '../analysis/manifests';
+import { resolveFilesAccess } from '../analysis/files-access';
+import { arrangeValueGroups, buildValueTree } from './value-tree';
 
 interface LayoutConfig {
   nodeWidth: number;
@@ -16,22 +22,48 @@ const DEFAULT_LAYOUT: LayoutConfig = {
   groupPadding: 50,
 };
 
+// Columns: source files -> resources -> meta (chart/release) -> values -> helpers
+// Using large spacing (500px) between columns for better readability
+const LAYOUT_COLUMNS: { types: string[], x: number }[] = [
+  { types: ['file'], x: 0 },                    // Template files
+  { types: ['resource'], x: 450 },              // Kubernetes resources
+  { types: ['chart', 'release', 'capabilities'], x: 950 },  // Chart, Release, Capabilities and chart files
+  { types: ['value'], x: 1450 },                // Values
+  { types: ['helper'], x: 2050 },               // Helpers
+];
+const VALUE_COLUMN = 3;
+
+const SUBCHART_HEADER_HEIGHT = 48;
+const COLLAPSED_GROUP_SIZE = { width: 240, height: 64 };
+
 /**
  * Build React Flow graph data from a parsed Helm chart
  */
-export function buildGraphData(chart: HelmChart): GraphData {
+export function buildGraphData(chart: HelmChart, options: GraphBuildOptions = {}): GraphData {
+  const { nodes, edges } = buildChartGraph(chart, options);
+  return applyCollapsedGroups(nodes, edges);
+}
+
+/**
+ * Nodes and edges of a chart and its subcharts, laid out, with all groups
+ * still expanded
+ */
+function buildChartGraph(chart: HelmChart, options: GraphBuildOptions): GraphData {
   const nodes: GraphNode[] = [];
   const edges: GraphEdge[] = [];
   
-  // Column 1: Template files (left) - these are the sources
-  const templateFiles = chart.files.filter(f => 
-    f.type === 'template' || f.type === 'helper' || f.type === 'notes'
-  );
-  templateFiles.forEach((file) => {
-    nodes.push(createFileNode(file.path, file.name, file.type, 0, 0));
-  });
+  // Columns 1 and 2: Template files (left) - these are the sources - with the
+  // Kubernetes objects each one emits, and how the objects refer to each other
+  const templatePaths = chart.files
+    .filter(f => f.type === 'template' || f.type === 'helper' || f.type === 'notes')
+    .map(f => f.path);
+  const relations = findResourceRelations(chart, renderManifests(chart, options.manifestCache));
+  const templatesGraph = buildTemplatesGraph(chart, new Set(templatePaths), relations);
+  nodes.push(...templatesGraph.nodes);
+  edges.push(...templatesGraph.edges);
+  edges.push(...createRelationEdges(relations));
   
-  // Column 2: Chart.yaml and Release info (center-left)
+  // Column 3: Chart.yaml and Release info (center-left)
   const chartFile = chart.files.find(f => f.type === 'chart');
   if (chartFile) {
     nodes.push(createFileNode(chartFile.path, chartFile.name, 'chart', 0, 0));
@@ -41,37 +73,212 @@ export function buildGraphData(chart: HelmChart): GraphData {
   nodes.push(createReleaseNode(0, 0));
   
   // Column 3: Values.yaml file node
-  const valuesFile = chart.files.find(f => f.type === 'values');
+  const valuesFile = chart.files.find(f => isDefaultValuesFile(f.path));
   if (valuesFile) {
     nodes.push(createFileNode(valuesFile.path, valuesFile.name, 'values', 0, 0));
   }
   
-  // Create value nodes for referenced values only
-  const referencedValuePaths = getReferencedValuePaths(chart);
-  referencedValuePaths.forEach((path) => {
-    const label = path.includes('.') ? path.split('.').pop() || path : path;
-    nodes.push(createValueNode(path, label, 0, 0));
-  });
-  
-  // Column 4: Helper definitions (right)
+  // Column 5: Helper definitions (right)
   chart.helpers.forEach((helper) => {
     nodes.push(createHelperNode(helper.name, 0, 0));
   });
   
-  // Create edges for references
-  chart.references.forEach((ref) => {
-    const edge = createEdge(ref, chart);
-    if (edge) {
-      edges.push(edge);
-    }
+  // Column 3: Chart files read through .Files, and the capabilities templates test
+  const filesGraph = createFilesGraph(chart);
+  nodes.push(...filesGraph.nodes);
+  edges.push(...filesGraph.edges);
+  
+  const capabilitiesNode = createCapabilitiesNode(chart);
+  if (capabilitiesNode) {
+    nodes.push(capabilitiesNode);
+  }
+  
+  // Subcharts: one group per subchart, wired to the parent values that feed it
+  const valuePaths = getValueNodePaths(chart);
+  chart.subcharts.forEach((subchart) => {
+    const group = buildSubchartGroup(subchart, valuePaths, options);
+    nodes.push(...group.nodes);
+    edges.push(...group.edges);
   });
   
+  // Column 4: Value nodes, nested by path; groups come before their members
+  nodes.unshift(...buildValueNodes(chart, options));
+  
   // Apply smart layout
   const layoutedNodes = autoOrganizeLayout(nodes, edges);
   
   return { nodes: layoutedNodes, edges };
 }
 
+/**
+ * Nodes and edges that the given template, helper and NOTES files produce on
+ * their own: the file nodes, the resources they emit with the references
+ * among `relations` that found no target, and an edge per reference they make
+ * (`.Files` reads aside, see createFilesGraph)
+ */
+export function buildTemplatesGraph(chart: HelmChart, paths: Set<string>, relations: ResourceRelation[]): GraphData {
+  const nodes: GraphNode[] = [];
+  const edges: GraphEdge[] = [];
+  
+  chart.files
+    .filter(file => paths.has(file.path))
+    .forEach(file => nodes.push(createFileNode(file.path, file.name, file.type, 0, 0)));
+  
+  const dangling = getDanglingReferences(relations);
+  chart.resources
+    .filter(resource => paths.has(resource.file))
+    .forEach(resource => {
+      nodes.push(createResourceNode(resource, 0, 0, dangling.get(resource.id)));
+      edges.push(createResourceEdge(resource));
+    });
+  
+  chart.references
+    .filter(ref => paths.has(ref.source.file))
+    .forEach(ref => {
+      const edge = createEdge(ref, chart);
+      if (edge) {
+        edges.push(edge);
+      }
+    });
+  
+  return { nodes, edges };
+}
+
+/**
+ * What each resource refers to that the chart does not have, described for
+ * its node
+ */
+export function getDanglingReferences(relations: ResourceRelation[]): Map<string, string[]> {
+  const dangling = new Map<string, string[]>();
+  relations
+    .filter(relation => !relation.target)
+    .forEach(relation => {
+      dangling.set(relation.source, [...(dangling.get(relation.source) || []), describeDanglingRelation(relation)]);
+    });
+  return dangling;
+}
+
+/**
+ * Nodes for the values the chart's templates read and the values that toggle
+ * its subcharts, nested in value groups unless `groupValues` is off
+ */
+export function buildValueNodes(chart: HelmChart, options: GraphBuildOptions = {}): GraphNode[] {
+  const valueKeys = new Map(chart.values.flatKeys.map(key => [key.path, key]));
+  const nodes = getValueNodePaths(chart).map(path => {
+    const label = path.includes('.') ? path.split('.').pop() || path : path;
+    const valueKey = valueKeys.get(path);
+    return createValueNode(path, label, 0, 0, valueKey, valueKey?.schema ?? getValueSchema(chart, path));
+  });
+  return options.groupValues === false ? nodes : buildValueTree(nodes, chart.references);
+}
+
+/**
+ * Build a collapsible group node holding a subchart's own graph. Node IDs
+ * inside the group are scoped with "<subchart name>::" so they cannot clash
+ * with the parent chart's nodes.
+ */
+function buildSubchartGroup(
+  subchart: HelmChart,
+  parentValuePaths: string[],
+  options: GraphBuildOptions
+): GraphData {
+  const info = subchart.subchart!;
+  const groupId = `subchart:${info.name}`;
+  const scope = `${info.name}::`;
+  const inner = buildChartGraph(subchart, options);
+  
+  // Place the subchart's top-level nodes inside the group, below its header
+  const topLevel = inner.nodes.filter(node => !node.parentId);
+  const minX = Math.min(...topLevel.map(node => node.position.x));
+  const minY = Math.min(...topLevel.map(node => node.position.y));
+  const maxX = Math.max(...topLevel.map(node => node.position.x + (node.width ?? DEFAULT_LAYOUT.nodeWidth)));
+  const maxY = Math.max(...topLevel.map(node => node.position.y + (node.height ?? DEFAULT_LAYOUT.nodeHeight)));
+  const padding = DEFAULT_LAYOUT.groupPadding;
+  const width = maxX - minX + padding * 2;
+  const height = maxY - minY + padding * 2 + SUBCHART_HEADER_HEIGHT;
+  
+  const groupNode: GraphNode = {
+    id: groupId,
+    type: 'subchart',
+    position: { x: 0, y: 0 },
+    width,
+    height,
+    data: {
+      label: info.name,
+      chartName: subchart.name,
+      chartVersion: subchart.version,
+      chartPath: info.path,
+      condition: info.condition,
+      enabled: info.enabled,
+      collapsed: false,
+      expandedWidth: width,
+      expandedHeight: height,
+    },
+  };
+  
+  const nodes: GraphNode[] = [groupNode];
+  inner.nodes.forEach(node => {
+    const isTopLevel = !node.parentId;
+    nodes.push({
+      ...node,
+      id: `${scope}${node.id}`,
+      parentId: isTopLevel ? groupId : `${scope}${node.parentId}`,
+      extent: 'parent',
+      position: isTopLevel
+        ? { x: node.position.x - minX + padding, y: node.position.y - minY + padding + SUBCHART_HEADER_HEIGHT }
+        : node.position,
+    });
+  });
+  
+  const edges: GraphEdge[] = inner.edges.map(edge => ({
+    ...edge,
+    id: `${scope}${edge.id}`,
+    source: `${scope}${edge.source}`,
+    target: `${scope}${edge.target}`,
+    data: edge.data?.file ? { ...edge.data, file: `${info.path}/${edge.data.file}` } : edge.data,
+  }));
+  
+  // Parent .Values.<subchart>.x and .Values.global.x feed the subchart's .Values.x / .Values.global.x
+  const innerIds = new Set(inner.nodes.map(node => node.id));
+  parentValuePaths.forEach(parentPath => {
+    let subPath: string | null = null;
+    if (parentPath.startsWith(`${info.name}.`)) {
+      subPath = parentPath.slice(info.name.length + 1);
+    } else if (parentPath.startsWith('global.')) {
+      subPath = parentPath;
+    }
+    if (subPath === null || !innerIds.has(`value:${subPath}`)) return;
+    
+    edges.push(createSubchartEdge(`value:${parentPath}`, `${scope}value:${subPath}`, `.Values.${parentPath}`));
+  });
+  
+  // The condition value toggles the whole subchart
+  const conditionPath = getConditionPath(info);
+  if (conditionPath) {
+    edges.push(createSubchartEdge(`value:${conditionPath}`, groupId, `condition: ${info.condition}`));
+  }
+  
+  return { nodes, edges };
+}
+
+/**
+ * Create an edge that links a parent value into a subchart
+ */
+function createSubchartEdge(source: string, target: string, expression: string): GraphEdge {
+  return {
+    id: `${source}->${target}`,
+    source,
+    target,
+    label: expression,
+    type: 'smoothstep',
+    animated: false,
+    data: {
+      referenceType: 'subchart',
+      expression,
+    },
+  };
+}
+
 /**
  * Create a file node
  */
@@ -101,7 +308,9 @@ function createValueNode(
   path: string,
   label: string,
   x: number,
-  y: number
+  y: number,
+  valueKey?: ValueKey,
+  schema?: ValueSchemaInfo
 ): GraphNode {
   return {
     id: `value:${path}`,
@@ -110,6 +319,102 @@ function createValueNode(
     data: {
       label,
       valuePath: path,
+      valueType: valueKey?.type,
+      valueSource: valueKey?.source,
+      overridden: valueKey?.overridden,
+      schema,
+    },
+  };
+}
+
+/**
+ * Schema of a referenced value that has no default, e.g. "ingress.hosts[*].host"
+ */
+function getValueSchema(chart: HelmChart, path: string): ValueSchemaInfo | undefined {
+  const resolved = chart.schema ? resolveValueSchema(chart.schema, path) : null;
+  return resolved ? describeSchema(resolved) : undefined;
+}
+
+/**
+ * Create a node for a Kubernetes object emitted by a template
+ */
+function createResourceNode(
+  resource: KubernetesResource,
+  x: number,
+  y: number,
+  danglingReferences: string[] = []
+): GraphNode {
+  return {
+    id: `resource:${resource.id}`,
+    type: 'resource',
+    position: { x, y },
+    data: {
+      label: resource.name ?? resource.kind,
+      filePath: resource.file,
+      kind: resource.kind,
+      apiVersion: resource.apiVersion,
+      resourceName: resource.name,
+      namespace: resource.namespace,
+      danglingReferences,
+    },
+  };
+}
+
+function describeDanglingRelation(relation: ResourceRelation): string {
+  return relation.kind === 'selects'
+    ? `${relation.field} matches no workload (${relation.targetName})`
+    : `${relation.field}: no ${relation.targetKind} "${relation.targetName}" in the chart`;
+}
+
+/**
+ * One edge per related pair of resources and kind of relation
+ */
+export function createRelationEdges(relations: ResourceRelation[]): GraphEdge[] {
+  const edges = new Map<string, GraphEdge>();
+
+  relations.forEach(relation => {
+    if (!relation.target) return;
+    const source = `resource:${relation.source}`;
+    const target = `resource:${relation.target}`;
+    const id = `${source}=>${target}:${relation.kind}`;
+    if (edges.has(id)) return;
+
+    edges.set(id, {
+      id,
+      source,
+      target,
+      label: relation.kind,
+      type: 'smoothstep',
+      animated: false,
+      data: {
+        referenceType: 'relation',
+        expression: `${relation.field}: ${relation.targetName}`,
+        relation: relation.kind,
+        inferredFrom: relation.inferredFrom,
+      },
+    });
+  });
+
+  return Array.from(edges.values());
+}
+
+/**
+ * Link a template file to a resource it emits
+ */
+function createResourceEdge(resource: KubernetesResource): GraphEdge {
+  const source = `file:${resource.file}`;
+  const target = `resource:${resource.id}`;
+  return {
+    id: `${source}->${target}`,
+    source,
+    target,
+    type: 'smoothstep',
+    animated: false,
+    data: {
+      referenceType: 'resource',
+      expression: resource.kind,
+      file: resource.file,
+      line: resource.startLine,
     },
   };
 }
@@ -147,11 +452,105 @@ function createReleaseNode(x: number, y: number): GraphNode {
   };
 }
 
+/**
+ * Create the node for the `.Capabilities` the chart tests, listing each
+ * distinct check with the files that make it; null when it tests none
+ */
+export function createCapabilitiesNode(chart: HelmChart): GraphNode | null {
+  const refs = chart.references.filter(ref => ref.type === 'capabilities');
+  if (refs.length === 0) return null;
+  
+  const checks = new Map<string, Set<string>>();
+  refs.forEach(ref => {
+    const check = ref.expression.replace(/^\$?\.Capabilities\./, '');
+    checks.set(check, (checks.get(check) || new Set()).add(ref.source.file));
+  });
+  
+  return {
+    id: 'capabilities:info',
+    type: 'capabilities',
+    position: { x: 0, y: 0 },
+    data: {
+      label: '.Capabilities',
+      checks: Array.from(checks, ([check, files]) => ({ check, files: Array.from(files).sort() })),
+    },
+  };
+}
+
+/**
+ * Nodes for the chart files templates read through `.Files`, linked from
+ * the template, helper or resource reading them. A path or glob matching no
+ * loaded file gets a missing-file node instead.
+ */
+export function createFilesGraph(chart: HelmChart): GraphData {
+  const nodes = new Map<string, GraphNode>();
+  const edges: GraphEdge[] = [];
+  
+  resolveFilesAccess(chart).forEach(access => {
+    const ref = access.reference;
+    const targetIds = access.matches.map(path => {
+      const id = `file:${path}`;
+      if (!nodes.has(id)) nodes.set(id, createFileNode(path, path.split('/').pop() || path, 'other', 0, 0));
+      return id;
+    });
+    
+    if (access.pattern !== undefined && access.matches.length === 0) {
+      const id = `files:${access.pattern}`;
+      if (!nodes.has(id)) {
+        nodes.set(id, {
+          id,
+          type: 'file',
+          position: { x: 0, y: 0 },
+          data: {
+            label: access.pattern.split('/').pop() || access.pattern,
+            fileType: 'other',
+            filePath: access.pattern,
+            missing: access.method === 'Glob'
+              ? `.Files.Glob "${access.pattern}" matches no chart files`
+              : `${access.pattern} is not in the chart`,
+          },
+        });
+      }
+      targetIds.push(id);
+    }
+    
+    targetIds.forEach(targetId => {
+      edges.push({
+        id: `${ref.id}->${targetId}`,
+        source: getReferenceSourceId(ref),
+        target: targetId,
+        label: ref.expression,
+        type: 'smoothstep',
+        animated: false,
+        data: {
+          referenceType: 'files',
+          expression: ref.expression,
+          file: ref.source.file,
+          line: ref.line,
+        },
+      });
+    });
+  });
+  
+  return { nodes: Array.from(nodes.values()), edges };
+}
+
+/**
+ * Node a reference is drawn from: references inside a define belong to that
+ * helper, and references in a manifest to the resource it describes, rather
+ * than to the file
+ */
+function getReferenceSourceId(ref: Reference): string {
+  if (ref.source.helper) return `helper:${ref.source.helper}`;
+  if (ref.source.resource) return `resource:${ref.source.resource}`;
+  return `file:${ref.source.file}`;
+}
+
 /**
  * Create an edge from a reference
  */
 function createEdge(ref: Reference, chart: HelmChart): GraphEdge | null {
-  const sourceId = `file:${ref.source.file}`;
+  const sourceId = getReferenceSourceId(ref);
   let targetId: string;
   
   switch (ref.type) {
@@ -174,6 +573,11 @@ function createEdge(ref: Reference, chart: HelmChart): GraphEdge | null {
       targetId = 'release:info';
       break;
     
+    case 'capabilities':
+      targetId = 'capabilities:info';
+      break;
+    
+    // .Files references can read several files; see createFilesGraph
     default:
       return null;
   }
@@ -190,14 +594,17 @@ function createEdge(ref: Reference, chart: HelmChart): GraphEdge | null {
     data: {
       referenceType: ref.type,
       expression: ref.expression,
+      file: ref.source.file,
+      line: ref.line,
     },
   };
 }
 
 /**
- * Get unique value paths that are referenced
+ * Paths that get a value node: the values templates read, then the values
+ * that toggle subcharts
  */
-function getReferencedValuePaths(chart: HelmChart): string[] {
+function getValueNodePaths(chart: HelmChart): string[] {
   const paths = new Set<string>();
   
   chart.references
@@ -206,62 +613,54 @@ function getReferencedValuePaths(chart: HelmChart): string[] {
       paths.add(ref.target.path);
     });
   
+  chart.subcharts.forEach(subchart => {
+    const conditionPath = getConditionPath(subchart.subchart!);
+    if (conditionPath) paths.add(conditionPath);
+  });
+  
   return Array.from(paths);
 }
 
+/**
+ * The value a subchart's condition reads first, e.g. "postgresql.enabled"
+ */
+function getConditionPath(info: SubchartInfo): string | null {
+  return info.condition?.split(',')[0].trim() || null;
+}
+
 /**
  * Auto-organize layout with smart positioning
  * Groups nodes by type, minimizes edge crossings, and creates a clean hierarchical layout
  */
 export function autoOrganizeLayout(nodes: GraphNode[], edges: GraphEdge[]): GraphNode[] {
-  // Build adjacency information
+  // Subchart groups keep their internal layout; only top-level nodes go into columns
+  const columnCandidates = nodes.filter(node => !node.parentId && node.type !== 'subchart');
+  const candidateIds = new Set(columnCandidates.map(node => node.id));
+  const topLevelIds = getTopLevelIds(nodes);
+  
+  // Build adjacency information; edges into value groups count for the group
   const outgoingEdges = new Map<string, string[]>();
   const incomingEdges = new Map<string, string[]>();
   
   edges.forEach(edge => {
-    const sources = outgoingEdges.get(edge.source) || [];
-    sources.push(edge.target);
-    outgoingEdges.set(edge.source, sources);
+    const source = topLevelIds.get(edge.source);
+    const target = topLevelIds.get(edge.target);
+    if (!source || !target || source === target || !candidateIds.has(source) || !candidateIds.has(target)) return;
     
-    const targets = incomingEdges.get(edge.target) || [];
-    targets.push(edge.source);
-    incomingEdges.set(edge.target, targets);
+    const sources = outgoingEdges.get(source) || [];
+    sources.push(target);
+    outgoingEdges.set(source, sources);
+    
+    const targets = incomingEdges.get(target) || [];
+    targets.push(source);
+    incomingEdges.set(target, targets);
   });
   
-  // Define columns: source files -> meta (chart/release) -> values -> helpers
-  // Using large spacing (500px) between columns for better readability
-  const columns: { types: string[], x: number }[] = [
-    { types: ['file'], x: 0 },                    // Template files
-    { types: ['chart', 'release'], x: 500 },      // Chart & Release
-    { types: ['value'], x: 1000 },                // Values
-    { types: ['helper'], x: 1600 },               // Helpers
-  ];
-  
   // Group nodes into columns
+  const columns = LAYOUT_COLUMNS;
   const columnNodes: GraphNode[][] = columns.map(() => []);
-  const nodeToColumn = new Map<string, number>();
-  
-  nodes.forEach(node => {
-    // Determine which column this node belongs to
-    let columnIndex = 0;
-    
-    if (node.type === 'file') {
-      const fileType = node.data.fileType as FileType;
-      if (fileType === 'chart' || fileType === 'values') {
-        columnIndex = 1; // Meta column for Chart.yaml and values.yaml file nodes
-      } else {
-        columnIndex = 0; // Template files
-      }
-    } else if (node.type === 'chart' || node.type === 'release') {
-      columnIndex = 1;
-    } else if (node.type === 'value') {
-      columnIndex = 2;
-    } else if (node.type === 'helper') {
-      columnIndex = 3;
-    }
-    
-    columnNodes[columnIndex].push(node);
-    nodeToColumn.set(node.id, columnIndex);
+  columnCandidates.forEach(node => {
+    columnNodes[getLayoutColumn(node)].push(node);
   });
   
   // Sort nodes within each column to minimize edge crossings
@@ -301,7 +700,7 @@ export function autoOrganizeLayout(nodes: GraphNode[], edges: GraphEdge[]): Grap
   }
   
   // Group values by their top-level key for better organization
-  const valueNodes = columnNodes[2];
+  const valueNodes = columnNodes[VALUE_COLUMN];
   if (valueNodes.length > 0) {
     const valueGroups = groupValueNodesByPrefix(valueNodes);
     let currentY = 0;
@@ -317,22 +716,29 @@ export function autoOrganizeLayout(nodes: GraphNode[], edges: GraphEdge[]): Grap
         return aPath.localeCompare(bPath);
       });
       
-      group.forEach((node, idx) => {
+      group.forEach((node) => {
         const pos = nodePositions.get(node.id)!;
-        const indent = (node.data.valuePath?.split('.').length || 1) > 1 ? 30 : 0;
+        const indent = node.type === 'value' && (node.data.valuePath?.split('.').length || 1) > 1 ? 30 : 0;
         nodePositions.set(node.id, { 
           x: pos.x + indent, 
-          y: currentY + idx * (DEFAULT_LAYOUT.verticalSpacing * 0.7)
+          y: currentY
         });
+        // Value groups take their full height
+        currentY += node.type === 'valueGroup'
+          ? (node.height ?? 0) + DEFAULT_LAYOUT.verticalSpacing * 0.3
+          : DEFAULT_LAYOUT.verticalSpacing * 0.7;
       });
       
-      currentY += group.length * (DEFAULT_LAYOUT.verticalSpacing * 0.7) + DEFAULT_LAYOUT.groupPadding;
+      currentY += DEFAULT_LAYOUT.groupPadding;
     });
   }
   
   // Center all columns vertically
   centerColumnsVertically(columnNodes, nodePositions);
   
+  // Stack subchart groups underneath the columns
+  stackSubchartGroups(nodes, nodePositions);
+  
   // Apply positions to nodes
   return nodes.map(node => ({
     ...node,
@@ -340,6 +746,89 @@ export function autoOrganizeLayout(nodes: GraphNode[], edges: GraphEdge[]): Grap
   }));
 }
 
+/**
+ * Position nodes added to a graph that is already laid out: top-level nodes
+ * go to the bottom of the column autoOrganizeLayout puts them in, and
+ * everything else stays where it is. Nodes inside groups keep their position.
+ */
+export function placeNewNodes(added: GraphNode[], nodes: GraphNode[]): GraphNode[] {
+  const bottoms = new Map<number, number>();
+  const extend = (node: GraphNode, column: number) => {
+    const bottom = node.position.y + (node.height ?? DEFAULT_LAYOUT.nodeHeight);
+    bottoms.set(column, Math.max(bottoms.get(column) ?? bottom, bottom));
+  };
+  nodes
+    .filter(node => !node.parentId && node.type !== 'subchart')
+    .forEach(node => extend(node, getLayoutColumn(node)));
+  
+  return added.map(node => {
+    if (node.parentId || node.type === 'subchart') return node;
+    const column = getLayoutColumn(node);
+    const bottom = bottoms.get(column);
+    const placed = {
+      ...node,
+      position: { x: LAYOUT_COLUMNS[column].x, y: bottom === undefined ? 0 : bottom + DEFAULT_LAYOUT.verticalSpacing * 0.4 },
+    };
+    extend(placed, column);
+    return placed;
+  });
+}
+
+/**
+ * Column of a top-level node in the layout
+ */
+function getLayoutColumn(node: GraphNode): number {
+  if (node.type === 'file') {
+    const fileType = node.data.fileType as FileType;
+    if (fileType === 'chart' || fileType === 'values' || fileType === 'other') {
+      return 2; // Meta column for Chart.yaml, values.yaml and files read through .Files
+    }
+    return 0; // Template files
+  }
+  if (node.type === 'resource') return 1;
+  if (node.type === 'chart' || node.type === 'release' || node.type === 'capabilities') return 2;
+  if (node.type === 'value' || node.type === 'valueGroup') return VALUE_COLUMN;
+  if (node.type === 'helper') return 4;
+  return 0;
+}
+
+/**
+ * Place top-level subchart groups one below another, under the main graph
+ */
+export function stackSubchartGroups(
+  nodes: GraphNode[],
+  nodePositions: Map<string, { x: number, y: number }>
+): void {
+  const groups = nodes.filter(node => node.type === 'subchart' && !node.parentId);
+  if (groups.length === 0) return;
+  
+  // Below the bottom of the tallest column, counting the height of value groups
+  const heights = new Map(nodes.map(node => [node.id, node.height ?? DEFAULT_LAYOUT.nodeHeight]));
+  const bottoms = Array.from(nodePositions, ([id, pos]) => pos.y + (heights.get(id) ?? DEFAULT_LAYOUT.nodeHeight));
+  let currentY = bottoms.length > 0
+    ? Math.max(...bottoms) + DEFAULT_LAYOUT.verticalSpacing * 2
+    : 0;
+  
+  groups.forEach(group => {
+    nodePositions.set(group.id, { x: 0, y: currentY });
+    currentY += (group.height ?? COLLAPSED_GROUP_SIZE.height) + DEFAULT_LAYOUT.verticalSpacing;
+  });
+}
+
+/**
+ * The top-level node holding each node: itself, or its outermost group
+ */
+export function getTopLevelIds(nodes: GraphNode[]): Map<string, string> {
+  const parents = new Map(nodes.map(node => [node.id, node.parentId]));
+  const topLevel = new Map<string, string>();
+  nodes.forEach(node => {
+    let id = node.id;
+    for (let parentId = parents.get(id); parentId; parentId = parents.get(parentId)) id = parentId;
+    topLevel.set(node.id, id);
+  });
+  return topLevel;
+}
+
 /**
  * Optimize the order of nodes in a column using barycenter method
  */
@@ -454,6 +943,75 @@ function centerColumnsVertically(
   });
 }
 
+/**
+ * Hide the contents of collapsed group nodes and re-route edges that touch
+ * hidden nodes to the outermost collapsed group containing them. Re-routed
+ * edges between the same two nodes are drawn once, labelled with their count.
+ */
+export function applyCollapsedGroups(nodes: GraphNode[], edges: GraphEdge[]): GraphData {
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+  
+  const getCollapsedAncestor = (nodeId: string): string | null => {
+    let collapsed: string | null = null;
+    let current = nodesById.get(nodeId)?.parentId;
+    while (current) {
+      const parent = nodesById.get(current);
+      if (parent?.data.collapsed) collapsed = current;
+      current = parent?.parentId;
+    }
+    return collapsed;
+  };
+  
+  const updatedNodes = nodes.map(node => {
+    const updated: GraphNode = { ...node, hidden: getCollapsedAncestor(node.id) !== null };
+    if (node.type === 'subchart') {
+      updated.width = node.data.collapsed ? COLLAPSED_GROUP_SIZE.width : node.data.expandedWidth as number;
+      updated.height = node.data.collapsed ? COLLAPSED_GROUP_SIZE.height : node.data.expandedHeight as number;
+    }
+    return updated;
+  });
+  
+  const rerouted = edges.map(edge => {
+    const originalSource = edge.data?.originalSource ?? edge.source;
+    const originalTarget = edge.data?.originalTarget ?? edge.target;
+    return {
+      edge,
+      originalSource,
+      originalTarget,
+      source: getCollapsedAncestor(originalSource) ?? originalSource,
+      target: getCollapsedAncestor(originalTarget) ?? originalTarget,
+    };
+  });
+  
+  const bundleCounts = new Map<string, number>();
+  rerouted.forEach(({ edge, originalSource, originalTarget, source, target }) => {
+    if (source === originalSource && target === originalTarget) return;
+    const key = `${source}->${target}:${edge.data?.referenceType ?? ''}`;
+    bundleCounts.set(key, (bundleCounts.get(key) || 0) + 1);
+  });
+  
+  const drawnBundles = new Set<string>();
+  const updatedEdges = rerouted.map(({ edge, originalSource, originalTarget, source, target }) => {
+    const originalLabel = edge.data?.originalLabel ?? edge.label;
+    const key = `${source}->${target}:${edge.data?.referenceType ?? ''}`;
+    const count = bundleCounts.get(key) ?? 1;
+    const duplicate = count > 1 && drawnBundles.has(key);
+    if (count > 1) drawnBundles.add(key);
+    
+    return {
+      ...edge,
+      source,
+      target,
+      label: count > 1 ? `${count} references` : originalLabel,
+      // Edges that now start and end inside the same collapsed group disappear
+      hidden: source === target || duplicate,
+      data: edge.data && { ...edge.data, originalSource, originalTarget, originalLabel },
+    };
+  });
+  
+  return { nodes: arrangeValueGroups(updatedNodes), edges: updatedEdges };
+}
+
 /**
  * Legacy function for compatibility - now just calls autoOrganizeLayout
  */
@@ -490,6 +1048,36 @@ export function filterGraphByFile(
   };
 }
 
+/**
+ * Get the node and edge IDs that make up a value's impact chain
+ */
+export function getImpactElementIds(
+  edges: { id: string; source: string; target: string; data?: Record<string, unknown> }[],
+  impact: ValueImpact
+): { nodeIds: Set<string>; edgeIds: Set<string> } {
+  const nodeIds = new Set<string>([`value:${impact.valuePath}`]);
+  impact.references.forEach(ref => nodeIds.add(`value:${ref.target.path}`));
+  impact.helpers.forEach(helper => nodeIds.add(`helper:${helper}`));
+  impact.files.forEach(file => nodeIds.add(`file:${file}`));
+  impact.resources.forEach(resource => nodeIds.add(`resource:${resource}`));
+  
+  // Edges re-routed to a collapsed group light up the group too
+  const edgeIds = new Set<string>();
+  const groupIds = new Set<string>();
+  edges.forEach(edge => {
+    const source = (edge.data?.originalSource as string | undefined) ?? edge.source;
+    const target = (edge.data?.originalTarget as string | undefined) ?? edge.target;
+    if (nodeIds.has(source) && nodeIds.has(target)) {
+      edgeIds.add(edge.id);
+      groupIds.add(edge.source);
+      groupIds.add(edge.target);
+    }
+  });
+  groupIds.forEach(id => nodeIds.add(id));
+  
+  return { nodeIds, edgeIds };
+}
+
 /**
  * Get statistics about the graph
  */
@@ -0,0 +1,424 @@
+import { GraphData, GraphNode } from '../types';
+import { getEdgeStyle, getNodeFillColor } from './graph-styles';
+
+export interface ExportRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Size assumed for nodes React Flow has not measured
+const DEFAULT_NODE_SIZE = { width: 200, height: 60 };
+
+// Margin around the whole canvas in image exports
+const CANVAS_PADDING = 40;
+
+// Approximate width of a character of the 12px label font
+const CHAR_WIDTH = 7;
+
+// Edges drawn dashed in every format
+const DASHED_EDGE_TYPES = new Set(['subchart', 'resource', 'relation', 'files']);
+
+const BACKGROUND_COLOR = '#0d1117';
+const TEXT_COLOR = '#c9d1d9';
+
+/**
+ * Drop hidden nodes (e.g. inside collapsed groups) and edges touching them,
+ * so exports show what the canvas shows
+ */
+export function getVisibleGraph(graph: GraphData): GraphData {
+  const nodes = graph.nodes.filter(node => !node.hidden);
+  const visibleIds = new Set(nodes.map(node => node.id));
+  const edges = graph.edges.filter(edge =>
+    !edge.hidden && visibleIds.has(edge.source) && visibleIds.has(edge.target)
+  );
+  return { nodes, edges };
+}
+
+/**
+ * Graphviz DOT, with subcharts and value groups as clusters. While a selection is highlighted,
+ * everything outside it is drawn faded.
+ */
+export function exportToDot(graph: GraphData, name: string): string {
+  const { nodes, edges } = getVisibleGraph(graph);
+  const highlighting = isHighlighting(nodes);
+  const lines = [
+    `digraph ${quoteDot(name)} {`,
+    '  rankdir=LR;',
+    `  bgcolor="${BACKGROUND_COLOR}";`,
+    `  node [shape=box, style="rounded,filled", fontname="Helvetica", fontcolor="${TEXT_COLOR}"];`,
+    '  edge [arrowsize=0.7];',
+  ];
+
+  const writeNode = (node: GraphNode, indent: string) => {
+    const color = getNodeFillColor(node.type, node.data.fileType);
+    const faded = highlighting && !node.data.isHighlighted;
+    const attributes = [
+      `label=${quoteDot(getNodeLabel(node))}`,
+      `color="${color}"`,
+      `fillcolor="${color}${faded ? '14' : '33'}"`,
+      node.data.isHighlighted ? 'penwidth=3' : '',
+      faded ? `fontcolor="${TEXT_COLOR}66"` : '',
+    ].filter(Boolean);
+    lines.push(`${indent}${quoteDot(node.id)} [${attributes.join(', ')}];`);
+  };
+
+  const writeChildren = (parentId: string | undefined, indent: string) => {
+    nodes
+      .filter(node => node.parentId === parentId)
+      .forEach(node => {
+        if (!isExpandedGroup(node)) {
+          writeNode(node, indent);
+          return;
+        }
+        lines.push(`${indent}subgraph ${quoteDot(`cluster_${node.id}`)} {`);
+        lines.push(`${indent}  label=${quoteDot(getNodeLabel(node))};`);
+        lines.push(`${indent}  style=dashed; color="${getNodeFillColor(node.type)}"; fontcolor="${TEXT_COLOR}";`);
+        writeChildren(node.id, `${indent}  `);
+        lines.push(`${indent}}`);
+      });
+  };
+  writeChildren(undefined, '  ');
+
+  edges.forEach(edge => {
+    const referenceType = edge.data?.referenceType ?? '';
+    const faded = highlighting && !edge.animated;
+    const attributes = [
+      `color="${getEdgeStyle(referenceType).stroke}${faded ? '33' : ''}"`,
+      DASHED_EDGE_TYPES.has(referenceType) ? 'style=dashed' : '',
+      highlighting && edge.animated ? 'penwidth=2' : '',
+      edge.label ? `label=${quoteDot(edge.label)}` : '',
+    ].filter(Boolean);
+    lines.push(`  ${quoteDot(edge.source)} -> ${quoteDot(edge.target)} [${attributes.join(', ')}];`);
+  });
+
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Mermaid flowchart, with subcharts and value groups as subgraphs and a class per node type
+ */
+export function exportToMermaid(graph: GraphData): string {
+  const { nodes, edges } = getVisibleGraph(graph);
+  const highlighting = isHighlighting(nodes);
+  const ids = new Map(nodes.map((node, i) => [node.id, `n${i}`]));
+  const lines = ['flowchart LR'];
+  const classes = new Map<string, string>();
+
+  const writeChildren = (parentId: string | undefined, indent: string) => {
+    nodes
+      .filter(node => node.parentId === parentId)
+      .forEach(node => {
+        const id = ids.get(node.id)!;
+        const label = quoteMermaid(getNodeLabel(node));
+        if (isExpandedGroup(node)) {
+          lines.push(`${indent}subgraph ${id}[${label}]`);
+          writeChildren(node.id, `${indent}  `);
+          lines.push(`${indent}end`);
+          return;
+        }
+
+        lines.push(`${indent}${id}${wrapMermaidShape(node.type, label)}`);
+        const className = node.type === 'file' && node.data.fileType ? `file_${node.data.fileType}` : node.type;
+        classes.set(className, getNodeFillColor(node.type, node.data.fileType));
+        lines.push(`${indent}class ${id} ${className}`);
+        if (highlighting) lines.push(`${indent}class ${id} ${node.data.isHighlighted ? 'highlighted' : 'faded'}`);
+      });
+  };
+  writeChildren(undefined, '  ');
+
+  edges.forEach((edge, i) => {
+    const referenceType = edge.data?.referenceType ?? '';
+    const arrow = DASHED_EDGE_TYPES.has(referenceType) ? '-.->' : '-->';
+    lines.push(`  ${ids.get(edge.source)} ${arrow} ${ids.get(edge.target)}`);
+    const opacity = highlighting && !edge.animated ? ',opacity:0.2' : '';
+    lines.push(`  linkStyle ${i} stroke:${getEdgeStyle(referenceType).stroke}${opacity}`);
+  });
+
+  classes.forEach((color, className) => {
+    lines.push(`  classDef ${className} fill:${color}33,stroke:${color},color:${TEXT_COLOR}`);
+  });
+  if (highlighting) {
+    lines.push(`  classDef highlighted stroke-width:3px`);
+    lines.push(`  classDef faded opacity:0.35`);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * GraphML for yEd, Gephi and friends; groups become nested graphs
+ */
+export function exportToGraphML(graph: GraphData): string {
+  const { nodes, edges } = getVisibleGraph(graph);
+  const layout = getAbsoluteLayout(nodes);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="type" for="node" attr.name="type" attr.type="string"/>',
+    '  <key id="x" for="node" attr.name="x" attr.type="double"/>',
+    '  <key id="y" for="node" attr.name="y" attr.type="double"/>',
+    '  <key id="color" for="node" attr.name="color" attr.type="string"/>',
+    '  <key id="highlighted" for="all" attr.name="highlighted" attr.type="boolean"/>',
+    '  <key id="referenceType" for="edge" attr.name="referenceType" attr.type="string"/>',
+    '  <key id="expression" for="edge" attr.name="expression" attr.type="string"/>',
+    '  <graph id="G" edgedefault="directed">',
+  ];
+
+  const writeChildren = (parentId: string | undefined, indent: string) => {
+    nodes
+      .filter(node => node.parentId === parentId)
+      .forEach(node => {
+        const rect = layout.get(node.id)!;
+        lines.push(`${indent}<node id="${escapeXml(node.id)}">`);
+        lines.push(`${indent}  <data key="label">${escapeXml(getNodeLabel(node))}</data>`);
+        lines.push(`${indent}  <data key="type">${node.type}</data>`);
+        lines.push(`${indent}  <data key="x">${rect.x}</data>`);
+        lines.push(`${indent}  <data key="y">${rect.y}</data>`);
+        lines.push(`${indent}  <data key="color">${getNodeFillColor(node.type, node.data.fileType)}</data>`);
+        if (node.data.isHighlighted) lines.push(`${indent}  <data key="highlighted">true</data>`);
+        if (nodes.some(child => child.parentId === node.id)) {
+          lines.push(`${indent}  <graph id="${escapeXml(node.id)}:" edgedefault="directed">`);
+          writeChildren(node.id, `${indent}    `);
+          lines.push(`${indent}  </graph>`);
+        }
+        lines.push(`${indent}</node>`);
+      });
+  };
+  writeChildren(undefined, '    ');
+
+  edges.forEach(edge => {
+    lines.push(`    <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`);
+    if (edge.data) {
+      lines.push(`      <data key="referenceType">${escapeXml(edge.data.referenceType)}</data>`);
+      lines.push(`      <data key="expression">${escapeXml(edge.data.expression)}</data>`);
+    }
+    if (edge.animated) lines.push('      <data key="highlighted">true</data>');
+    lines.push('    </edge>');
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * The visible nodes and edges as JSON
+ */
+export function exportToJson(graph: GraphData): string {
+  return `${JSON.stringify(getVisibleGraph(graph), null, 2)}\n`;
+}
+
+/**
+ * Bounding box of the visible nodes, with a margin
+ */
+export function getGraphBounds(graph: GraphData): ExportRect {
+  const rects = Array.from(getAbsoluteLayout(getVisibleGraph(graph).nodes).values());
+  if (rects.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+
+  const minX = Math.min(...rects.map(rect => rect.x)) - CANVAS_PADDING;
+  const minY = Math.min(...rects.map(rect => rect.y)) - CANVAS_PADDING;
+  const maxX = Math.max(...rects.map(rect => rect.x + rect.width)) + CANVAS_PADDING;
+  const maxY = Math.max(...rects.map(rect => rect.y + rect.height)) + CANVAS_PADDING;
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Standalone SVG of the graph as laid out on the canvas, clipped to the
+ * given area of the canvas (the whole graph by default)
+ */
+export function exportToSvg(graph: GraphData, bounds: ExportRect = getGraphBounds(graph)): string {
+  const { nodes, edges } = getVisibleGraph(graph);
+  const layout = getAbsoluteLayout(nodes);
+  const highlighting = isHighlighting(nodes);
+  const width = Math.round(bounds.width);
+  const height = Math.round(bounds.height);
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}" font-family="Helvetica, Arial, sans-serif">`,
+    `<rect x="${bounds.x}" y="${bounds.y}" width="${bounds.width}" height="${bounds.height}" fill="${BACKGROUND_COLOR}"/>`,
+  ];
+
+  // Groups first so their members and edges draw on top; collapsed value groups are drawn as nodes
+  const isFrame = (node: GraphNode) => node.type === 'subchart' || isExpandedGroup(node);
+  nodes
+    .filter(isFrame)
+    .forEach(node => {
+      const rect = layout.get(node.id)!;
+      const color = getNodeFillColor(node.type);
+      parts.push(
+        `<rect x="${rect.x}" y="${rect.y}" width="${rect.width}" height="${rect.height}" rx="12" ` +
+        `fill="${color}" fill-opacity="0.05" stroke="${color}" stroke-dasharray="6 4"/>`,
+        `<text x="${rect.x + 12}" y="${rect.y + 22}" font-size="13" font-weight="bold" fill="${TEXT_COLOR}">${escapeXml(getNodeLabel(node))}</text>`
+      );
+    });
+
+  edges.forEach(edge => {
+    const source = layout.get(edge.source)!;
+    const target = layout.get(edge.target)!;
+    const style = getEdgeStyle(edge.data?.referenceType ?? '');
+    const sx = source.x + source.width;
+    const sy = source.y + source.height / 2;
+    const tx = target.x;
+    const ty = target.y + target.height / 2;
+    const bend = Math.max(40, Math.abs(tx - sx) / 2);
+    const opacity = highlighting && !edge.animated ? ' opacity="0.2"' : '';
+    const dash = style.strokeDasharray ? ` stroke-dasharray="${style.strokeDasharray}"` : '';
+    parts.push(
+      `<path d="M ${sx} ${sy} C ${sx + bend} ${sy}, ${tx - bend} ${ty}, ${tx} ${ty}" fill="none" ` +
+      `stroke="${style.stroke}" stroke-width="${style.strokeWidth}"${dash}${opacity}/>`
+    );
+  });
+
+  nodes
+    .filter(node => !isFrame(node))
+    .forEach(node => {
+      const rect = layout.get(node.id)!;
+      const color = getNodeFillColor(node.type, node.data.fileType);
+      const opacity = highlighting && !node.data.isHighlighted ? ' opacity="0.35"' : '';
+      const maxChars = Math.max(4, Math.floor((rect.width - 24) / CHAR_WIDTH));
+      const subtitle = getNodeSubtitle(node);
+      const labelY = rect.y + rect.height / 2 + (subtitle ? -2 : 4);
+
+      parts.push(
+        `<g${opacity}>`,
+        `<rect x="${rect.x}" y="${rect.y}" width="${rect.width}" height="${rect.height}" rx="8" ` +
+        `fill="${color}" fill-opacity="0.2" stroke="${color}" stroke-width="${node.data.isHighlighted ? 3 : 2}"/>`,
+        `<text x="${rect.x + 12}" y="${labelY}" font-size="12" fill="${TEXT_COLOR}">${escapeXml(truncate(getNodeLabel(node), maxChars))}</text>`,
+        subtitle
+          ? `<text x="${rect.x + 12}" y="${labelY + 15}" font-size="10" fill="${TEXT_COLOR}" fill-opacity="0.5">${escapeXml(truncate(subtitle, maxChars + 2))}</text>`
+          : '',
+        '</g>'
+      );
+    });
+
+  parts.push('</svg>');
+  return `${parts.filter(Boolean).join('\n')}\n`;
+}
+
+/**
+ * Rasterize an SVG export to a PNG, at `scale` pixels per SVG unit
+ */
+export function rasterizeSvg(svg: string, width: number, height: number, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    };
+    image.onerror = () => reject(new Error('Could not load the SVG'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+}
+
+/**
+ * Canvas positions of nodes, resolving positions relative to their group
+ */
+function getAbsoluteLayout(nodes: GraphNode[]): Map<string, ExportRect> {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const layout = new Map<string, ExportRect>();
+
+  const place = (node: GraphNode): ExportRect => {
+    const existing = layout.get(node.id);
+    if (existing) return existing;
+    const parent = node.parentId ? byId.get(node.parentId) : undefined;
+    const origin = parent ? place(parent) : { x: 0, y: 0 };
+    const rect = {
+      x: origin.x + node.position.x,
+      y: origin.y + node.position.y,
+      width: node.width ?? DEFAULT_NODE_SIZE.width,
+      height: node.height ?? DEFAULT_NODE_SIZE.height,
+    };
+    layout.set(node.id, rect);
+    return rect;
+  };
+  nodes.forEach(place);
+
+  return layout;
+}
+
+function isHighlighting(nodes: GraphNode[]): boolean {
+  return nodes.some(node => node.data.isHighlighted);
+}
+
+/**
+ * One-line description of a node for text formats
+ */
+function getNodeLabel(node: GraphNode): string {
+  switch (node.type) {
+    case 'value':
+    case 'valueGroup':
+      return `.Values.${node.data.valuePath ?? node.data.label}`;
+    case 'resource': {
+      const kind = String(node.data.kind ?? '');
+      return kind && kind !== node.data.label ? `${kind} ${node.data.label}` : node.data.label;
+    }
+    default:
+      return node.data.label;
+  }
+}
+
+function getNodeSubtitle(node: GraphNode): string | undefined {
+  if (node.type === 'file' && node.data.filePath !== node.data.label) return node.data.filePath;
+  if (node.type === 'helper') return 'define';
+  if (node.type === 'valueGroup') return `${node.data.valueCount} values · ${node.data.referenceCount} refs`;
+  return undefined;
+}
+
+/**
+ * Group nodes showing their members, drawn as clusters around them
+ */
+function isExpandedGroup(node: GraphNode): boolean {
+  return (node.type === 'subchart' || node.type === 'valueGroup') && !node.data.collapsed;
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text;
+}
+
+function quoteDot(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+function quoteMermaid(text: string): string {
+  return `"${text.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;')}"`;
+}
+
+/**
+ * Mermaid node shape for a node type
+ */
+function wrapMermaidShape(type: string, label: string): string {
+  switch (type) {
+    case 'value':
+      return `([${label}])`;
+    case 'helper':
+      return `[[${label}]]`;
+    case 'chart':
+      return `{{${label}}}`;
+    case 'release':
+    case 'capabilities':
+      return `((${label}))`;
+    case 'resource':
+      return `[/${label}/]`;
+    default:
+      return `[${label}]`;
+  }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
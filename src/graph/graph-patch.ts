@@ -0,0 +1,245 @@
+import { EdgeData, GraphBuildOptions, GraphData, GraphEdge, GraphNode, GraphPatch, HelmChart, NodeData, Reference, ReferenceType } from '../types';
+import { findResourceRelations } from '../analysis/resource-relations';
+import { renderManifests } from '../analysis/manifests';
+import {
+  applyCollapsedGroups,
+  buildTemplatesGraph,
+  buildValueNodes,
+  createCapabilitiesNode,
+  createFilesGraph,
+  createRelationEdges,
+  getDanglingReferences,
+  placeNewNodes,
+} from './graph-builder';
+
+/**
+ * What changed between two builds of a chart's graph. Positions and the
+ * view state of nodes (collapsed, highlighted) are not compared, and edges
+ * are compared by the endpoints they had before collapsed groups re-routed them.
+ */
+export function diffGraphData(previous: GraphData, next: GraphData): GraphPatch {
+  return {
+    nodes: diffById(previous.nodes, next.nodes, getNodeSignature),
+    edges: diffById(previous.edges, next.edges, getEdgeSignature),
+  };
+}
+
+/**
+ * Patch the graph of `previous` for the chart it became after the templates
+ * in `changed` were edited, added or deleted, without building a new graph.
+ * Only what those templates produce is built again: their file and resource
+ * nodes and the edges of their references, plus the pieces that depend on
+ * them across the chart (relations between resources, value nodes, `.Files`
+ * and `.Capabilities`) when they touch those. Null when the edit reaches the
+ * values passed to subcharts, which needs a full build.
+ */
+export function buildGraphPatch(
+  previous: HelmChart,
+  chart: HelmChart,
+  changed: Set<string>,
+  graph: GraphData,
+  options: GraphBuildOptions = {}
+): GraphPatch | null {
+  const previousRefs = previous.references.filter(ref => changed.has(ref.source.file));
+  const refs = chart.references.filter(ref => changed.has(ref.source.file));
+  const makes = (type: ReferenceType) => previousRefs.some(ref => ref.type === type) || refs.some(ref => ref.type === type);
+
+  // Subchart groups take the parent values under their name and global.*
+  const valuesChanged = !sameValueReferences(previousRefs, refs);
+  if (valuesChanged && feedsSubcharts(previous, chart)) return null;
+
+  const scopes = chart.subcharts.map(subchart => `${subchart.subchart!.name}::`);
+  const isTopLevel = (id: string) => !scopes.some(scope => id.startsWith(scope));
+  const topNodes = graph.nodes.filter(node => isTopLevel(node.id));
+  const topEdges = graph.edges.filter(edge => isTopLevel(edge.id));
+  const pieces: [GraphData, GraphData][] = [];
+
+  // Templates whose resources found or lost a relation target are built again too
+  const relations = findResourceRelations(chart, renderManifests(chart, options.manifestCache));
+  const dangling = getDanglingReferences(relations);
+  const files = new Set(changed);
+  const nodesById = new Map(topNodes.map(node => [node.id, node]));
+  chart.resources.forEach(resource => {
+    const before = nodesById.get(`resource:${resource.id}`)?.data.danglingReferences as string[] | undefined;
+    if (JSON.stringify(before ?? []) !== JSON.stringify(dangling.get(resource.id) ?? [])) files.add(resource.file);
+  });
+  pieces.push([
+    {
+      nodes: topNodes.filter(node =>
+        (node.type === 'resource' || (node.type === 'file' && node.data.fileType !== 'other')) &&
+        files.has(node.data.filePath ?? '')),
+      edges: topEdges.filter(edge =>
+        !NON_TEMPLATE_EDGES.has(edge.data?.referenceType ?? '') && files.has(edge.data?.file ?? '')),
+    },
+    buildTemplatesGraph(chart, files, relations),
+  ]);
+  // A renamed or deleted resource can be the target of any other
+  pieces.push([
+    { nodes: [], edges: topEdges.filter(edge => edge.data?.referenceType === 'relation') },
+    { nodes: [], edges: createRelationEdges(relations) },
+  ]);
+
+  if (valuesChanged) {
+    pieces.push([
+      { nodes: topNodes.filter(node => node.type === 'value' || node.type === 'valueGroup'), edges: [] },
+      { nodes: buildValueNodes(chart, options), edges: [] },
+    ]);
+  }
+
+  // Templates cannot be read through .Files, so only their own reads change
+  if (makes('files')) {
+    pieces.push([
+      {
+        nodes: topNodes.filter(node => node.type === 'file' && node.data.fileType === 'other'),
+        edges: topEdges.filter(edge => edge.data?.referenceType === 'files'),
+      },
+      createFilesGraph(chart),
+    ]);
+  }
+
+  if (makes('capabilities')) {
+    const capabilitiesNode = createCapabilitiesNode(chart);
+    pieces.push([
+      { nodes: topNodes.filter(node => node.type === 'capabilities'), edges: [] },
+      { nodes: capabilitiesNode ? [capabilitiesNode] : [], edges: [] },
+    ]);
+  }
+
+  const patch: GraphPatch = {
+    nodes: { added: [], updated: [], removed: [] },
+    edges: { added: [], updated: [], removed: [] },
+  };
+  pieces.forEach(([before, after]) => {
+    const nodes = diffById(before.nodes, after.nodes, getNodeSignature);
+    const edges = diffById(before.edges, after.edges, getEdgeSignature);
+    patch.nodes.added.push(...nodes.added);
+    patch.nodes.updated.push(...nodes.updated);
+    patch.nodes.removed.push(...nodes.removed);
+    patch.edges.added.push(...edges.added);
+    patch.edges.updated.push(...edges.updated);
+    patch.edges.removed.push(...edges.removed);
+  });
+  patch.nodes.added = placeNewNodes(patch.nodes.added, graph.nodes);
+  return patch;
+}
+
+/**
+ * Apply a patch to the graph on screen: nodes and edges that stay keep
+ * their position, collapsed state and edge routing, new ones come in where
+ * the patch placed them. Collapsed groups are re-applied afterwards.
+ */
+export function applyGraphPatch(graph: GraphData, patch: GraphPatch): GraphData {
+  const removedNodes = new Set(patch.nodes.removed);
+  const updatedNodes = new Map(patch.nodes.updated.map(node => [node.id, node]));
+  const nodes = graph.nodes
+    .filter(node => !removedNodes.has(node.id))
+    .map(node => {
+      const updated = updatedNodes.get(node.id);
+      if (!updated) return node;
+      return {
+        ...node,
+        ...updated,
+        // A value that leaves its group has no parentId to spread over the old one
+        parentId: updated.parentId,
+        extent: updated.extent,
+        position: node.position,
+        data: { ...updated.data, collapsed: node.data.collapsed ?? updated.data.collapsed },
+      };
+    });
+
+  const removedEdges = new Set(patch.edges.removed);
+  const updatedEdges = new Map(patch.edges.updated.map(edge => [edge.id, edge]));
+  const edges = graph.edges
+    .filter(edge => !removedEdges.has(edge.id))
+    .map(edge => {
+      const updated = updatedEdges.get(edge.id);
+      return updated ? { ...edge, ...updated, type: edge.type } : edge;
+    });
+
+  // Added nodes come after their parent: new parents are listed before their children
+  return applyCollapsedGroups([...nodes, ...patch.nodes.added], [...edges, ...patch.edges.added]);
+}
+
+/**
+ * Whether a patch changes nothing
+ */
+export function isEmptyPatch(patch: GraphPatch): boolean {
+  return [patch.nodes, patch.edges].every(changes =>
+    changes.added.length === 0 && changes.updated.length === 0 && changes.removed.length === 0
+  );
+}
+
+/**
+ * Whether two sets of references read the same values as often
+ */
+function sameValueReferences(before: Reference[], after: Reference[]): boolean {
+  const counts = new Map<string, number>();
+  before.filter(ref => ref.type === 'values').forEach(ref => counts.set(ref.target.path, (counts.get(ref.target.path) || 0) + 1));
+  after.filter(ref => ref.type === 'values').forEach(ref => counts.set(ref.target.path, (counts.get(ref.target.path) || 0) - 1));
+  return Array.from(counts.values()).every(count => count === 0);
+}
+
+/**
+ * Whether a value the chart reads only before or only after the edit is
+ * under a subchart's name or global, and so passed to a subchart
+ */
+function feedsSubcharts(previous: HelmChart, chart: HelmChart): boolean {
+  if (chart.subcharts.length === 0) return false;
+  const read = (c: HelmChart) => new Set(c.references.filter(ref => ref.type === 'values').map(ref => ref.target.path));
+  const before = read(previous);
+  const after = read(chart);
+  const prefixes = ['global', ...chart.subcharts.map(subchart => subchart.subchart!.name)];
+  return [...before, ...after]
+    .filter(path => before.has(path) !== after.has(path))
+    .some(path => prefixes.some(prefix => path === prefix || path.startsWith(`${prefix}.`)));
+}
+
+function diffById<T extends { id: string }>(
+  previous: T[],
+  next: T[],
+  getSignature: (item: T) => string
+): { added: T[]; updated: T[]; removed: string[] } {
+  const previousById = new Map(previous.map(item => [item.id, item]));
+  const nextIds = new Set(next.map(item => item.id));
+  const added: T[] = [];
+  const updated: T[] = [];
+
+  next.forEach(item => {
+    const before = previousById.get(item.id);
+    if (!before) {
+      added.push(item);
+    } else if (getSignature(before) !== getSignature(item)) {
+      updated.push(item);
+    }
+  });
+
+  return {
+    added,
+    updated,
+    removed: previous.filter(item => !nextIds.has(item.id)).map(item => item.id),
+  };
+}
+
+// Edges that are not drawn from a template's own references and resources
+const NON_TEMPLATE_EDGES = new Set(['files', 'relation', 'subchart']);
+
+function getNodeSignature(node: GraphNode): string {
+  const { collapsed: _collapsed, isHighlighted: _isHighlighted, ...data }: NodeData = node.data;
+  return JSON.stringify([node.type, node.parentId, data]);
+}
+
+function getEdgeSignature(edge: GraphEdge): string {
+  const {
+    originalSource,
+    originalTarget,
+    originalLabel,
+    bundle: _bundle,
+    ...data
+  }: Partial<EdgeData> = edge.data ?? {};
+  return JSON.stringify([
+    originalSource ?? edge.source,
+    originalTarget ?? edge.target,
+    originalLabel ?? edge.label,
+    data,
+  ]);
+}
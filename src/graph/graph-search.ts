@@ -0,0 +1,241 @@
+import { HelmChart, SearchFilter, SearchItem, SearchItemKind, SearchQuery, SearchResult } from '../types';
+import { isDefaultValuesFile } from '../parser/helm-parser';
+import { globToRegExp } from '../render/chart-files';
+import { getResourceKey } from '../analysis/chart-diff';
+import { resolveFilesAccess } from '../analysis/files-access';
+
+// Order of result kinds when scores tie
+const KIND_ORDER: SearchItemKind[] = ['value', 'helper', 'file', 'resource', 'expression'];
+
+// Names accepted by `type:` for each kind
+const TYPE_NAMES: Record<string, SearchItemKind> = {
+  value: 'value',
+  values: 'value',
+  helper: 'helper',
+  helpers: 'helper',
+  file: 'file',
+  files: 'file',
+  resource: 'resource',
+  resources: 'resource',
+  expression: 'expression',
+  expressions: 'expression',
+  expr: 'expression',
+};
+
+const FILTER_PATTERN = /^(type|path|file):(.+)$/;
+
+// File types drawn as graph nodes
+const GRAPH_FILE_TYPES = new Set(['template', 'helper', 'notes', 'chart']);
+
+/**
+ * Everything the search can find: values keys, helpers, files, resources
+ * and the raw template expressions, each pointing at the graph node it
+ * focuses. Subcharts are included with their scoped node IDs.
+ */
+export function buildSearchIndex(chart: HelmChart, scope = '', pathPrefix = ''): SearchItem[] {
+  const items: SearchItem[] = [];
+
+  const valuesFile = chart.files.find(f => isDefaultValuesFile(f.path));
+  const readFiles = new Set(resolveFilesAccess(chart).flatMap(access => access.matches));
+  chart.files
+    .filter(file => GRAPH_FILE_TYPES.has(file.type) || isDefaultValuesFile(file.path) || readFiles.has(file.path))
+    .forEach(file => {
+      const path = `${pathPrefix}${file.path}`;
+      items.push({ kind: 'file', text: path, path, nodeId: `${scope}file:${file.path}`, file: path });
+    });
+
+  // Values without a node (never referenced) focus values.yaml instead
+  const referencedPaths = new Set(chart.references.filter(ref => ref.type === 'values').map(ref => ref.target.path));
+  const defaults = new Map(chart.values.flatKeys.map(key => [key.path, key.value]));
+  new Set([...referencedPaths, ...defaults.keys()]).forEach(path => {
+    const nodeId = referencedPaths.has(path)
+      ? `${scope}value:${path}`
+      : valuesFile && `${scope}file:${valuesFile.path}`;
+    if (!nodeId) return;
+    items.push({
+      kind: 'value',
+      text: path,
+      path,
+      nodeId,
+      file: valuesFile && `${pathPrefix}${valuesFile.path}`,
+      detail: defaults.has(path) ? truncate(JSON.stringify(defaults.get(path)) ?? '') : 'no default',
+    });
+  });
+
+  chart.helpers.forEach(helper => {
+    items.push({
+      kind: 'helper',
+      text: helper.name,
+      path: helper.name,
+      nodeId: `${scope}helper:${helper.name}`,
+      file: `${pathPrefix}${helper.file}`,
+      line: helper.line,
+      detail: `${pathPrefix}${helper.file}`,
+    });
+  });
+
+  chart.resources.forEach(resource => {
+    const key = getResourceKey(resource);
+    items.push({
+      kind: 'resource',
+      text: key,
+      path: key,
+      nodeId: `${scope}resource:${resource.id}`,
+      file: `${pathPrefix}${resource.file}`,
+      line: resource.startLine,
+      detail: `${pathPrefix}${resource.file}`,
+    });
+  });
+
+  // Expressions focus the node they are drawn from, as edges are
+  chart.references.forEach(ref => {
+    const sourceId = ref.source.helper
+      ? `helper:${ref.source.helper}`
+      : ref.source.resource
+        ? `resource:${ref.source.resource}`
+        : `file:${ref.source.file}`;
+    const file = `${pathPrefix}${ref.source.file}`;
+    items.push({
+      kind: 'expression',
+      text: ref.expression,
+      path: ref.target.path,
+      nodeId: `${scope}${sourceId}`,
+      file,
+      line: ref.line,
+      detail: ref.line ? `${file}:${ref.line}` : file,
+    });
+  });
+
+  chart.subcharts.forEach(subchart => {
+    const info = subchart.subchart!;
+    items.push(...buildSearchIndex(subchart, `${scope}${info.name}::`, `${pathPrefix}${info.path}/`));
+  });
+
+  return items;
+}
+
+/**
+ * Split a query into free text and `type:`, `path:` and `file:` filters
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const words: string[] = [];
+  const filters: SearchFilter[] = [];
+
+  input.trim().split(/\s+/).filter(Boolean).forEach(token => {
+    const match = token.match(FILTER_PATTERN);
+    if (match) {
+      filters.push({ field: match[1] as SearchFilter['field'], pattern: match[2] });
+    } else {
+      words.push(token);
+    }
+  });
+
+  return { text: words.join(' '), filters };
+}
+
+/**
+ * Items passing the query's filters and fuzzily matching its text, best
+ * first. Without text, every filtered item is returned in kind order.
+ */
+export function searchIndex(items: SearchItem[], query: SearchQuery, limit = Infinity): SearchResult[] {
+  const matchesFilters = createFilterMatcher(query.filters);
+  const words = query.text.split(/\s+/).filter(Boolean);
+  const results: SearchResult[] = [];
+
+  items.forEach(item => {
+    if (!matchesFilters(item)) return;
+
+    let score = 0;
+    const matches = new Set<number>();
+    for (const word of words) {
+      const match = fuzzyMatch(word, item.text);
+      if (!match) return;
+      score += match.score;
+      match.matches.forEach(index => matches.add(index));
+    }
+    results.push({ item, score, matches: Array.from(matches).sort((a, b) => a - b) });
+  });
+
+  return results
+    .sort((a, b) =>
+      b.score - a.score
+      || KIND_ORDER.indexOf(a.item.kind) - KIND_ORDER.indexOf(b.item.kind)
+      || a.item.text.localeCompare(b.item.text)
+    )
+    .slice(0, limit);
+}
+
+/**
+ * Graph nodes of every item the query matches
+ */
+export function getMatchingNodeIds(items: SearchItem[], query: SearchQuery): Set<string> {
+  return new Set(searchIndex(items, query).map(result => result.item.nodeId));
+}
+
+/**
+ * Case-insensitive match of `pattern` in `text`: a substring scores highest,
+ * otherwise its characters in order, favouring runs and word starts
+ */
+export function fuzzyMatch(pattern: string, text: string): { score: number; matches: number[] } | null {
+  const needle = pattern.toLowerCase();
+  const haystack = text.toLowerCase();
+  if (!needle) return { score: 0, matches: [] };
+
+  const index = haystack.indexOf(needle);
+  if (index !== -1) {
+    return {
+      score: needle.length * 10 + (isWordStart(text, index) ? 20 : 0) + (needle === haystack ? 50 : 0) - index * 0.1,
+      matches: Array.from({ length: needle.length }, (_, i) => index + i),
+    };
+  }
+
+  let score = 0;
+  let previous = -2;
+  const matches: number[] = [];
+  for (let i = 0, j = 0; i < needle.length; i++, j++) {
+    j = haystack.indexOf(needle[i], j);
+    if (j === -1) return null;
+    score += j === previous + 1 ? 5 : isWordStart(text, j) ? 3 : 1;
+    matches.push(j);
+    previous = j;
+  }
+  return { score: score - text.length * 0.01, matches };
+}
+
+/**
+ * Filters of the same field match any of their patterns; different fields
+ * must all match
+ */
+function createFilterMatcher(filters: SearchFilter[]): (item: SearchItem) => boolean {
+  const byField = new Map<SearchFilter['field'], ((item: SearchItem) => boolean)[]>();
+
+  filters.forEach(filter => {
+    let test: (item: SearchItem) => boolean;
+    if (filter.field === 'type') {
+      const kind = TYPE_NAMES[filter.pattern.toLowerCase()];
+      test = item => item.kind === kind;
+    } else if (filter.field === 'path') {
+      const regex = globToRegExp(filter.pattern);
+      test = item => regex.test(item.path);
+    } else {
+      // Patterns without a directory match the file name anywhere
+      const regex = globToRegExp(filter.pattern);
+      const matchName = !filter.pattern.includes('/');
+      test = item => !!item.file && regex.test(matchName ? item.file.split('/').pop()! : item.file);
+    }
+    byField.set(filter.field, [...(byField.get(filter.field) ?? []), test]);
+  });
+
+  const groups = Array.from(byField.values());
+  return item => groups.every(tests => tests.some(test => test(item)));
+}
+
+function isWordStart(text: string, index: number): boolean {
+  if (index === 0) return true;
+  const previous = text[index - 1];
+  return !/[a-zA-Z0-9]/.test(previous) || (/[a-z]/.test(previous) && /[A-Z]/.test(text[index]));
+}
+
+function truncate(text: string): string {
+  return text.length > 40 ? `${text.slice(0, 37)}...` : text;
+}
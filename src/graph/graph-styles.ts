@@ -0,0 +1,76 @@
+import { FileType, NodeType } from '../types';
+
+export interface EdgeStyle {
+  stroke: string;
+  strokeWidth: number;
+  strokeDasharray?: string;
+}
+
+// Node colors, as on the minimap
+const NODE_COLORS: Record<NodeType, string> = {
+  file: '#d29922',
+  value: '#a371f7',
+  valueGroup: 'rgba(163, 113, 247, 0.15)',
+  chart: '#3fb950',
+  release: '#58a6ff',
+  helper: '#39c5cf',
+  resource: '#b0802a',
+  subchart: 'rgba(88, 166, 255, 0.15)',
+  capabilities: '#db61a2',
+};
+
+// File nodes take the color of their file type
+const FILE_TYPE_COLORS: Record<FileType, string> = {
+  chart: '#3fb950',
+  values: '#a371f7',
+  template: '#d29922',
+  helper: '#39c5cf',
+  notes: '#c9d1d9',
+  schema: '#a371f7',
+  other: '#30363d',
+};
+
+/**
+ * Edge style based on reference type
+ */
+export function getEdgeStyle(referenceType: string): EdgeStyle {
+  switch (referenceType) {
+    case 'values':
+      return { stroke: '#a371f7', strokeWidth: 2 };
+    case 'include':
+    case 'template':
+      return { stroke: '#39c5cf', strokeWidth: 2 };
+    case 'chart':
+      return { stroke: '#3fb950', strokeWidth: 2 };
+    case 'release':
+      return { stroke: '#58a6ff', strokeWidth: 2 };
+    case 'subchart':
+      return { stroke: '#58a6ff', strokeWidth: 2, strokeDasharray: '6 4' };
+    case 'resource':
+      return { stroke: '#d29922', strokeWidth: 2, strokeDasharray: '2 4' };
+    case 'relation':
+      return { stroke: '#3fb950', strokeWidth: 2, strokeDasharray: '8 3' };
+    case 'files':
+      return { stroke: '#c9d1d9', strokeWidth: 2, strokeDasharray: '4 4' };
+    case 'capabilities':
+      return { stroke: '#db61a2', strokeWidth: 2 };
+    default:
+      return { stroke: '#30363d', strokeWidth: 1 };
+  }
+}
+
+/**
+ * Minimap color of a node type
+ */
+export function getNodeColor(type: string | undefined): string {
+  return NODE_COLORS[type as NodeType] ?? '#30363d';
+}
+
+/**
+ * Color of a node as drawn on the canvas: file nodes by file type, others by node type
+ */
+export function getNodeFillColor(type: string | undefined, fileType?: FileType): string {
+  if (type === 'subchart') return '#58a6ff';
+  if (type === 'valueGroup') return '#a371f7';
+  return type === 'file' && fileType ? FILE_TYPE_COLORS[fileType] : getNodeColor(type);
+}
@@ -0,0 +1,360 @@
+import { GraphData, GraphEdge, GraphNode } from '../types';
+import {
+  LayoutPosition,
+  applyPositions,
+  getLayoutCandidates,
+  getLayoutLinks,
+  getNodeSize,
+  resetEdgeRouting,
+} from './layout-utils';
+
+const LAYER_GAP = 260;
+const NODE_GAP = 30;
+const DUMMY_HEIGHT = 10;
+
+// Crossing minimization stops after this many sweeps, or earlier once it stalls
+const MAX_SWEEPS = 24;
+const STALLED_SWEEPS = 4;
+
+// Vertical alignment passes towards connected nodes
+const ALIGN_PASSES = 8;
+
+// Edges into the same node or values key are bundled from this many on
+const MIN_BUNDLE_SIZE = 3;
+
+interface LayerNode {
+  id: string;
+  height: number;
+  width: number;
+  isDummy: boolean;
+}
+
+/**
+ * Sugiyama-style layered layout: cycles are broken, nodes are put in layers
+ * by longest path, edges spanning several layers get dummy nodes, the order
+ * within layers is improved by median sweeps (keeping the ordering with the
+ * fewest crossings) and nodes are then aligned with their neighbours. Edges
+ * fanning in to the same node or values key are bundled through a shared
+ * point in front of their layer.
+ */
+export function layeredLayout(nodes: GraphNode[], edges: GraphEdge[]): GraphData {
+  const candidates = getLayoutCandidates(nodes);
+  const candidateIds = new Set(candidates.map(node => node.id));
+  const links = removeCycles(candidates.map(node => node.id), getLayoutLinks(nodes, candidateIds, edges));
+
+  const layerOf = assignLayers(candidates.map(node => node.id), links);
+  const { layers, neighbours } = buildLayers(candidates, links, layerOf);
+  orderLayers(layers, neighbours);
+
+  const layerX = getLayerX(layers);
+  const centerY = assignY(layers, neighbours);
+
+  const positions = new Map<string, LayoutPosition>();
+  layers.forEach((layer, index) => {
+    layer.forEach(node => {
+      if (node.isDummy) return;
+      positions.set(node.id, { x: layerX[index], y: centerY.get(node.id)! - node.height / 2 });
+    });
+  });
+
+  return {
+    nodes: applyPositions(nodes, positions),
+    edges: bundleEdges(resetEdgeRouting(edges, 'smoothstep'), nodes, layerOf, layerX, centerY),
+  };
+}
+
+/**
+ * Reverse the edges that close a cycle, found by depth-first search
+ */
+function removeCycles(nodeIds: string[], links: [string, string][]): [string, string][] {
+  const outgoing = groupBy(links, ([source]) => source);
+  const state = new Map<string, 'visiting' | 'done'>();
+  const reversed = new Set<[string, string]>();
+
+  const visit = (start: string) => {
+    // Iterative DFS keeps deep helper chains off the call stack
+    const stack: { id: string; next: number }[] = [{ id: start, next: 0 }];
+    state.set(start, 'visiting');
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const out = outgoing.get(frame.id) ?? [];
+      if (frame.next >= out.length) {
+        state.set(frame.id, 'done');
+        stack.pop();
+        continue;
+      }
+      const link = out[frame.next++];
+      const target = link[1];
+      if (state.get(target) === 'visiting') {
+        reversed.add(link);
+      } else if (!state.has(target)) {
+        state.set(target, 'visiting');
+        stack.push({ id: target, next: 0 });
+      }
+    }
+  };
+  nodeIds.forEach(id => {
+    if (!state.has(id)) visit(id);
+  });
+
+  return links.map(link => (reversed.has(link) ? [link[1], link[0]] : link));
+}
+
+/**
+ * Longest-path layering: every node sits one layer right of its furthest
+ * predecessor. Unconnected nodes go in the first layer.
+ */
+function assignLayers(nodeIds: string[], links: [string, string][]): Map<string, number> {
+  const incoming = new Map(nodeIds.map(id => [id, 0]));
+  links.forEach(([, target]) => incoming.set(target, incoming.get(target)! + 1));
+  const outgoing = groupBy(links, ([source]) => source);
+
+  const layerOf = new Map(nodeIds.map(id => [id, 0]));
+  const queue = nodeIds.filter(id => incoming.get(id) === 0);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    (outgoing.get(id) ?? []).forEach(([, target]) => {
+      layerOf.set(target, Math.max(layerOf.get(target)!, layerOf.get(id)! + 1));
+      incoming.set(target, incoming.get(target)! - 1);
+      if (incoming.get(target) === 0) queue.push(target);
+    });
+  }
+
+  return layerOf;
+}
+
+/**
+ * Layers of real and dummy nodes, with each node's neighbours in the
+ * layer above and below; edges spanning layers become dummy chains
+ */
+function buildLayers(
+  candidates: GraphNode[],
+  links: [string, string][],
+  layerOf: Map<string, number>
+): { layers: LayerNode[][]; neighbours: { up: Map<string, string[]>; down: Map<string, string[]> } } {
+  const layerCount = Math.max(0, ...layerOf.values()) + 1;
+  const layers: LayerNode[][] = Array.from({ length: layerCount }, () => []);
+  const up = new Map<string, string[]>();
+  const down = new Map<string, string[]>();
+  const connect = (upper: string, lower: string) => {
+    down.set(upper, (down.get(upper) ?? []).concat(lower));
+    up.set(lower, (up.get(lower) ?? []).concat(upper));
+  };
+
+  candidates.forEach(node => {
+    layers[layerOf.get(node.id)!].push({ id: node.id, ...getNodeSize(node), isDummy: false });
+  });
+
+  let dummyCount = 0;
+  links.forEach(([source, target]) => {
+    let previous = source;
+    for (let layer = layerOf.get(source)! + 1; layer < layerOf.get(target)!; layer++) {
+      const id = `dummy:${dummyCount++}`;
+      layers[layer].push({ id, width: 0, height: DUMMY_HEIGHT, isDummy: true });
+      connect(previous, id);
+      previous = id;
+    }
+    connect(previous, target);
+  });
+
+  return { layers, neighbours: { up, down } };
+}
+
+/**
+ * Reorder each layer by the median position of its neighbours, sweeping
+ * down and up, and keep the ordering with the fewest crossings
+ */
+function orderLayers(
+  layers: LayerNode[][],
+  neighbours: { up: Map<string, string[]>; down: Map<string, string[]> }
+): void {
+  let best = layers.map(layer => [...layer]);
+  let bestCrossings = countCrossings(layers, neighbours.down);
+  let stalled = 0;
+
+  for (let sweep = 0; sweep < MAX_SWEEPS && bestCrossings > 0 && stalled < STALLED_SWEEPS; sweep++) {
+    const downward = sweep % 2 === 0;
+    const indices = layers.map((_, i) => i);
+    (downward ? indices.slice(1) : indices.slice(0, -1).reverse()).forEach(i => {
+      const fixed = layers[downward ? i - 1 : i + 1];
+      const positions = new Map(fixed.map((node, index) => [node.id, index]));
+      const adjacent = downward ? neighbours.up : neighbours.down;
+      layers[i] = sortByMedian(layers[i], positions, adjacent);
+    });
+
+    const crossings = countCrossings(layers, neighbours.down);
+    if (crossings < bestCrossings) {
+      best = layers.map(layer => [...layer]);
+      bestCrossings = crossings;
+      stalled = 0;
+    } else {
+      stalled++;
+    }
+  }
+
+  best.forEach((layer, i) => {
+    layers[i] = layer;
+  });
+}
+
+function sortByMedian(
+  layer: LayerNode[],
+  fixedPositions: Map<string, number>,
+  adjacent: Map<string, string[]>
+): LayerNode[] {
+  const keys = new Map(layer.map((node, index) => {
+    const positions = (adjacent.get(node.id) ?? [])
+      .map(id => fixedPositions.get(id))
+      .filter((position): position is number => position !== undefined)
+      .sort((a, b) => a - b);
+    if (positions.length === 0) return [node.id, index];
+    const middle = Math.floor(positions.length / 2);
+    const median = positions.length % 2 === 1
+      ? positions[middle]
+      : (positions[middle - 1] + positions[middle]) / 2;
+    return [node.id, median];
+  }));
+  // Stable sort keeps the current order between equal medians
+  return [...layer].sort((a, b) => keys.get(a.id)! - keys.get(b.id)!);
+}
+
+/**
+ * Crossings between every pair of adjacent layers, counted as inversions
+ */
+function countCrossings(layers: LayerNode[][], down: Map<string, string[]>): number {
+  let crossings = 0;
+
+  for (let i = 0; i < layers.length - 1; i++) {
+    const lowerPositions = new Map(layers[i + 1].map((node, index) => [node.id, index]));
+    const targets: number[] = [];
+    layers[i].forEach(node => {
+      (down.get(node.id) ?? [])
+        .map(id => lowerPositions.get(id)!)
+        .sort((a, b) => a - b)
+        .forEach(position => targets.push(position));
+    });
+
+    // Pairs of segments whose lower ends are out of order cross
+    const tree = new Array(layers[i + 1].length + 1).fill(0);
+    for (let j = targets.length - 1; j >= 0; j--) {
+      for (let k = targets[j]; k > 0; k -= k & -k) crossings += tree[k];
+      for (let k = targets[j] + 1; k < tree.length; k += k & -k) tree[k]++;
+    }
+  }
+
+  return crossings;
+}
+
+function getLayerX(layers: LayerNode[][]): number[] {
+  const layerX: number[] = [];
+  let x = 0;
+  layers.forEach(layer => {
+    layerX.push(x);
+    x += Math.max(0, ...layer.map(node => node.width)) + LAYER_GAP;
+  });
+  return layerX;
+}
+
+/**
+ * Vertical centres: layers start stacked, then each node is pulled towards
+ * the mean of its neighbours while keeping its order and spacing
+ */
+function assignY(
+  layers: LayerNode[][],
+  neighbours: { up: Map<string, string[]>; down: Map<string, string[]> }
+): Map<string, number> {
+  const centerY = new Map<string, number>();
+  layers.forEach(layer => {
+    let y = 0;
+    layer.forEach(node => {
+      centerY.set(node.id, y + node.height / 2);
+      y += node.height + NODE_GAP;
+    });
+  });
+
+  for (let pass = 0; pass < ALIGN_PASSES; pass++) {
+    layers.forEach(layer => {
+      const desired = layer.map(node => {
+        const adjacent = [...(neighbours.up.get(node.id) ?? []), ...(neighbours.down.get(node.id) ?? [])];
+        if (adjacent.length === 0) return centerY.get(node.id)!;
+        return adjacent.reduce((sum, id) => sum + centerY.get(id)!, 0) / adjacent.length;
+      });
+      placeInOrder(layer, desired).forEach((y, i) => centerY.set(layer[i].id, y));
+    });
+  }
+
+  return centerY;
+}
+
+/**
+ * Positions as close to `desired` as the order and spacing allow: the
+ * average of pushing overlapping nodes down and pushing them up
+ */
+function placeInOrder(layer: LayerNode[], desired: number[]): number[] {
+  const gap = (i: number) => (layer[i].height + layer[i + 1].height) / 2 + NODE_GAP;
+
+  const pushedDown = [...desired];
+  for (let i = 1; i < layer.length; i++) {
+    pushedDown[i] = Math.max(pushedDown[i], pushedDown[i - 1] + gap(i - 1));
+  }
+  const pushedUp = [...desired];
+  for (let i = layer.length - 2; i >= 0; i--) {
+    pushedUp[i] = Math.min(pushedUp[i], pushedUp[i + 1] - gap(i));
+  }
+
+  return desired.map((_, i) => (pushedDown[i] + pushedUp[i]) / 2);
+}
+
+/**
+ * Route edges that fan in to the same node, or to keys of the same
+ * top-level values key, through one point in front of the target layer
+ */
+function bundleEdges(
+  edges: GraphEdge[],
+  nodes: GraphNode[],
+  layerOf: Map<string, number>,
+  layerX: number[],
+  centerY: Map<string, number>
+): GraphEdge[] {
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+  const bundleKey = (edge: GraphEdge): string | null => {
+    const sourceLayer = layerOf.get(edge.source);
+    const targetLayer = layerOf.get(edge.target);
+    if (edge.hidden || sourceLayer === undefined || targetLayer === undefined || sourceLayer >= targetLayer) return null;
+    const target = nodesById.get(edge.target)!;
+    const valuePath = target.type === 'value' ? target.data.valuePath : undefined;
+    return `${targetLayer}:${valuePath ? `value:${valuePath.split('.')[0]}` : target.id}`;
+  };
+
+  const bundles = groupBy(edges.filter(edge => bundleKey(edge) !== null), edge => bundleKey(edge)!);
+  const points = new Map<string, { x: number; y: number }>();
+  bundles.forEach((members, key) => {
+    if (members.length < MIN_BUNDLE_SIZE) return;
+    const targets = Array.from(new Set(members.map(edge => edge.target)));
+    points.set(key, {
+      x: layerX[layerOf.get(members[0].target)!] - LAYER_GAP / 2,
+      y: targets.reduce((sum, id) => sum + centerY.get(id)!, 0) / targets.length,
+    });
+  });
+
+  return edges.map(edge => {
+    const key = bundleKey(edge);
+    const point = key !== null ? points.get(key) : undefined;
+    if (!point || !edge.data) return edge;
+    return { ...edge, type: 'bundled', data: { ...edge.data, bundle: point } };
+  });
+}
+
+function groupBy<T>(items: T[], getKey: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    const key = getKey(item);
+    const group = groups.get(key);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key, [item]);
+    }
+  });
+  return groups;
+}
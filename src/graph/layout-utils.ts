@@ -0,0 +1,71 @@
+import { GraphEdge, GraphNode } from '../types';
+import { getTopLevelIds, stackSubchartGroups } from './graph-builder';
+
+// Size of nodes React Flow has not given an explicit size
+const DEFAULT_NODE_SIZE = { width: 200, height: 60 };
+
+export interface LayoutPosition {
+  x: number;
+  y: number;
+}
+
+/**
+ * Nodes a layout places itself: subchart groups keep their internal layout
+ * and are stacked under the graph, and their children move with them
+ */
+export function getLayoutCandidates(nodes: GraphNode[]): GraphNode[] {
+  return nodes.filter(node => !node.parentId && node.type !== 'subchart');
+}
+
+export function getNodeSize(node: GraphNode): { width: number; height: number } {
+  return {
+    width: node.width ?? DEFAULT_NODE_SIZE.width,
+    height: node.height ?? DEFAULT_NODE_SIZE.height,
+  };
+}
+
+/**
+ * Distinct source -> target pairs between the given nodes, leaving out
+ * hidden edges and self loops. Edges into a value group's members count
+ * for the group.
+ */
+export function getLayoutLinks(nodes: GraphNode[], nodeIds: Set<string>, edges: GraphEdge[]): [string, string][] {
+  const topLevelIds = getTopLevelIds(nodes);
+  const seen = new Set<string>();
+  const links: [string, string][] = [];
+
+  edges.forEach(edge => {
+    if (edge.hidden) return;
+    const source = topLevelIds.get(edge.source) ?? edge.source;
+    const target = topLevelIds.get(edge.target) ?? edge.target;
+    if (source === target || !nodeIds.has(source) || !nodeIds.has(target)) return;
+    const key = `${source}\0${target}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    links.push([source, target]);
+  });
+
+  return links;
+}
+
+/**
+ * Apply the computed top-left positions, stacking subchart groups under them
+ */
+export function applyPositions(nodes: GraphNode[], positions: Map<string, LayoutPosition>): GraphNode[] {
+  stackSubchartGroups(nodes, positions);
+  return nodes.map(node => ({
+    ...node,
+    position: positions.get(node.id) || node.position,
+  }));
+}
+
+/**
+ * Edges drawn as `type`, without the routing of a previous layout
+ */
+export function resetEdgeRouting(edges: GraphEdge[], type: string): GraphEdge[] {
+  return edges.map(edge => {
+    if (!edge.data?.bundle) return { ...edge, type };
+    const { bundle: _bundle, ...data } = edge.data;
+    return { ...edge, type, data };
+  });
+}
@@ -0,0 +1,41 @@
+import { GraphData, GraphEdge, GraphNode, LayoutAlgorithm, LayoutOptions } from '../types';
+import { autoOrganizeLayout } from './graph-builder';
+import { layeredLayout } from './layered-layout';
+import { forceLayout } from './force-layout';
+import { radialLayout } from './radial-layout';
+import { resetEdgeRouting } from './layout-utils';
+
+export interface LayoutDefinition {
+  id: LayoutAlgorithm;
+  label: string;
+  description: string;
+}
+
+// Layouts offered in the toolbar, the default first
+export const LAYOUTS: LayoutDefinition[] = [
+  { id: 'columns', label: 'Columns', description: 'Templates, resources, chart, values and helpers side by side' },
+  { id: 'layered', label: 'Layered', description: 'Fewest edge crossings, with bundled fan-in' },
+  { id: 'force', label: 'Force', description: 'Connected nodes pulled together' },
+  { id: 'radial', label: 'Radial', description: 'Rings around the selected node' },
+];
+
+/**
+ * Position the graph with one of the layout algorithms
+ */
+export function applyLayout(
+  algorithm: LayoutAlgorithm,
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  options: LayoutOptions = {}
+): GraphData {
+  switch (algorithm) {
+    case 'layered':
+      return layeredLayout(nodes, edges);
+    case 'force':
+      return forceLayout(nodes, edges);
+    case 'radial':
+      return radialLayout(nodes, edges, options.focusNodeId);
+    default:
+      return { nodes: autoOrganizeLayout(nodes, edges), edges: resetEdgeRouting(edges, 'smoothstep') };
+  }
+}
@@ -0,0 +1,107 @@
+import { GraphData, GraphEdge, GraphNode } from '../types';
+import {
+  LayoutPosition,
+  applyPositions,
+  getLayoutCandidates,
+  getLayoutLinks,
+  getNodeSize,
+  resetEdgeRouting,
+} from './layout-utils';
+
+// Distance between rings, and the arc each node needs on its ring
+const RING_GAP = 320;
+const NODE_ARC = 110;
+
+/**
+ * Radial "focus" layout: the focused node sits in the centre and every
+ * other node on the ring of its distance from it, inside the wedge of the
+ * node it was reached through. Nodes not connected to the focus form the
+ * outermost ring. Without a focus, the most connected node is used.
+ */
+export function radialLayout(nodes: GraphNode[], edges: GraphEdge[], focusNodeId?: string | null): GraphData {
+  const candidates = getLayoutCandidates(nodes);
+  const candidateIds = new Set(candidates.map(node => node.id));
+  const adjacent = new Map(candidates.map(node => [node.id, [] as string[]]));
+  getLayoutLinks(nodes, candidateIds, edges).forEach(([source, target]) => {
+    adjacent.get(source)!.push(target);
+    adjacent.get(target)!.push(source);
+  });
+
+  const center = focusNodeId && candidateIds.has(focusNodeId)
+    ? focusNodeId
+    : candidates.reduce<string | undefined>((best, node) =>
+        best === undefined || adjacent.get(node.id)!.length > adjacent.get(best)!.length ? node.id : best, undefined);
+  if (!center) return { nodes, edges: resetEdgeRouting(edges, 'straight') };
+
+  // Breadth-first tree from the centre
+  const depth = new Map([[center, 0]]);
+  const children = new Map<string, string[]>();
+  const queue = [center];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    adjacent.get(id)!.forEach(next => {
+      if (depth.has(next)) return;
+      depth.set(next, depth.get(id)! + 1);
+      const siblings = children.get(id);
+      if (siblings) {
+        siblings.push(next);
+      } else {
+        children.set(id, [next]);
+      }
+      queue.push(next);
+    });
+  }
+  const unreachable = candidates.filter(node => !depth.has(node.id)).map(node => node.id);
+
+  // Each subtree gets a wedge proportional to its number of leaves
+  const leaves = new Map<string, number>();
+  const countLeaves = (id: string): number => {
+    const own = children.get(id) ?? [];
+    const total = own.length === 0 ? 1 : own.reduce((sum, child) => sum + countLeaves(child), 0);
+    leaves.set(id, total);
+    return total;
+  };
+  countLeaves(center);
+
+  // Rings grow when too many nodes share them
+  const maxDepth = Math.max(...depth.values()) + (unreachable.length > 0 ? 1 : 0);
+  const ringSizes = new Array(maxDepth + 1).fill(0);
+  depth.forEach(d => ringSizes[d]++);
+  if (unreachable.length > 0) ringSizes[maxDepth] += unreachable.length;
+  const radius: number[] = [0];
+  for (let d = 1; d <= maxDepth; d++) {
+    radius.push(Math.max(radius[d - 1] + RING_GAP, (ringSizes[d] * NODE_ARC) / (2 * Math.PI)));
+  }
+
+  const centres = new Map<string, LayoutPosition>();
+  const place = (id: string, start: number, span: number) => {
+    const angle = start + span / 2;
+    const r = radius[depth.get(id)!];
+    centres.set(id, { x: r * Math.cos(angle), y: r * Math.sin(angle) });
+    let childStart = start;
+    (children.get(id) ?? []).forEach(child => {
+      const childSpan = (span * leaves.get(child)!) / leaves.get(id)!;
+      place(child, childStart, childSpan);
+      childStart += childSpan;
+    });
+  };
+  place(center, 0, 2 * Math.PI);
+
+  unreachable.forEach((id, i) => {
+    const angle = (2 * Math.PI * i) / unreachable.length;
+    centres.set(id, { x: radius[maxDepth] * Math.cos(angle), y: radius[maxDepth] * Math.sin(angle) });
+  });
+
+  // Centres to top-left positions
+  const positions = new Map<string, LayoutPosition>();
+  candidates.forEach(node => {
+    const { width, height } = getNodeSize(node);
+    const centre = centres.get(node.id)!;
+    positions.set(node.id, { x: centre.x - width / 2, y: centre.y - height / 2 });
+  });
+
+  return {
+    nodes: applyPositions(nodes, positions),
+    edges: resetEdgeRouting(edges, 'straight'),
+  };
+}
@@ -0,0 +1,179 @@
+import { GraphNode, Reference } from '../types';
+
+// Prefixes holding at least this many value nodes become groups
+const MIN_GROUP_SIZE = 2;
+
+// Charts referencing more values than this start with every group collapsed
+const COLLAPSE_FROM = 40;
+
+const HEADER_HEIGHT = 44;
+const PADDING = 12;
+const ROW_GAP = 10;
+const COLLAPSED_SIZE = { width: 240, height: 64 };
+
+/**
+ * Nest value nodes in group nodes following their path: `config.database.host`
+ * goes into `config.database`, which goes into `config`. A prefix only gets a
+ * group when it branches or is itself a referenced value, so single chains
+ * like `a.b.c` don't produce a group per level. Value nodes are relabelled
+ * relative to their group. Returns the group nodes, parents first, followed
+ * by the value nodes.
+ */
+export function buildValueTree(valueNodes: GraphNode[], references: Reference[]): GraphNode[] {
+  const valuePaths = new Set(valueNodes.map(node => node.data.valuePath || ''));
+  const counts = new Map<string, number>();
+  const branches = new Map<string, Set<string>>();
+
+  valuePaths.forEach(path => {
+    const segments = path.split('.');
+    segments.forEach((segment, i) => {
+      const prefix = segments.slice(0, i + 1).join('.');
+      counts.set(prefix, (counts.get(prefix) || 0) + 1);
+      if (i > 0) {
+        const parent = segments.slice(0, i).join('.');
+        branches.set(parent, (branches.get(parent) || new Set()).add(segment));
+      }
+    });
+  });
+
+  const groupPaths = new Set(
+    Array.from(counts)
+      .filter(([prefix, count]) =>
+        count >= MIN_GROUP_SIZE && (valuePaths.has(prefix) || (branches.get(prefix)?.size ?? 0) > 1))
+      .map(([prefix]) => prefix)
+  );
+
+  // Longest group path that is a prefix of `path` (or `path` itself)
+  const findGroup = (path: string, includeSelf: boolean): string | undefined => {
+    const segments = path.split('.');
+    for (let i = includeSelf ? segments.length : segments.length - 1; i > 0; i--) {
+      const prefix = segments.slice(0, i).join('.');
+      if (groupPaths.has(prefix)) return prefix;
+    }
+    return undefined;
+  };
+  const relativeTo = (path: string, group: string | undefined) =>
+    group && path !== group ? path.slice(group.length + 1) : path;
+
+  const referenceCounts = new Map<string, number>();
+  references
+    .filter(ref => ref.type === 'values')
+    .forEach(ref => referenceCounts.set(ref.target.path, (referenceCounts.get(ref.target.path) || 0) + 1));
+
+  const collapsed = valuePaths.size > COLLAPSE_FROM;
+  const groups = Array.from(groupPaths)
+    .sort((a, b) => a.split('.').length - b.split('.').length || a.localeCompare(b))
+    .map((path): GraphNode => {
+      const parent = findGroup(path, false);
+      const members = Array.from(valuePaths).filter(valuePath => isWithin(valuePath, path));
+      return {
+        id: `valuegroup:${path}`,
+        type: 'valueGroup',
+        position: { x: 0, y: 0 },
+        parentId: parent && `valuegroup:${parent}`,
+        extent: parent ? 'parent' : undefined,
+        data: {
+          label: relativeTo(path, parent),
+          valuePath: path,
+          valueCount: members.length,
+          referenceCount: members.reduce((sum, member) => sum + (referenceCounts.get(member) || 0), 0),
+          collapsed,
+        },
+      };
+    });
+
+  const values = valueNodes.map(node => {
+    const path = node.data.valuePath || '';
+    const group = findGroup(path, true);
+    if (!group) return node;
+    return {
+      ...node,
+      parentId: `valuegroup:${group}`,
+      extent: 'parent' as const,
+      data: { ...node.data, label: path === group ? node.data.label : relativeTo(path, group) },
+    };
+  });
+
+  return arrangeValueGroups([...groups, ...values]);
+}
+
+/**
+ * Size value groups to their members and stack the members inside them:
+ * the group's own value first, then values and subgroups by path. Collapsed
+ * groups shrink to their header.
+ */
+export function arrangeValueGroups(nodes: GraphNode[]): GraphNode[] {
+  const children = new Map<string, GraphNode[]>();
+  nodes.forEach(node => {
+    if (!node.parentId) return;
+    const siblings = children.get(node.parentId);
+    if (siblings) {
+      siblings.push(node);
+    } else {
+      children.set(node.parentId, [node]);
+    }
+  });
+
+  const sizes = new Map<string, { width: number; height: number }>();
+  const positions = new Map<string, { x: number; y: number }>();
+
+  const measure = (node: GraphNode): { width: number; height: number } => {
+    if (node.type !== 'valueGroup') return estimateValueNodeSize(node);
+    const cached = sizes.get(node.id);
+    if (cached) return cached;
+
+    const groupPath = node.data.valuePath || '';
+    const members = (children.get(node.id) || []).slice().sort((a, b) => {
+      const aOwn = a.type === 'value' && a.data.valuePath === groupPath;
+      const bOwn = b.type === 'value' && b.data.valuePath === groupPath;
+      if (aOwn !== bOwn) return aOwn ? -1 : 1;
+      return (a.data.valuePath || '').localeCompare(b.data.valuePath || '');
+    });
+
+    let width = COLLAPSED_SIZE.width;
+    let y = HEADER_HEIGHT;
+    members.forEach(member => {
+      const size = measure(member);
+      positions.set(member.id, { x: PADDING, y });
+      width = Math.max(width, size.width + PADDING * 2);
+      y += size.height + ROW_GAP;
+    });
+
+    const size = node.data.collapsed
+      ? COLLAPSED_SIZE
+      : { width, height: y - ROW_GAP + PADDING };
+    sizes.set(node.id, size);
+    return size;
+  };
+  nodes.filter(node => node.type === 'valueGroup').forEach(measure);
+
+  return nodes.map(node => {
+    const size = sizes.get(node.id);
+    const position = positions.get(node.id);
+    if (!size && !position) return node;
+    return {
+      ...node,
+      ...(size && { width: size.width, height: size.height }),
+      position: position ?? node.position,
+    };
+  });
+}
+
+/**
+ * Whether `path` is the value at `prefix` or below it
+ */
+function isWithin(path: string, prefix: string): boolean {
+  return path === prefix || path.startsWith(`${prefix}.`);
+}
+
+/**
+ * Rendered size of a value node, from the lines ValueNode shows
+ */
+function estimateValueNodeSize(node: GraphNode): { width: number; height: number } {
+  const lines = [node.data.valueType, (node.data.schema as { type?: string[] } | undefined)?.type, node.data.overridden]
+    .filter(line => line !== undefined && (!Array.isArray(line) || line.length > 0)).length;
+  return {
+    width: Math.min(320, Math.max(140, 100 + node.data.label.length * 8.5)),
+    height: 44 + lines * 16,
+  };
+}
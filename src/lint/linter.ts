@@ -0,0 +1,87 @@
+import { Diagnostic, HelmChart, LintConfig, LintContext, LintRule, ManifestCache } from '../types';
+import { renderManifests } from '../analysis/manifests';
+import { BUILT_IN_RULES } from './rules';
+
+/**
+ * Run the enabled lint rules against a chart. The config can change a rule's
+ * severity or turn it 'off'; the chart is rendered once and shared by all rules,
+ * reusing the renders in `manifestCache` that are still current.
+ */
+export function lintChart(
+  chart: HelmChart,
+  config: LintConfig = {},
+  rules: LintRule[] = BUILT_IN_RULES,
+  manifestCache?: ManifestCache
+): Diagnostic[] {
+  const enabled = rules.filter(rule => config[rule.id] !== 'off');
+  if (enabled.length === 0) return [];
+
+  const context: LintContext = { manifests: renderManifests(chart, manifestCache) };
+  return runRules(chart, context, enabled, config).sort(compareDiagnostics);
+}
+
+/**
+ * Lint `files` again after they changed, keeping the diagnostics `previous`
+ * has for the rest of the chart. Rules still see the whole chart, so a
+ * finding that depends on other files (an unused helper) stays right, but
+ * only findings in `files` are kept.
+ */
+export function relintFiles(
+  chart: HelmChart,
+  files: Set<string>,
+  previous: Diagnostic[],
+  config: LintConfig = {},
+  rules: LintRule[] = BUILT_IN_RULES,
+  manifestCache?: ManifestCache
+): Diagnostic[] {
+  const kept = previous.filter(diagnostic => diagnostic.file === undefined || !files.has(diagnostic.file));
+  const enabled = rules.filter(rule => config[rule.id] !== 'off');
+  if (enabled.length === 0) return kept;
+
+  const context: LintContext = {
+    manifests: renderManifests(chart, manifestCache).filter(({ resource }) => files.has(resource.file)),
+    files,
+  };
+  const diagnostics = runRules(chart, context, enabled, config)
+    .filter(diagnostic => diagnostic.file !== undefined && files.has(diagnostic.file));
+  return [
+    ...kept,
+    ...diagnostics,
+  ].sort(compareDiagnostics);
+}
+
+function runRules(chart: HelmChart, context: LintContext, rules: LintRule[], config: LintConfig): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+
+  rules.forEach(rule => {
+    const severity = config[rule.id];
+    rule.check(chart, context).forEach(finding => {
+      diagnostics.push({
+        ...finding,
+        ruleId: rule.id,
+        severity: severity && severity !== 'off' ? severity : rule.severity,
+      });
+    });
+  });
+
+  return diagnostics;
+}
+
+function compareDiagnostics(a: Diagnostic, b: Diagnostic): number {
+  return (a.file ?? '').localeCompare(b.file ?? '') || (a.line ?? 0) - (b.line ?? 0);
+}
+
+/**
+ * Diagnostics grouped by the graph node they belong to: the helper they are
+ * about, otherwise the file they are in
+ */
+export function groupDiagnosticsByNode(diagnostics: Diagnostic[]): Map<string, Diagnostic[]> {
+  const groups = new Map<string, Diagnostic[]>();
+  diagnostics.forEach(diagnostic => {
+    const nodeId = diagnostic.helper
+      ? `helper:${diagnostic.helper}`
+      : diagnostic.file ? `file:${diagnostic.file}` : null;
+    if (nodeId) groups.set(nodeId, [...(groups.get(nodeId) || []), diagnostic]);
+  });
+  return groups;
+}
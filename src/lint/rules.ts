@@ -0,0 +1,349 @@
+import { HelmChart, LintFinding, LintRule, Reference } from '../types';
+import { getValueByPath, getYamlKeyLines } from '../parser/yaml-parser';
+import { getField, getPodSpec, getPodTemplatePath, isObject } from '../analysis/manifests';
+import { getMissingFilesAccess } from '../analysis/files-access';
+
+// Functions that give a value a fallback or make Helm fail without one
+const GUARD_FUNCTIONS = new Set(['required', 'default', 'coalesce', 'ternary']);
+
+// Actions that only test a value rather than writing it into the manifest
+const CONDITION_ACTION_REGEX = /^\{\{-?\s*(?:if|else\s+if|with|range)\b/;
+
+// Labels https://helm.sh/docs/chart_best_practices/labels/ recommends on every object
+const STANDARD_LABELS = [
+  'app.kubernetes.io/name',
+  'app.kubernetes.io/instance',
+  'app.kubernetes.io/managed-by',
+  'helm.sh/chart',
+];
+
+interface DeprecatedApi {
+  apiVersion: string;
+  kinds?: string[];       // Only these kinds moved; all kinds when omitted
+  removedIn: string;      // Kubernetes version that no longer serves it
+  replacement?: string;   // apiVersion to use instead, if any
+}
+
+// API versions removed from Kubernetes, from the deprecated API migration guide
+const DEPRECATED_APIS: DeprecatedApi[] = [
+  { apiVersion: 'extensions/v1beta1', kinds: ['Deployment', 'DaemonSet', 'ReplicaSet'], removedIn: '1.16', replacement: 'apps/v1' },
+  { apiVersion: 'extensions/v1beta1', kinds: ['NetworkPolicy'], removedIn: '1.16', replacement: 'networking.k8s.io/v1' },
+  { apiVersion: 'extensions/v1beta1', kinds: ['PodSecurityPolicy'], removedIn: '1.16', replacement: 'policy/v1beta1' },
+  { apiVersion: 'extensions/v1beta1', kinds: ['Ingress'], removedIn: '1.22', replacement: 'networking.k8s.io/v1' },
+  { apiVersion: 'extensions/v1beta1', removedIn: '1.22' },
+  { apiVersion: 'apps/v1beta1', removedIn: '1.16', replacement: 'apps/v1' },
+  { apiVersion: 'apps/v1beta2', removedIn: '1.16', replacement: 'apps/v1' },
+  { apiVersion: 'networking.k8s.io/v1beta1', removedIn: '1.22', replacement: 'networking.k8s.io/v1' },
+  { apiVersion: 'rbac.authorization.k8s.io/v1beta1', removedIn: '1.22', replacement: 'rbac.authorization.k8s.io/v1' },
+  { apiVersion: 'apiextensions.k8s.io/v1beta1', removedIn: '1.22', replacement: 'apiextensions.k8s.io/v1' },
+  { apiVersion: 'admissionregistration.k8s.io/v1beta1', removedIn: '1.22', replacement: 'admissionregistration.k8s.io/v1' },
+  { apiVersion: 'scheduling.k8s.io/v1beta1', removedIn: '1.22', replacement: 'scheduling.k8s.io/v1' },
+  { apiVersion: 'storage.k8s.io/v1beta1', kinds: ['CSIStorageCapacity'], removedIn: '1.27', replacement: 'storage.k8s.io/v1' },
+  { apiVersion: 'storage.k8s.io/v1beta1', removedIn: '1.22', replacement: 'storage.k8s.io/v1' },
+  { apiVersion: 'batch/v1beta1', removedIn: '1.25', replacement: 'batch/v1' },
+  { apiVersion: 'policy/v1beta1', kinds: ['PodSecurityPolicy'], removedIn: '1.25' },
+  { apiVersion: 'policy/v1beta1', removedIn: '1.25', replacement: 'policy/v1' },
+  { apiVersion: 'autoscaling/v2beta1', removedIn: '1.25', replacement: 'autoscaling/v2' },
+  { apiVersion: 'autoscaling/v2beta2', removedIn: '1.26', replacement: 'autoscaling/v2' },
+  { apiVersion: 'flowcontrol.apiserver.k8s.io/v1beta1', removedIn: '1.26', replacement: 'flowcontrol.apiserver.k8s.io/v1' },
+  { apiVersion: 'flowcontrol.apiserver.k8s.io/v1beta2', removedIn: '1.29', replacement: 'flowcontrol.apiserver.k8s.io/v1' },
+];
+
+// .Capabilities.APIVersions.Has "group/version" or "group/version/Kind"
+const CAPABILITIES_CHECK_REGEX = /\.Capabilities\.APIVersions\.Has\s+"([^"]+)"/g;
+
+/**
+ * Values written into a manifest with no default and nothing to stop an
+ * empty value from reaching the cluster. Paths that are tested by an
+ * if/with/range in the same file count as guarded.
+ */
+const requiredCriticalValues: LintRule = {
+  id: 'required-critical-values',
+  description: 'Values rendered into templates without a default should use `required`',
+  severity: 'warning',
+  check: (chart, { files }) => {
+    const findings: LintFinding[] = [];
+    const templateRefs = chart.references.filter(ref =>
+      ref.type === 'values' && !ref.source.helper && ref.range && !ref.target.path.includes('[*]') &&
+      (!files || files.has(ref.source.file))
+    );
+
+    const guarded = new Set<string>();
+    templateRefs.forEach(ref => {
+      if (isInCondition(chart, ref)) guarded.add(`${ref.source.file}:${ref.target.path}`);
+    });
+
+    const reported = new Set<string>();
+    templateRefs.forEach(ref => {
+      const key = `${ref.source.file}:${ref.target.path}`;
+      if (guarded.has(key) || reported.has(key)) return;
+      if (ref.functions?.some(fn => GUARD_FUNCTIONS.has(fn))) return;
+
+      const value = getValueByPath(chart.values.raw, ref.target.path);
+      if (value !== undefined && value !== null && value !== '') return;
+
+      reported.add(key);
+      findings.push({
+        message: `.Values.${ref.target.path} has no default; wrap it in \`required\` or give it a value`,
+        file: ref.source.file,
+        line: ref.line,
+        resource: ref.source.resource,
+      });
+    });
+
+    return findings;
+  },
+};
+
+/**
+ * Resources that pin `metadata.namespace` to a literal instead of the release namespace
+ */
+const hardcodedNamespace: LintRule = {
+  id: 'hardcoded-namespace',
+  description: 'metadata.namespace should come from .Release.Namespace, not a literal',
+  severity: 'warning',
+  check: (chart) => chart.resources
+    .filter(resource => resource.namespace && !resource.namespace.includes('{{'))
+    .map(resource => ({
+      message: `${resource.kind} sets a hard-coded namespace "${resource.namespace}"; use {{ .Release.Namespace }}`,
+      file: resource.file,
+      line: getResourceFieldLine(chart, resource.file, resource.startLine, resource.endLine, 'metadata.namespace'),
+      resource: resource.id,
+    })),
+};
+
+/**
+ * Rendered workload containers without CPU/memory limits
+ */
+const missingResourceLimits: LintRule = {
+  id: 'missing-resource-limits',
+  description: 'Containers should set resources.limits',
+  severity: 'warning',
+  check: (chart, { manifests }) => {
+    const findings: LintFinding[] = [];
+    manifests.forEach(({ resource, manifest }) => {
+      getContainers(manifest).forEach(({ container, path }) => {
+        const limits = getField(container, 'resources.limits');
+        if (isObject(limits) && Object.keys(limits).length > 0) return;
+        findings.push({
+          message: `Container "${container.name}" in ${resource.kind} has no resources.limits`,
+          file: resource.file,
+          line: getResourceFieldLine(chart, resource.file, resource.startLine, resource.endLine, `${path}.resources`, path),
+          resource: resource.id,
+        });
+      });
+    });
+    return findings;
+  },
+};
+
+/**
+ * Rendered container images tagged `latest`, or not tagged at all
+ */
+const imageLatestTag: LintRule = {
+  id: 'image-latest-tag',
+  description: 'Container images should be pinned to a tag other than latest',
+  severity: 'warning',
+  check: (chart, { manifests }) => {
+    const findings: LintFinding[] = [];
+    manifests.forEach(({ resource, manifest }) => {
+      getContainers(manifest).forEach(({ container, path }) => {
+        const image = typeof container.image === 'string' ? container.image : '';
+        if (!image || image.includes('@')) return;
+
+        const tagStart = image.lastIndexOf(':');
+        const tag = tagStart > image.lastIndexOf('/') ? image.slice(tagStart + 1) : '';
+        if (tag && tag !== 'latest') return;
+
+        findings.push({
+          message: tag
+            ? `Container "${container.name}" uses the latest tag (${image})`
+            : `Container "${container.name}" image ${image} has no tag, so it pulls latest`,
+          file: resource.file,
+          line: getResourceFieldLine(chart, resource.file, resource.startLine, resource.endLine, `${path}.image`, path),
+          resource: resource.id,
+        });
+      });
+    });
+    return findings;
+  },
+};
+
+/**
+ * Helpers that no include or template action uses
+ */
+const unusedHelper: LintRule = {
+  id: 'unused-helper',
+  description: 'Helpers should be included somewhere',
+  severity: 'info',
+  check: (chart) => {
+    const used = new Set(chart.references
+      .filter(ref => ref.type === 'include' || ref.type === 'template')
+      .map(ref => ref.target.path));
+
+    return chart.helpers
+      .filter(helper => !used.has(helper.name))
+      .map(helper => ({
+        message: `Helper "${helper.name}" is defined but never included`,
+        file: helper.file,
+        line: helper.line,
+        helper: helper.name,
+      }));
+  },
+};
+
+/**
+ * Rendered resources missing the labels Helm's best practices recommend
+ */
+const missingStandardLabels: LintRule = {
+  id: 'missing-standard-labels',
+  description: `Resources should carry the standard labels (${STANDARD_LABELS.join(', ')})`,
+  severity: 'info',
+  check: (_chart, { manifests }) => manifests.flatMap(({ resource, manifest }) => {
+    if (!manifest) return [];
+    const labels = getField(manifest, 'metadata.labels');
+    const missing = STANDARD_LABELS.filter(label => !isObject(labels) || !(label in labels));
+    if (missing.length === 0) return [];
+    return [{
+      message: `${resource.kind} is missing standard labels: ${missing.join(', ')}`,
+      file: resource.file,
+      line: resource.startLine,
+      resource: resource.id,
+    }];
+  }),
+};
+
+/**
+ * Resources written against API versions Kubernetes no longer serves, and
+ * `.Capabilities.APIVersions.Has` checks for them
+ */
+const deprecatedApi: LintRule = {
+  id: 'deprecated-api',
+  description: 'Resources and capability checks should not use removed API versions',
+  severity: 'error',
+  check: (chart, { manifests }) => {
+    const findings: LintFinding[] = [];
+
+    manifests.forEach(({ resource, manifest }) => {
+      const apiVersion = typeof manifest?.apiVersion === 'string'
+        ? manifest.apiVersion
+        : resource.apiVersion && !resource.apiVersion.includes('{{') ? resource.apiVersion : undefined;
+      const deprecated = apiVersion && findDeprecatedApi(apiVersion, resource.kind);
+      if (!deprecated) return;
+
+      findings.push({
+        message: `${resource.kind} uses ${apiVersion}, removed in Kubernetes ${deprecated.removedIn}${
+          deprecated.replacement ? `; use ${deprecated.replacement}` : ''
+        }`,
+        file: resource.file,
+        line: getResourceFieldLine(chart, resource.file, resource.startLine, resource.endLine, 'apiVersion'),
+        resource: resource.id,
+      });
+    });
+
+    chart.files
+      .filter(file => file.type === 'template' || file.type === 'helper')
+      .forEach(file => {
+        for (const match of file.content.matchAll(CAPABILITIES_CHECK_REGEX)) {
+          const [group, version, kind] = splitCapability(match[1]);
+          const apiVersion = group ? `${group}/${version}` : version;
+          const deprecated = findDeprecatedApi(apiVersion, kind);
+          if (!deprecated) continue;
+
+          findings.push({
+            message: `Checks .Capabilities for ${match[1]}, which was removed in Kubernetes ${deprecated.removedIn}`,
+            file: file.path,
+            line: file.content.slice(0, match.index).split('\n').length,
+          });
+        }
+      });
+
+    return findings;
+  },
+};
+
+/**
+ * `.Files` paths and globs that match none of the chart's files, which
+ * render as empty strings rather than failing
+ */
+const missingChartFile: LintRule = {
+  id: 'missing-chart-file',
+  description: '.Files.Get and .Files.Glob should read files that exist in the chart',
+  severity: 'warning',
+  check: (chart) => getMissingFilesAccess(chart).map(({ reference, method, pattern }) => ({
+    message: method === 'Glob'
+      ? `.Files.Glob "${pattern}" matches no chart files`
+      : `.Files.${method} "${pattern}" reads a file that is not in the chart`,
+    file: reference.source.file,
+    line: reference.line,
+    helper: reference.source.helper,
+  })),
+};
+
+export const BUILT_IN_RULES: LintRule[] = [
+  requiredCriticalValues,
+  hardcodedNamespace,
+  missingResourceLimits,
+  imageLatestTag,
+  unusedHelper,
+  missingStandardLabels,
+  deprecatedApi,
+  missingChartFile,
+];
+
+/**
+ * Whether a reference sits in an if/with/range action rather than being output
+ */
+function isInCondition(chart: HelmChart, ref: Reference): boolean {
+  const file = chart.files.find(f => f.path === ref.source.file);
+  if (!file || !ref.range) return false;
+  const actionStart = file.content.lastIndexOf('{{', ref.range.start.offset);
+  return actionStart !== -1 && CONDITION_ACTION_REGEX.test(file.content.slice(actionStart, ref.range.start.offset));
+}
+
+/**
+ * Line of the first of `paths` found within a resource's document, falling
+ * back to the document start
+ */
+function getResourceFieldLine(chart: HelmChart, filePath: string, startLine: number, endLine: number, ...paths: string[]): number {
+  const file = chart.files.find(f => f.path === filePath);
+  if (!file) return startLine;
+  const documentLines = file.content.split('\n').slice(startLine - 1, endLine);
+  const keyLines = getYamlKeyLines(documentLines.join('\n'));
+  const line = paths.map(path => keyLines.get(path)).find(found => found !== undefined);
+  return line === undefined ? startLine : startLine + line - 1;
+}
+
+/**
+ * Containers and init containers of a rendered workload, with their path
+ * in the manifest (e.g. "spec.template.spec.containers[1]")
+ */
+function getContainers(manifest: Record<string, unknown> | null): { container: Record<string, unknown>; path: string }[] {
+  const podSpec = manifest && getPodSpec(manifest);
+  if (!podSpec) return [];
+  const podTemplate = getPodTemplatePath(String(manifest.kind));
+  const specPath = podTemplate ? `${podTemplate}.spec` : 'spec';
+  return ['initContainers', 'containers'].flatMap(field => {
+    const containers = podSpec[field];
+    if (!Array.isArray(containers)) return [];
+    return containers
+      .map((container, index) => ({ container, path: `${specPath}.${field}[${index}]` }))
+      .filter((entry): entry is { container: Record<string, unknown>; path: string } => isObject(entry.container));
+  });
+}
+
+/**
+ * Split "group/version" or "group/version/Kind" (core APIs have no group)
+ */
+function splitCapability(text: string): [string, string, string | undefined] {
+  const parts = text.split('/');
+  if (parts.length === 3) return [parts[0], parts[1], parts[2]];
+  if (/^v\d/.test(parts[0])) return ['', parts[0], parts[1]];
+  return [parts[0], parts[1], undefined];
+}
+
+function findDeprecatedApi(apiVersion: string, kind?: string): DeprecatedApi | undefined {
+  return DEPRECATED_APIS.find(api =>
+    api.apiVersion === apiVersion && (!api.kinds || (kind !== undefined && api.kinds.includes(kind)))
+  );
+}
@@ -0,0 +1,112 @@
+/**
+ * Check whether a path points to a packaged chart archive
+ */
+export function isChartArchive(path: string): boolean {
+  const lowerPath = path.toLowerCase();
+  return lowerPath.endsWith('.tgz') || lowerPath.endsWith('.tar.gz');
+}
+
+/**
+ * Extract a packaged chart (`helm package` output) into a map of file paths
+ * to contents. Packaged dependencies under charts/*.tgz are unpacked in place
+ * as charts/<name>/..., so the result can go straight into parseHelmChart.
+ */
+export async function extractChartArchive(data: ArrayBuffer | Uint8Array): Promise<Map<string, string>> {
+  const tar = await gunzip(data);
+  const files = new Map<string, string>();
+  const decoder = new TextDecoder();
+
+  for (const entry of readTarEntries(tar)) {
+    if (isChartArchive(entry.path)) {
+      // charts/postgresql-12.0.0.tgz contains postgresql/..., which lands in charts/postgresql/...
+      const directory = entry.path.split('/').slice(0, -1).join('/');
+      const nested = await extractChartArchive(entry.data);
+      nested.forEach((content, path) => {
+        files.set(directory ? `${directory}/${path}` : path, content);
+      });
+      continue;
+    }
+
+    files.set(entry.path, decoder.decode(entry.data));
+  }
+
+  return files;
+}
+
+/**
+ * Decompress gzip data with the platform DecompressionStream
+ */
+async function gunzip(data: ArrayBuffer | Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([new Uint8Array(data)]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+interface TarEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+const TAR_BLOCK_SIZE = 512;
+
+/**
+ * Read the regular files out of a ustar archive, honouring pax (`x`) and
+ * GNU long name (`L`) headers
+ */
+function readTarEntries(tar: Uint8Array): TarEntry[] {
+  const entries: TarEntry[] = [];
+  let offset = 0;
+  let pendingPath: string | null = null;
+
+  while (offset + TAR_BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + TAR_BLOCK_SIZE);
+
+    // Two zero blocks mark the end of the archive
+    if (header.every(byte => byte === 0)) break;
+
+    const name = readString(header, 0, 100);
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+    const typeFlag = String.fromCharCode(header[156]);
+    const prefix = readString(header, 345, 155);
+    const dataStart = offset + TAR_BLOCK_SIZE;
+    const data = tar.subarray(dataStart, dataStart + size);
+
+    offset = dataStart + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+    if (typeFlag === 'x') {
+      pendingPath = readPaxPath(data) ?? pendingPath;
+      continue;
+    }
+    if (typeFlag === 'L') {
+      pendingPath = new TextDecoder().decode(data).replace(/\0+$/, '');
+      continue;
+    }
+
+    const path = pendingPath ?? (prefix ? `${prefix}/${name}` : name);
+    pendingPath = null;
+
+    // Only regular files ('0', or NUL in old archives)
+    if (typeFlag === '0' || typeFlag === '\0') {
+      entries.push({ path, data });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Read a NUL-terminated ASCII field from a tar header
+ */
+function readString(header: Uint8Array, start: number, length: number): string {
+  const field = header.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? field : field.subarray(0, end));
+}
+
+/**
+ * Find the `path` record in a pax extended header ("<len> path=<value>\n" records)
+ */
+function readPaxPath(data: Uint8Array): string | null {
+  const text = new TextDecoder().decode(data);
+  const match = text.match(/(?:^|\n)\d+ path=([^\n]*)\n/);
+  return match ? match[1] : null;
+}
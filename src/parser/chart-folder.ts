@@ -0,0 +1,152 @@
+import { extractChartArchive, isChartArchive } from './chart-archive';
+
+// How often a watched folder is checked for changes
+const POLL_INTERVAL_MS = 1000;
+
+// What was read from one file on disk; an archive yields all the files it contains
+interface DiskFile {
+  lastModified: number;
+  size: number;
+  files: Map<string, string>;
+}
+
+// Files of a folder by their path on disk, relative to the folder
+export type FolderSnapshot = Map<string, DiskFile>;
+
+export interface WatchedFolder {
+  handle: FileSystemDirectoryHandle;
+  snapshot: FolderSnapshot;
+}
+
+export interface FolderWatcher {
+  stop: () => void;
+}
+
+/**
+ * Whether the browser can open folders through the File System Access API
+ * (Chromium-based browsers)
+ */
+export function supportsFolderAccess(): boolean {
+  return typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+}
+
+/**
+ * Ask the user for a chart folder. Rejects with an AbortError when the
+ * dialog is cancelled.
+ */
+export function pickChartFolder(): Promise<FileSystemDirectoryHandle> {
+  const picker = (window as unknown as {
+    showDirectoryPicker: (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+  }).showDirectoryPicker;
+  return picker({ mode: 'read' });
+}
+
+/**
+ * Read every file of a folder, unpacking .tgz archives in place like a
+ * dropped folder. Files whose modification time and size match `previous`
+ * are not read again.
+ */
+export async function readChartFolder(
+  handle: FileSystemDirectoryHandle,
+  previous?: FolderSnapshot
+): Promise<FolderSnapshot> {
+  const snapshot: FolderSnapshot = new Map();
+
+  const readDirectory = async (directory: FileSystemDirectoryHandle, prefix: string) => {
+    for await (const entry of directory.values()) {
+      // .git and other hidden folders are never part of a chart
+      if (entry.name.startsWith('.') && entry.kind === 'directory') continue;
+      const path = `${prefix}${entry.name}`;
+
+      if (entry.kind === 'directory') {
+        await readDirectory(entry as FileSystemDirectoryHandle, `${path}/`);
+        continue;
+      }
+
+      const file = await (entry as FileSystemFileHandle).getFile();
+      const known = previous?.get(path);
+      if (known && known.lastModified === file.lastModified && known.size === file.size) {
+        snapshot.set(path, known);
+        continue;
+      }
+      snapshot.set(path, {
+        lastModified: file.lastModified,
+        size: file.size,
+        files: await readDiskFile(handle.name, path, file),
+      });
+    }
+  };
+
+  await readDirectory(handle, '');
+  return snapshot;
+}
+
+/**
+ * The chart files in a snapshot, keyed like the paths of a dropped folder
+ */
+export function getSnapshotFiles(snapshot: FolderSnapshot): Map<string, string> {
+  const files = new Map<string, string>();
+  snapshot.forEach(diskFile => diskFile.files.forEach((content, path) => files.set(path, content)));
+  return files;
+}
+
+/**
+ * Poll a folder and report the files that were changed, added or (as null)
+ * deleted since the last check. Polling stops on the first error, e.g. when
+ * the folder is removed or access to it is revoked.
+ */
+export function watchChartFolder(
+  folder: WatchedFolder,
+  onChange: (changes: Map<string, string | null>) => void,
+  onError: (error: unknown) => void
+): FolderWatcher {
+  let snapshot = folder.snapshot;
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const poll = async () => {
+    try {
+      const next = await readChartFolder(folder.handle, snapshot);
+      if (stopped) return;
+      const changes = diffFiles(getSnapshotFiles(snapshot), getSnapshotFiles(next));
+      snapshot = next;
+      if (changes.size > 0) onChange(changes);
+    } catch (error) {
+      if (!stopped) onError(error);
+      return;
+    }
+    if (!stopped) timer = setTimeout(poll, POLL_INTERVAL_MS);
+  };
+  timer = setTimeout(poll, POLL_INTERVAL_MS);
+
+  return {
+    stop: () => {
+      stopped = true;
+      clearTimeout(timer);
+    },
+  };
+}
+
+async function readDiskFile(folderName: string, path: string, file: File): Promise<Map<string, string>> {
+  if (!isChartArchive(path)) {
+    return new Map([[`/${folderName}/${path}`, await file.text()]]);
+  }
+
+  // Packaged charts are unpacked next to where the archive sits, as when dropped
+  const directory = [folderName, ...path.split('/').slice(0, -1)].join('/');
+  const files = new Map<string, string>();
+  const archiveFiles = await extractChartArchive(await file.arrayBuffer());
+  archiveFiles.forEach((content, archivePath) => files.set(`/${directory}/${archivePath}`, content));
+  return files;
+}
+
+function diffFiles(previous: Map<string, string>, next: Map<string, string>): Map<string, string | null> {
+  const changes = new Map<string, string | null>();
+  next.forEach((content, path) => {
+    if (previous.get(path) !== content) changes.set(path, content);
+  });
+  previous.forEach((_, path) => {
+    if (!next.has(path)) changes.set(path, null);
+  });
+  return changes;
+}
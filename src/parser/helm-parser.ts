@@ -1,21 +1,117 @@
-import { HelmChart, HelmFile, FileType, Reference, HelperDefinition, ValuesData, ChartYaml } from '../types';
-import { parseChartYaml, parseValuesYaml } from './yaml-parser';
+import { HelmChart, HelmFile, FileType, Reference, HelperDefinition, ValuesData, ChartYaml, ChartDependency, ValueImpact, ValuesLayer, ValuesOverrides, JsonSchema, KubernetesResource, ParseOptions, ParsedFile, ChartParseCache } from '../types';
+import { parseChartYaml, parseValuesYaml, createLayeredValuesData, mergeValues, getValueByPath } from './yaml-parser';
 import { extractReferences, extractHelperDefinitions } from './template-parser';
+import { parseSetArgument } from './set-values';
+import { parseValuesSchema, applyValuesSchema } from './schema-parser';
+import { parseKubernetesResources, assignReferenceResources } from './resource-parser';
+
+// State shared by the charts and subcharts of one parse
+interface ParseContext {
+  cache?: ChartParseCache;
+  visited: Set<string>;
+  done: number;
+  total: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Parse a Helm chart from a map of file paths to contents, optionally
+ * layering extra values files and --set overrides over the chart defaults.
+ * With a cache, templates and helpers whose content did not change since
+ * the previous parse reuse their references, resources and definitions.
+ */
+export function parseHelmChart(
+  files: Map<string, string>,
+  overrides?: ValuesOverrides,
+  options: ParseOptions = {}
+): HelmChart {
+  const chartFiles = normalizeChartPaths(files);
+  const context: ParseContext = {
+    cache: options.cache,
+    visited: new Set(),
+    done: 0,
+    total: chartFiles.size,
+    onProgress: options.onProgress,
+  };
+  const chart = parseChartFiles(chartFiles, context, '');
+
+  // Drop files that were removed or changed since the last parse
+  options.cache?.forEach((_, key) => {
+    if (!context.visited.has(key)) options.cache!.delete(key);
+  });
+  options.onProgress?.(context.total, context.total);
+
+  if (overrides) {
+    applyValuesOverrides(chart, overrides);
+  }
+  applyParentValues(chart);
+  applySchemas(chart);
+  return chart;
+}
+
+/**
+ * Check whether a chart-relative path is the chart's default values file
+ */
+export function isDefaultValuesFile(path: string): boolean {
+  return path === 'values.yaml' || path === 'values.yml';
+}
 
 /**
- * Parse a Helm chart from a map of file paths to contents
+ * Layer `-f` files and then `--set` arguments over the chart defaults, as
+ * `helm install -f a.yaml -f b.yaml --set x=y` does. Throws on a malformed
+ * --set argument.
  */
-export function parseHelmChart(files: Map<string, string>): HelmChart {
+function applyValuesOverrides(chart: HelmChart, overrides: ValuesOverrides): void {
+  const layers: ValuesLayer[] = [
+    ...chart.valuesLayers,
+    ...overrides.files.map((file): ValuesLayer => ({
+      source: file.name,
+      kind: 'file',
+      raw: parseValuesYaml(file.content).raw,
+    })),
+    ...overrides.set
+      .map(argument => argument.trim())
+      .filter(Boolean)
+      .map((argument): ValuesLayer => ({
+        source: argument.startsWith('--set') ? argument : `--set ${argument}`,
+        kind: 'set',
+        raw: parseSetArgument(argument),
+      })),
+  ];
+
+  chart.valuesLayers = layers;
+  chart.values = createLayeredValuesData(layers);
+}
+
+/**
+ * Parse a chart whose file paths are already relative to its root. `prefix`
+ * is the chart's folder within the top-level chart, keying the cache.
+ */
+function parseChartFiles(files: Map<string, string>, context: ParseContext, prefix: string): HelmChart {
   const helmFiles: HelmFile[] = [];
   let chartYaml: ChartYaml | null = null;
   let values: ValuesData = { raw: {}, flatKeys: [] };
+  let schema: JsonSchema | null = null;
   const allReferences: Reference[] = [];
   const allHelpers: HelperDefinition[] = [];
+  const allResources: KubernetesResource[] = [];
+  const subchartFiles = new Map<string, Map<string, string>>();
+
+  // Parse each file
+  for (const [path, content] of files.entries()) {
+    // Files of vendored subcharts are parsed as charts of their own
+    const subchartMatch = path.match(/^charts\/([^/]+)\/(.+)$/);
+    if (subchartMatch) {
+      const [, directory, subPath] = subchartMatch;
+      const subFiles = subchartFiles.get(directory) || new Map<string, string>();
+      subFiles.set(subPath, content);
+      subchartFiles.set(directory, subFiles);
+      continue;
+    }
+
+    context.done++;
+    context.onProgress?.(context.done, context.total);
 
-  // Normalize paths and parse each file
-  for (const [rawPath, content] of files.entries()) {
-    // Normalize the path (remove leading slashes, handle different OS paths)
-    const path = normalizePath(rawPath);
     const name = getFileName(path);
     const fileType = determineFileType(path);
 
@@ -37,26 +133,23 @@ export function parseHelmChart(files: Map<string, string>): HelmChart {
         break;
       
       case 'values':
-        values = parseValuesYaml(content);
+        // Overlays like values-prod.yaml are only applied when chosen
+        if (isDefaultValuesFile(path)) {
+          values = parseValuesYaml(content);
+        }
         break;
       
-      case 'template':
-        const templateRefs = extractReferences(content, path);
-        allReferences.push(...templateRefs);
+      case 'schema':
+        schema = parseValuesSchema(content);
         break;
       
+      case 'template':
       case 'helper':
-        const helpers = extractHelperDefinitions(content, path);
-        allHelpers.push(...helpers);
-        // Also extract references from helpers
-        const helperRefs = extractReferences(content, path);
-        allReferences.push(...helperRefs);
-        break;
-      
       case 'notes':
-        // NOTES.txt can also have template expressions
-        const notesRefs = extractReferences(content, path);
-        allReferences.push(...notesRefs);
+        const parsed = parseTemplateFile(`${prefix}${path}`, path, fileType, content, context);
+        allReferences.push(...parsed.references);
+        allResources.push(...parsed.resources);
+        allHelpers.push(...parsed.helpers);
         break;
     }
   }
@@ -70,19 +163,208 @@ export function parseHelmChart(files: Map<string, string>): HelmChart {
     };
   }
 
+  const valuesLayers: ValuesLayer[] = [{ source: 'values.yaml', kind: 'chart', raw: values.raw }];
+
   return {
     name: chartYaml.name,
     version: chartYaml.version,
     description: chartYaml.description,
     files: helmFiles,
-    values,
+    values: createLayeredValuesData(valuesLayers),
     chartYaml,
     references: allReferences,
     helpers: allHelpers,
+    resources: allResources,
     dependencies: chartYaml.dependencies || [],
+    subcharts: parseSubcharts(subchartFiles, chartYaml.dependencies || [], context, prefix),
+    valuesLayers,
+    schema: schema ?? undefined,
   };
 }
 
+/**
+ * Parse each charts/<dir> folder that contains a Chart.yaml. A dependency
+ * listed several times under different aliases yields one subchart per alias.
+ */
+function parseSubcharts(
+  subchartFiles: Map<string, Map<string, string>>,
+  dependencies: ChartDependency[],
+  context: ParseContext,
+  prefix: string
+): HelmChart[] {
+  const subcharts: HelmChart[] = [];
+
+  for (const [directory, files] of subchartFiles.entries()) {
+    const hasChartYaml = Array.from(files.keys()).some(path => determineFileType(path) === 'chart' && !path.includes('/'));
+    if (!hasChartYaml) continue;
+
+    const path = `charts/${directory}`;
+    const subchart = parseChartFiles(files, context, `${prefix}${path}/`);
+    const matchingDeps = dependencies.filter(dep => dep.name === subchart.name);
+
+    if (matchingDeps.length === 0) {
+      // Vendored without a Chart.yaml dependency entry
+      subcharts.push({ ...subchart, subchart: { name: subchart.name, path, enabled: true } });
+      continue;
+    }
+
+    matchingDeps.forEach(dep => {
+      subcharts.push({
+        ...subchart,
+        subchart: {
+          name: dep.alias || dep.name,
+          path,
+          condition: dep.condition,
+          enabled: true,
+          dependency: dep,
+        },
+      });
+    });
+  }
+
+  return subcharts;
+}
+
+/**
+ * Extract the references, resources and helper definitions of a template,
+ * helper or NOTES.txt file, or take them from the cache when the file's
+ * content is unchanged
+ */
+function parseTemplateFile(
+  key: string,
+  path: string,
+  fileType: FileType,
+  content: string,
+  context: ParseContext
+): ParsedFile {
+  context.visited.add(key);
+  const cached = context.cache?.get(key);
+  if (cached && cached.content === content) return cached;
+
+  const parsed: ParsedFile = { content, references: [], resources: [], helpers: [] };
+  switch (fileType) {
+    case 'template':
+      // Helm registers a define wherever it appears, not only in helper files
+      parsed.helpers = extractHelperDefinitions(content, path);
+      parsed.references = extractReferences(content, path);
+      parsed.resources = parseKubernetesResources(content, path);
+      assignReferenceResources(parsed.references, parsed.resources);
+      break;
+
+    case 'helper':
+      parsed.helpers = extractHelperDefinitions(content, path);
+      // Also extract references from helpers
+      parsed.references = extractReferences(content, path);
+      break;
+
+    case 'notes':
+      // NOTES.txt can also have template expressions
+      parsed.references = extractReferences(content, path);
+      break;
+  }
+
+  context.cache?.set(key, parsed);
+  return parsed;
+}
+
+/**
+ * Push parent values down into subcharts, recursively: `.Values.<subchart>.*`
+ * overrides the subchart defaults, `global.*` is shared, and `condition`
+ * is evaluated against the parent values
+ */
+function applyParentValues(chart: HelmChart): void {
+  const parentValues = chart.values.raw;
+  const parentGlobals = asValuesObject(parentValues.global);
+
+  chart.subcharts.forEach(subchart => {
+    const info = subchart.subchart!;
+    const ownValues = subchart.values.raw;
+
+    const overrides = { ...asValuesObject(parentValues[info.name]) };
+    const globals = mergeValues(asValuesObject(ownValues.global), parentGlobals);
+    if (Object.keys(globals).length > 0) {
+      overrides.global = globals;
+    }
+
+    subchart.valuesLayers = [
+      ...subchart.valuesLayers,
+      { source: `${chart.name} values`, kind: 'parent', raw: overrides },
+    ];
+    subchart.values = createLayeredValuesData(subchart.valuesLayers);
+    info.enabled = evaluateCondition(info.condition, parentValues);
+
+    applyParentValues(subchart);
+  });
+}
+
+/**
+ * Attach each chart's values.schema.json to its final values, recursively
+ */
+function applySchemas(chart: HelmChart): void {
+  if (chart.schema) {
+    chart.values = applyValuesSchema(chart.values, chart.schema);
+  }
+  chart.subcharts.forEach(applySchemas);
+}
+
+/**
+ * Evaluate a dependency condition: the first comma-separated path that
+ * resolves to a boolean wins; a missing condition means enabled
+ */
+function evaluateCondition(condition: string | undefined, values: Record<string, unknown>): boolean {
+  if (!condition) return true;
+
+  for (const path of condition.split(',').map(p => p.trim()).filter(Boolean)) {
+    const value = getValueByPath(values, path);
+    if (typeof value === 'boolean') return value;
+  }
+
+  return true;
+}
+
+function asValuesObject(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+}
+
+/**
+ * Re-key dropped files relative to the chart root. The root is the folder
+ * holding the shallowest Chart.yaml, so subchart Chart.yaml files under
+ * charts/ keep their place in the tree.
+ */
+function normalizeChartPaths(files: Map<string, string>): Map<string, string> {
+  const cleaned = new Map<string, string>();
+  for (const [rawPath, content] of files.entries()) {
+    cleaned.set(normalizePath(rawPath), content);
+  }
+
+  const chartRoots = Array.from(cleaned.keys())
+    .filter(path => determineFileType(path) === 'chart')
+    .map(path => path.split('/').slice(0, -1))
+    .sort((a, b) => a.length - b.length);
+
+  const result = new Map<string, string>();
+
+  if (chartRoots.length === 0) {
+    // No Chart.yaml: assume the first folder is the dropped chart folder
+    for (const [path, content] of cleaned.entries()) {
+      const parts = path.split('/');
+      result.set(parts.length > 1 ? parts.slice(1).join('/') : path, content);
+    }
+    return result;
+  }
+
+  const rootPrefix = chartRoots[0].length > 0 ? `${chartRoots[0].join('/')}/` : '';
+  for (const [path, content] of cleaned.entries()) {
+    // Files outside the chart root are not part of the chart
+    if (path.startsWith(rootPrefix)) {
+      result.set(path.slice(rootPrefix.length), content);
+    }
+  }
+  return result;
+}
+
 /**
  * Normalize file path for consistent handling
  */
@@ -93,30 +375,6 @@ function normalizePath(path: string): string {
   // Convert backslashes to forward slashes
   normalized = normalized.replace(/\\/g, '/');
   
-  // Remove the root folder name if present (the dropped folder name)
-  const parts = normalized.split('/');
-  if (parts.length > 1) {
-    // Keep the path relative to the chart root
-    // e.g., "mychart/templates/deployment.yaml" -> "templates/deployment.yaml"
-    const chartIndicators = ['Chart.yaml', 'Chart.yml', 'values.yaml', 'values.yml', 'templates'];
-    const hasChartIndicator = parts.some(p => chartIndicators.includes(p));
-    
-    if (hasChartIndicator && parts.length > 1) {
-      // Find where the chart root starts
-      const chartYamlIndex = parts.findIndex(p => 
-        p === 'Chart.yaml' || p === 'Chart.yml'
-      );
-      
-      if (chartYamlIndex > 0) {
-        // Remove folders before Chart.yaml
-        normalized = parts.slice(chartYamlIndex - 1 + 1).join('/');
-      } else {
-        // Just remove the first folder (assumed to be the chart folder name)
-        normalized = parts.slice(1).join('/');
-      }
-    }
-  }
-  
   return normalized;
 }
 
@@ -143,6 +401,10 @@ function determineFileType(path: string): FileType {
     return 'values';
   }
   
+  if (fileName === 'values.schema.json') {
+    return 'schema';
+  }
+  
   if (fileName.endsWith('.tpl')) {
     return 'helper';
   }
@@ -155,6 +417,11 @@ function determineFileType(path: string): FileType {
     return 'template';
   }
   
+  // Values overlays: values-prod.yaml, values.staging.yaml, prod-values.yaml, ci/*.yaml
+  if (/^values[-._].+\.ya?ml$/.test(fileName) || /[-._]values\.ya?ml$/.test(fileName) || /^ci\/[^/]+\.ya?ml$/.test(lowerPath)) {
+    return 'values';
+  }
+  
   return 'other';
 }
 
@@ -165,9 +432,10 @@ function isRelevantFile(path: string): boolean {
   const lowerPath = path.toLowerCase();
   const fileName = getFileName(path).toLowerCase();
   
-  // Include Chart.yaml and values.yaml
+  // Include Chart.yaml, values.yaml and values overlays
   if (fileName === 'chart.yaml' || fileName === 'chart.yml') return true;
-  if (fileName === 'values.yaml' || fileName === 'values.yml') return true;
+  if (determineFileType(path) === 'values') return true;
+  if (fileName === 'values.schema.json') return true;
   
   // Include template files
   if (lowerPath.includes('templates/')) {
@@ -177,12 +445,13 @@ function isRelevantFile(path: string): boolean {
   }
   
   // Exclude hidden files and directories
-  if (fileName.startsWith('.')) return false;
+  if (path.split('/').some(segment => segment.startsWith('.'))) return false;
   
   // Exclude charts directory (subcharts have their own parsing)
   if (lowerPath.includes('charts/')) return false;
   
-  return false;
+  // Other chart files, e.g. files/ or config/*.conf, are readable through .Files
+  return !lowerPath.includes('templates/');
 }
 
 /**
@@ -218,6 +487,13 @@ export function getReferencesFromFile(chart: HelmChart, filePath: string): Refer
   return chart.references.filter(ref => ref.source.file === filePath);
 }
 
+/**
+ * Find references made from inside a specific helper definition
+ */
+export function getReferencesFromHelper(chart: HelmChart, helperName: string): Reference[] {
+  return chart.references.filter(ref => ref.source.helper === helperName);
+}
+
 /**
  * Find references to a specific value path
  */
@@ -237,3 +513,73 @@ export function getReferencesToHelper(chart: HelmChart, helperName: string): Ref
   );
 }
 
+/**
+ * Find the given helpers plus every helper that transitively includes one of them
+ */
+export function getTransitiveHelperCallers(chart: HelmChart, helperNames: string[]): string[] {
+  const visited = new Set<string>(helperNames);
+  const queue = [...helperNames];
+  
+  while (queue.length > 0) {
+    const name = queue.shift()!;
+    getReferencesToHelper(chart, name).forEach(ref => {
+      const caller = ref.source.helper;
+      if (caller && !visited.has(caller)) {
+        visited.add(caller);
+        queue.push(caller);
+      }
+    });
+  }
+  
+  return Array.from(visited);
+}
+
+/**
+ * Work out everything that changes when a value changes: the helpers that
+ * read it (through any number of includes) and the templates that use it
+ * directly or include one of those helpers
+ */
+export function getValueImpact(chart: HelmChart, valuePath: string): ValueImpact {
+  const references = chart.references.filter(ref =>
+    ref.type === 'values' && areValuePathsRelated(ref.target.path, valuePath)
+  );
+  
+  const directHelpers = new Set<string>();
+  references.forEach(ref => {
+    if (ref.source.helper) directHelpers.add(ref.source.helper);
+  });
+  const helpers = getTransitiveHelperCallers(chart, Array.from(directHelpers));
+  
+  const files = new Set<string>();
+  const resources = new Set<string>();
+  const addTemplateReference = (ref: Reference) => {
+    files.add(ref.source.file);
+    if (ref.source.resource) resources.add(ref.source.resource);
+  };
+  references
+    .filter(ref => !ref.source.helper)
+    .forEach(addTemplateReference);
+  helpers.forEach(helper => {
+    getReferencesToHelper(chart, helper)
+      .filter(ref => !ref.source.helper)
+      .forEach(addTemplateReference);
+  });
+  
+  return {
+    valuePath,
+    references,
+    helpers: helpers.sort(),
+    files: Array.from(files).sort(),
+    resources: Array.from(resources).sort(),
+  };
+}
+
+/**
+ * Whether two value paths overlap, i.e. one is the other or contains it
+ * (`image` and `image.tag`, `ingress.hosts` and `ingress.hosts[*].host`)
+ */
+function areValuePathsRelated(a: string, b: string): boolean {
+  const contains = (parent: string, child: string) =>
+    child.startsWith(`${parent}.`) || child.startsWith(`${parent}[`);
+  return a === b || contains(a, b) || contains(b, a);
+}
@@ -0,0 +1,67 @@
+import { KubernetesResource, Reference } from '../types';
+import { getYamlKeyLines, getYamlScalarText } from './yaml-parser';
+
+// A YAML document separator, optionally followed by a comment
+const DOCUMENT_SEPARATOR_REGEX = /^---\s*(?:#.*)?$/;
+
+/**
+ * Find the Kubernetes objects a template emits: one per `---` document that
+ * has a top-level `kind`. Fields may be templated, in which case the
+ * expression is kept as written (e.g. `{{ include "app.fullname" . }}`).
+ */
+export function parseKubernetesResources(content: string, filePath: string): KubernetesResource[] {
+  const resources: KubernetesResource[] = [];
+  const lines = content.split('\n');
+  let documentStart = 0;
+  let index = 0;
+
+  const addDocument = (start: number, end: number) => {
+    if (end <= start) return;
+
+    const documentLines = lines.slice(start, end);
+    const keyLines = getYamlKeyLines(documentLines.join('\n'));
+    const field = (path: string) => {
+      const line = keyLines.get(path);
+      return line === undefined ? undefined : getYamlScalarText(documentLines[line - 1]);
+    };
+
+    const kind = field('kind');
+    if (kind) {
+      resources.push({
+        id: `${filePath}#${index}`,
+        file: filePath,
+        index,
+        kind,
+        apiVersion: field('apiVersion'),
+        name: field('metadata.name'),
+        namespace: field('metadata.namespace'),
+        startLine: start + 1,
+        endLine: end,
+      });
+      index++;
+    }
+  };
+
+  lines.forEach((line, i) => {
+    if (DOCUMENT_SEPARATOR_REGEX.test(line)) {
+      addDocument(documentStart, i);
+      documentStart = i + 1;
+    }
+  });
+  addDocument(documentStart, lines.length);
+
+  return resources;
+}
+
+/**
+ * Tag each template reference with the resource whose document contains it
+ */
+export function assignReferenceResources(references: Reference[], resources: KubernetesResource[]): void {
+  references.forEach(ref => {
+    if (ref.source.helper || ref.line === undefined) return;
+    const resource = resources.find(r =>
+      r.file === ref.source.file && ref.line! >= r.startLine && ref.line! <= r.endLine
+    );
+    if (resource) ref.source.resource = resource.id;
+  });
+}
@@ -0,0 +1,175 @@
+import { JsonSchema, JsonSchemaType, ValuesData, ValueSchemaInfo } from '../types';
+import { splitValuePath } from './yaml-parser';
+
+export interface ResolvedSchema {
+  schema: JsonSchema;
+  required: boolean;      // Listed in the parent object's `required`
+}
+
+// Guards against $ref cycles
+const MAX_REF_DEPTH = 32;
+
+/**
+ * Parse values.schema.json content; invalid JSON yields null
+ */
+export function parseValuesSchema(content: string): JsonSchema | null {
+  try {
+    const parsed = JSON.parse(content);
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed as JsonSchema : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Attach the schema of each key to the values' flat keys
+ */
+export function applyValuesSchema(values: ValuesData, schema: JsonSchema): ValuesData {
+  return {
+    raw: values.raw,
+    flatKeys: values.flatKeys.map(key => {
+      const resolved = resolveValueSchema(schema, key.path);
+      return resolved ? { ...key, schema: describeSchema(resolved) } : key;
+    }),
+  };
+}
+
+/**
+ * Find the schema for a value path such as "ingress.hosts[0].host" or
+ * "ingress.hosts[*].host", following properties, items, additionalProperties,
+ * patternProperties, local $refs and allOf/anyOf/oneOf
+ */
+export function resolveValueSchema(root: JsonSchema, path: string): ResolvedSchema | null {
+  return walkSchema(root, path).resolved;
+}
+
+/**
+ * Whether the schema rules out a value path, i.e. some object along it has
+ * `additionalProperties: false` and does not declare the key
+ */
+export function isPathForbidden(root: JsonSchema, path: string): boolean {
+  return walkSchema(root, path).forbidden;
+}
+
+/**
+ * Summarize a resolved schema for display on value nodes
+ */
+export function describeSchema(resolved: ResolvedSchema): ValueSchemaInfo {
+  const { schema, required } = resolved;
+  return {
+    type: getSchemaTypes(schema),
+    description: schema.description ?? schema.title,
+    enum: schema.enum,
+    default: schema.default,
+    required,
+  };
+}
+
+/**
+ * The schema's `type` as a list, or undefined when it allows anything
+ */
+export function getSchemaTypes(schema: JsonSchema): JsonSchemaType[] | undefined {
+  if (schema.type === undefined) return undefined;
+  return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+function walkSchema(root: JsonSchema, path: string): { resolved: ResolvedSchema | null; forbidden: boolean } {
+  let current: ResolvedSchema = { schema: flattenSchema(root, root), required: false };
+
+  for (const segment of splitValuePath(path)) {
+    const child = resolveChild(root, current.schema, segment);
+    if (!child) {
+      const forbidden = current.schema.additionalProperties === false && !segment.startsWith('[');
+      return { resolved: null, forbidden };
+    }
+    current = child;
+  }
+
+  return { resolved: current, forbidden: false };
+}
+
+function resolveChild(root: JsonSchema, schema: JsonSchema, segment: string): ResolvedSchema | null {
+  if (segment.startsWith('[')) {
+    const { items } = schema;
+    if (Array.isArray(items)) {
+      const tupleItem = items[segment === '[*]' ? 0 : Number(segment.slice(1, -1))];
+      return tupleItem ? { schema: flattenSchema(root, tupleItem), required: false } : null;
+    }
+    if (items) return { schema: flattenSchema(root, items), required: false };
+    // `range` over a map: [*] stands for any key
+    if (segment === '[*]' && typeof schema.additionalProperties === 'object') {
+      return { schema: flattenSchema(root, schema.additionalProperties), required: false };
+    }
+    return null;
+  }
+
+  const required = schema.required?.includes(segment) ?? false;
+  const property = schema.properties?.[segment];
+  if (property) return { schema: flattenSchema(root, property), required };
+
+  for (const [pattern, patternSchema] of Object.entries(schema.patternProperties ?? {})) {
+    if (safeRegExp(pattern)?.test(segment)) return { schema: flattenSchema(root, patternSchema), required };
+  }
+  if (typeof schema.additionalProperties === 'object') {
+    return { schema: flattenSchema(root, schema.additionalProperties), required };
+  }
+
+  // The first alternative that knows the key
+  for (const branch of [...(schema.anyOf ?? []), ...(schema.oneOf ?? [])]) {
+    const resolved = resolveChild(root, flattenSchema(root, branch), segment);
+    if (resolved) return resolved;
+  }
+  return null;
+}
+
+/**
+ * Resolve $ref and fold allOf into a single schema
+ */
+function flattenSchema(root: JsonSchema, schema: JsonSchema, depth = 0): JsonSchema {
+  if (depth > MAX_REF_DEPTH) return {};
+
+  let result = schema;
+  if (schema.$ref) {
+    const { $ref, ...rest } = schema;
+    const target = resolveRef(root, $ref);
+    result = target ? { ...flattenSchema(root, target, depth + 1), ...rest } : rest;
+  }
+
+  if (result.allOf) {
+    const { allOf, ...rest } = result;
+    result = allOf.reduce<JsonSchema>((merged, part) => {
+      const flat = flattenSchema(root, part, depth + 1);
+      return {
+        ...flat,
+        ...merged,
+        properties: { ...flat.properties, ...merged.properties },
+        required: [...(merged.required ?? []), ...(flat.required ?? [])],
+      };
+    }, rest);
+  }
+
+  return result;
+}
+
+/**
+ * Follow a local JSON pointer such as "#/definitions/image" or "#/$defs/port"
+ */
+function resolveRef(root: JsonSchema, ref: string): JsonSchema | null {
+  if (!ref.startsWith('#')) return null;
+
+  let current: unknown = root;
+  for (const token of ref.slice(1).split('/').filter(Boolean)) {
+    const key = decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~');
+    if (typeof current !== 'object' || current === null) return null;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return typeof current === 'object' && current !== null ? current as JsonSchema : null;
+}
+
+function safeRegExp(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return null;
+  }
+}
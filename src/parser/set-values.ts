@@ -0,0 +1,144 @@
+type PathSegment = string | number;
+
+/**
+ * Parse a `--set` style argument into a values object, following Helm's
+ * strvals rules: `a.b=c,d[0]=e`, `list={x,y}`, `\,` `\.` `\=` escapes,
+ * and typed scalars (true/false, null, integers; everything else, including
+ * floats, is a string). A leading `--set ` or `--set-string ` is accepted;
+ * --set-string keeps every value a string.
+ */
+export function parseSetArgument(argument: string): Record<string, unknown> {
+  const trimmed = argument.trim();
+  const flag = trimmed.match(/^--set(-string)?(?:\s+|=)/);
+  const expression = flag ? trimmed.slice(flag[0].length) : trimmed;
+  return parseSetValues(expression, Boolean(flag?.[1]));
+}
+
+/**
+ * Parse a comma-separated list of `key=value` assignments
+ */
+export function parseSetValues(expression: string, asString = false): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  let pos = 0;
+
+  while (pos < expression.length) {
+    const key = readUntil(expression, pos, '=,');
+    pos = key.end;
+    if (!key.text.trim()) {
+      if (expression[pos] === '=') throw new Error(`key missing before "=" at position ${pos}`);
+      pos++;
+      continue;
+    }
+    if (expression[pos] !== '=') {
+      throw new Error(`key "${key.text}" has no value`);
+    }
+    pos++;
+
+    let value: unknown;
+    if (expression[pos] === '{') {
+      const list = readUntil(expression, pos + 1, '}');
+      if (expression[list.end] !== '}') throw new Error(`list for key "${key.text}" is not closed`);
+      value = list.raw === ''
+        ? []
+        : splitUnescaped(list.raw, ',').map(item => typedValue(item, asString));
+      pos = list.end + 1;
+    } else {
+      const scalar = readUntil(expression, pos, ',');
+      value = typedValue(scalar.text, asString);
+      pos = scalar.end;
+    }
+
+    setPath(result, parseKey(key.text.trim()), value);
+    if (expression[pos] === ',') pos++;
+  }
+
+  return result;
+}
+
+/**
+ * Read from `start` up to an unescaped stop character, returning the text
+ * with escapes removed, the untouched source text and the stop position
+ */
+function readUntil(text: string, start: number, stops: string): { text: string; end: number; raw: string } {
+  let value = '';
+  let pos = start;
+  while (pos < text.length && !stops.includes(text[pos])) {
+    if (text[pos] === '\\' && pos + 1 < text.length) {
+      // Keep escaped dots marked so key splitting can tell them apart
+      value += text[pos + 1] === '.' ? '\\.' : text[pos + 1];
+      pos += 2;
+      continue;
+    }
+    value += text[pos];
+    pos++;
+  }
+  return { text: value, end: pos, raw: text.slice(start, pos) };
+}
+
+function splitUnescaped(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let pos = 0;
+  while (pos <= text.length) {
+    const part = readUntil(text, pos, separator);
+    parts.push(part.text);
+    pos = part.end + 1;
+  }
+  return parts;
+}
+
+/**
+ * Split `a.b\.c[0].d` into ['a', 'b.c', 0, 'd']
+ */
+function parseKey(key: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  for (const part of key.split(/(?<!\\)\./)) {
+    const match = part.match(/^(.*?)((?:\[\d+\])*)$/);
+    const name = (match ? match[1] : part).replace(/\\\./g, '.');
+    if (!name) throw new Error(`empty key segment in "${key.replace(/\\\./g, '.')}"`);
+    segments.push(name);
+    for (const index of (match?.[2] ?? '').matchAll(/\[(\d+)\]/g)) {
+      segments.push(Number(index[1]));
+    }
+  }
+  return segments;
+}
+
+function typedValue(text: string, asString: boolean): unknown {
+  const value = text.replace(/\\\./g, '.');
+  if (asString) return value;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (value === 'null') return null;
+  // Integers only, and not with a leading zero (Helm keeps "0123" a string)
+  if (/^-?(0|[1-9]\d*)$/.test(value) && Number.isSafeInteger(Number(value))) return Number(value);
+  return value;
+}
+
+/**
+ * Assign a value at a path, creating maps and padding lists with null
+ */
+function setPath(root: Record<string, unknown>, segments: PathSegment[], value: unknown): void {
+  let current: Record<string, unknown> | unknown[] = root;
+
+  segments.forEach((segment, i) => {
+    const isLast = i === segments.length - 1;
+    const nextIsIndex = typeof segments[i + 1] === 'number';
+    const container = current as Record<PathSegment, unknown>;
+
+    if (Array.isArray(current) && typeof segment === 'number') {
+      while (current.length <= segment) current.push(null);
+    }
+
+    if (isLast) {
+      container[segment] = value;
+      return;
+    }
+
+    const existing = container[segment];
+    const fits = nextIsIndex
+      ? Array.isArray(existing)
+      : typeof existing === 'object' && existing !== null && !Array.isArray(existing);
+    if (!fits) container[segment] = nextIsIndex ? [] : {};
+    current = container[segment] as Record<string, unknown> | unknown[];
+  });
+}
@@ -0,0 +1,184 @@
+import { FileType, Reference } from '../types';
+import { lexTemplate, TokenKind } from './template-lexer';
+
+export type HighlightKind =
+  | 'plain'
+  | 'delimiter'           // {{ }}
+  | 'keyword'             // if, range, define, ...
+  | 'function'            // include, default, quote, ...
+  | 'field'               // .Values.image.tag
+  | 'variable'            // $name
+  | 'string'
+  | 'literal'             // Numbers, booleans, nil
+  | 'comment'
+  | 'key';                // YAML mapping keys
+
+export interface HighlightSpan {
+  text: string;
+  kind: HighlightKind;
+  reference?: Reference;  // Reference written at this span
+}
+
+interface KindRange {
+  start: number;
+  end: number;
+  kind: HighlightKind;
+}
+
+const TOKEN_HIGHLIGHTS: Partial<Record<TokenKind, HighlightKind>> = {
+  leftDelim: 'delimiter',
+  rightDelim: 'delimiter',
+  comment: 'comment',
+  keyword: 'keyword',
+  identifier: 'function',
+  field: 'field',
+  dot: 'field',
+  variable: 'variable',
+  string: 'string',
+  rawString: 'string',
+  char: 'string',
+  number: 'literal',
+  bool: 'literal',
+  nil: 'literal',
+};
+
+// A block mapping key at the start of a line, after any list dashes
+const YAML_KEY_REGEX = /^(\s*(?:-\s+)*)("(?:[^"\\]|\\.)*"|'[^']*'|[^\s#'"{[][^:#]*?)\s*:(?=\s|$)/;
+const YAML_STRING_REGEX = /"(?:[^"\\]|\\.)*"|'[^']*'/g;
+
+/**
+ * Split a file into highlighted spans, one array per line. Template files get
+ * Go template highlighting with YAML highlighting for their text; references
+ * written in the file are attached to the spans they cover.
+ */
+export function highlightSource(content: string, fileType: FileType, references: Reference[] = []): HighlightSpan[][] {
+  const isTemplate = fileType === 'template' || fileType === 'helper' || fileType === 'notes';
+  const isYaml = isTemplate || fileType === 'values' || fileType === 'chart';
+
+  const ranges: KindRange[] = [];
+  if (isTemplate) {
+    lexTemplate(content).forEach(token => {
+      if (token.kind === 'text') {
+        ranges.push(...highlightYaml(content, token.start, token.end));
+      } else {
+        ranges.push({ start: token.start, end: token.end, kind: TOKEN_HIGHLIGHTS[token.kind] ?? 'plain' });
+      }
+    });
+  } else if (isYaml) {
+    ranges.push(...highlightYaml(content, 0, content.length));
+  }
+
+  return splitLines(content, fillGaps(ranges, content.length), getReferenceRanges(references));
+}
+
+/**
+ * Keys, quoted strings and comments of a YAML fragment
+ */
+function highlightYaml(content: string, start: number, end: number): KindRange[] {
+  const ranges: KindRange[] = [];
+  let lineStart = start;
+
+  while (lineStart < end) {
+    const newline = content.indexOf('\n', lineStart);
+    const lineEnd = newline === -1 || newline > end ? end : newline;
+    const text = content.slice(lineStart, lineEnd);
+    let pos = 0;
+
+    // Text after a template action is mid-line, so it cannot start a key
+    if (lineStart === 0 || content[lineStart - 1] === '\n') {
+      const key = YAML_KEY_REGEX.exec(text);
+      if (key) {
+        pos = key[1].length + key[2].length;
+        ranges.push({ start: lineStart + key[1].length, end: lineStart + pos, kind: 'key' });
+      }
+    }
+
+    const comment = /(?:^|\s)#/.exec(text.slice(pos));
+    const commentStart = comment ? pos + comment.index + comment[0].indexOf('#') : text.length;
+
+    for (const match of text.slice(pos, commentStart).matchAll(YAML_STRING_REGEX)) {
+      const matchStart = lineStart + pos + (match.index ?? 0);
+      ranges.push({ start: matchStart, end: matchStart + match[0].length, kind: 'string' });
+    }
+    if (comment) {
+      ranges.push({ start: lineStart + commentStart, end: lineEnd, kind: 'comment' });
+    }
+
+    lineStart = lineEnd + 1;
+  }
+
+  return ranges;
+}
+
+/**
+ * Cover the whole content, filling the space between ranges with plain text
+ */
+function fillGaps(ranges: KindRange[], length: number): KindRange[] {
+  const filled: KindRange[] = [];
+  let pos = 0;
+
+  ranges.forEach(range => {
+    if (range.start > pos) filled.push({ start: pos, end: range.start, kind: 'plain' });
+    if (range.end > range.start) filled.push(range);
+    pos = Math.max(pos, range.end);
+  });
+  if (pos < length) filled.push({ start: pos, end: length, kind: 'plain' });
+
+  return filled;
+}
+
+/**
+ * References with a known location, in order and without overlaps
+ */
+function getReferenceRanges(references: Reference[]): Reference[] {
+  const located = references
+    .filter(ref => ref.range)
+    .sort((a, b) => a.range!.start.offset - b.range!.start.offset);
+
+  const result: Reference[] = [];
+  located.forEach(ref => {
+    const previous = result[result.length - 1];
+    if (!previous || ref.range!.start.offset >= previous.range!.end.offset) result.push(ref);
+  });
+  return result;
+}
+
+/**
+ * Cut ranges at line breaks and reference boundaries
+ */
+function splitLines(content: string, ranges: KindRange[], references: Reference[]): HighlightSpan[][] {
+  const lines: HighlightSpan[][] = [[]];
+  let refIndex = 0;
+
+  ranges.forEach(range => {
+    let pos = range.start;
+    while (pos < range.end) {
+      while (refIndex < references.length && references[refIndex].range!.end.offset <= pos) refIndex++;
+      const ref = references[refIndex];
+      const inReference = ref !== undefined && ref.range!.start.offset <= pos;
+
+      let end = range.end;
+      if (ref) end = Math.min(end, inReference ? ref.range!.end.offset : ref.range!.start.offset);
+      const newline = content.indexOf('\n', pos);
+      const breaksLine = newline !== -1 && newline < end;
+      if (breaksLine) end = newline;
+
+      if (end > pos) {
+        lines[lines.length - 1].push({
+          text: content.slice(pos, end),
+          kind: range.kind,
+          reference: inReference ? ref : undefined,
+        });
+      }
+
+      if (breaksLine) {
+        lines.push([]);
+        pos = newline + 1;
+      } else {
+        pos = end;
+      }
+    }
+  });
+
+  return lines;
+}
@@ -0,0 +1,495 @@
+import {
+  TemplateTree,
+  TemplateNode,
+  TemplateListNode,
+  TemplateBranchNode,
+  TemplatePipeNode,
+  TemplateCommandNode,
+  TemplateArgNode,
+  TemplateVariableNode,
+  TemplateParseError,
+} from '../types';
+import { Token, lexTemplate, createLineIndex, LineIndex } from './template-lexer';
+
+interface ParserState {
+  content: string;
+  tokens: Token[];
+  pos: number;
+  lines: LineIndex;
+  errors: TemplateParseError[];
+}
+
+type ListTerminator = { keyword: 'end' | 'else'; start: number; end: number } | null;
+
+// Opening action of a define or block
+const DEFINE_ACTION_REGEX = /\{\{-?\s*(?:define|block)\b/;
+
+/**
+ * Parse a Go template into an AST. Parsing is error tolerant: malformed
+ * actions are skipped, unclosed blocks are closed at end of input, and every
+ * problem is reported in `errors` instead of throwing.
+ */
+export function parseTemplate(content: string): TemplateTree {
+  const state: ParserState = {
+    content,
+    tokens: lexTemplate(content),
+    pos: 0,
+    lines: createLineIndex(content),
+    errors: [],
+  };
+
+  const root = parseList(state, 0, true).list;
+  return { root, errors: state.errors };
+}
+
+/**
+ * Parse nodes until an `end`/`else` action (or end of input at top level)
+ */
+function parseList(
+  state: ParserState,
+  start: number,
+  isTopLevel: boolean
+): { list: TemplateListNode; terminator: ListTerminator } {
+  const nodes: TemplateNode[] = [];
+  let terminator: ListTerminator = null;
+
+  while (state.pos < state.tokens.length) {
+    const token = state.tokens[state.pos];
+
+    if (token.kind === 'text') {
+      nodes.push({
+        kind: 'text',
+        text: token.value,
+        value: trimText(token.value, peek(state, -1), peek(state, 1)),
+        range: state.lines.range(token.start, token.end),
+      });
+      state.pos++;
+      continue;
+    }
+
+    if (token.kind !== 'leftDelim') {
+      addError(state, `unexpected ${token.kind}`, token.start, token.end);
+      state.pos++;
+      continue;
+    }
+
+    const keyword = peek(state, 1);
+    if (keyword?.kind === 'keyword' && (keyword.value === 'end' || keyword.value === 'else')) {
+      if (isTopLevel) {
+        addError(state, `unexpected {{${keyword.value}}}`, keyword.start, keyword.end);
+        state.pos += 2;
+        skipAction(state);
+        continue;
+      }
+      terminator = { keyword: keyword.value, start: token.start, end: 0 };
+      state.pos += 2;
+      if (keyword.value === 'end') {
+        terminator.end = skipAction(state);
+      }
+      break;
+    }
+
+    const node = parseAction(state);
+    if (node) nodes.push(node);
+  }
+
+  if (!isTopLevel && !terminator) {
+    addError(state, 'unexpected end of input: missing {{end}}', start, state.content.length);
+  }
+
+  const end = terminator ? terminator.start : state.content.length;
+  return { list: { kind: 'list', nodes, range: state.lines.range(start, end) }, terminator };
+}
+
+/**
+ * Parse one {{ ... }} action, including the body of control structures
+ */
+function parseAction(state: ParserState): TemplateNode | null {
+  const leftDelim = state.tokens[state.pos++];
+  const token = peek(state, 0);
+
+  if (!token) return null;
+
+  if (token.kind === 'comment') {
+    state.pos++;
+    const end = skipAction(state);
+    return { kind: 'comment', text: token.value.slice(2, -2), range: state.lines.range(leftDelim.start, end) };
+  }
+
+  if (token.kind === 'rightDelim') {
+    addError(state, 'missing value for command', leftDelim.start, token.end);
+    state.pos++;
+    return null;
+  }
+
+  if (token.kind === 'keyword') {
+    state.pos++;
+    switch (token.value) {
+      case 'if':
+      case 'with':
+      case 'range':
+        return parseBranch(state, token.value, leftDelim.start);
+
+      case 'define':
+      case 'block': {
+        const name = parseTemplateName(state, token);
+        const pipe = token.value === 'block' ? parsePipeline(state, false) : null;
+        const bodyStart = skipAction(state);
+        const { list, terminator } = parseList(state, bodyStart, false);
+        if (terminator?.keyword === 'else') {
+          addError(state, `unexpected {{else}} in ${token.value}`, terminator.start, terminator.start);
+          skipAction(state);
+        }
+        const end = terminator?.end || state.content.length;
+        const range = state.lines.range(leftDelim.start, end);
+        return pipe
+          ? { kind: 'block', name, pipe, list, range }
+          : { kind: 'define', name, list, range };
+      }
+
+      case 'template': {
+        const name = parseTemplateName(state, token);
+        const next = peek(state, 0);
+        const pipe = next && next.kind !== 'rightDelim' ? parsePipeline(state, false) : undefined;
+        const end = skipAction(state);
+        return { kind: 'template', name, pipe, range: state.lines.range(leftDelim.start, end) };
+      }
+
+      case 'break':
+      case 'continue': {
+        const end = skipAction(state);
+        return { kind: token.value, range: state.lines.range(leftDelim.start, end) };
+      }
+    }
+  }
+
+  const pipe = parsePipeline(state, true);
+  const rightDelim = peek(state, 0);
+  const end = skipAction(state);
+  return {
+    kind: 'action',
+    pipe,
+    trimLeft: Boolean(leftDelim.trim),
+    trimRight: Boolean(rightDelim?.kind === 'rightDelim' && rightDelim.trim),
+    range: state.lines.range(leftDelim.start, end),
+  };
+}
+
+/**
+ * Parse an if/with/range block, following `else` and `else if`/`else with` chains
+ */
+function parseBranch(
+  state: ParserState,
+  kind: TemplateBranchNode['kind'],
+  start: number
+): TemplateBranchNode {
+  const pipe = parsePipeline(state, true);
+  const bodyStart = skipAction(state);
+  const { list, terminator } = parseList(state, bodyStart, false);
+
+  let elseList: TemplateListNode | undefined;
+  let end = terminator?.end || state.content.length;
+
+  if (terminator?.keyword === 'else') {
+    const chained = peek(state, 0);
+    if (chained?.kind === 'keyword' && (chained.value === 'if' || chained.value === 'with')) {
+      // {{ else if x }} is shorthand for {{ else }}{{ if x }}...{{ end }} sharing the outer {{ end }}
+      state.pos++;
+      const nested = parseBranch(state, chained.value, terminator.start);
+      elseList = { kind: 'list', nodes: [nested], range: nested.range };
+      end = nested.range.end.offset;
+    } else {
+      const elseStart = skipAction(state);
+      const elseResult = parseList(state, elseStart, false);
+      if (elseResult.terminator?.keyword === 'else') {
+        addError(state, `expected end; found {{else}}`, elseResult.terminator.start, elseResult.terminator.start);
+        skipAction(state);
+      }
+      elseList = elseResult.list;
+      end = elseResult.terminator?.end || state.content.length;
+    }
+  }
+
+  return { kind, pipe, list, elseList, range: state.lines.range(start, end) };
+}
+
+/**
+ * Read the quoted name of a define/block/template action
+ */
+function parseTemplateName(state: ParserState, keyword: Token): string {
+  const token = peek(state, 0);
+  if (token && (token.kind === 'string' || token.kind === 'rawString')) {
+    state.pos++;
+    return unquote(token.value);
+  }
+  addError(state, `missing name in ${keyword.value}`, keyword.start, keyword.end);
+  return '';
+}
+
+/**
+ * Parse a pipeline up to the closing delimiter or parenthesis
+ */
+function parsePipeline(state: ParserState, allowDecl: boolean): TemplatePipeNode {
+  const first = peek(state, 0);
+  const start = first ? first.start : state.content.length;
+  const decl: TemplateVariableNode[] = [];
+  let isAssign = false;
+
+  if (allowDecl) {
+    const declaration = parseDeclaration(state);
+    if (declaration) {
+      decl.push(...declaration.variables);
+      isAssign = declaration.isAssign;
+    }
+  }
+
+  const cmds: TemplateCommandNode[] = [];
+  let end = start;
+
+  while (state.pos < state.tokens.length) {
+    const token = peek(state, 0)!;
+    if (token.kind === 'rightDelim' || token.kind === 'rightParen' || token.kind === 'leftDelim' || token.kind === 'text') {
+      break;
+    }
+    if (token.kind === 'pipe') {
+      state.pos++;
+      continue;
+    }
+
+    const cmd = parseCommand(state);
+    if (cmd) {
+      cmds.push(cmd);
+      end = cmd.range.end.offset;
+    }
+  }
+
+  return { kind: 'pipe', decl, isAssign, cmds, range: state.lines.range(start, end) };
+}
+
+/**
+ * Parse a leading `$x :=`, `$x =` or `$k, $v :=` declaration if present
+ */
+function parseDeclaration(
+  state: ParserState
+): { variables: TemplateVariableNode[]; isAssign: boolean } | null {
+  const first = peek(state, 0);
+  if (first?.kind !== 'variable') return null;
+
+  const second = peek(state, 1);
+  if (second?.kind === 'declare' || second?.kind === 'assign') {
+    state.pos += 2;
+    return { variables: [toVariableNode(state, first)], isAssign: second.kind === 'assign' };
+  }
+
+  const third = peek(state, 2);
+  const fourth = peek(state, 3);
+  if (second?.kind === 'comma' && third?.kind === 'variable' && (fourth?.kind === 'declare' || fourth?.kind === 'assign')) {
+    state.pos += 4;
+    return {
+      variables: [toVariableNode(state, first), toVariableNode(state, third)],
+      isAssign: fourth.kind === 'assign',
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Parse a single command: a function or operand followed by its arguments
+ */
+function parseCommand(state: ParserState): TemplateCommandNode | null {
+  const args: TemplateArgNode[] = [];
+
+  while (state.pos < state.tokens.length) {
+    const token = peek(state, 0)!;
+    if (
+      token.kind === 'pipe' || token.kind === 'rightDelim' || token.kind === 'rightParen' ||
+      token.kind === 'leftDelim' || token.kind === 'text'
+    ) {
+      break;
+    }
+
+    const arg = parseOperand(state);
+    if (arg) args.push(arg);
+  }
+
+  if (args.length === 0) return null;
+  return {
+    kind: 'command',
+    args,
+    range: state.lines.range(args[0].range.start.offset, args[args.length - 1].range.end.offset),
+  };
+}
+
+/**
+ * Parse a term plus any `.field` chain directly attached to it
+ */
+function parseOperand(state: ParserState): TemplateArgNode | null {
+  const token = state.tokens[state.pos++];
+  const range = state.lines.range(token.start, token.end);
+  let node: TemplateArgNode | null;
+
+  switch (token.kind) {
+    case 'field':
+      node = { kind: 'field', fields: token.value.split('.').filter(Boolean), range };
+      break;
+    case 'variable':
+      node = toVariableNode(state, token);
+      break;
+    case 'dot':
+      node = { kind: 'dot', range };
+      break;
+    case 'identifier':
+      node = { kind: 'identifier', name: token.value, range };
+      break;
+    case 'string':
+    case 'rawString':
+      node = { kind: 'string', value: unquote(token.value), range };
+      break;
+    case 'char':
+    case 'number':
+    case 'bool':
+    case 'nil':
+      node = { kind: token.kind, value: token.value, range };
+      break;
+    case 'leftParen': {
+      const pipe = parsePipeline(state, false);
+      const close = peek(state, 0);
+      if (close?.kind === 'rightParen') {
+        state.pos++;
+        pipe.range = state.lines.range(token.start, close.end);
+      } else {
+        addError(state, 'unclosed left paren', token.start, token.end);
+      }
+      node = pipe;
+      break;
+    }
+    default:
+      addError(state, `unexpected ${token.kind} in command`, token.start, token.end);
+      return null;
+  }
+
+  // (pipeline).Field and similar chains: a field token glued to the previous term
+  const next = peek(state, 0);
+  if (next?.kind === 'field' && !next.spaceBefore && node.kind !== 'field' && node.kind !== 'variable') {
+    state.pos++;
+    node = {
+      kind: 'chain',
+      node,
+      fields: next.value.split('.').filter(Boolean),
+      range: state.lines.range(node.range.start.offset, next.end),
+    };
+  }
+
+  return node;
+}
+
+function toVariableNode(state: ParserState, token: Token): TemplateVariableNode {
+  const [name, ...fields] = token.value.split('.');
+  return { kind: 'variable', name, fields, range: state.lines.range(token.start, token.end) };
+}
+
+/**
+ * Skip to just past the closing delimiter of the current action, returning its end offset
+ */
+function skipAction(state: ParserState): number {
+  while (state.pos < state.tokens.length) {
+    const token = state.tokens[state.pos];
+    if (token.kind === 'leftDelim' || token.kind === 'text') {
+      return token.start;
+    }
+    state.pos++;
+    if (token.kind === 'rightDelim') return token.end;
+    if (token.kind === 'error') {
+      addError(state, token.value === 'unclosed action' ? 'unclosed action' : `unexpected "${token.value}"`, token.start, token.end);
+    } else {
+      addError(state, `unexpected ${token.kind} in action`, token.start, token.end);
+    }
+  }
+  return state.content.length;
+}
+
+/**
+ * Apply trim markers of the surrounding delimiters: `-}}` before the text
+ * trims its leading whitespace, `{{-` after it trims its trailing whitespace
+ */
+function trimText(text: string, previous: Token | undefined, next: Token | undefined): string {
+  let value = text;
+  if (previous?.kind === 'rightDelim' && previous.trim) value = value.replace(/^[ \t\r\n]+/, '');
+  if (next?.kind === 'leftDelim' && next.trim) value = value.replace(/[ \t\r\n]+$/, '');
+  return value;
+}
+
+function peek(state: ParserState, offset: number): Token | undefined {
+  return state.tokens[state.pos + offset];
+}
+
+function addError(state: ParserState, message: string, start: number, end: number): void {
+  state.errors.push({ message, range: state.lines.range(start, end) });
+}
+
+/**
+ * Remove quotes from a string or raw string literal and resolve escapes
+ */
+function unquote(literal: string): string {
+  if (literal.startsWith('`')) return literal.slice(1, -1);
+  try {
+    return JSON.parse(literal);
+  } catch {
+    return literal.slice(1, -1);
+  }
+}
+
+/**
+ * Whether a template defines named templates other files may include,
+ * checked on the text without parsing it
+ */
+export function definesNamedTemplates(content: string): boolean {
+  return DEFINE_ACTION_REGEX.test(content);
+}
+
+/**
+ * Visit every node in a template tree depth-first, including nested pipelines
+ */
+export function walkTemplate(
+  node: TemplateNode | TemplateArgNode | TemplateCommandNode,
+  visit: (node: TemplateNode | TemplateArgNode | TemplateCommandNode) => void
+): void {
+  visit(node);
+
+  switch (node.kind) {
+    case 'list':
+      node.nodes.forEach(child => walkTemplate(child, visit));
+      break;
+    case 'action':
+      walkTemplate(node.pipe, visit);
+      break;
+    case 'if':
+    case 'with':
+    case 'range':
+      walkTemplate(node.pipe, visit);
+      walkTemplate(node.list, visit);
+      if (node.elseList) walkTemplate(node.elseList, visit);
+      break;
+    case 'define':
+      walkTemplate(node.list, visit);
+      break;
+    case 'block':
+      walkTemplate(node.pipe, visit);
+      walkTemplate(node.list, visit);
+      break;
+    case 'template':
+      if (node.pipe) walkTemplate(node.pipe, visit);
+      break;
+    case 'pipe':
+      node.decl.forEach(v => walkTemplate(v, visit));
+      node.cmds.forEach(cmd => walkTemplate(cmd, visit));
+      break;
+    case 'command':
+      node.args.forEach(arg => walkTemplate(arg, visit));
+      break;
+    case 'chain':
+      walkTemplate(node.node, visit);
+      break;
+  }
+}
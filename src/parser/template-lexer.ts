@@ -0,0 +1,217 @@
+import { SourcePosition, SourceRange } from '../types';
+
+export type TokenKind =
+  | 'text'
+  | 'leftDelim'           // {{ or {{-
+  | 'rightDelim'          // }} or -}}
+  | 'comment'             // /* ... */ (including its delimiters)
+  | 'keyword'             // if, else, end, range, with, define, block, template, break, continue
+  | 'identifier'          // Function names
+  | 'field'               // .Values.image.tag
+  | 'variable'            // $, $name, $name.field
+  | 'dot'                 // .
+  | 'string'              // "..."
+  | 'rawString'           // `...`
+  | 'char'                // 'x'
+  | 'number'
+  | 'bool'
+  | 'nil'
+  | 'leftParen'
+  | 'rightParen'
+  | 'pipe'                // |
+  | 'comma'
+  | 'declare'             // :=
+  | 'assign'              // =
+  | 'error';
+
+export interface Token {
+  kind: TokenKind;
+  value: string;          // Source text of the token
+  start: number;          // Offset of the first character
+  end: number;            // Offset after the last character
+  spaceBefore: boolean;   // Whether whitespace separates this token from the previous one
+  trim?: boolean;         // Trim marker on a delimiter ({{- or -}})
+}
+
+const KEYWORDS = new Set([
+  'if', 'else', 'end', 'range', 'with', 'define', 'block', 'template', 'break', 'continue',
+]);
+
+const IDENTIFIER_REGEX = /[A-Za-z_][A-Za-z0-9_]*/y;
+const FIELD_CHAIN_REGEX = /(?:\.[A-Za-z_][A-Za-z0-9_]*)+/y;
+const VARIABLE_REGEX = /\$[A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)*/y;
+const NUMBER_REGEX = /[+-]?(?:0[xX][0-9a-fA-F_]+|[0-9][0-9_]*(?:\.[0-9_]*)?(?:[eE][+-]?[0-9]+)?|\.[0-9]+)i?/y;
+
+/**
+ * Tokenize a Go template into text, delimiters, comments and action tokens
+ */
+export function lexTemplate(content: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < content.length) {
+    const delimStart = content.indexOf('{{', pos);
+    const textEnd = delimStart === -1 ? content.length : delimStart;
+
+    if (textEnd > pos) {
+      tokens.push({ kind: 'text', value: content.slice(pos, textEnd), start: pos, end: textEnd, spaceBefore: false });
+    }
+    if (delimStart === -1) break;
+
+    pos = lexAction(content, delimStart, tokens);
+  }
+
+  return tokens;
+}
+
+/**
+ * Tokenize a single {{ ... }} action starting at `start`, returning the offset after it
+ */
+function lexAction(content: string, start: number, tokens: Token[]): number {
+  const trimLeft = content[start + 2] === '-' && isSpace(content[start + 3]);
+  let pos = start + 2 + (trimLeft ? 1 : 0);
+  tokens.push({ kind: 'leftDelim', value: content.slice(start, pos), start, end: pos, spaceBefore: false, trim: trimLeft });
+
+  while (pos < content.length) {
+    const wsStart = pos;
+    while (pos < content.length && isSpace(content[pos])) pos++;
+    const spaceBefore = pos > wsStart;
+
+    // Right delimiter, with an optional trim marker that must follow whitespace
+    if (spaceBefore && content.startsWith('-}}', pos)) {
+      tokens.push({ kind: 'rightDelim', value: '-}}', start: pos, end: pos + 3, spaceBefore, trim: true });
+      return pos + 3;
+    }
+    if (content.startsWith('}}', pos)) {
+      tokens.push({ kind: 'rightDelim', value: '}}', start: pos, end: pos + 2, spaceBefore, trim: false });
+      return pos + 2;
+    }
+    if (pos >= content.length) break;
+
+    const token = lexActionToken(content, pos, spaceBefore);
+    tokens.push(token);
+    pos = token.end;
+  }
+
+  tokens.push({ kind: 'error', value: 'unclosed action', start, end: content.length, spaceBefore: false });
+  return content.length;
+}
+
+/**
+ * Read one token inside an action
+ */
+function lexActionToken(content: string, pos: number, spaceBefore: boolean): Token {
+  const ch = content[pos];
+  const token = (kind: TokenKind, end: number): Token => ({
+    kind,
+    value: content.slice(pos, end),
+    start: pos,
+    end,
+    spaceBefore,
+  });
+
+  if (content.startsWith('/*', pos)) {
+    const close = content.indexOf('*/', pos + 2);
+    return close === -1 ? token('error', content.length) : token('comment', close + 2);
+  }
+
+  switch (ch) {
+    case '"':
+      return token('string', scanQuoted(content, pos, '"'));
+    case "'":
+      return token('char', scanQuoted(content, pos, "'"));
+    case '`': {
+      const close = content.indexOf('`', pos + 1);
+      return close === -1 ? token('error', content.length) : token('rawString', close + 1);
+    }
+    case '(':
+      return token('leftParen', pos + 1);
+    case ')':
+      return token('rightParen', pos + 1);
+    case '|':
+      return token('pipe', pos + 1);
+    case ',':
+      return token('comma', pos + 1);
+    case '=':
+      return token('assign', pos + 1);
+    case ':':
+      return content[pos + 1] === '=' ? token('declare', pos + 2) : token('error', pos + 1);
+    case '$':
+      return token('variable', matchAt(VARIABLE_REGEX, content, pos));
+    case '.': {
+      const fieldEnd = matchAt(FIELD_CHAIN_REGEX, content, pos);
+      if (fieldEnd > pos) return token('field', fieldEnd);
+      const numberEnd = matchAt(NUMBER_REGEX, content, pos);
+      return numberEnd > pos ? token('number', numberEnd) : token('dot', pos + 1);
+    }
+  }
+
+  const numberEnd = matchAt(NUMBER_REGEX, content, pos);
+  if (numberEnd > pos) return token('number', numberEnd);
+
+  const identEnd = matchAt(IDENTIFIER_REGEX, content, pos);
+  if (identEnd > pos) {
+    const word = content.slice(pos, identEnd);
+    if (KEYWORDS.has(word)) return token('keyword', identEnd);
+    if (word === 'true' || word === 'false') return token('bool', identEnd);
+    if (word === 'nil') return token('nil', identEnd);
+    return token('identifier', identEnd);
+  }
+
+  return token('error', pos + 1);
+}
+
+/**
+ * Scan a quoted literal honouring backslash escapes; stops at end of line if unterminated
+ */
+function scanQuoted(content: string, pos: number, quote: string): number {
+  let i = pos + 1;
+  while (i < content.length && content[i] !== quote && content[i] !== '\n') {
+    i += content[i] === '\\' ? 2 : 1;
+  }
+  return Math.min(i + 1, content.length);
+}
+
+/**
+ * Return the end offset of a sticky regex match at `pos`, or `pos` if it doesn't match
+ */
+function matchAt(regex: RegExp, content: string, pos: number): number {
+  regex.lastIndex = pos;
+  const match = regex.exec(content);
+  return match ? pos + match[0].length : pos;
+}
+
+function isSpace(ch: string | undefined): boolean {
+  return ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r';
+}
+
+export interface LineIndex {
+  position: (offset: number) => SourcePosition;
+  range: (start: number, end: number) => SourceRange;
+}
+
+/**
+ * Build a lookup from character offsets to line/column positions
+ */
+export function createLineIndex(content: string): LineIndex {
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  const position = (offset: number): SourcePosition => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { offset, line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+
+  return {
+    position,
+    range: (start, end) => ({ start: position(start), end: position(end) }),
+  };
+}
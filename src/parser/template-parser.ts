@@ -1,280 +1,337 @@
-import { Reference, ReferenceType, HelperDefinition } from '../types';
+import {
+  Reference,
+  ReferenceType,
+  ReferenceTarget,
+  HelperDefinition,
+  SourceRange,
+  TemplateNode,
+  TemplatePipeNode,
+  TemplateCommandNode,
+  TemplateArgNode,
+  TemplateIdentifierNode,
+} from '../types';
+import { parseTemplate, walkTemplate } from './template-ast';
+
+/**
+ * A lexical scope inside a template. `dot` is the resolved context path
+ * for `.` (e.g. "Values.ingress"), "" for the root context and null when
+ * it cannot be determined statically.
+ */
+interface Scope {
+  dot: string | null;
+  vars: Map<string, string | null>;
+  parent?: Scope;
+}
+
+interface ExtractionContext {
+  content: string;
+  filePath: string;
+  helper?: string;        // Name of the define currently being visited
+  references: Reference[];
+}
 
 /**
  * Extract all references from a Helm template file
  */
 export function extractReferences(content: string, filePath: string): Reference[] {
-  const references: Reference[] = [];
-  const lines = content.split('\n');
+  const { root } = parseTemplate(content);
+  const context: ExtractionContext = { content, filePath, references: [] };
   
-  lines.forEach((line, lineIndex) => {
-    const lineNum = lineIndex + 1;
+  visitNode(root, createScope(''), context);
+  
+  return context.references;
+}
+
+function createScope(dot: string | null, parent?: Scope): Scope {
+  return { dot, vars: new Map(), parent };
+}
+
+/**
+ * Walk a template node, tracking the `.` context through with/range/define
+ * blocks and `$variable` declarations
+ */
+function visitNode(node: TemplateNode, scope: Scope, context: ExtractionContext): void {
+  switch (node.kind) {
+    case 'list':
+      node.nodes.forEach(child => visitNode(child, scope, context));
+      break;
     
-    // Extract .Values references
-    const valueRefs = extractValuesReferences(line, filePath, lineNum);
-    references.push(...valueRefs);
+    case 'action':
+      visitPipe(node.pipe, scope, context);
+      declareVariables(node.pipe, scope, resolvePipeContext(node.pipe, scope));
+      break;
     
-    // Extract include/template references
-    const includeRefs = extractIncludeReferences(line, filePath, lineNum);
-    references.push(...includeRefs);
+    case 'if': {
+      const branchScope = createScope(scope.dot, scope);
+      visitPipe(node.pipe, branchScope, context);
+      declareVariables(node.pipe, branchScope, resolvePipeContext(node.pipe, branchScope));
+      visitNode(node.list, createScope(scope.dot, branchScope), context);
+      if (node.elseList) visitNode(node.elseList, createScope(scope.dot, branchScope), context);
+      break;
+    }
     
-    // Extract .Chart references
-    const chartRefs = extractChartReferences(line, filePath, lineNum);
-    references.push(...chartRefs);
+    case 'with':
+    case 'range': {
+      const branchScope = createScope(scope.dot, scope);
+      visitPipe(node.pipe, branchScope, context);
+      
+      let dot = resolvePipeContext(node.pipe, branchScope);
+      if (node.kind === 'range' && dot !== null) dot = `${dot}[*]`;
+      
+      if (node.kind === 'range' && node.pipe.decl.length === 2) {
+        // range $key, $element := ...
+        branchScope.vars.set(node.pipe.decl[0].name, null);
+        branchScope.vars.set(node.pipe.decl[1].name, dot);
+      } else {
+        declareVariables(node.pipe, branchScope, dot);
+      }
+      
+      visitNode(node.list, createScope(dot, branchScope), context);
+      // else branches run with the enclosing context
+      if (node.elseList) visitNode(node.elseList, createScope(scope.dot, branchScope), context);
+      break;
+    }
     
-    // Extract .Release references
-    const releaseRefs = extractReleaseReferences(line, filePath, lineNum);
-    references.push(...releaseRefs);
+    case 'define': {
+      // Helpers are almost always invoked with the root context
+      const outerHelper = context.helper;
+      context.helper = node.name;
+      visitNode(node.list, createScope(''), context);
+      context.helper = outerHelper;
+      break;
+    }
     
-    // Extract .Files references
-    const filesRefs = extractFilesReferences(line, filePath, lineNum);
-    references.push(...filesRefs);
+    case 'block':
+      visitPipe(node.pipe, scope, context);
+      visitNode(node.list, createScope(resolvePipeContext(node.pipe, scope)), context);
+      break;
     
-    // Extract .Capabilities references
-    const capabilitiesRefs = extractCapabilitiesReferences(line, filePath, lineNum);
-    references.push(...capabilitiesRefs);
-  });
-  
-  return references;
+    case 'template':
+      addReference(context, 'template', { type: 'helper', path: node.name }, node.range, `template "${node.name}"`);
+      if (node.pipe) visitPipe(node.pipe, scope, context);
+      break;
+  }
 }
 
 /**
- * Extract .Values.* references
+ * Visit each command of a pipeline. `applied` lists the functions the
+ * pipeline's result is passed through (for a parenthesized sub-pipeline).
  */
-function extractValuesReferences(line: string, filePath: string, lineNum: number): Reference[] {
-  const references: Reference[] = [];
-  
-  // Match .Values.something.else patterns
-  // Handles: .Values.foo, .Values.foo.bar, .Values.foo.bar.baz
-  const regex = /\.Values((?:\.[a-zA-Z_][a-zA-Z0-9_]*|\[[^\]]+\])+)/g;
-  let match;
-  
-  while ((match = regex.exec(line)) !== null) {
-    const fullPath = match[0];
-    // Remove leading dot and "Values." to get the path
-    const path = match[1].replace(/^\./, '');
-    
-    references.push({
-      id: `${filePath}:${lineNum}:values:${path}`,
-      type: 'values',
-      source: {
-        file: filePath,
-        line: lineNum,
-      },
-      target: {
-        type: 'value',
-        path: path,
-      },
-      expression: fullPath,
-      line: lineNum,
-    });
-  }
-  
-  return references;
+function visitPipe(pipe: TemplatePipeNode, scope: Scope, context: ExtractionContext, applied: string[] = []): void {
+  pipe.cmds.forEach((cmd, index) => {
+    // A command's result flows through the functions of the commands after it
+    const downstream = pipe.cmds.slice(index + 1)
+      .map(next => next.args[0])
+      .filter((arg): arg is TemplateIdentifierNode => arg?.kind === 'identifier')
+      .map(arg => arg.name);
+    visitCommand(cmd, scope, context, [...downstream, ...applied]);
+  });
 }
 
 /**
- * Extract include and template references
+ * Extract references from a single command: include calls and every field chain argument
  */
-function extractIncludeReferences(line: string, filePath: string, lineNum: number): Reference[] {
-  const references: Reference[] = [];
-  
-  // Match {{ include "helper-name" ... }}
-  const includeRegex = /\{\{\s*(?:-\s*)?include\s+"([^"]+)"/g;
-  let match;
-  
-  while ((match = includeRegex.exec(line)) !== null) {
-    const helperName = match[1];
-    references.push({
-      id: `${filePath}:${lineNum}:include:${helperName}`,
-      type: 'include',
-      source: {
-        file: filePath,
-        line: lineNum,
-      },
-      target: {
-        type: 'helper',
-        path: helperName,
-      },
-      expression: match[0],
-      line: lineNum,
-    });
+function visitCommand(cmd: TemplateCommandNode, scope: Scope, context: ExtractionContext, applied: string[]): void {
+  const [fn, nameArg] = cmd.args;
+  if (fn.kind === 'identifier' && fn.name === 'include' && nameArg?.kind === 'string') {
+    addReference(
+      context,
+      'include',
+      { type: 'helper', path: nameArg.value },
+      { start: fn.range.start, end: nameArg.range.end },
+      `include "${nameArg.value}"`
+    );
   }
   
-  // Match {{ template "helper-name" ... }}
-  const templateRegex = /\{\{\s*(?:-\s*)?template\s+"([^"]+)"/g;
-  
-  while ((match = templateRegex.exec(line)) !== null) {
-    const helperName = match[1];
-    references.push({
-      id: `${filePath}:${lineNum}:template:${helperName}`,
-      type: 'template',
-      source: {
-        file: filePath,
-        line: lineNum,
-      },
-      target: {
-        type: 'helper',
-        path: helperName,
-      },
-      expression: match[0],
-      line: lineNum,
-    });
+  // Arguments are passed to the command's function; the command's own value is not
+  const argApplied = fn.kind === 'identifier' ? [fn.name, ...applied] : applied;
+  cmd.args.forEach((arg, index) =>
+    visitArg(arg, cmd.args[index + 1], scope, context, index === 0 ? applied : argApplied)
+  );
+}
+
+function visitArg(
+  arg: TemplateArgNode,
+  nextArg: TemplateArgNode | undefined,
+  scope: Scope,
+  context: ExtractionContext,
+  applied: string[]
+): void {
+  switch (arg.kind) {
+    case 'field':
+    case 'variable':
+    case 'dot': {
+      const resolved = resolveArg(arg, scope);
+      if (resolved !== null) addContextReference(context, resolved, arg.range, nextArg, applied);
+      break;
+    }
+    
+    case 'chain':
+      visitArg(arg.node, undefined, scope, context, []);
+      break;
+    
+    case 'pipe':
+      visitPipe(arg, scope, context, applied);
+      break;
   }
-  
-  return references;
 }
 
 /**
- * Extract .Chart.* references
+ * Turn a resolved root-relative path into a typed reference
  */
-function extractChartReferences(line: string, filePath: string, lineNum: number): Reference[] {
-  const references: Reference[] = [];
-  
-  // Match .Chart.Name, .Chart.Version, etc.
-  const regex = /\.Chart\.([a-zA-Z]+)/g;
-  let match;
+function addContextReference(
+  context: ExtractionContext,
+  resolved: string,
+  range: SourceRange,
+  nextArg: TemplateArgNode | undefined,
+  applied: string[]
+): void {
+  const [root, ...rest] = resolved.split('.');
+  if (rest.length === 0) return;
   
-  while ((match = regex.exec(line)) !== null) {
-    const property = match[1];
-    references.push({
-      id: `${filePath}:${lineNum}:chart:${property}`,
-      type: 'chart',
-      source: {
-        file: filePath,
-        line: lineNum,
-      },
-      target: {
-        type: 'chart',
-        path: property,
-      },
-      expression: match[0],
-      line: lineNum,
-    });
+  switch (root) {
+    case 'Values':
+      // .Values.x.y.z
+      addReference(context, 'values', { type: 'value', path: rest.join('.') }, range, undefined, applied);
+      break;
+    
+    case 'Chart':
+      // .Chart.Name, .Chart.Version, etc.
+      addReference(context, 'chart', { type: 'chart', path: rest[0] }, range);
+      break;
+    
+    case 'Release':
+      // .Release.Name, .Release.Namespace, .Release.Service, etc.
+      addReference(context, 'release', { type: 'release', path: rest[0] }, range);
+      break;
+    
+    case 'Files': {
+      // .Files.Get "path", .Files.Glob "pattern", etc.
+      const arg = nextArg?.kind === 'string' ? nextArg.value : '';
+      const fullRange = arg && nextArg ? { start: range.start, end: nextArg.range.end } : range;
+      addReference(context, 'files', { type: 'file', path: arg || rest[0] }, fullRange);
+      break;
+    }
+    
+    case 'Capabilities': {
+      // .Capabilities.APIVersions, .Capabilities.KubeVersion, etc.; the
+      // expression of an APIVersions.Has check includes the version it tests
+      const path = rest.join('.');
+      const arg = path === 'APIVersions.Has' && nextArg?.kind === 'string' ? nextArg : undefined;
+      addReference(context, 'capabilities', { type: 'capability', path }, arg ? { start: range.start, end: arg.range.end } : range);
+      break;
+    }
   }
+}
+
+function addReference(
+  context: ExtractionContext,
+  type: ReferenceType,
+  target: ReferenceTarget,
+  range: SourceRange,
+  expression?: string,
+  functions: string[] = []
+): void {
+  const { line, column } = range.start;
   
-  return references;
+  context.references.push({
+    id: `${context.filePath}:${line}:${column}:${type}:${target.path}`,
+    type,
+    source: {
+      file: context.filePath,
+      line,
+      helper: context.helper,
+    },
+    target,
+    expression: expression ?? context.content.slice(range.start.offset, range.end.offset),
+    line,
+    range,
+    ...(functions.length > 0 ? { functions } : {}),
+  });
 }
 
 /**
- * Extract .Release.* references
+ * Resolve a field, variable or dot argument into a root-relative path
+ * (e.g. "Values.ingress.hosts"), or null when its base is unknown
  */
-function extractReleaseReferences(line: string, filePath: string, lineNum: number): Reference[] {
-  const references: Reference[] = [];
+function resolveArg(arg: TemplateArgNode, scope: Scope): string | null {
+  let basePath: string | null;
+  let fields: string[] = [];
   
-  // Match .Release.Name, .Release.Namespace, .Release.Service, etc.
-  const regex = /\.Release\.([a-zA-Z]+)/g;
-  let match;
-  
-  while ((match = regex.exec(line)) !== null) {
-    const property = match[1];
-    references.push({
-      id: `${filePath}:${lineNum}:release:${property}`,
-      type: 'release',
-      source: {
-        file: filePath,
-        line: lineNum,
-      },
-      target: {
-        type: 'release',
-        path: property,
-      },
-      expression: match[0],
-      line: lineNum,
-    });
+  if (arg.kind === 'dot') {
+    basePath = scope.dot;
+  } else if (arg.kind === 'field') {
+    basePath = scope.dot;
+    fields = arg.fields;
+  } else if (arg.kind === 'variable') {
+    basePath = arg.name === '$' ? '' : lookupVariable(scope, arg.name);
+    fields = arg.fields;
+  } else {
+    return null;
   }
   
-  return references;
+  if (basePath === null) return null;
+  return [basePath, ...fields].filter(Boolean).join('.');
 }
 
 /**
- * Extract .Files.* references
+ * Resolve the context a pipeline evaluates to when it is a plain field chain
+ * (e.g. `with .Values.ingress`); anything computed resolves to null
  */
-function extractFilesReferences(line: string, filePath: string, lineNum: number): Reference[] {
-  const references: Reference[] = [];
-  
-  // Match .Files.Get, .Files.Glob, etc.
-  const regex = /\.Files\.([a-zA-Z]+)\s*(?:"([^"]+)")?/g;
-  let match;
+function resolvePipeContext(pipe: TemplatePipeNode, scope: Scope): string | null {
+  const firstCommand = pipe.cmds[0];
+  if (!firstCommand || firstCommand.args.length !== 1) return null;
   
-  while ((match = regex.exec(line)) !== null) {
-    const method = match[1];
-    const arg = match[2] || '';
-    references.push({
-      id: `${filePath}:${lineNum}:files:${method}:${arg}`,
-      type: 'files',
-      source: {
-        file: filePath,
-        line: lineNum,
-      },
-      target: {
-        type: 'file',
-        path: arg || method,
-      },
-      expression: match[0],
-      line: lineNum,
-    });
+  const arg = firstCommand.args[0];
+  return arg.kind === 'pipe' ? resolvePipeContext(arg, scope) : resolveArg(arg, scope);
+}
+
+function lookupVariable(scope: Scope, name: string): string | null {
+  for (let current: Scope | undefined = scope; current; current = current.parent) {
+    if (current.vars.has(name)) return current.vars.get(name) ?? null;
   }
-  
-  return references;
+  return null;
 }
 
 /**
- * Extract .Capabilities.* references
+ * Record `$x := ...` in the current scope, or update the declaring scope for `$x = ...`
  */
-function extractCapabilitiesReferences(line: string, filePath: string, lineNum: number): Reference[] {
-  const references: Reference[] = [];
-  
-  // Match .Capabilities.APIVersions, .Capabilities.KubeVersion, etc.
-  const regex = /\.Capabilities((?:\.[a-zA-Z]+)+)/g;
-  let match;
-  
-  while ((match = regex.exec(line)) !== null) {
-    const path = match[1].replace(/^\./, '');
-    references.push({
-      id: `${filePath}:${lineNum}:capabilities:${path}`,
-      type: 'capabilities',
-      source: {
-        file: filePath,
-        line: lineNum,
-      },
-      target: {
-        type: 'capability',
-        path: path,
-      },
-      expression: match[0],
-      line: lineNum,
-    });
-  }
-  
-  return references;
+function declareVariables(pipe: TemplatePipeNode, scope: Scope, value: string | null): void {
+  pipe.decl.forEach(variable => {
+    let target = scope;
+    if (pipe.isAssign) {
+      for (let current: Scope | undefined = scope; current; current = current.parent) {
+        if (current.vars.has(variable.name)) {
+          target = current;
+          break;
+        }
+      }
+    }
+    target.vars.set(variable.name, value);
+  });
 }
 
 /**
- * Extract helper definitions from _helpers.tpl files
+ * Extract the helper definitions of a _helpers.tpl file or of a template
+ * that defines named templates itself
  */
 export function extractHelperDefinitions(content: string, filePath: string): HelperDefinition[] {
   const helpers: HelperDefinition[] = [];
+  const { root } = parseTemplate(content);
   
-  // Match {{- define "helper-name" -}} or {{ define "helper-name" }}
-  const defineRegex = /\{\{-?\s*define\s+"([^"]+)"\s*-?\}\}([\s\S]*?)\{\{-?\s*end\s*-?\}\}/g;
-  let match;
-  
-  while ((match = defineRegex.exec(content)) !== null) {
-    const name = match[1];
-    const helperContent = match[2].trim();
-    
-    // Calculate line number
-    const beforeMatch = content.substring(0, match.index);
-    const lineNum = (beforeMatch.match(/\n/g) || []).length + 1;
+  // Walk the tree so nested if/range/with blocks inside a define are kept in its body
+  walkTemplate(root, (node) => {
+    if (node.kind !== 'define') return;
     
+    const body = content.slice(node.list.range.start.offset, node.list.range.end.offset);
     helpers.push({
-      name,
+      name: node.name,
       file: filePath,
-      line: lineNum,
-      content: helperContent,
+      line: node.range.start.line,
+      endLine: node.range.end.line,
+      content: body.trim(),
     });
-  }
+  });
   
   return helpers;
 }
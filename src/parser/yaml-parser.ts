@@ -1,5 +1,5 @@
 import yaml from 'js-yaml';
-import { ChartYaml, ValuesData, ValueKey, ChartDependency } from '../types';
+import { ChartYaml, ValuesData, ValueKey, ChartDependency, ValuesLayer } from '../types';
 
 /**
  * Parse Chart.yaml content
@@ -31,6 +31,7 @@ function parseDependencies(deps: unknown): ChartDependency[] {
       version: String(d.version || ''),
       repository: d.repository ? String(d.repository) : undefined,
       condition: d.condition ? String(d.condition) : undefined,
+      tags: Array.isArray(d.tags) ? d.tags.map(String) : undefined,
       alias: d.alias ? String(d.alias) : undefined,
     };
   });
@@ -48,11 +49,71 @@ export function parseValuesYaml(content: string): ValuesData {
     raw = {};
   }
   
-  const flatKeys = flattenValues(raw);
-  
+  return createValuesData(raw);
+}
+
+/**
+ * Build ValuesData from an already-parsed values object
+ */
+export function createValuesData(raw: Record<string, unknown>): ValuesData {
+  return { raw, flatKeys: flattenValues(raw) };
+}
+
+/**
+ * Merge values layers in precedence order (chart defaults, then -f files,
+ * then --set) and record on each key which layer its effective value came
+ * from, plus the lower layers it overrides
+ */
+export function createLayeredValuesData(layers: ValuesLayer[]): ValuesData {
+  const raw = layers.slice(1).reduce((merged, layer) => mergeValues(merged, layer.raw), layers[0]?.raw ?? {});
+  const layerValues = layers.map(layer => new Map(flattenValues(layer.raw).map(key => [key.path, key.value])));
+
+  const flatKeys = flattenValues(raw).map(key => {
+    // Merging only ever replaces, so the highest layer setting a surviving key supplied it
+    const setters = layers
+      .map((layer, i) => ({ source: layer.source, values: layerValues[i] }))
+      .filter(layer => layer.values.has(key.path));
+    const effective = setters.pop();
+    if (!effective) return key;
+
+    return {
+      ...key,
+      source: effective.source,
+      overridden: setters.reverse().map(layer => ({ source: layer.source, value: layer.values.get(key.path) })),
+    };
+  });
+
   return { raw, flatKeys };
 }
 
+/**
+ * Deep-merge `overrides` onto `base` the way Helm coalesces values: maps are
+ * merged recursively, anything else is replaced, and a null override deletes
+ * the key. Neither input is modified.
+ */
+export function mergeValues(
+  base: Record<string, unknown>,
+  overrides: Record<string, unknown>
+): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...base };
+  
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === null) {
+      delete result[key];
+    } else if (isPlainObject(value) && isPlainObject(result[key])) {
+      result[key] = mergeValues(result[key] as Record<string, unknown>, value);
+    } else {
+      result[key] = value;
+    }
+  }
+  
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
 /**
  * Flatten nested values object into dot-notation keys
  */
@@ -128,19 +189,104 @@ function getValueType(value: unknown): ValueKey['type'] {
 }
 
 /**
- * Get a value from nested object using dot notation path
+ * Get a value from nested object using dot notation path. List indices
+ * ("hosts[0]") are supported, and "[*]" takes the first element.
  */
 export function getValueByPath(obj: Record<string, unknown>, path: string): unknown {
-  const parts = path.split('.');
   let current: unknown = obj;
   
-  for (const part of parts) {
+  for (const part of splitValuePath(path)) {
     if (current === null || current === undefined || typeof current !== 'object') {
       return undefined;
     }
-    current = (current as Record<string, unknown>)[part];
+    if (part === '[*]') {
+      current = Object.values(current as Record<string, unknown>)[0];
+    } else if (part.startsWith('[')) {
+      current = (current as Record<string, unknown>)[part.slice(1, -1)];
+    } else {
+      current = (current as Record<string, unknown>)[part];
+    }
   }
   
   return current;
 }
 
+/**
+ * The value written after `key:` on a line, without quotes or a trailing comment
+ */
+export function getYamlScalarText(line: string): string | undefined {
+  const value = line
+    .slice(line.indexOf(':') + 1)
+    .replace(/\s+#[^}]*$/, '')
+    .trim()
+    .replace(/^(["'])(.*)\1$/, '$2');
+  return value === '' ? undefined : value;
+}
+
+// A block mapping key, plain or quoted, followed by a colon
+const YAML_KEY_REGEX = /^("(?:[^"\\]|\\.)*"|'[^']*'|[^\s#'"{[][^:#]*?)\s*:(?=\s|$)/;
+
+/**
+ * Map each key path of a YAML document ("image.tag", "ingress.hosts[0].host")
+ * to the 1-based line it is defined on. This is a line scanner for the block
+ * style values files use; keys inside flow collections are not listed.
+ */
+export function getYamlKeyLines(content: string): Map<string, number> {
+  const lines = new Map<string, number>();
+  const stack: { indent: number; path: string; isItem: boolean }[] = [];
+  const itemCounts = new Map<string, number>();
+  let blockScalarIndent = -1;
+
+  content.split('\n').forEach((line, index) => {
+    const trimmed = line.trim();
+    if (trimmed === '' || trimmed.startsWith('#') || trimmed === '---') return;
+
+    let indent = line.length - line.trimStart().length;
+    if (blockScalarIndent >= 0 && indent > blockScalarIndent) return;
+    blockScalarIndent = -1;
+
+    let rest = trimmed;
+    while (rest === '-' || rest.startsWith('- ')) {
+      while (stack.length > 0 && (stack[stack.length - 1].indent > indent || (stack[stack.length - 1].indent === indent && stack[stack.length - 1].isItem))) {
+        stack.pop();
+      }
+      const parent = stack[stack.length - 1]?.path ?? '';
+      const itemIndex = itemCounts.get(parent) ?? 0;
+      itemCounts.set(parent, itemIndex + 1);
+      const path = `${parent}[${itemIndex}]`;
+      lines.set(path, index + 1);
+      stack.push({ indent, path, isItem: true });
+
+      const afterDash = rest.slice(1);
+      indent += 1 + afterDash.length - afterDash.trimStart().length;
+      rest = afterDash.trim();
+    }
+
+    const key = YAML_KEY_REGEX.exec(rest);
+    if (!key) return;
+
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+    const name = key[1].replace(/^(["'])(.*)\1$/, '$2');
+    const parent = stack[stack.length - 1]?.path;
+    const path = parent ? `${parent}.${name}` : name;
+    lines.set(path, index + 1);
+
+    const value = rest.slice(key[0].length).replace(/(^|\s)#.*$/, '').trim();
+    if (value === '') {
+      stack.push({ indent, path, isItem: false });
+    } else if (/^[|>]/.test(value)) {
+      blockScalarIndent = indent;
+    }
+  });
+
+  return lines;
+}
+
+/**
+ * Split "ingress.hosts[0].host" into ["ingress", "hosts", "[0]", "host"]
+ */
+export function splitValuePath(path: string): string[] {
+  return path.match(/\[[^\]]*\]|[^.[]+/g) || [];
+}
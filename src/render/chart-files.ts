@@ -0,0 +1,98 @@
+import { HelmFile } from '../types';
+import { isDefaultValuesFile } from '../parser/helm-parser';
+import { TEMPLATE_FUNCTIONS } from './sprig-functions';
+
+/**
+ * Build the `.Files` object templates see. Like Helm, it holds every chart
+ * file except Chart.yaml, the default values file and templates.
+ */
+export function createFilesObject(files: HelmFile[]): Record<string, unknown> {
+  const accessible = files.filter(isAccessibleChartFile);
+  return createFilesView(new Map(accessible.map(file => [file.path, file.content])));
+}
+
+/**
+ * Whether templates can read a file through `.Files`
+ */
+export function isAccessibleChartFile(file: HelmFile): boolean {
+  return file.type !== 'chart' && !isDefaultValuesFile(file.path) && !file.path.startsWith('templates/');
+}
+
+/**
+ * Convert a glob pattern (`*`, `**`, `?`, `[abc]`, `{a,b}`) to a regular
+ * expression matching whole paths
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        source += '.*';
+        i++;
+        if (pattern[i + 1] === '/') i++;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i);
+      source += end === -1 ? '\\[' : pattern.slice(i, end + 1).replace(/^\[!/, '[^');
+      if (end !== -1) i = end;
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i);
+      if (end === -1) {
+        source += '\\{';
+      } else {
+        source += `(?:${pattern.slice(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+        i = end;
+      }
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Helm's Files type over a set of path -> content entries: a map of the
+ * entries, so `range` and `len` see the files, with its methods hidden
+ * from iteration
+ */
+function createFilesView(entries: Map<string, string>): Record<string, unknown> {
+  const baseName = (path: string) => path.split('/').pop() ?? path;
+  const toYaml = TEMPLATE_FUNCTIONS.toYaml;
+  const b64enc = TEMPLATE_FUNCTIONS.b64enc;
+
+  const methods: Record<string, (...args: unknown[]) => unknown> = {
+    Get: (name: unknown) => entries.get(String(name)) ?? '',
+    GetBytes: (name: unknown) => Array.from(new TextEncoder().encode(entries.get(String(name)) ?? '')),
+    Lines: (name: unknown) => {
+      const content = entries.get(String(name));
+      return content === undefined ? [] : content.split('\n');
+    },
+    Glob: (pattern: unknown) => {
+      const regex = globToRegExp(String(pattern));
+      return createFilesView(new Map([...entries].filter(([path]) => regex.test(path))));
+    },
+    AsConfig: () => {
+      if (entries.size === 0) return '';
+      return toYaml(Object.fromEntries([...entries].map(([path, content]) => [baseName(path), content])));
+    },
+    AsSecrets: () => {
+      if (entries.size === 0) return '';
+      return toYaml(Object.fromEntries([...entries].map(([path, content]) => [baseName(path), b64enc(content)])));
+    },
+  };
+
+  const view: Record<string, unknown> = Object.fromEntries(entries);
+  Object.entries(methods).forEach(([name, method]) => {
+    Object.defineProperty(view, name, { value: method, enumerable: false });
+  });
+  return view;
+}
@@ -0,0 +1,187 @@
+/**
+ * Go template value semantics for plain JavaScript values: maps are plain
+ * objects, slices are arrays, and nil is null or undefined.
+ */
+
+/**
+ * Check whether a value is a plain object (a Go map)
+ */
+export function isMap(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * Check whether a value is nil
+ */
+export function isNil(value: unknown): value is null | undefined {
+  return value === null || value === undefined;
+}
+
+/**
+ * Go template truthiness: false, 0, nil and empty strings, slices and maps
+ * are false
+ */
+export function isTruthy(value: unknown): boolean {
+  if (isNil(value)) return false;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  if (typeof value === 'string') return value.length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  if (isMap(value)) return Object.keys(value).length > 0;
+  return true;
+}
+
+/**
+ * Format a value the way Go's %v verb does: `[a b]` for slices and
+ * `map[k:v]` with sorted keys for maps
+ */
+export function formatValue(value: unknown): string {
+  if (isNil(value)) return '<nil>';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return formatNumber(value);
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(' ')}]`;
+  if (value instanceof Date) return value.toISOString();
+  if (isMap(value)) {
+    const entries = Object.keys(value).sort().map(key => `${key}:${formatValue(value[key])}`);
+    return `map[${entries.join(' ')}]`;
+  }
+  return String(value);
+}
+
+/**
+ * Format the result of an action. Helm renders missing values as an empty
+ * string rather than Go's "<no value>".
+ */
+export function formatOutput(value: unknown): string {
+  return isNil(value) ? '' : formatValue(value);
+}
+
+/**
+ * Format a number like Go formats float64 with %v (exponent for large values)
+ */
+function formatNumber(value: number): string {
+  // Go writes exponents with at least two digits: 1e-07 rather than 1e-7
+  return String(value).replace(/e([+-])(\d)$/, 'e$10$2');
+}
+
+/**
+ * Go's name for the kind of a value, as returned by Sprig's kindOf
+ */
+export function kindOf(value: unknown): string {
+  if (isNil(value)) return 'invalid';
+  if (typeof value === 'string') return 'string';
+  if (typeof value === 'boolean') return 'bool';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'int' : 'float64';
+  if (Array.isArray(value)) return 'slice';
+  if (typeof value === 'function') return 'func';
+  if (value instanceof Date) return 'struct';
+  return 'map';
+}
+
+/**
+ * Go's name for the type of a value, as returned by Sprig's typeOf
+ */
+export function typeOf(value: unknown): string {
+  const kind = kindOf(value);
+  if (kind === 'invalid') return '<nil>';
+  if (kind === 'slice') return '[]interface {}';
+  if (kind === 'map') return 'map[string]interface {}';
+  if (kind === 'struct') return 'time.Time';
+  return kind;
+}
+
+/**
+ * Compare two values with Go template `eq` semantics
+ */
+export function valuesEqual(left: unknown, right: unknown): boolean {
+  if (isNil(left) || isNil(right)) return isNil(left) && isNil(right);
+  if ((Array.isArray(left) || isMap(left)) && left !== right) {
+    throw new Error(`incompatible types for comparison: ${typeOf(left)}`);
+  }
+  return left === right;
+}
+
+/**
+ * Order two basic values for lt/le/gt/ge
+ */
+export function compareValues(left: unknown, right: unknown): number {
+  if (typeof left === 'number' && typeof right === 'number') return left - right;
+  if (typeof left === 'string' && typeof right === 'string') return left < right ? -1 : left > right ? 1 : 0;
+  throw new Error(`incompatible types for comparison: ${typeOf(left)} and ${typeOf(right)}`);
+}
+
+/**
+ * Go's fmt.Sprintf for the verbs charts actually use
+ */
+export function sprintf(format: string, args: unknown[]): string {
+  let argIndex = 0;
+
+  const result = format.replace(/%([-+# 0]*)(\d+)?(?:\.(\d+))?([a-zA-Z%])/g, (_match, flags: string, width?: string, precision?: string, verb?: string) => {
+    if (verb === '%') return '%';
+    if (argIndex >= args.length) return `%!${verb}(MISSING)`;
+
+    const arg = args[argIndex++];
+    let text: string;
+    switch (verb) {
+      case 'v':
+      case 's':
+        text = formatValue(arg);
+        if (precision !== undefined) text = text.slice(0, Number(precision));
+        break;
+      case 'q':
+        text = typeof arg === 'number' ? `'${String.fromCodePoint(arg)}'` : JSON.stringify(formatValue(arg));
+        break;
+      case 'd':
+        text = String(Math.trunc(Number(arg)));
+        if (flags.includes('+') && Number(arg) >= 0) text = `+${text}`;
+        break;
+      case 'f':
+      case 'F':
+        text = Number(arg).toFixed(precision !== undefined ? Number(precision) : 6);
+        break;
+      case 'e':
+        text = Number(arg).toExponential(precision !== undefined ? Number(precision) : 6).replace(/e([+-])(\d)$/, 'e$10$2');
+        break;
+      case 'g':
+        text = formatNumber(Number(arg));
+        break;
+      case 't':
+        text = String(arg);
+        break;
+      case 'x':
+      case 'X':
+        text = typeof arg === 'number'
+          ? Math.trunc(arg).toString(16)
+          : Array.from(new TextEncoder().encode(formatValue(arg)), byte => byte.toString(16).padStart(2, '0')).join('');
+        if (verb === 'X') text = text.toUpperCase();
+        break;
+      case 'o':
+        text = Math.trunc(Number(arg)).toString(8);
+        break;
+      case 'b':
+        text = Math.trunc(Number(arg)).toString(2);
+        break;
+      case 'c':
+        text = String.fromCodePoint(Number(arg));
+        break;
+      case 'T':
+        text = typeOf(arg);
+        break;
+      default:
+        text = `%!${verb}(${typeOf(arg)}=${formatValue(arg)})`;
+    }
+
+    if (width !== undefined && text.length < Number(width)) {
+      const padding = Number(width) - text.length;
+      if (flags.includes('-')) return text + ' '.repeat(padding);
+      return (flags.includes('0') && 'dfFeg'.includes(verb ?? '') ? '0' : ' ').repeat(padding) + text;
+    }
+    return text;
+  });
+
+  if (argIndex < args.length) {
+    const extra = args.slice(argIndex).map(arg => `${typeOf(arg)}=${formatValue(arg)}`);
+    return `${result}%!(EXTRA ${extra.join(', ')})`;
+  }
+  return result;
+}
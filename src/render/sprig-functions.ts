@@ -0,0 +1,591 @@
+import yaml from 'js-yaml';
+import {
+  compareValues,
+  formatValue,
+  isMap,
+  isNil,
+  isTruthy,
+  kindOf,
+  sprintf,
+  typeOf,
+  valuesEqual,
+} from './go-values';
+
+export type TemplateFunction = (...args: unknown[]) => unknown;
+
+/**
+ * Go template builtins plus the Sprig and Helm functions charts commonly use.
+ * Functions that need the renderer (include, tpl) are added by it. Sprig puts
+ * the piped value last, so `"x" | default "y"` calls default("y", "x").
+ */
+export const TEMPLATE_FUNCTIONS: Record<string, TemplateFunction> = {
+  // Go builtins
+  and: (...args) => args.find(arg => !isTruthy(arg)) ?? args[args.length - 1],
+  or: (...args) => args.find(arg => isTruthy(arg)) ?? args[args.length - 1],
+  not: (value) => !isTruthy(value),
+  eq: (left, ...rights) => rights.some(right => valuesEqual(left, right)),
+  ne: (left, right) => !valuesEqual(left, right),
+  lt: (left, right) => compareValues(left, right) < 0,
+  le: (left, right) => compareValues(left, right) <= 0,
+  gt: (left, right) => compareValues(left, right) > 0,
+  ge: (left, right) => compareValues(left, right) >= 0,
+  len: (value) => lengthOf(value),
+  index: (collection, ...keys) => keys.reduce(indexValue, collection),
+  print: (...args) => goPrint(args),
+  println: (...args) => `${args.map(formatValue).join(' ')}\n`,
+  printf: (format, ...args) => sprintf(toText(format), args),
+  html: (value) => toText(value).replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`),
+  js: (value) => JSON.stringify(toText(value)).slice(1, -1),
+  urlquery: (...args) => encodeURIComponent(args.map(formatValue).join('')),
+
+  // Defaults and flow
+  default: (fallback, ...given) => (given.length > 0 && isTruthy(given[0]) ? given[0] : fallback),
+  empty: (value) => !isTruthy(value),
+  coalesce: (...args) => args.find(arg => isTruthy(arg)) ?? null,
+  ternary: (whenTrue, whenFalse, condition) => (isTruthy(condition) ? whenTrue : whenFalse),
+  required: (message, value) => {
+    if (isNil(value) || value === '') throw new Error(toText(message));
+    return value;
+  },
+  fail: (message) => {
+    throw new Error(toText(message));
+  },
+
+  // Strings
+  quote: (...args) => args.filter(arg => !isNil(arg)).map(arg => JSON.stringify(formatValue(arg))).join(' '),
+  squote: (...args) => args.filter(arg => !isNil(arg)).map(arg => `'${formatValue(arg)}'`).join(' '),
+  upper: (value) => toText(value).toUpperCase(),
+  lower: (value) => toText(value).toLowerCase(),
+  title: (value) => toText(value).replace(/(^|\s)(\S)/g, (_match, space: string, char: string) => space + char.toUpperCase()),
+  untitle: (value) => toText(value).replace(/(^|\s)(\S)/g, (_match, space: string, char: string) => space + char.toLowerCase()),
+  trim: (value) => toText(value).trim(),
+  trimAll: (chars, value) => trimChars(toText(value), toText(chars)),
+  trimPrefix: (prefix, value) => {
+    const text = toText(value);
+    return text.startsWith(toText(prefix)) ? text.slice(toText(prefix).length) : text;
+  },
+  trimSuffix: (suffix, value) => {
+    const text = toText(value);
+    return suffix !== '' && text.endsWith(toText(suffix)) ? text.slice(0, -toText(suffix).length) : text;
+  },
+  trunc: (length, value) => {
+    const text = toText(value);
+    const count = toInt(length);
+    return count >= 0 ? text.slice(0, count) : text.slice(Math.max(text.length + count, 0));
+  },
+  abbrev: (width, value) => {
+    const text = toText(value);
+    const max = toInt(width);
+    return text.length <= max || max < 4 ? text : `${text.slice(0, max - 3)}...`;
+  },
+  indent: (spaces, value) => indent(toText(value), toInt(spaces)),
+  nindent: (spaces, value) => `\n${indent(toText(value), toInt(spaces))}`,
+  replace: (search, replacement, value) => toText(value).split(toText(search)).join(toText(replacement)),
+  repeat: (count, value) => toText(value).repeat(Math.max(toInt(count), 0)),
+  substr: (start, end, value) => {
+    const text = toText(value);
+    const from = toInt(start);
+    const to = toInt(end);
+    if (from < 0) return text.slice(0, to);
+    if (to < 0 || to > text.length) return text.slice(from);
+    return text.slice(from, to);
+  },
+  contains: (search, value) => toText(value).includes(toText(search)),
+  hasPrefix: (prefix, value) => toText(value).startsWith(toText(prefix)),
+  hasSuffix: (suffix, value) => toText(value).endsWith(toText(suffix)),
+  nospace: (value) => toText(value).replace(/\s+/g, ''),
+  cat: (...args) => args.filter(arg => !isNil(arg)).map(formatValue).join(' '),
+  wrap: (width, value) => wrapText(toText(value), toInt(width)),
+  snakecase: (value) => splitWords(toText(value)).join('_').toLowerCase(),
+  kebabcase: (value) => splitWords(toText(value)).join('-').toLowerCase(),
+  camelcase: (value) => splitWords(toText(value)).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(''),
+  plural: (one, many, count) => (toInt(count) === 1 ? one : many),
+  toString: (value: unknown) => formatValue(value),
+  toStrings: (value) => toList(value).map(formatValue),
+  split: (separator, value) => Object.fromEntries(toText(value).split(toText(separator)).map((part, i) => [`_${i}`, part])),
+  splitList: (separator, value) => toText(value).split(toText(separator)),
+  join: (separator, value) => toList(value).filter(item => !isNil(item)).map(formatValue).join(toText(separator)),
+  sortAlpha: (value) => toList(value).map(formatValue).sort(),
+  regexMatch: (pattern, value) => compileRegex(pattern).test(toText(value)),
+  regexFind: (pattern, value) => toText(value).match(compileRegex(pattern))?.[0] ?? '',
+  regexFindAll: (pattern, value, count) => limit(toText(value).match(compileRegex(pattern, 'g')) ?? [], toInt(count)),
+  regexReplaceAll: (pattern, value, replacement) =>
+    toText(value).replace(compileRegex(pattern, 'g'), toText(replacement).replace(/\$\{(\w+)\}/g, '$$$1')),
+  regexReplaceAllLiteral: (pattern, value, replacement) =>
+    toText(value).replace(compileRegex(pattern, 'g'), () => toText(replacement)),
+  regexSplit: (pattern, value, count) => limit(toText(value).split(compileRegex(pattern)), toInt(count)),
+
+  // Conversion and encoding
+  atoi: (value) => parseInt(toText(value), 10) || 0,
+  int: (value) => Math.trunc(toNumber(value)),
+  int64: (value) => Math.trunc(toNumber(value)),
+  float64: (value) => toNumber(value),
+  toJson: (value) => stringifyJson(value),
+  toRawJson: (value) => stringifyJson(value),
+  toPrettyJson: (value) => stringifyJson(value, 2),
+  fromJson: (value) => parseOrEmpty(() => JSON.parse(toText(value)), {}),
+  fromJsonArray: (value) => parseOrEmpty(() => JSON.parse(toText(value)), []),
+  toYaml: (value) => toYaml(value),
+  fromYaml: (value) => parseOrEmpty(() => yaml.load(toText(value)) ?? {}, {}),
+  fromYamlArray: (value) => parseOrEmpty(() => yaml.load(toText(value)) ?? [], []),
+  b64enc: (value) => encodeBase64(toText(value)),
+  b64dec: (value) => decodeBase64(toText(value)),
+  sha256sum: (value) => sha256(toText(value)),
+
+  // Type inspection
+  typeOf: (value) => typeOf(value),
+  kindOf: (value) => kindOf(value),
+  typeIs: (type, value) => typeOf(value) === type,
+  kindIs: (kind, value) => kindOf(value) === kind,
+  deepEqual: (left, right) => stringifyJson(left) === stringifyJson(right),
+
+  // Math
+  add: (...args) => args.reduce<number>((sum, arg) => sum + toInt(arg), 0),
+  add1: (value) => toInt(value) + 1,
+  sub: (left, right) => toInt(left) - toInt(right),
+  mul: (...args) => args.reduce<number>((product, arg) => product * toInt(arg), 1),
+  div: (left, right) => Math.trunc(toInt(left) / toInt(right)),
+  mod: (left, right) => toInt(left) % toInt(right),
+  max: (...args) => Math.max(...args.map(toInt)),
+  min: (...args) => Math.min(...args.map(toInt)),
+  addf: (...args) => args.reduce<number>((sum, arg) => sum + toNumber(arg), 0),
+  subf: (left, ...rest) => rest.reduce<number>((total, arg) => total - toNumber(arg), toNumber(left)),
+  mulf: (...args) => args.reduce<number>((product, arg) => product * toNumber(arg), 1),
+  divf: (left, ...rest) => rest.reduce<number>((total, arg) => total / toNumber(arg), toNumber(left)),
+  floor: (value) => Math.floor(toNumber(value)),
+  ceil: (value) => Math.ceil(toNumber(value)),
+  round: (value, precision) => {
+    const factor = 10 ** toInt(precision);
+    return Math.round(toNumber(value) * factor) / factor;
+  },
+
+  // Lists
+  list: (...args) => args,
+  first: (value) => toList(value)[0] ?? null,
+  last: (value) => toList(value)[toList(value).length - 1] ?? null,
+  rest: (value) => toList(value).slice(1),
+  initial: (value) => toList(value).slice(0, -1),
+  append: (value, item) => [...toList(value), item],
+  prepend: (value, item) => [item, ...toList(value)],
+  concat: (...lists) => lists.flatMap(toList),
+  has: (needle, haystack) => toList(haystack).some(item => item === needle),
+  uniq: (value) => toList(value).filter((item, i, items) => items.indexOf(item) === i),
+  without: (value, ...omit) => toList(value).filter(item => !omit.includes(item)),
+  compact: (value) => toList(value).filter(isTruthy),
+  reverse: (value) => [...toList(value)].reverse(),
+  slice: (value, start, end) => sliceValue(value, start, end),
+  until: (count) => Array.from({ length: Math.max(toInt(count), 0) }, (_, i) => i),
+  untilStep: (start, stop, step) => range(toInt(start), toInt(stop), toInt(step)),
+  seq: (...args) => {
+    const numbers = args.map(toInt);
+    if (numbers.length === 1) return range(1, numbers[0] + 1, 1).join(' ');
+    const [from, by, to] = numbers.length === 2 ? [numbers[0], numbers[0] <= numbers[1] ? 1 : -1, numbers[1]] : numbers;
+    return range(from, to + Math.sign(by), by).join(' ');
+  },
+
+  // Dictionaries
+  dict: (...args) => {
+    const result: Record<string, unknown> = {};
+    for (let i = 0; i < args.length; i += 2) result[formatValue(args[i])] = i + 1 < args.length ? args[i + 1] : '';
+    return result;
+  },
+  get: (dict, key) => toMap(dict)[toText(key)] ?? '',
+  set: (dict, key, value) => {
+    toMap(dict)[toText(key)] = value;
+    return dict;
+  },
+  unset: (dict, key) => {
+    delete toMap(dict)[toText(key)];
+    return dict;
+  },
+  hasKey: (dict, key) => Object.prototype.hasOwnProperty.call(toMap(dict), toText(key)),
+  keys: (...dicts) => dicts.flatMap(dict => Object.keys(toMap(dict))),
+  values: (dict) => Object.values(toMap(dict)),
+  pick: (dict, ...keys) =>
+    Object.fromEntries(Object.entries(toMap(dict)).filter(([key]) => keys.includes(key))),
+  omit: (dict, ...keys) =>
+    Object.fromEntries(Object.entries(toMap(dict)).filter(([key]) => !keys.includes(key))),
+  pluck: (key, ...dicts) =>
+    dicts.map(toMap).filter(dict => toText(key) in dict).map(dict => dict[toText(key)]),
+  dig: (...args) => {
+    const dict = args[args.length - 1];
+    const fallback = args[args.length - 2];
+    let current: unknown = dict;
+    for (const key of args.slice(0, -2)) {
+      if (!isMap(current) || !(toText(key) in current)) return fallback;
+      current = current[toText(key)];
+    }
+    return current;
+  },
+  merge: (target, ...sources) => {
+    for (const source of sources) mergeInto(toMap(target), toMap(source), false);
+    return target;
+  },
+  mergeOverwrite: (target, ...sources) => {
+    for (const source of sources) mergeInto(toMap(target), toMap(source), true);
+    return target;
+  },
+  deepCopy: (value) => structuredClone(value),
+
+  // Versions, dates and randomness
+  semverCompare: (constraint, version) => satisfiesConstraint(toText(version), toText(constraint)),
+  now: () => new Date(),
+  date: (layout, value) => formatDate(toText(layout), toDate(value)),
+  dateInZone: (layout, value) => formatDate(toText(layout), toDate(value)),
+  unixEpoch: (value) => String(Math.floor(toDate(value).getTime() / 1000)),
+  uuidv4: () => crypto.randomUUID(),
+  randAlphaNum: (count) => randomString(toInt(count), 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'),
+  randAlpha: (count) => randomString(toInt(count), 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz'),
+  randNumeric: (count) => randomString(toInt(count), '0123456789'),
+
+  // Helm: nothing to look up without a cluster, which matches `helm template`
+  lookup: () => ({}),
+};
+
+/**
+ * Go's print: spaces only between operands when neither is a string
+ */
+function goPrint(args: unknown[]): string {
+  return args.reduce<string>((text, arg, i) => {
+    const separator = i > 0 && typeof arg !== 'string' && typeof args[i - 1] !== 'string' ? ' ' : '';
+    return text + separator + formatValue(arg);
+  }, '');
+}
+
+function toText(value: unknown): string {
+  return isNil(value) ? '' : formatValue(value);
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const parsed = parseFloat(toText(value));
+  return Number.isNaN(parsed) ? 0 : parsed;
+}
+
+function toInt(value: unknown): number {
+  return Math.trunc(toNumber(value));
+}
+
+function toList(value: unknown): unknown[] {
+  if (isNil(value)) return [];
+  if (Array.isArray(value)) return value;
+  throw new Error(`cannot use type ${typeOf(value)} as a list`);
+}
+
+function toMap(value: unknown): Record<string, unknown> {
+  if (isMap(value)) return value;
+  throw new Error(`cannot use type ${typeOf(value)} as a dict`);
+}
+
+function toDate(value: unknown): Date {
+  if (value instanceof Date) return value;
+  if (typeof value === 'number') return new Date(value * 1000);
+  return isNil(value) ? new Date() : new Date(toText(value));
+}
+
+/**
+ * Go's len builtin
+ */
+function lengthOf(value: unknown): number {
+  if (typeof value === 'string' || Array.isArray(value)) return value.length;
+  if (isMap(value)) return Object.keys(value).length;
+  throw new Error(`len of type ${typeOf(value)}`);
+}
+
+/**
+ * One step of Go's index builtin
+ */
+function indexValue(collection: unknown, key: unknown): unknown {
+  if (isNil(collection)) throw new Error('index of untyped nil');
+  if (Array.isArray(collection) || typeof collection === 'string') {
+    const position = toInt(key);
+    if (position < 0 || position >= collection.length) {
+      throw new Error(`index out of range: ${position}`);
+    }
+    return collection[position];
+  }
+  if (isMap(collection)) return collection[toText(key)];
+  throw new Error(`can't index item of type ${typeOf(collection)}`);
+}
+
+function sliceValue(value: unknown, start: unknown, end: unknown): unknown {
+  const from = isNil(start) ? 0 : toInt(start);
+  if (typeof value === 'string') return value.slice(from, isNil(end) ? undefined : toInt(end));
+  return toList(value).slice(from, isNil(end) ? undefined : toInt(end));
+}
+
+function range(start: number, stop: number, step: number): number[] {
+  const numbers: number[] = [];
+  if (step === 0) return numbers;
+  for (let i = start; step > 0 ? i < stop : i > stop; i += step) numbers.push(i);
+  return numbers;
+}
+
+function limit<T>(items: T[], count: number): T[] {
+  return count < 0 ? items : items.slice(0, count);
+}
+
+function indent(text: string, spaces: number): string {
+  const padding = ' '.repeat(Math.max(spaces, 0));
+  return padding + text.replace(/\n/g, `\n${padding}`);
+}
+
+function trimChars(text: string, chars: string): string {
+  let start = 0;
+  let end = text.length;
+  while (start < end && chars.includes(text[start])) start++;
+  while (end > start && chars.includes(text[end - 1])) end--;
+  return text.slice(start, end);
+}
+
+function wrapText(text: string, width: number): string {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + word.length + 1 > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.join('\n');
+}
+
+/**
+ * Split camelCase, snake_case, kebab-case and spaced text into words
+ */
+function splitWords(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[\s_-]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Compile a Go RE2 pattern, translating the inline flag syntax JavaScript
+ * lacks
+ */
+function compileRegex(pattern: unknown, flags = ''): RegExp {
+  let source = toText(pattern);
+  const inline = source.match(/^\(\?([imsU]+)\)/);
+  if (inline) {
+    source = source.slice(inline[0].length);
+    flags += inline[1].replace(/U/g, '');
+  }
+  return new RegExp(source, flags);
+}
+
+function mergeInto(target: Record<string, unknown>, source: Record<string, unknown>, overwrite: boolean): void {
+  for (const [key, value] of Object.entries(source)) {
+    const existing = target[key];
+    if (isMap(existing) && isMap(value)) {
+      mergeInto(existing, value, overwrite);
+    } else if (overwrite || !(key in target) || !isTruthy(existing)) {
+      target[key] = value;
+    }
+  }
+}
+
+function parseOrEmpty(parse: () => unknown, empty: unknown): unknown {
+  try {
+    return parse();
+  } catch {
+    return empty;
+  }
+}
+
+/**
+ * JSON with sorted map keys, as Go's encoding/json writes it
+ */
+function stringifyJson(value: unknown, space?: number): string {
+  return JSON.stringify(value ?? null, (_key, current) => {
+    if (!isMap(current)) return current;
+    return Object.fromEntries(Object.keys(current).sort().map(key => [key, current[key]]));
+  }, space);
+}
+
+/**
+ * Helm's toYaml: sorted keys and no trailing newline
+ */
+function toYaml(value: unknown): string {
+  if (isNil(value)) return 'null';
+  try {
+    return yaml.dump(value, { sortKeys: true, lineWidth: -1, noRefs: true, skipInvalid: true }).replace(/\n$/, '');
+  } catch {
+    return '';
+  }
+}
+
+function encodeBase64(text: string): string {
+  let binary = '';
+  new TextEncoder().encode(text).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function decodeBase64(text: string): string {
+  try {
+    const binary = atob(text);
+    return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+  } catch {
+    return '';
+  }
+}
+
+function randomString(length: number, alphabet: string): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(Math.max(length, 0)));
+  return Array.from(bytes, byte => alphabet[byte % alphabet.length]).join('');
+}
+
+/**
+ * Format a date with a Go reference-time layout (Mon Jan 2 15:04:05 2006)
+ */
+function formatDate(layout: string, date: Date): string {
+  const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+  const tokens: Record<string, () => string> = {
+    '2006': () => String(date.getUTCFullYear()),
+    '06': () => pad(date.getUTCFullYear() % 100),
+    '01': () => pad(date.getUTCMonth() + 1),
+    '02': () => pad(date.getUTCDate()),
+    '15': () => pad(date.getUTCHours()),
+    '03': () => pad(date.getUTCHours() % 12 || 12),
+    '04': () => pad(date.getUTCMinutes()),
+    '05': () => pad(date.getUTCSeconds()),
+    'Jan': () => date.toLocaleString('en-US', { month: 'short', timeZone: 'UTC' }),
+    'Mon': () => date.toLocaleString('en-US', { weekday: 'short', timeZone: 'UTC' }),
+    'MST': () => 'UTC',
+    'PM': () => (date.getUTCHours() < 12 ? 'AM' : 'PM'),
+    'Z07:00': () => 'Z',
+    '-0700': () => '+0000',
+  };
+  return layout.replace(/2006|Z07:00|-0700|MST|Jan|Mon|PM|06|01|02|15|03|04|05/g, token => tokens[token]());
+}
+
+interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string;
+}
+
+function parseSemVer(version: string): SemVer | null {
+  const match = version.trim().match(/^v?(\d+)(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/);
+  if (!match) return null;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]) || 0,
+    patch: Number(match[3]) || 0,
+    prerelease: match[4] ?? '',
+  };
+}
+
+function compareSemVer(left: SemVer, right: SemVer): number {
+  const diff = left.major - right.major || left.minor - right.minor || left.patch - right.patch;
+  if (diff !== 0) return diff;
+  if (left.prerelease === right.prerelease) return 0;
+  if (!left.prerelease) return 1;
+  if (!right.prerelease) return -1;
+  return left.prerelease < right.prerelease ? -1 : 1;
+}
+
+/**
+ * Check a version against a Masterminds/semver constraint such as
+ * ">=1.19-0", "^1.2", "~1.2.3" or ">=1.21 <1.25 || 2.x"
+ */
+function satisfiesConstraint(version: string, constraint: string): boolean {
+  const parsed = parseSemVer(version);
+  if (!parsed) throw new Error(`invalid semantic version: ${version}`);
+
+  // ">= 1.19" is the same constraint as ">=1.19"
+  const normalized = constraint.replace(/(>=|<=|!=|=|>|<|\^|~)\s+/g, '$1');
+
+  return normalized.split('||').some(group =>
+    group.trim().split(/[\s,]+/).filter(Boolean).every(part => {
+      const match = part.match(/^(>=|<=|!=|=|>|<|\^|~)?(.+)$/);
+      if (!match) return false;
+      const operator = match[1] ?? '=';
+      const target = parseSemVer(match[2]);
+      if (!target) throw new Error(`improper constraint: ${constraint}`);
+
+      const wildcardMinor = /^v?\d+(\.[xX*])?$/.test(match[2]);
+      const wildcardPatch = wildcardMinor || /^v?\d+\.\d+(\.[xX*])?$/.test(match[2]);
+      // Prereleases only satisfy constraints that mention a prerelease, like >=1.19-0
+      if (parsed.prerelease && !target.prerelease) return false;
+      const comparison = compareSemVer(parsed, target);
+
+      switch (operator) {
+        case '>': return comparison > 0;
+        case '>=': return comparison >= 0;
+        case '<': return comparison < 0;
+        case '<=': return comparison <= 0 || (wildcardPatch && parsed.major === target.major && (wildcardMinor || parsed.minor === target.minor));
+        case '!=': return comparison !== 0;
+        case '^': return comparison >= 0 && parsed.major === target.major;
+        case '~': return comparison >= 0 && parsed.major === target.major && (wildcardMinor || parsed.minor === target.minor);
+        default:
+          if (wildcardMinor) return parsed.major === target.major;
+          if (wildcardPatch) return parsed.major === target.major && parsed.minor === target.minor;
+          return comparison === 0;
+      }
+    })
+  );
+}
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/**
+ * SHA-256 hex digest. Templates run synchronously, so crypto.subtle is no
+ * use here.
+ */
+function sha256(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  const length = Math.ceil((bytes.length + 9) / 64) * 64;
+  const padded = new Uint8Array(length);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(length - 8, Math.floor(bytes.length / 0x20000000));
+  view.setUint32(length - 4, (bytes.length * 8) >>> 0);
+
+  const hash = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const words = new Uint32Array(64);
+  const rotate = (value: number, bits: number) => (value >>> bits) | (value << (32 - bits));
+
+  for (let offset = 0; offset < length; offset += 64) {
+    for (let i = 0; i < 16; i++) words[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotate(words[i - 15], 7) ^ rotate(words[i - 15], 18) ^ (words[i - 15] >>> 3);
+      const s1 = rotate(words[i - 2], 17) ^ rotate(words[i - 2], 19) ^ (words[i - 2] >>> 10);
+      words[i] = words[i - 16] + s0 + words[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotate(e, 6) ^ rotate(e, 11) ^ rotate(e, 25);
+      const t1 = (h + s1 + ((e & f) ^ (~e & g)) + SHA256_K[i] + words[i]) >>> 0;
+      const s0 = rotate(a, 2) ^ rotate(a, 13) ^ rotate(a, 22);
+      const t2 = (s0 + ((a & b) ^ (a & c) ^ (b & c))) >>> 0;
+      [h, g, f, e, d, c, b, a] = [g, f, e, (d + t1) >>> 0, c, b, a, (t1 + t2) >>> 0];
+    }
+
+    [a, b, c, d, e, f, g, h].forEach((value, i) => {
+      hash[i] = hash[i] + value;
+    });
+  }
+
+  return Array.from(hash, word => word.toString(16).padStart(8, '0')).join('');
+}
@@ -0,0 +1,590 @@
+import {
+  CapabilitiesInfo,
+  HelmChart,
+  ReleaseInfo,
+  RenderError,
+  RenderOptions,
+  RenderResult,
+  SourceRange,
+  TemplateArgNode,
+  TemplateCommandNode,
+  TemplateListNode,
+  TemplateNode,
+  TemplatePipeNode,
+} from '../types';
+import { definesNamedTemplates, parseTemplate, walkTemplate } from '../parser/template-ast';
+import { createFilesObject } from './chart-files';
+import { formatOutput, isMap, isNil, isTruthy, typeOf } from './go-values';
+import { TEMPLATE_FUNCTIONS } from './sprig-functions';
+
+export const DEFAULT_RELEASE: ReleaseInfo = {
+  name: 'release-name',
+  namespace: 'default',
+  revision: 1,
+  isInstall: true,
+  isUpgrade: false,
+  service: 'Helm',
+};
+
+export const DEFAULT_CAPABILITIES: CapabilitiesInfo = {
+  kubeVersion: 'v1.29.0',
+  apiVersions: [
+    'v1',
+    'admissionregistration.k8s.io/v1',
+    'apiextensions.k8s.io/v1',
+    'apps/v1',
+    'autoscaling/v1',
+    'autoscaling/v2',
+    'batch/v1',
+    'certificates.k8s.io/v1',
+    'coordination.k8s.io/v1',
+    'discovery.k8s.io/v1',
+    'events.k8s.io/v1',
+    'networking.k8s.io/v1',
+    'node.k8s.io/v1',
+    'policy/v1',
+    'rbac.authorization.k8s.io/v1',
+    'scheduling.k8s.io/v1',
+    'storage.k8s.io/v1',
+  ],
+  helmVersion: 'v3.14.0',
+};
+
+export interface TemplateRenderer {
+  render: (filePath: string) => RenderResult;
+}
+
+// Helm stops runaway include recursion; this bound keeps us well inside the JS stack
+const MAX_TEMPLATE_DEPTH = 100;
+
+// File name reported for expressions evaluated by tpl
+const TPL_FILE = '<tpl>';
+
+interface NamedTemplate {
+  file: string;
+  list: TemplateListNode;
+}
+
+interface Scope {
+  vars: Map<string, unknown>;
+  parent?: Scope;
+}
+
+interface Frame {
+  file: string;
+  depth: number;
+  callSite?: SourceRange;   // Call in the rendered file that led into this frame
+}
+
+type LoopControl = 'break' | 'continue' | null;
+
+/**
+ * Error raised while executing a template, carrying where it happened
+ */
+class RenderFailure extends Error {
+  constructor(message: string, readonly file: string, readonly range: SourceRange, readonly callSite?: SourceRange) {
+    super(message);
+  }
+}
+
+/**
+ * Create a renderer that executes the chart's templates the way
+ * `helm template` would, against the chart's values and the given release
+ * and cluster context. Named templates from every file are available to
+ * include/template, and each file is also registered under
+ * "<chart>/<path>" like Helm does. Helm shares one template namespace
+ * across the chart tree, so the defines of subcharts are available too,
+ * with the parent's winning when both define the same name.
+ */
+export function createTemplateRenderer(chart: HelmChart, options: RenderOptions = {}): TemplateRenderer {
+  const release = { ...DEFAULT_RELEASE, ...options.release };
+  const capabilities = { ...DEFAULT_CAPABILITIES, ...options.capabilities };
+  const templates = new Map<string, NamedTemplate>();
+  const contents = new Map<string, string>();
+  const trees = new Map<string, TemplateListNode>();
+
+  // Parsing is most of the cost, so files defining no named templates are
+  // only parsed once they are rendered or run by name
+  const getTree = (filePath: string): TemplateListNode | undefined => {
+    const content = contents.get(filePath);
+    if (content === undefined) return undefined;
+    let root = trees.get(filePath);
+    if (!root) {
+      root = parseTemplate(content).root;
+      trees.set(filePath, root);
+    }
+    return root;
+  };
+
+  chart.subcharts.forEach(subchart => registerSubchartTemplates(subchart, '', templates));
+
+  for (const file of chart.files) {
+    if (file.type !== 'template' && file.type !== 'helper' && file.type !== 'notes') continue;
+
+    contents.set(file.path, file.content);
+    if (!definesNamedTemplates(file.content)) continue;
+    walkTemplate(getTree(file.path)!, (node) => {
+      if (node.kind === 'define' || node.kind === 'block') {
+        templates.set(node.name, { file: file.path, list: node.list });
+      }
+    });
+  }
+
+  /**
+   * A define/block, or a whole file registered as "<chart>/<path>"
+   */
+  const findTemplate = (name: string): NamedTemplate | undefined => {
+    const template = templates.get(name);
+    if (template || !name.startsWith(`${chart.name}/`)) return template;
+    const filePath = name.slice(chart.name.length + 1);
+    const list = getTree(filePath);
+    return list && { file: filePath, list };
+  };
+
+  const baseData = {
+    Values: chart.values.raw,
+    Release: {
+      Name: release.name,
+      Namespace: release.namespace,
+      Revision: release.revision,
+      IsInstall: release.isInstall,
+      IsUpgrade: release.isUpgrade,
+      Service: release.service,
+    },
+    Chart: {
+      Name: chart.chartYaml.name,
+      Version: chart.chartYaml.version,
+      AppVersion: chart.chartYaml.appVersion ?? '',
+      Description: chart.chartYaml.description ?? '',
+      Type: chart.chartYaml.type ?? 'application',
+      APIVersion: chart.chartYaml.apiVersion,
+    },
+    Capabilities: createCapabilities(capabilities),
+    Files: createFilesObject(chart.files),
+  };
+
+  /**
+   * Execute a list of nodes, stopping early on break/continue
+   */
+  const execList = (list: TemplateListNode, dot: unknown, scope: Scope, frame: Frame, out: string[]): LoopControl => {
+    for (const node of list.nodes) {
+      const control = execNode(node, dot, scope, frame, out);
+      if (control) return control;
+    }
+    return null;
+  };
+
+  const execNode = (node: TemplateNode, dot: unknown, scope: Scope, frame: Frame, out: string[]): LoopControl => {
+    switch (node.kind) {
+      case 'list':
+        return execList(node, dot, scope, frame, out);
+      case 'text':
+        out.push(node.value);
+        return null;
+      case 'action': {
+        const value = evalPipe(node.pipe, dot, scope, frame);
+        if (node.pipe.decl.length === 0) out.push(formatOutput(value));
+        return null;
+      }
+      case 'if': {
+        const value = evalPipe(node.pipe, dot, scope, frame);
+        const branch = isTruthy(value) ? node.list : node.elseList;
+        return branch ? execList(branch, dot, childScope(scope), frame, out) : null;
+      }
+      case 'with': {
+        const value = evalPipe(node.pipe, dot, scope, frame);
+        if (isTruthy(value)) return execList(node.list, value, childScope(scope), frame, out);
+        return node.elseList ? execList(node.elseList, dot, childScope(scope), frame, out) : null;
+      }
+      case 'range':
+        return execRange(node.pipe, node.list, node.elseList, dot, scope, frame, out);
+      case 'block':
+        out.push(execTemplate(node.name, evalPipe(node.pipe, dot, scope, frame), frame, node.range));
+        return null;
+      case 'template':
+        out.push(execTemplate(node.name, node.pipe ? evalPipe(node.pipe, dot, scope, frame) : null, frame, node.range));
+        return null;
+      case 'break':
+      case 'continue':
+        return node.kind;
+      default:
+        // define bodies only run when included; comments produce nothing
+        return null;
+    }
+  };
+
+  const execRange = (
+    pipe: TemplatePipeNode,
+    list: TemplateListNode,
+    elseList: TemplateListNode | undefined,
+    dot: unknown,
+    scope: Scope,
+    frame: Frame,
+    out: string[]
+  ): LoopControl => {
+    // The declared variables take the key and element per iteration, not the whole value
+    const value = evalPipe({ ...pipe, decl: [] }, dot, scope, frame);
+    let entries: [unknown, unknown][];
+
+    if (isNil(value)) {
+      entries = [];
+    } else if (Array.isArray(value)) {
+      entries = value.map((element, i) => [i, element]);
+    } else if (isMap(value)) {
+      entries = Object.keys(value).sort().map(key => [key, value[key]]);
+    } else if (typeof value === 'number' && Number.isInteger(value)) {
+      entries = Array.from({ length: Math.max(value, 0) }, (_, i) => [i, i]);
+    } else {
+      throw new RenderFailure(`range can't iterate over ${formatOutput(value)}`, frame.file, pipe.range, frame.callSite);
+    }
+
+    if (entries.length === 0) {
+      return elseList ? execList(elseList, dot, childScope(scope), frame, out) : null;
+    }
+
+    for (const [key, element] of entries) {
+      const iterationScope = childScope(scope);
+      if (pipe.decl.length === 1) {
+        iterationScope.vars.set(pipe.decl[0].name, element);
+      } else if (pipe.decl.length === 2) {
+        iterationScope.vars.set(pipe.decl[0].name, key);
+        iterationScope.vars.set(pipe.decl[1].name, element);
+      }
+      if (execList(list, element, iterationScope, frame, out) === 'break') break;
+    }
+    return null;
+  };
+
+  /**
+   * Run a named template (define/block or a whole file) with `data` as dot
+   */
+  const execTemplate = (name: string, data: unknown, frame: Frame, callRange: SourceRange): string => {
+    const template = findTemplate(name);
+    if (!template) {
+      throw new RenderFailure(`no template "${name}" associated with template`, frame.file, callRange, frame.callSite);
+    }
+    if (frame.depth >= MAX_TEMPLATE_DEPTH) {
+      throw new RenderFailure(`exceeded maximum template depth (${MAX_TEMPLATE_DEPTH}) including "${name}"`, frame.file, callRange, frame.callSite);
+    }
+
+    const out: string[] = [];
+    const innerFrame: Frame = {
+      file: template.file,
+      depth: frame.depth + 1,
+      callSite: frame.callSite ?? callRange,
+    };
+    execList(template.list, data, rootScope(data), innerFrame, out);
+    return out.join('');
+  };
+
+  const evalPipe = (pipe: TemplatePipeNode, dot: unknown, scope: Scope, frame: Frame): unknown => {
+    let value: unknown;
+    pipe.cmds.forEach((cmd, i) => {
+      value = evalCommand(cmd, dot, scope, frame, i === 0 ? [] : [value]);
+    });
+
+    for (const variable of pipe.decl) {
+      if (pipe.isAssign) {
+        assignVariable(scope, variable.name, value, frame, variable.range);
+      } else {
+        scope.vars.set(variable.name, value);
+      }
+    }
+    return value;
+  };
+
+  const evalCommand = (
+    cmd: TemplateCommandNode,
+    dot: unknown,
+    scope: Scope,
+    frame: Frame,
+    piped: unknown[]
+  ): unknown => {
+    const [first, ...rest] = cmd.args;
+    if (!first) return null;
+
+    if (first.kind === 'identifier') {
+      return callFunction(first.name, rest, piped, dot, scope, frame, cmd.range);
+    }
+
+    const hasArgs = rest.length > 0 || piped.length > 0;
+    if (hasArgs && (first.kind === 'field' || first.kind === 'variable' || first.kind === 'chain')) {
+      // Method call such as .Files.Get "config.ini" or .Capabilities.APIVersions.Has "apps/v1"
+      const args = [...rest.map(arg => evalArg(arg, dot, scope, frame)), ...piped];
+      const receiver = first.kind === 'field' ? dot
+        : first.kind === 'variable' ? lookupVariable(scope, first.name, frame, first.range)
+          : evalArg(first.node, dot, scope, frame);
+      return resolveFields(receiver, first.fields, args, frame, first.range);
+    }
+    if (hasArgs) {
+      throw new RenderFailure(`can't give argument to non-function ${describeArg(first)}`, frame.file, cmd.range, frame.callSite);
+    }
+    return evalArg(first, dot, scope, frame);
+  };
+
+  const callFunction = (
+    name: string,
+    argNodes: TemplateArgNode[],
+    piped: unknown[],
+    dot: unknown,
+    scope: Scope,
+    frame: Frame,
+    range: SourceRange
+  ): unknown => {
+    // and/or stop evaluating at the first argument that decides the result
+    if (name === 'and' || name === 'or') {
+      let value: unknown = null;
+      for (const arg of argNodes) {
+        value = evalArg(arg, dot, scope, frame);
+        if (isTruthy(value) === (name === 'or')) return value;
+      }
+      return piped.length > 0 ? piped[0] : value;
+    }
+
+    const args = [...argNodes.map(arg => evalArg(arg, dot, scope, frame)), ...piped];
+
+    if (name === 'include') {
+      return execTemplate(String(args[0] ?? ''), args[1], frame, range);
+    }
+    if (name === 'tpl') {
+      return renderTpl(String(args[0] ?? ''), args[1], frame, range);
+    }
+
+    const fn = TEMPLATE_FUNCTIONS[name];
+    if (!fn) {
+      throw new RenderFailure(`function "${name}" not defined`, frame.file, range, frame.callSite);
+    }
+    try {
+      return fn(...args);
+    } catch (error) {
+      if (error instanceof RenderFailure) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      const prefix = name === 'required' || name === 'fail' ? '' : `error calling ${name}: `;
+      throw new RenderFailure(prefix + message, frame.file, range, frame.callSite);
+    }
+  };
+
+  /**
+   * Render a string as a template, for Helm's tpl function
+   */
+  const renderTpl = (text: string, data: unknown, frame: Frame, range: SourceRange): string => {
+    const tree = parseTemplate(text);
+    if (tree.errors.length > 0) {
+      throw new RenderFailure(`error calling tpl: ${tree.errors[0].message}`, frame.file, range, frame.callSite);
+    }
+
+    const out: string[] = [];
+    try {
+      execList(tree.root, data, rootScope(data), { file: TPL_FILE, depth: frame.depth + 1, callSite: frame.callSite }, out);
+    } catch (error) {
+      if (error instanceof RenderFailure && error.file === TPL_FILE) {
+        throw new RenderFailure(`error calling tpl: ${error.message}`, frame.file, range, frame.callSite);
+      }
+      throw error;
+    }
+    return out.join('');
+  };
+
+  const evalArg = (arg: TemplateArgNode, dot: unknown, scope: Scope, frame: Frame): unknown => {
+    switch (arg.kind) {
+      case 'field':
+        return resolveFields(dot, arg.fields, [], frame, arg.range);
+      case 'variable':
+        return resolveFields(lookupVariable(scope, arg.name, frame, arg.range), arg.fields, [], frame, arg.range);
+      case 'dot':
+        return dot;
+      case 'chain':
+        return resolveFields(evalArg(arg.node, dot, scope, frame), arg.fields, [], frame, arg.range);
+      case 'identifier':
+        return callFunction(arg.name, [], [], dot, scope, frame, arg.range);
+      case 'pipe':
+        return evalPipe(arg, dot, childScope(scope), frame);
+      case 'string':
+        return arg.value;
+      case 'bool':
+        return arg.value === 'true';
+      case 'nil':
+        return null;
+      case 'number':
+        return parseNumber(arg.value);
+      case 'char':
+        return parseChar(arg.value);
+    }
+  };
+
+  /**
+   * Walk .a.b.c from a value. Missing map keys give nil, and walking further
+   * from nil is an error, as in Go. Function-valued fields are methods: the
+   * last one receives `args`.
+   */
+  const resolveFields = (value: unknown, fields: string[], args: unknown[], frame: Frame, range: SourceRange): unknown => {
+    let current = value;
+    let calledWithArgs = false;
+
+    fields.forEach((field, i) => {
+      if (isNil(current)) {
+        throw new RenderFailure(`nil pointer evaluating interface {}.${field}`, frame.file, range, frame.callSite);
+      }
+      if (!isMap(current)) {
+        throw new RenderFailure(`can't evaluate field ${field} in type ${typeOf(current)}`, frame.file, range, frame.callSite);
+      }
+
+      const next = Object.prototype.hasOwnProperty.call(current, field) ? current[field] : undefined;
+      if (typeof next === 'function') {
+        const isLast = i === fields.length - 1;
+        try {
+          current = next(...(isLast ? args : []));
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          throw new RenderFailure(`error calling ${field}: ${message}`, frame.file, range, frame.callSite);
+        }
+        calledWithArgs = isLast;
+      } else {
+        current = next;
+      }
+    });
+
+    if (args.length > 0 && !calledWithArgs) {
+      throw new RenderFailure(`can't give argument to non-function .${fields.join('.')}`, frame.file, range, frame.callSite);
+    }
+    return current;
+  };
+
+  const render = (filePath: string): RenderResult => {
+    const root = getTree(filePath);
+    if (!root) {
+      return { file: filePath, output: '' };
+    }
+
+    const data = {
+      ...baseData,
+      Template: { Name: `${chart.name}/${filePath}`, BasePath: `${chart.name}/templates` },
+    };
+    const out: string[] = [];
+
+    try {
+      execList(root, data, rootScope(data), { file: filePath, depth: 0 }, out);
+      return { file: filePath, output: out.join('') };
+    } catch (error) {
+      return { file: filePath, output: out.join(''), error: toRenderError(error, filePath, root.range) };
+    }
+  };
+
+  return { render };
+}
+
+/**
+ * Register the define/block bodies of a subchart and, first, of its own
+ * subcharts, so that the closer to the parent a definition is the more it
+ * wins. Files are named by their path from the top chart.
+ */
+function registerSubchartTemplates(chart: HelmChart, parentPath: string, templates: Map<string, NamedTemplate>): void {
+  const path = `${parentPath}${chart.subchart?.path ?? `charts/${chart.name}`}/`;
+  chart.subcharts.forEach(subchart => registerSubchartTemplates(subchart, path, templates));
+
+  for (const file of chart.files) {
+    if ((file.type !== 'template' && file.type !== 'helper') || !definesNamedTemplates(file.content)) continue;
+    walkTemplate(parseTemplate(file.content).root, (node) => {
+      if (node.kind === 'define' || node.kind === 'block') {
+        templates.set(node.name, { file: `${path}${file.path}`, list: node.list });
+      }
+    });
+  }
+}
+
+function rootScope(data: unknown): Scope {
+  return { vars: new Map([['$', data]]) };
+}
+
+function childScope(parent: Scope): Scope {
+  return { vars: new Map(), parent };
+}
+
+function lookupVariable(scope: Scope, name: string, frame: Frame, range: SourceRange): unknown {
+  for (let current: Scope | undefined = scope; current; current = current.parent) {
+    if (current.vars.has(name)) return current.vars.get(name);
+  }
+  throw new RenderFailure(`undefined variable "${name}"`, frame.file, range, frame.callSite);
+}
+
+function assignVariable(scope: Scope, name: string, value: unknown, frame: Frame, range: SourceRange): void {
+  for (let current: Scope | undefined = scope; current; current = current.parent) {
+    if (current.vars.has(name)) {
+      current.vars.set(name, value);
+      return;
+    }
+  }
+  throw new RenderFailure(`undefined variable "${name}"`, frame.file, range, frame.callSite);
+}
+
+/**
+ * .Capabilities with Helm's KubeVersion and APIVersions.Has, which also
+ * accepts "group/version/Kind"
+ */
+function createCapabilities(capabilities: CapabilitiesInfo): Record<string, unknown> {
+  const match = capabilities.kubeVersion.match(/^v?(\d+)\.(\d+)/);
+  const apiVersions = new Set(capabilities.apiVersions);
+
+  return {
+    KubeVersion: {
+      Version: capabilities.kubeVersion,
+      GitVersion: capabilities.kubeVersion,
+      Major: match ? match[1] : '',
+      Minor: match ? match[2] : '',
+    },
+    APIVersions: {
+      Has: (version: unknown) => {
+        const text = String(version);
+        if (apiVersions.has(text)) return true;
+        // apps/v1/Deployment or v1/Service: check the group version
+        const parts = text.split('/');
+        return parts.length > 1 && /^[A-Z]/.test(parts[parts.length - 1]) && apiVersions.has(parts.slice(0, -1).join('/'));
+      },
+    },
+    HelmVersion: { Version: capabilities.helmVersion },
+  };
+}
+
+function parseNumber(text: string): number {
+  const clean = text.replace(/_/g, '');
+  if (/^[+-]?0[xX]/.test(clean)) return parseInt(clean, 16);
+  if (/^[+-]?0[oO]/.test(clean)) return parseInt(clean.replace(/0[oO]/, ''), 8);
+  if (/^[+-]?0[bB]/.test(clean)) return parseInt(clean.replace(/0[bB]/, ''), 2);
+  return Number(clean);
+}
+
+/**
+ * Code point of a character literal such as 'a' or '\n'
+ */
+function parseChar(text: string): number {
+  const inner = text.slice(1, -1);
+  if (!inner.startsWith('\\')) return inner.codePointAt(0) ?? 0;
+
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', "'": "'", '0': '\0' };
+  return (escapes[inner[1]] ?? inner[1]).codePointAt(0) ?? 0;
+}
+
+function describeArg(arg: TemplateArgNode): string {
+  switch (arg.kind) {
+    case 'string':
+      return JSON.stringify(arg.value);
+    case 'number':
+    case 'bool':
+    case 'nil':
+    case 'char':
+      return arg.value;
+    case 'dot':
+      return '.';
+    default:
+      return arg.kind;
+  }
+}
+
+function toRenderError(error: unknown, filePath: string, fallbackRange: SourceRange): RenderError {
+  if (error instanceof RenderFailure) {
+    return { message: error.message, file: error.file, range: error.range, callSite: error.callSite };
+  }
+  // Anything else (e.g. a stack overflow) has no better location than the file itself
+  const message = error instanceof Error ? error.message : String(error);
+  return { message, file: filePath, range: fallbackRange };
+}
@@ -0,0 +1,42 @@
+import { LayoutAlgorithm, PermalinkState } from '../types';
+import { LAYOUTS } from '../graph/layouts';
+
+/**
+ * Read the view a link points to from a URL hash such as
+ * `#chart=my-chart&file=templates/deployment.yaml&layout=layered`.
+ * Null when the hash names no chart.
+ */
+export function readPermalink(hash: string = window.location.hash): PermalinkState | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const chart = params.get('chart');
+  if (!chart) return null;
+
+  const layout = params.get('layout');
+  return {
+    chart,
+    selectedFile: params.get('file'),
+    filter: params.get('filter'),
+    focusedNodeId: params.get('focus'),
+    layout: LAYOUTS.some(({ id }) => id === layout) ? layout as LayoutAlgorithm : 'columns',
+  };
+}
+
+/**
+ * Put the view in the URL hash without adding a history entry; null clears it
+ */
+export function writePermalink(state: PermalinkState | null): void {
+  const params = new URLSearchParams();
+  if (state) {
+    params.set('chart', state.chart);
+    if (state.selectedFile) params.set('file', state.selectedFile);
+    if (state.filter) params.set('filter', state.filter);
+    if (state.focusedNodeId) params.set('focus', state.focusedNodeId);
+    if (state.layout !== 'columns') params.set('layout', state.layout);
+  }
+
+  const hash = params.toString();
+  const url = `${window.location.pathname}${window.location.search}${hash ? `#${hash}` : ''}`;
+  if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+    window.history.replaceState(null, '', url);
+  }
+}
@@ -0,0 +1,88 @@
+import { GraphViewState, HelmChart, SavedSession, ValuesOverrides } from '../types';
+
+const FORMAT = 'helm-visualizer-session';
+const VERSION = 1;
+
+/**
+ * Everything needed to reopen a chart as it was: its files, the values
+ * overrides, the selection and the graph view
+ */
+export function createSavedSession(
+  chart: HelmChart,
+  files: Map<string, string>,
+  overrides: ValuesOverrides,
+  selectedFile: string | null,
+  view: GraphViewState | null
+): SavedSession {
+  return {
+    format: FORMAT,
+    version: VERSION,
+    savedAt: new Date().toISOString(),
+    chart: { name: chart.name, version: chart.version },
+    files: Object.fromEntries(files),
+    overrides,
+    selectedFile,
+    view,
+  };
+}
+
+/**
+ * Read a session saved with serializeSession. Throws when the text is not a
+ * session file or was saved by a newer version.
+ */
+export function parseSessionFile(text: string): SavedSession {
+  let session: unknown;
+  try {
+    session = JSON.parse(text);
+  } catch {
+    throw new Error('Not a Helm Visualizer session file (invalid JSON)');
+  }
+
+  if (!isRecord(session) || session.format !== FORMAT) {
+    throw new Error('Not a Helm Visualizer session file');
+  }
+  if (session.version !== VERSION) {
+    throw new Error(`Unsupported session version ${String(session.version)}`);
+  }
+  if (!isRecord(session.chart) || typeof session.chart.name !== 'string' || typeof session.chart.version !== 'string') {
+    throw new Error('Session file has no chart name and version');
+  }
+  if (!isRecord(session.files) || !Object.values(session.files).every(content => typeof content === 'string')) {
+    throw new Error('Session file has no chart files');
+  }
+
+  const overrides = isRecord(session.overrides) ? session.overrides : {};
+  const files = Array.isArray(overrides.files) ? overrides.files : [];
+  if (!files.every(file => isRecord(file) && typeof file.name === 'string' && typeof file.content === 'string')) {
+    throw new Error('Session file has values files without a name or content');
+  }
+  const set = Array.isArray(overrides.set) ? overrides.set : [];
+  if (!set.every(argument => typeof argument === 'string')) {
+    throw new Error('Session file has --set arguments that are not text');
+  }
+  return {
+    ...(session as unknown as SavedSession),
+    overrides: { files, set },
+    selectedFile: typeof session.selectedFile === 'string' ? session.selectedFile : null,
+    view: isRecord(session.view) ? session.view as unknown as GraphViewState : null,
+  };
+}
+
+export function serializeSession(session: SavedSession): string {
+  return `${JSON.stringify(session, null, 2)}\n`;
+}
+
+/**
+ * e.g. "my-chart-1.2.0.session.json"
+ */
+export function getSessionFileName(session: SavedSession): string {
+  return `${session.chart.name}-${session.chart.version}.session.json`;
+}
+
+export function getSessionFiles(session: SavedSession): Map<string, string> {
+  return new Map(Object.entries(session.files));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
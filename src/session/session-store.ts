@@ -0,0 +1,46 @@
+import { SavedSession } from '../types';
+
+const DATABASE = 'helm-visualizer';
+const STORE = 'sessions';
+
+// Only the most recent session is kept
+const LAST_SESSION_KEY = 'last';
+
+/**
+ * Keep the session in IndexedDB so it survives a reload or Reset
+ */
+export async function saveLastSession(session: SavedSession): Promise<void> {
+  const database = await openDatabase();
+  try {
+    await runRequest(database.transaction(STORE, 'readwrite').objectStore(STORE).put(session, LAST_SESSION_KEY));
+  } finally {
+    database.close();
+  }
+}
+
+/**
+ * The session saved last, or null when there is none or IndexedDB is unavailable
+ */
+export async function loadLastSession(): Promise<SavedSession | null> {
+  if (typeof indexedDB === 'undefined') return null;
+  const database = await openDatabase();
+  try {
+    const session = await runRequest(database.transaction(STORE, 'readonly').objectStore(STORE).get(LAST_SESSION_KEY));
+    return (session as SavedSession | undefined) ?? null;
+  } finally {
+    database.close();
+  }
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DATABASE, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+  return runRequest(request);
+}
+
+function runRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
@@ -0,0 +1,38 @@
+import { GraphData, GraphNode, GraphViewState } from '../types';
+import { applyCollapsedGroups } from '../graph/graph-builder';
+
+/**
+ * The graph view as shown: where every node is and which groups are collapsed
+ */
+export function captureViewState(
+  nodes: GraphNode[],
+  view: Omit<GraphViewState, 'positions' | 'collapsed'>
+): GraphViewState {
+  const positions: GraphViewState['positions'] = {};
+  const collapsed: GraphViewState['collapsed'] = {};
+  nodes.forEach(node => {
+    positions[node.id] = { x: Math.round(node.position.x), y: Math.round(node.position.y) };
+    if (node.type === 'subchart' || node.type === 'valueGroup') {
+      collapsed[node.id] = Boolean(node.data.collapsed);
+    }
+  });
+  return { ...view, positions, collapsed };
+}
+
+/**
+ * Restore the collapsed groups and node positions of a saved view onto a
+ * freshly built graph. Nodes the view doesn't know keep their layout.
+ */
+export function applyViewState(graph: GraphData, view: Partial<GraphViewState>): GraphData {
+  const collapsed = view.collapsed ?? {};
+  const nodes = graph.nodes.map((node): GraphNode =>
+    node.id in collapsed ? { ...node, data: { ...node.data, collapsed: collapsed[node.id] } } : node
+  );
+  const result = applyCollapsedGroups(nodes, graph.edges);
+
+  const positions = view.positions ?? {};
+  return {
+    nodes: result.nodes.map(node => (positions[node.id] ? { ...node, position: positions[node.id] } : node)),
+    edges: result.edges,
+  };
+}
@@ -9,7 +9,20 @@ export interface HelmChart {
   chartYaml: ChartYaml;
   references: Reference[];
   helpers: HelperDefinition[];
+  resources: KubernetesResource[];  // Objects emitted by the templates
   dependencies: ChartDependency[];
+  subcharts: HelmChart[];
+  subchart?: SubchartInfo;  // Set on charts vendored under a parent's charts/ directory
+  valuesLayers: ValuesLayer[];  // Sources merged into `values`, lowest precedence first
+  schema?: JsonSchema;    // Parsed values.schema.json
+}
+
+export interface SubchartInfo {
+  name: string;           // Key the parent uses for it in values (alias or chart name)
+  path: string;           // Directory inside the parent chart, e.g. "charts/postgresql"
+  condition?: string;     // e.g. "postgresql.enabled"
+  enabled: boolean;       // Result of evaluating the condition against the parent values
+  dependency?: ChartDependency;
 }
 
 export interface HelmFile {
@@ -21,10 +34,11 @@ export interface HelmFile {
 
 export type FileType = 
   | 'chart'        // Chart.yaml
-  | 'values'       // values.yaml
+  | 'values'       // values.yaml and overlays such as values-prod.yaml
   | 'template'     // templates/*.yaml
   | 'helper'       // _helpers.tpl
   | 'notes'        // NOTES.txt
+  | 'schema'       // values.schema.json
   | 'other';
 
 export interface ChartYaml {
@@ -42,6 +56,7 @@ export interface ChartDependency {
   version: string;
   repository?: string;
   condition?: string;
+  tags?: string[];        // Enabled through `tags.<tag>` in the parent values
   alias?: string;
 }
 
@@ -55,6 +70,58 @@ export interface ValueKey {
   fullPath: string;       // e.g., ".Values.config.nodeEnv"
   value: unknown;
   type: 'string' | 'number' | 'boolean' | 'array' | 'object' | 'null';
+  source?: string;        // Values layer that supplied the effective value
+  overridden?: ValueOverride[];  // Lower-precedence layers that also set this key
+  schema?: ValueSchemaInfo;      // From values.schema.json, when the chart has one
+}
+
+export interface ValueOverride {
+  source: string;
+  value: unknown;
+}
+
+export interface ValuesLayer {
+  source: string;         // "values.yaml", an overlay file name, or "--set ..."
+  kind: 'chart' | 'parent' | 'file' | 'set';
+  raw: Record<string, unknown>;
+}
+
+// values.schema.json Types
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchema {
+  $schema?: string;
+  $ref?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  enum?: unknown[];
+  default?: unknown;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  patternProperties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema | JsonSchema[];
+  definitions?: Record<string, JsonSchema>;
+  $defs?: Record<string, JsonSchema>;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  [keyword: string]: unknown;
+}
+
+export interface ValueSchemaInfo {
+  type?: JsonSchemaType[];
+  description?: string;
+  enum?: unknown[];
+  default?: unknown;
+  required: boolean;      // Listed in the parent object's `required`
+}
+
+export interface ValuesOverrides {
+  files: { name: string; content: string }[];  // Like `-f`, lowest precedence first
+  set: string[];          // Like `--set` / `--set-string`, applied after the files
 }
 
 // Reference types for connections between files
@@ -66,6 +133,8 @@ export interface Reference {
   target: ReferenceTarget;
   expression: string;     // The actual template expression found
   line?: number;          // Line number in source file
+  range?: SourceRange;    // Exact location of the expression in the source file
+  functions?: string[];   // Values references: functions applied to the value, innermost first
 }
 
 export type ReferenceType = 
@@ -80,6 +149,8 @@ export type ReferenceType =
 export interface ReferenceSource {
   file: string;           // File path
   line?: number;          // Line number
+  helper?: string;        // Name of the enclosing helper definition, if any
+  resource?: string;      // ID of the Kubernetes resource whose document contains it
 }
 
 export interface ReferenceTarget {
@@ -87,13 +158,438 @@ export interface ReferenceTarget {
   path: string;           // For values: "config.nodeEnv", for helpers: "mychart.labels"
 }
 
+// A `.Files` call and the chart files it reads
+export interface ChartFileAccess {
+  reference: Reference;
+  method: string;         // Get, GetBytes, Lines, Glob, AsConfig or AsSecrets
+  pattern?: string;       // Literal path or glob; absent when computed at render time
+  matches: string[];      // Chart files it reads
+}
+
 export interface HelperDefinition {
   name: string;           // e.g., "mychart.labels"
   file: string;           // File where it's defined
-  line?: number;
+  line?: number;          // Line of the {{ define }} action
+  endLine?: number;       // Line of the matching {{ end }}
   content: string;        // The helper template content
 }
 
+export interface KubernetesResource {
+  id: string;             // "<file>#<index>"
+  file: string;           // Template that emits it
+  index: number;          // Position among the file's resources
+  kind: string;           // e.g. "Deployment"
+  apiVersion?: string;
+  name?: string;          // metadata.name as written, possibly a template expression
+  namespace?: string;
+  startLine: number;      // First line of its `---` document
+  endLine: number;        // Last line of its `---` document
+}
+
+export type ResourceRelationKind =
+  | 'selects'             // Service/PodDisruptionBudget/NetworkPolicy selector -> workload pod labels
+  | 'routes-to'           // Ingress backend -> Service
+  | 'mounts'              // Pod volume -> ConfigMap/Secret/PersistentVolumeClaim
+  | 'env-from'            // Container envFrom/env valueFrom -> ConfigMap/Secret
+  | 'scales'              // HorizontalPodAutoscaler scaleTargetRef -> workload
+  | 'binds'               // RoleBinding subject/roleRef -> ServiceAccount/Role
+  | 'uses';               // serviceAccountName, imagePullSecrets, TLS secrets, serviceName
+
+export interface ResourceRelation {
+  kind: ResourceRelationKind;
+  source: string;         // Resource ID
+  target?: string;        // Resource ID; unset when nothing in the chart matches
+  targetKind: string;     // Expected kind, or "workload" for selectors
+  targetName: string;     // Name referred to, or the selector as key=value pairs
+  field: string;          // Field holding the reference, e.g. "spec.selector"
+  inferredFrom: 'rendered' | 'source';  // Rendered manifest, or template text when rendering failed
+}
+
+export interface RenderedManifest {
+  resource: KubernetesResource;
+  manifest: Record<string, unknown> | null;  // Null when the template fails to render or the document is not emitted
+}
+
+// Impact analysis
+
+export interface ValueImpact {
+  valuePath: string;
+  references: Reference[];  // References to the value, its parents or its children
+  helpers: string[];        // Helpers that read the value directly or through other helpers
+  files: string[];          // Templates whose output changes with the value
+  resources: string[];      // IDs of the resources whose manifests change with the value
+}
+
+// Values report
+
+export interface ValuesReport {
+  unused: ValueKey[];                     // Defined in values.yaml but never read
+  undefined: UndefinedValueUsage[];       // Read by templates but missing from values.yaml
+  partial: PartialValueUsage[];           // Templates read a whole object rather than its keys
+  schema: SchemaIssue[];                  // Disagreements with values.schema.json
+}
+
+export type SchemaIssueKind =
+  | 'type-mismatch'       // A values default does not match the schema type
+  | 'enum-mismatch'       // A values default is not one of the schema's enum values
+  | 'missing-required'    // A required key has no value
+  | 'required-unused'     // A required key no template reads
+  | 'usage-mismatch'      // A template applies a function that does not fit the schema type
+  | 'not-in-schema';      // A template reads a key the schema forbids (additionalProperties: false)
+
+export interface SchemaIssue {
+  kind: SchemaIssueKind;
+  path: string;
+  message: string;
+  references: Reference[];
+}
+
+export interface UndefinedValueUsage {
+  path: string;
+  references: Reference[];
+  suggestions: string[];                  // Nearest defined keys, closest first
+}
+
+export interface PartialValueUsage {
+  path: string;
+  references: Reference[];
+  coveredKeys: string[];                  // Leaf keys only reached through the parent object
+}
+
+// Lint Types
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface LintFinding {
+  message: string;
+  file?: string;          // File the finding is in
+  line?: number;
+  helper?: string;        // Helper definition it is about
+  resource?: string;      // Resource ID it is about
+}
+
+export interface Diagnostic extends LintFinding {
+  ruleId: string;
+  severity: DiagnosticSeverity;
+}
+
+export interface LintContext {
+  manifests: RenderedManifest[];  // Rendered with the chart's values, shared by all rules
+  files?: Set<string>;            // When relinting: only findings in these files are kept
+}
+
+export interface LintRule {
+  id: string;             // e.g. "image-latest-tag"
+  description: string;
+  severity: DiagnosticSeverity;  // Default severity
+  check: (chart: HelmChart, context: LintContext) => LintFinding[];
+}
+
+// Per-rule overrides: another severity, or 'off' to disable the rule
+export type LintConfig = Record<string, DiagnosticSeverity | 'off'>;
+
+// Diff Types
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'renamed' | 'unchanged';
+
+export interface ValueChange {
+  path: string;           // Path in the new chart (the old one for removed keys)
+  status: Exclude<DiffStatus, 'unchanged'>;
+  previousPath?: string;  // Renamed keys: path in the old chart
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface NamedChange {
+  name: string;           // Helper name, file path or "Kind/name"
+  status: 'added' | 'removed' | 'changed';
+  detail?: string;        // e.g. "moved from _helpers.tpl to _labels.tpl"
+}
+
+export interface ReferenceMove {
+  type: ReferenceType;
+  target: string;         // Value path or helper name
+  from: string[];         // Templates that no longer reference it
+  to: string[];           // Templates that now do
+}
+
+export interface MetadataChange {
+  field: string;          // Chart.yaml field, or "dependency <name>"
+  before?: string;
+  after?: string;
+}
+
+export interface ChangelogEntry {
+  text: string;           // Markdown, with names in backticks
+  status: Exclude<DiffStatus, 'unchanged'>;
+  subject?: { type: 'value' | 'helper' | 'file' | 'resource'; name: string };  // What it is about
+}
+
+export interface ChangelogSection {
+  title: string;
+  entries: ChangelogEntry[];
+}
+
+export interface ChartDiff {
+  base: { name: string; version: string };
+  head: { name: string; version: string };
+  metadata: MetadataChange[];
+  values: ValueChange[];
+  helpers: NamedChange[];
+  files: NamedChange[];
+  resources: NamedChange[];
+  movedReferences: ReferenceMove[];
+}
+
+// Search Types
+
+export type SearchItemKind = 'value' | 'helper' | 'file' | 'resource' | 'expression';
+
+export interface SearchItem {
+  kind: SearchItemKind;
+  text: string;           // Matched by the free text of a query and shown in results
+  path: string;           // Matched by `path:`; the value, helper, file or reference target
+  nodeId: string;         // Graph node the item focuses
+  file?: string;          // File it is written in, matched by `file:`
+  line?: number;
+  detail?: string;        // Secondary text shown next to the result
+}
+
+export interface SearchFilter {
+  field: 'type' | 'path' | 'file';
+  pattern: string;
+}
+
+export interface SearchQuery {
+  text: string;           // Free text, matched fuzzily
+  filters: SearchFilter[];
+}
+
+export interface SearchResult {
+  item: SearchItem;
+  score: number;
+  matches: number[];      // Indices of the characters of `item.text` the query matched
+}
+
+// CLI Types
+
+export interface AnalysisReport {
+  chart: { name: string; version: string; description?: string };
+  summary: {
+    files: number;
+    references: number;
+    helpers: number;
+    values: number;
+    resources: number;
+    subcharts: number;
+    unusedValues: number;
+    undefinedValues: number;
+    diagnostics: Record<DiagnosticSeverity, number>;
+  };
+  files: { path: string; type: FileType }[];
+  references: Reference[];
+  helpers: Omit<HelperDefinition, 'content'>[];
+  values: ValueKey[];
+  resources: KubernetesResource[];
+  subcharts: SubchartInfo[];
+  valuesReport: ValuesReport;
+  diagnostics: Diagnostic[];
+  graph?: GraphData;      // Only with --graph
+}
+
+// Source location types
+
+export interface SourcePosition {
+  offset: number;         // 0-based character offset
+  line: number;           // 1-based line number
+  column: number;         // 1-based column number
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+// Go Template AST Types
+
+export type TemplateNode =
+  | TemplateListNode
+  | TemplateTextNode
+  | TemplateCommentNode
+  | TemplateActionNode
+  | TemplateBranchNode
+  | TemplateDefineNode
+  | TemplateBlockNode
+  | TemplateCallNode
+  | TemplateLoopControlNode;
+
+export interface TemplateListNode {
+  kind: 'list';
+  nodes: TemplateNode[];
+  range: SourceRange;
+}
+
+export interface TemplateTextNode {
+  kind: 'text';
+  text: string;           // Source text
+  value: string;          // Text as rendered, after {{- / -}} whitespace trimming
+  range: SourceRange;
+}
+
+export interface TemplateCommentNode {
+  kind: 'comment';
+  text: string;           // Comment body without the /* */ markers
+  range: SourceRange;
+}
+
+export interface TemplateActionNode {
+  kind: 'action';         // {{ pipeline }}
+  pipe: TemplatePipeNode;
+  trimLeft: boolean;      // {{- ...
+  trimRight: boolean;     // ... -}}
+  range: SourceRange;
+}
+
+export interface TemplateBranchNode {
+  kind: 'if' | 'with' | 'range';
+  pipe: TemplatePipeNode;
+  list: TemplateListNode;
+  elseList?: TemplateListNode;
+  range: SourceRange;
+}
+
+export interface TemplateDefineNode {
+  kind: 'define';         // {{ define "name" }}...{{ end }}
+  name: string;
+  list: TemplateListNode;
+  range: SourceRange;
+}
+
+export interface TemplateBlockNode {
+  kind: 'block';          // {{ block "name" pipeline }}...{{ end }}
+  name: string;
+  pipe: TemplatePipeNode;
+  list: TemplateListNode;
+  range: SourceRange;
+}
+
+export interface TemplateCallNode {
+  kind: 'template';       // {{ template "name" pipeline }}
+  name: string;
+  pipe?: TemplatePipeNode;
+  range: SourceRange;
+}
+
+export interface TemplateLoopControlNode {
+  kind: 'break' | 'continue';
+  range: SourceRange;
+}
+
+export interface TemplatePipeNode {
+  kind: 'pipe';
+  decl: TemplateVariableNode[];   // $x := / $k, $v :=
+  isAssign: boolean;              // $x = (assignment rather than declaration)
+  cmds: TemplateCommandNode[];
+  range: SourceRange;
+}
+
+export interface TemplateCommandNode {
+  kind: 'command';
+  args: TemplateArgNode[];
+  range: SourceRange;
+}
+
+export type TemplateArgNode =
+  | TemplateFieldNode
+  | TemplateVariableNode
+  | TemplateDotNode
+  | TemplateChainNode
+  | TemplateIdentifierNode
+  | TemplateLiteralNode
+  | TemplatePipeNode;
+
+export interface TemplateFieldNode {
+  kind: 'field';          // .Values.image.tag
+  fields: string[];
+  range: SourceRange;
+}
+
+export interface TemplateVariableNode {
+  kind: 'variable';       // $ / $name / $name.field
+  name: string;
+  fields: string[];
+  range: SourceRange;
+}
+
+export interface TemplateDotNode {
+  kind: 'dot';
+  range: SourceRange;
+}
+
+export interface TemplateChainNode {
+  kind: 'chain';          // (pipeline).field
+  node: TemplateArgNode;
+  fields: string[];
+  range: SourceRange;
+}
+
+export interface TemplateIdentifierNode {
+  kind: 'identifier';     // Function name, e.g. include, default, toYaml
+  name: string;
+  range: SourceRange;
+}
+
+export interface TemplateLiteralNode {
+  kind: 'string' | 'number' | 'bool' | 'nil' | 'char';
+  value: string;          // Unquoted value for strings, source text otherwise
+  range: SourceRange;
+}
+
+export interface TemplateParseError {
+  message: string;
+  range: SourceRange;
+}
+
+export interface TemplateTree {
+  root: TemplateListNode;
+  errors: TemplateParseError[];
+}
+
+// Template Rendering Types
+
+export interface RenderOptions {
+  release?: Partial<ReleaseInfo>;
+  capabilities?: Partial<CapabilitiesInfo>;
+}
+
+export interface ReleaseInfo {
+  name: string;
+  namespace: string;
+  revision: number;
+  isInstall: boolean;
+  isUpgrade: boolean;
+  service: string;
+}
+
+export interface CapabilitiesInfo {
+  kubeVersion: string;    // e.g. "v1.29.0"
+  apiVersions: string[];  // e.g. ["v1", "apps/v1", "networking.k8s.io/v1"]
+  helmVersion: string;
+}
+
+export interface RenderResult {
+  file: string;
+  output: string;         // Output produced so far; partial when rendering failed
+  error?: RenderError;
+}
+
+export interface RenderError {
+  message: string;
+  file: string;           // File holding the failing expression, may be a helper file
+  range: SourceRange;
+  callSite?: SourceRange; // Include/template call in the rendered file that led to the error
+}
+
 // Graph Types for React Flow
 
 export interface GraphData {
@@ -101,14 +597,24 @@ export interface GraphData {
   edges: GraphEdge[];
 }
 
+export interface GraphBuildOptions {
+  groupValues?: boolean;  // Nest value nodes in collapsible groups by path (default true)
+  manifestCache?: ManifestCache;  // Renders kept from the previous build of the chart
+}
+
 export interface GraphNode {
   id: string;
   type: NodeType;
   position: { x: number; y: number };
   data: NodeData;
+  parentId?: string;      // Enclosing group node; position is then relative to it
+  extent?: 'parent';
+  width?: number;
+  height?: number;
+  hidden?: boolean;
 }
 
-export type NodeType = 'file' | 'value' | 'chart' | 'release' | 'helper';
+export type NodeType = 'file' | 'value' | 'valueGroup' | 'chart' | 'release' | 'helper' | 'subchart' | 'resource' | 'capabilities';
 
 export interface NodeData {
   label: string;
@@ -119,6 +625,7 @@ export interface NodeData {
   helperName?: string;
   referenceCount?: number;
   isHighlighted?: boolean;
+  collapsed?: boolean;    // Group nodes: whether their children are hidden
   [key: string]: unknown;
 }
 
@@ -129,15 +636,147 @@ export interface GraphEdge {
   label?: string;
   type?: string;
   animated?: boolean;
+  hidden?: boolean;
   data?: EdgeData;
 }
 
+export type EdgeType =
+  | ReferenceType
+  | 'subchart'            // Parent value -> subchart value, or condition -> subchart
+  | 'resource'            // Template file -> resource it emits
+  | 'relation';           // Resource -> resource it refers to
+
 export interface EdgeData {
-  referenceType: ReferenceType;
+  referenceType: EdgeType;
   expression: string;
+  file?: string;          // Where the reference is written, relative to the root chart
+  line?: number;
+  originalSource?: string;  // Endpoints before being re-routed to a collapsed group
+  originalTarget?: string;
+  originalLabel?: string;   // Label before being merged with parallel re-routed edges
+  bundle?: { x: number; y: number };  // Point the edges of a bundle are routed through
   [key: string]: unknown;
 }
 
+// Layout Types
+
+export type LayoutAlgorithm = 'columns' | 'layered' | 'force' | 'radial';
+
+export interface LayoutOptions {
+  focusNodeId?: string | null;  // Node the radial layout centres on
+}
+
+// Incremental Parsing Types
+
+export interface ParsedFile {
+  content: string;
+  references: Reference[];
+  resources: KubernetesResource[];
+  helpers: HelperDefinition[];
+}
+
+// Parsed templates, helpers and notes by path from the top-level chart root
+export type ChartParseCache = Map<string, ParsedFile>;
+
+export interface ParseOptions {
+  cache?: ChartParseCache;
+  onProgress?: (done: number, total: number) => void;  // Called as each file is parsed
+}
+
+export interface CachedRender {
+  content: string;        // Template source it was rendered from
+  inputs: string;         // Values, Chart.yaml and files it was rendered with
+  documents: Record<string, unknown>[];
+}
+
+// Rendered templates by chart and path
+export type ManifestCache = Map<string, CachedRender>;
+
+export type LoadStage = 'parsing' | 'graph' | 'lint';
+
+export interface LoadProgress {
+  stage: LoadStage;
+  done: number;
+  total: number;
+}
+
+export interface GraphPatch {
+  nodes: { added: GraphNode[]; updated: GraphNode[]; removed: string[] };
+  edges: { added: GraphEdge[]; updated: GraphEdge[]; removed: string[] };
+}
+
+export interface ChartBuild {
+  chart: HelmChart;
+  graph: GraphData;
+  patch?: GraphPatch;       // Changes from the previous build, when it was an update
+  diagnostics: Diagnostic[];  // Lint findings with the default config
+}
+
+// Worker Types
+
+// Questions about the chart the worker holds, which leave it unchanged
+export type ChartAnalysisRequest =
+  | { type: 'layout'; algorithm: LayoutAlgorithm; graph: GraphData; options?: LayoutOptions }
+  | { type: 'lint'; config: LintConfig }
+  | { type: 'valuesReport' }
+  | { type: 'searchIndex' }
+  | { type: 'impact'; valuePath: string };
+
+export interface ChartAnalysisResults {
+  layout: GraphData;
+  lint: Diagnostic[];
+  valuesReport: ValuesReport;
+  searchIndex: SearchItem[];
+  impact: ValueImpact;
+}
+
+export type ChartAnalysisResult = ChartAnalysisResults[keyof ChartAnalysisResults];
+
+export type ChartWorkerRequest =
+  | { id: number; type: 'load'; files: Map<string, string>; overrides?: ValuesOverrides }
+  | { id: number; type: 'update'; changes: Map<string, string | null> }  // null deletes the file
+  | { id: number; type: 'overrides'; overrides: ValuesOverrides }
+  | ({ id: number } & ChartAnalysisRequest);
+
+// The whole graph after a load, only the patch after an update
+export type ChartWorkerResult = Omit<ChartBuild, 'graph'> & { graph?: GraphData };
+
+export type ChartWorkerResponse =
+  | { id: number; type: 'progress'; progress: LoadProgress }
+  | { id: number; type: 'result'; result: ChartWorkerResult | ChartAnalysisResult }
+  | { id: number; type: 'error'; message: string };
+
+// Session Types
+
+export interface GraphViewState {
+  filter: string | null;          // Graph filter query
+  focusedNodeId: string | null;   // Search result the view is focused on
+  layout: LayoutAlgorithm;
+  positions: Record<string, { x: number; y: number }>;  // By node ID, including dragged nodes
+  collapsed: Record<string, boolean>;  // Subchart and value groups by node ID
+  viewport?: { x: number; y: number; zoom: number };
+}
+
+export interface SavedSession {
+  format: 'helm-visualizer-session';
+  version: 1;
+  savedAt: string;                // ISO date
+  chart: { name: string; version: string };
+  files: Record<string, string>;  // Chart files as loaded, by path
+  overrides: ValuesOverrides;
+  selectedFile: string | null;
+  view: GraphViewState | null;
+}
+
+// What the URL hash keeps, so a link opens the same view of the same chart
+export interface PermalinkState {
+  chart: string;
+  selectedFile: string | null;
+  filter: string | null;
+  focusedNodeId: string | null;
+  layout: LayoutAlgorithm;
+}
+
 // UI State Types
 
 export interface FileTreeItem {
@@ -148,3 +787,11 @@ export interface FileTreeItem {
   fileType?: FileType;
 }
 
+export type GraphExportFormat = 'dot' | 'mermaid' | 'graphml' | 'json' | 'svg' | 'png';
+
+export type GraphExportScope = 'canvas' | 'viewport';  // Image exports: whole graph or what is on screen
+
+export interface SourceLocation {
+  file: string;
+  line: number;           // 1-based
+}
@@ -0,0 +1,226 @@
+import {
+  ChartAnalysisRequest,
+  ChartAnalysisResult,
+  ChartParseCache,
+  ChartWorkerRequest,
+  ChartWorkerResult,
+  Diagnostic,
+  GraphData,
+  HelmChart,
+  HelmFile,
+  LoadProgress,
+  ManifestCache,
+  ValuesOverrides,
+} from '../types';
+import { parseHelmChart } from '../parser/helm-parser';
+import { definesNamedTemplates } from '../parser/template-ast';
+import { buildGraphData } from '../graph/graph-builder';
+import { applyGraphPatch, buildGraphPatch, diffGraphData } from '../graph/graph-patch';
+import { lintChart, relintFiles } from '../lint/linter';
+import { BUILT_IN_RULES } from '../lint/rules';
+import { applyLayout } from '../graph/layouts';
+import { buildValuesReport } from '../analysis/values-report';
+import { buildSearchIndex } from '../graph/graph-search';
+import { getValueImpact } from '../parser/helm-parser';
+
+type ProgressCallback = (progress: LoadProgress) => void;
+
+export interface ChartSession {
+  // Parse a chart from scratch, forgetting the previous one
+  load: (files: Map<string, string>, overrides?: ValuesOverrides, onProgress?: ProgressCallback) => ChartWorkerResult;
+  // Change, add or (with null) delete files; returns a patch against the previous graph
+  update: (changes: Map<string, string | null>, onProgress?: ProgressCallback) => ChartWorkerResult;
+  // Apply other -f files and --set arguments; returns a patch against the previous graph
+  setOverrides: (overrides: ValuesOverrides, onProgress?: ProgressCallback) => ChartWorkerResult;
+  // Lay out a graph, or lint, report on or search the current chart
+  analyze: (request: ChartAnalysisRequest) => ChartAnalysisResult;
+}
+
+// Distributive, so each request type keeps its own fields
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+export type ChartRequestBody = WithoutId<ChartWorkerRequest>;
+
+/**
+ * Answer a worker request with the session
+ */
+export function runChartRequest(
+  session: ChartSession,
+  request: ChartRequestBody,
+  onProgress?: ProgressCallback
+): ChartWorkerResult | ChartAnalysisResult {
+  switch (request.type) {
+    case 'load':
+      return session.load(request.files, request.overrides, onProgress);
+    case 'update':
+      return session.update(request.changes, onProgress);
+    case 'overrides':
+      return session.setOverrides(request.overrides, onProgress);
+    default:
+      return session.analyze(request);
+  }
+}
+
+/**
+ * The chart being viewed, with what is needed to rebuild it quickly: the
+ * parsed templates and rendered manifests of the previous build are reused
+ * for the files that did not change, and updates return a patch against
+ * the previous graph instead of a whole new one. When only templates were
+ * edited, the patch and the diagnostics are built from those templates
+ * alone. Layouts and analyses for the view are answered from the same
+ * session. Runs in the chart worker.
+ */
+export function createChartSession(): ChartSession {
+  let files = new Map<string, string>();
+  let overrides: ValuesOverrides | undefined;
+  let parseCache: ChartParseCache = new Map();
+  let manifestCache: ManifestCache = new Map();
+  let chart: HelmChart | null = null;
+  let graph: GraphData | null = null;
+  let diagnostics: Diagnostic[] = [];
+
+  const parse = (onProgress?: ProgressCallback): HelmChart => parseHelmChart(files, overrides, {
+    cache: parseCache,
+    onProgress: (done, total) => onProgress?.({ stage: 'parsing', done, total }),
+  });
+
+  const build = (next: HelmChart, incremental: boolean, onProgress?: ProgressCallback): ChartWorkerResult => {
+    onProgress?.({ stage: 'graph', done: 0, total: 1 });
+    const nextGraph = buildGraphData(next, { manifestCache });
+
+    onProgress?.({ stage: 'lint', done: 0, total: 1 });
+    diagnostics = lintChart(next, {}, BUILT_IN_RULES, manifestCache);
+    onProgress?.({ stage: 'lint', done: 1, total: 1 });
+
+    const previous = graph;
+    chart = next;
+    graph = nextGraph;
+    if (incremental && previous) {
+      return { chart: next, diagnostics, patch: diffGraphData(previous, nextGraph) };
+    }
+    return { chart: next, diagnostics, graph: nextGraph };
+  };
+
+  return {
+    load(newFiles, newOverrides, onProgress) {
+      files = new Map(newFiles);
+      overrides = newOverrides;
+      parseCache = new Map();
+      manifestCache = new Map();
+      chart = null;
+      graph = null;
+      return build(parse(onProgress), false, onProgress);
+    },
+
+    update(changes, onProgress) {
+      changes.forEach((content, path) => {
+        if (content === null) {
+          files.delete(path);
+        } else {
+          files.set(path, content);
+        }
+      });
+
+      const previous = chart;
+      const next = parse(onProgress);
+      const changed = previous && getChangedTemplates(previous, next);
+      if (!previous || !changed || !graph) return build(next, true, onProgress);
+
+      onProgress?.({ stage: 'graph', done: 0, total: 1 });
+      const patch = buildGraphPatch(previous, next, changed, graph, { manifestCache });
+      if (!patch) return build(next, true, onProgress);
+
+      onProgress?.({ stage: 'lint', done: 0, total: 1 });
+      diagnostics = relintFiles(next, getLintedFiles(previous, next, changed), diagnostics, {}, BUILT_IN_RULES, manifestCache);
+      onProgress?.({ stage: 'lint', done: 1, total: 1 });
+
+      chart = next;
+      graph = applyGraphPatch(graph, patch);
+      return { chart: next, diagnostics, patch };
+    },
+
+    setOverrides(newOverrides, onProgress) {
+      // A malformed --set argument leaves the session on the previous overrides
+      const previous = overrides;
+      overrides = newOverrides;
+      try {
+        return build(parse(onProgress), true, onProgress);
+      } catch (error) {
+        overrides = previous;
+        throw error;
+      }
+    },
+
+    analyze(request) {
+      if (request.type === 'layout') {
+        return applyLayout(request.algorithm, request.graph.nodes, request.graph.edges, request.options);
+      }
+      if (!chart) throw new Error('No chart is loaded');
+
+      switch (request.type) {
+        case 'lint':
+          // The default config is what every build lints with
+          return Object.keys(request.config).length === 0
+            ? diagnostics
+            : lintChart(chart, request.config, BUILT_IN_RULES, manifestCache);
+        case 'valuesReport':
+          return buildValuesReport(chart);
+        case 'searchIndex':
+          return buildSearchIndex(chart);
+        case 'impact':
+          return getValueImpact(chart, request.valuePath);
+      }
+    },
+  };
+}
+
+/**
+ * Paths of the templates and NOTES.txt files that were edited, added or
+ * deleted between two parses of a chart. Null when anything else changed
+ * (Chart.yaml, values, helpers, files read through .Files, subcharts) or a
+ * changed template defines named templates, since every template can
+ * depend on those.
+ */
+function getChangedTemplates(previous: HelmChart, chart: HelmChart): Set<string> | null {
+  if (!sameSubcharts(previous, chart)) return null;
+
+  const isPlainTemplate = (file: HelmFile | undefined) =>
+    !file || ((file.type === 'template' || file.type === 'notes') && !definesNamedTemplates(file.content));
+  const before = new Map(previous.files.map(file => [file.path, file]));
+  const after = new Map(chart.files.map(file => [file.path, file]));
+  const changed = new Set<string>();
+
+  for (const path of new Set([...before.keys(), ...after.keys()])) {
+    const file = after.get(path);
+    const previousFile = before.get(path);
+    if (file?.content === previousFile?.content && file?.type === previousFile?.type) continue;
+    if (!isPlainTemplate(previousFile) || !isPlainTemplate(file)) return null;
+    changed.add(path);
+  }
+  return changed;
+}
+
+function sameSubcharts(previous: HelmChart, chart: HelmChart): boolean {
+  return previous.subcharts.length === chart.subcharts.length && previous.subcharts.every((subchart, i) => {
+    const other = chart.subcharts[i];
+    return subchart.files.length === other.files.length &&
+      subchart.files.every((file, j) => file.path === other.files[j].path && file.content === other.files[j].content) &&
+      sameSubcharts(subchart, other);
+  });
+}
+
+/**
+ * Files to lint again after templates changed: the templates, and the files
+ * defining helpers they include or stopped including, which may have become
+ * used or unused
+ */
+function getLintedFiles(previous: HelmChart, chart: HelmChart, changed: Set<string>): Set<string> {
+  const files = new Set(changed);
+  const helperFiles = new Map(chart.helpers.map(helper => [helper.name, helper.file]));
+  [...previous.references, ...chart.references]
+    .filter(ref => changed.has(ref.source.file) && (ref.type === 'include' || ref.type === 'template'))
+    .forEach(ref => {
+      const file = helperFiles.get(ref.target.path);
+      if (file) files.add(file);
+    });
+  return files;
+}
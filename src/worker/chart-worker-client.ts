@@ -0,0 +1,140 @@
+import {
+  ChartAnalysisResult,
+  ChartAnalysisResults,
+  ChartBuild,
+  ChartWorkerRequest,
+  ChartWorkerResponse,
+  ChartWorkerResult,
+  Diagnostic,
+  GraphData,
+  LayoutAlgorithm,
+  LayoutOptions,
+  LintConfig,
+  LoadProgress,
+  SearchItem,
+  ValueImpact,
+  ValuesOverrides,
+  ValuesReport,
+} from '../types';
+import { applyGraphPatch } from '../graph/graph-patch';
+import { ChartRequestBody, createChartSession, runChartRequest } from './chart-session';
+
+type ProgressCallback = (progress: LoadProgress) => void;
+
+export interface ChartWorkerClient {
+  load: (files: Map<string, string>, overrides?: ValuesOverrides, onProgress?: ProgressCallback) => Promise<ChartBuild>;
+  update: (changes: Map<string, string | null>, onProgress?: ProgressCallback) => Promise<ChartBuild>;
+  setOverrides: (overrides: ValuesOverrides, onProgress?: ProgressCallback) => Promise<ChartBuild>;
+  layout: (algorithm: LayoutAlgorithm, graph: GraphData, options?: LayoutOptions) => Promise<GraphData>;
+  // The analyses below are of the chart of the last build
+  lint: (config: LintConfig) => Promise<Diagnostic[]>;
+  getValuesReport: () => Promise<ValuesReport>;
+  getSearchIndex: () => Promise<SearchItem[]>;
+  getValueImpact: (valuePath: string) => Promise<ValueImpact>;
+  terminate: () => void;
+}
+
+type WorkerResult = ChartWorkerResult | ChartAnalysisResult;
+
+interface PendingRequest {
+  resolve: (result: WorkerResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressCallback;
+}
+
+/**
+ * Parse, lay out, lint and analyse charts in a Web Worker so large charts
+ * don't freeze the page. Requests are answered in order; updates come back
+ * as patches, which are applied to the previous graph here so every build
+ * also has the whole graph. Where workers are unavailable the same session
+ * runs on the main thread.
+ */
+export function createChartWorkerClient(): ChartWorkerClient {
+  let graph: GraphData | null = null;
+  const send = typeof Worker === 'undefined' ? createInlineSender() : createWorkerSender();
+
+  const build = (body: ChartRequestBody, onProgress?: ProgressCallback): Promise<ChartBuild> =>
+    send.request(body, onProgress).then(response => {
+      const result = response as ChartWorkerResult;
+      graph = result.graph ?? (graph && result.patch ? applyGraphPatch(graph, result.patch) : { nodes: [], edges: [] });
+      return { ...result, graph };
+    });
+  const analyze = <K extends keyof ChartAnalysisResults>(body: ChartRequestBody & { type: K }) =>
+    send.request(body) as Promise<ChartAnalysisResults[K]>;
+
+  return {
+    load: (files, overrides, onProgress) => build({ type: 'load', files, overrides }, onProgress),
+    update: (changes, onProgress) => build({ type: 'update', changes }, onProgress),
+    setOverrides: (overrides, onProgress) => build({ type: 'overrides', overrides }, onProgress),
+    layout: (algorithm, graph, options) => analyze({ type: 'layout', algorithm, graph, options }),
+    lint: (config) => analyze({ type: 'lint', config }),
+    getValuesReport: () => analyze({ type: 'valuesReport' }),
+    getSearchIndex: () => analyze({ type: 'searchIndex' }),
+    getValueImpact: (valuePath) => analyze({ type: 'impact', valuePath }),
+    terminate: send.terminate,
+  };
+}
+
+interface Sender {
+  request: (body: ChartRequestBody, onProgress?: ProgressCallback) => Promise<WorkerResult>;
+  terminate: () => void;
+}
+
+function createWorkerSender(): Sender {
+  const worker = new Worker(new URL('./chart-worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, PendingRequest>();
+  let nextId = 1;
+
+  worker.onmessage = (event: MessageEvent<ChartWorkerResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.id);
+    if (!request) return;
+
+    if (response.type === 'progress') {
+      request.onProgress?.(response.progress);
+      return;
+    }
+    pending.delete(response.id);
+    if (response.type === 'result') {
+      request.resolve(response.result);
+    } else {
+      request.reject(new Error(response.message));
+    }
+  };
+
+  worker.onerror = (event) => {
+    const error = new Error(event.message || 'Chart worker failed');
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+  };
+
+  return {
+    request: (body, onProgress) => new Promise((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve, reject, onProgress });
+      worker.postMessage({ ...body, id } as ChartWorkerRequest);
+    }),
+    terminate: () => {
+      worker.terminate();
+      pending.forEach(request => request.reject(new Error('Chart worker terminated')));
+      pending.clear();
+    },
+  };
+}
+
+/**
+ * Same protocol without a worker, for environments that lack one
+ */
+function createInlineSender(): Sender {
+  const session = createChartSession();
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return {
+    request: (body, onProgress) => {
+      const result = queue.then(() => runChartRequest(session, body, onProgress));
+      queue = result.catch(() => undefined);
+      return result;
+    },
+    terminate: () => undefined,
+  };
+}
@@ -0,0 +1,28 @@
+import { ChartWorkerRequest, ChartWorkerResponse, LoadProgress } from '../types';
+import { createChartSession, runChartRequest } from './chart-session';
+
+// Progress is posted at most this often, besides the end of each stage
+const PROGRESS_INTERVAL_MS = 50;
+
+const session = createChartSession();
+
+function post(response: ChartWorkerResponse): void {
+  self.postMessage(response);
+}
+
+self.onmessage = (event: MessageEvent<ChartWorkerRequest>) => {
+  const request = event.data;
+  let lastProgress = 0;
+  const onProgress = (progress: LoadProgress) => {
+    const now = performance.now();
+    if (progress.done < progress.total && now - lastProgress < PROGRESS_INTERVAL_MS) return;
+    lastProgress = now;
+    post({ id: request.id, type: 'progress', progress });
+  };
+
+  try {
+    post({ id: request.id, type: 'result', result: runChartRequest(session, request, onProgress) });
+  } catch (error) {
+    post({ id: request.id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -17,6 +17,7 @@ export default {
         'helm-orange': '#d29922',
         'helm-red': '#f85149',
         'helm-cyan': '#39c5cf',
+        'helm-pink': '#db61a2',
       },
       fontFamily: {
         mono: ['JetBrains Mono', 'Fira Code', 'monospace'],
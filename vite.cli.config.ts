@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite';
+
+// The analyze CLI as a single Node script, so it runs without Bun
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: 'src/cli/index.ts',
+    outDir: 'dist/cli',
+    target: 'node18',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'helm-visualizer.js',
+      },
+    },
+  },
+});